@@ -4,6 +4,8 @@
  *
  * 命令: sdkwork
  * 直接进入交互式 TUI 界面与 Agent 对话
+ * 子命令: sdkwork plugin sign|verify（插件签名）
+ *         sdkwork run "prompt" [-f file] [-o text|json|jsonl]（非交互模式）
  * 
  * 增强版 CLI 功能：
  * - 智能补全 (Tab键)
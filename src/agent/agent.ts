@@ -39,10 +39,20 @@ import {
   ChatStartedPayload,
   ChatCompletedPayload,
 } from './domain/events.js';
-import { ReActEngine, createReActEngine } from './thinking/react-engine.js';
+import { ReActEngine, createReActEngine, createMeteredLLM } from './thinking/react-engine.js';
 import { ToolRegistry } from '../tools/registry.js';
+import { scopeToolRegistry } from '../tools/allowed-tools.js';
 import { SkillRegistryImpl } from './skills/registry.js';
-import type { MessageContentPart } from './domain/types.js';
+import type { MessageContentPart, ThinkingStep } from './domain/types.js';
+import {
+  InMemorySessionStore,
+  createSessionRecord,
+  type SessionRecord,
+  type SessionStore,
+  type SessionSummary,
+  type SessionToolResult,
+} from './sessions/session-store.js';
+import { UsageLedger, type UsageScope, type UsageTotals } from '../llm/usage-ledger.js';
 
 // ============================================================================
 // Helper Functions
@@ -58,6 +68,30 @@ function extractTextContent(content: string | MessageContentPart[]): string {
     .join('');
 }
 
+function extractAttachments(content: string | MessageContentPart[]): MessageContentPart[] {
+  if (typeof content === 'string') {
+    return [];
+  }
+  return content.filter(part => part.type !== 'text');
+}
+
+function isSameMessage(a: ChatMessage, b: ChatMessage): boolean {
+  if (a.id && b.id) return a.id === b.id;
+  return a.role === b.role && JSON.stringify(a.content) === JSON.stringify(b.content);
+}
+
+function extractToolResults(steps: ThinkingStep[]): SessionToolResult[] {
+  return steps
+    .filter(step => step.action.type === 'tool' || step.action.type === 'skill')
+    .map(step => ({
+      step: step.step,
+      type: step.action.type as 'tool' | 'skill',
+      name: step.action.name,
+      parameters: step.action.parameters,
+      observation: step.observation,
+    }));
+}
+
 // ============================================================================
 // Agent Dependencies
 // ============================================================================
@@ -69,6 +103,10 @@ export interface AgentDeps {
   memory: MemoryService;
   logger: Logger;
   eventBus?: EventBus;
+  /** 会话存储，默认仅保存在进程内存中 */
+  sessionStore?: SessionStore;
+  /** 用量账本（可在多个 Agent 间共享以执行统一预算） */
+  usageLedger?: UsageLedger;
 }
 
 // ============================================================================
@@ -89,9 +127,10 @@ export class Agent {
   private readonly memory: MemoryService;
   private readonly logger: Logger;
   private readonly eventBus: EventBus;
+  private readonly sessionStore: SessionStore;
+  private readonly usageLedger: UsageLedger;
 
   private thinkingEngine: ReActEngine;
-  private sessions = new Map<string, ChatMessage[]>();
 
   private static readonly DEFAULT_CONTEXT_WINDOW = 128000;
   private static readonly RESERVED_TOKENS = 4096;
@@ -108,6 +147,8 @@ export class Agent {
     this.memory = deps.memory;
     this.logger = deps.logger;
     this.eventBus = deps.eventBus || createEventBus();
+    this.sessionStore = deps.sessionStore || new InMemorySessionStore();
+    this.usageLedger = deps.usageLedger || new UsageLedger();
 
     this.thinkingEngine = createReActEngine({
       llm: this.llm,
@@ -123,8 +164,10 @@ export class Agent {
         enableDynamicSkillSelection: config.enableDynamicSkillSelection ?? true,
         skillSelectionThreshold: config.skillSelectionThreshold ?? 0.6,
         maxSelectedSkills: config.maxSelectedSkills ?? 3,
+        toolCallingMode: config.toolCallingMode ?? 'text',
       },
       eventBus: this.eventBus,
+      usageLedger: this.usageLedger,
     });
 
     this.logger.info(`[Agent:${this.name}] Created`, { agentId: this.id });
@@ -156,7 +199,7 @@ export class Agent {
   async chat(request: ChatRequest): Promise<ChatResponse> {
     this.setState(AgentState.CHATTING);
 
-    const chatId = `chat-${Date.now()}`;
+    const chatId = `chat-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
     const sessionId = request.sessionId || `session-${Date.now()}`;
 
     try {
@@ -175,13 +218,17 @@ export class Agent {
         throw new Error('Last message must be from user');
       }
 
-      const managedMessages = this.manageContextWindow(request.messages);
-      this.sessions.set(sessionId, [...managedMessages]);
+      const { session, input } = await this.openSession(sessionId, request.messages);
+      const history = this.manageContextWindow(session.messages.filter(message => message.id !== input.id));
 
       const thinkingResult = await this.think(extractTextContent(lastMessage.content), {
         sessionId,
         executionId: chatId,
+        attachments: extractAttachments(lastMessage.content),
+        history,
+        signal: request.signal,
       });
+      request.signal?.throwIfAborted();
 
       const responseMessage: ChatMessage = {
         id: `msg-${Date.now()}`,
@@ -195,20 +242,25 @@ export class Agent {
         },
       };
 
-      const session = this.sessions.get(sessionId) || [];
-      session.push(responseMessage);
-      this.sessions.set(sessionId, session);
-
       await this.memory.store({
         id: `memory-${Date.now()}`,
-        content: `User: ${lastMessage.content}\nAssistant: ${thinkingResult.answer}`,
+        content: `User: ${extractTextContent(lastMessage.content)}\nAssistant: ${thinkingResult.answer}`,
         type: 'message',
         timestamp: Date.now(),
         importance: 0.7,
       });
 
-      const promptTokens = this.estimateTokens(request.messages);
-      const completionTokens = this.estimateTokens([responseMessage]);
+      const usage = this.runUsage(chatId, [...history, input], responseMessage);
+      const { promptTokens, completionTokens } = usage;
+
+      await this.recordTurn(session, {
+        chatId,
+        input,
+        response: responseMessage,
+        success: thinkingResult.success,
+        steps: thinkingResult.steps,
+        usage,
+      });
 
       const response: ChatResponse = {
         id: chatId,
@@ -225,7 +277,7 @@ export class Agent {
         usage: {
           promptTokens,
           completionTokens,
-          totalTokens: promptTokens + completionTokens,
+          totalTokens: usage.totalTokens,
         },
       };
 
@@ -234,7 +286,7 @@ export class Agent {
         {
           chatId,
           response: thinkingResult.answer,
-          tokensUsed: promptTokens + completionTokens,
+          tokensUsed: usage.totalTokens,
           timestamp: new Date(),
         },
         { agentId: this.id, sessionId }
@@ -258,7 +310,7 @@ export class Agent {
   async *chatStream(request: ChatRequest): AsyncGenerator<ChatStreamChunk> {
     this.setState(AgentState.CHATTING);
 
-    const chatId = `chat-${Date.now()}`;
+    const chatId = `chat-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
     const sessionId = request.sessionId || `session-${Date.now()}`;
 
     try {
@@ -267,11 +319,16 @@ export class Agent {
         throw new Error('Last message must be from user');
       }
 
-      this.manageContextWindow(request.messages);
+      const { session, input } = await this.openSession(sessionId, request.messages);
+      const history = this.manageContextWindow(session.messages.filter(message => message.id !== input.id));
+      let completed: { answer: string; steps: ThinkingStep[]; incomplete?: boolean } | undefined;
 
       for await (const event of this.thinkStream(extractTextContent(lastMessage.content), {
         sessionId,
         executionId: chatId,
+        attachments: extractAttachments(lastMessage.content),
+        history,
+        signal: request.signal,
       })) {
         switch (event.type) {
           case 'thought':
@@ -323,6 +380,7 @@ export class Agent {
             break;
 
           case 'complete':
+            completed = event;
             yield {
               id: chatId,
               object: 'chat.completion.chunk',
@@ -339,6 +397,25 @@ export class Agent {
             break;
         }
       }
+      request.signal?.throwIfAborted();
+
+      if (completed) {
+        const responseMessage: ChatMessage = {
+          id: `msg-${Date.now()}`,
+          role: 'assistant',
+          content: completed.answer,
+          timestamp: Date.now(),
+          metadata: { thinkingSteps: completed.steps.length },
+        };
+        await this.recordTurn(session, {
+          chatId,
+          input,
+          response: responseMessage,
+          success: !completed.incomplete,
+          steps: completed.steps,
+          usage: this.runUsage(chatId, [...history, input], responseMessage),
+        });
+      }
 
       this.setState(AgentState.READY);
     } catch (error) {
@@ -349,7 +426,13 @@ export class Agent {
 
   async think(
     input: string,
-    context: { sessionId: string; executionId: string }
+    context: {
+      sessionId: string;
+      executionId: string;
+      attachments?: MessageContentPart[];
+      history?: ChatMessage[];
+      signal?: AbortSignal;
+    }
   ): Promise<ThinkingResult> {
     this.setState(AgentState.THINKING);
 
@@ -362,6 +445,9 @@ export class Agent {
         agentId: this.id,
         executionId: context.executionId,
         sessionId: context.sessionId,
+        attachments: context.attachments,
+        history: context.history,
+        signal: context.signal,
       });
 
       this.setState(AgentState.READY);
@@ -424,7 +510,13 @@ export class Agent {
 
   async *thinkStream(
     input: string,
-    context: { sessionId: string; executionId: string }
+    context: {
+      sessionId: string;
+      executionId: string;
+      attachments?: MessageContentPart[];
+      history?: ChatMessage[];
+      signal?: AbortSignal;
+    }
   ): AsyncGenerator<import('./thinking/react-engine.js').ThinkingStreamEvent> {
     this.setState(AgentState.THINKING);
 
@@ -433,6 +525,9 @@ export class Agent {
         agentId: this.id,
         executionId: context.executionId,
         sessionId: context.sessionId,
+        attachments: context.attachments,
+        history: context.history,
+        signal: context.signal,
       });
 
       this.setState(AgentState.READY);
@@ -466,14 +561,26 @@ export class Agent {
         throw new Error(`Skill execution blocked: ${reason?.message || 'Unknown reason'}`);
       }
 
+      // Skill 只能看到并调用 allowed-tools 中声明的工具
+      const skill = this.skillRegistry.get(skillId);
+      const tools = scopeToolRegistry(this.toolRegistry, skill?.metadata?.allowedTools, {
+        scope: skill?.name ?? skillId,
+        onViolation: violation => this.eventBus.publish(
+          'skill:tool:denied',
+          { skillId, ...violation },
+          { agentId: this.id, executionId }
+        ),
+      });
+
       const result = await this.skillRegistry.execute(skillId, input, {
         executionId,
         agentId: this.id,
         input,
         logger: this.logger,
-        llm: this.llm,
+        // 技能内的模型调用同样计入用量账本与预算
+        llm: createMeteredLLM(this.llm, this.usageLedger, () => ({ agentId: this.id, executionId }), `skill:${skill?.name ?? skillId}`),
         memory: this.memory,
-        tools: this.toolRegistry,
+        tools,
         executionContext,
       });
 
@@ -531,12 +638,30 @@ export class Agent {
     this.logger.info(`[Agent:${this.name}] Tool unregistered: ${toolId}`);
   }
 
-  getSessionHistory(sessionId: string): ChatMessage[] {
-    return this.sessions.get(sessionId) || [];
+  async getSessionHistory(sessionId: string): Promise<ChatMessage[]> {
+    return (await this.sessionStore.load(sessionId))?.messages || [];
+  }
+
+  /**
+   * 完整会话记录（消息、思考步骤、工具结果与 Token 用量）
+   */
+  async getSession(sessionId: string): Promise<SessionRecord | null> {
+    return this.sessionStore.load(sessionId);
   }
 
-  clearSession(sessionId: string): void {
-    this.sessions.delete(sessionId);
+  /**
+   * 该 Agent 的累计用量，可按会话或单次运行过滤
+   */
+  getUsage(filter: Omit<UsageScope, 'agentId'> = {}): UsageTotals {
+    return this.usageLedger.totals({ agentId: this.id, ...filter });
+  }
+
+  async listSessions(): Promise<SessionSummary[]> {
+    return this.sessionStore.list();
+  }
+
+  async clearSession(sessionId: string): Promise<void> {
+    await this.sessionStore.delete(sessionId);
     this.logger.info(`[Agent:${this.name}] Session cleared: ${sessionId}`);
   }
 
@@ -556,7 +681,6 @@ export class Agent {
     this.setState(AgentState.DESTROYED);
 
     this.thinkingEngine.abort();
-    this.sessions.clear();
 
     // 清理事件总线订阅
     this.eventBus.clear();
@@ -587,6 +711,92 @@ export class Agent {
     }
   }
 
+  /**
+   * 加载已保存的会话并合并本次请求的消息
+   *
+   * 已保存过的消息（按 ID，或无 ID 时按与已保存历史逐条一致的前缀）不会重复追加，
+   * 因此调用方既可以只发送新消息，也可以继续发送完整历史。返回的 input 为本轮用户消息。
+   */
+  private async openSession(
+    sessionId: string,
+    messages: ChatMessage[]
+  ): Promise<{ session: SessionRecord; input: ChatMessage }> {
+    const session = (await this.sessionStore.load(sessionId)) || createSessionRecord(sessionId, this.id);
+    this.usageLedger.restoreSession(sessionId, session.usage);
+    const known = new Set(session.messages.map(message => message.id));
+
+    let replayed = 0;
+    while (
+      replayed < messages.length - 1 &&
+      replayed < session.messages.length &&
+      isSameMessage(session.messages[replayed], messages[replayed])
+    ) {
+      replayed++;
+    }
+
+    let input = messages[messages.length - 1];
+    for (const message of messages.slice(replayed)) {
+      if (message.id && known.has(message.id)) continue;
+      const stored = {
+        ...message,
+        id: message.id || `msg-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+        timestamp: message.timestamp || Date.now(),
+      };
+      session.messages.push(stored);
+      known.add(stored.id);
+      if (message === input) input = stored;
+    }
+    return { session, input };
+  }
+
+  private async recordTurn(
+    session: SessionRecord,
+    turn: {
+      chatId: string;
+      input: ChatMessage;
+      response: ChatMessage;
+      success: boolean;
+      steps: ThinkingStep[];
+      usage: SessionRecord['usage'];
+    }
+  ): Promise<void> {
+    session.messages.push(turn.response);
+    session.turns.push({
+      chatId: turn.chatId,
+      inputMessageId: turn.input.id,
+      responseMessageId: turn.response.id,
+      success: turn.success,
+      steps: turn.steps,
+      toolResults: extractToolResults(turn.steps),
+      usage: turn.usage,
+      timestamp: Date.now(),
+    });
+    session.usage = {
+      promptTokens: session.usage.promptTokens + turn.usage.promptTokens,
+      completionTokens: session.usage.completionTokens + turn.usage.completionTokens,
+      totalTokens: session.usage.totalTokens + turn.usage.totalTokens,
+      cost: (session.usage.cost ?? 0) + (turn.usage.cost ?? 0),
+    };
+    session.updatedAt = Date.now();
+
+    await this.sessionStore.save(session);
+  }
+
+  /**
+   * 本次运行的用量：优先使用账本中的提供商真实 usage，没有模型调用时按字符数估算
+   */
+  private runUsage(chatId: string, prompt: ChatMessage[], response: ChatMessage): SessionRecord['usage'] {
+    const totals = this.usageLedger.totals({ executionId: chatId });
+    if (totals.calls > 0) {
+      const { promptTokens, completionTokens, totalTokens, cost } = totals;
+      return { promptTokens, completionTokens, totalTokens, cost };
+    }
+
+    const promptTokens = this.estimateTokens(prompt);
+    const completionTokens = this.estimateTokens([response]);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, cost: 0 };
+  }
+
   private estimateTokens(messages: ChatMessage[]): number {
     let total = 0;
     for (const msg of messages) {
@@ -650,14 +860,17 @@ export function createAgent(config: {
   skillSelectionThreshold?: number;
   maxSelectedSkills?: number;
   enableParallelTools?: boolean;
+  toolCallingMode?: 'text' | 'native';
   llm: LLMService;
   skillRegistry?: SkillRegistryImpl;
   toolRegistry?: ToolRegistry;
   memory: MemoryService;
   logger: Logger;
   eventBus?: EventBus;
+  sessionStore?: SessionStore;
+  usageLedger?: UsageLedger;
 }): Agent {
-  const { llm, skillRegistry, toolRegistry, memory, logger, eventBus, ...agentConfig } = config;
+  const { llm, skillRegistry, toolRegistry, memory, logger, eventBus, sessionStore, usageLedger, ...agentConfig } = config;
 
   return new Agent(agentConfig as AgentConfig, {
     llm,
@@ -666,6 +879,8 @@ export function createAgent(config: {
     memory,
     logger,
     eventBus,
+    sessionStore,
+    usageLedger,
   });
 }
 
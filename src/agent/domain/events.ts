@@ -36,7 +36,8 @@ export type AgentEventType =
   | 'thinking:step'
   | 'thinking:completed'
   | 'thinking:failed'
-  | 'thinking:reflected';
+  | 'thinking:reflected'
+  | 'thinking:budget:exceeded';
 
 /** Skill 事件类型 */
 export type SkillEventType =
@@ -48,7 +49,8 @@ export type SkillEventType =
   | 'skill:failed'
   | 'skill:error'
   | 'skill:aborted'
-  | 'skill:hot:reloaded';
+  | 'skill:hot:reloaded'
+  | 'skill:tool:denied';
 
 /** Tool 事件类型 */
 export type ToolEventType =
@@ -58,7 +60,9 @@ export type ToolEventType =
   | 'tool:invoked'
   | 'tool:completed'
   | 'tool:failed'
-  | 'tool:aborted';
+  | 'tool:aborted'
+  | 'tool:approval:requested'
+  | 'tool:approval:decided';
 
 /** Memory 事件类型 */
 export type MemoryEventType =
@@ -105,6 +105,8 @@ export interface AgentConfig {
   maxSelectedSkills?: number;
   /** 是否启用并行工具调用 */
   enableParallelTools?: boolean;
+  /** 工具调用模式：text 解析文本动作，native 使用 LLM 原生 tool_calls */
+  toolCallingMode?: 'text' | 'native';
   /** LLM 配置 */
   llm: LLMConfig;
   /** 内存配置 */
@@ -229,6 +231,8 @@ export interface ChatRequest {
   sessionId?: SessionId;
   /** 元数据 */
   metadata?: Record<string, unknown>;
+  /** 中止信号（取消进行中的 LLM 请求与工具执行） */
+  signal?: AbortSignal;
 }
 
 /**
@@ -249,6 +253,8 @@ export interface ChatResponse {
   usage: ChatUsage;
   /** 系统指纹 */
   systemFingerprint?: string;
+  /** 结构化输出（responseFormat 为 json_schema / json_object 时，已按 schema 校验） */
+  parsed?: unknown;
 }
 
 /**
@@ -386,6 +392,8 @@ export interface SkillMetadata {
   author?: string;
   /** 依赖 */
   dependencies?: string[];
+  /** SKILL.md allowed-tools，执行时只能调用其中的工具（未声明则不限制） */
+  allowedTools?: string | string[];
 }
 
 /**
@@ -623,6 +631,8 @@ export interface Action {
   name: string;
   /** 参数 */
   parameters: Record<string, unknown>;
+  /** 原生工具调用 ID（native 模式下用于回传 tool 消息） */
+  id?: string;
 }
 
 /**
@@ -643,4 +653,6 @@ export interface ThinkingResult {
   skillSelectionConfidence?: number;
   /** Skill选择理由 */
   skillSelectionReasoning?: string;
+  /** 本次运行的真实用量（配置用量账本时提供，cost 单位为美元） */
+  usage?: ChatUsage & { calls: number; cost: number };
 }
@@ -135,6 +135,28 @@ export {
   createReActEngine,
 } from './thinking/react-engine.js';
 
+// ============================================================================
+// Sessions
+// ============================================================================
+
+export type {
+  SessionStore,
+  SessionRecord,
+  SessionSummary,
+  SessionTurn,
+  SessionToolResult,
+  SessionUsage,
+} from './sessions/session-store.js';
+export type { FileSessionStoreOptions } from './sessions/file-session-store.js';
+export type { SqliteSessionStoreOptions } from './sessions/sqlite-session-store.js';
+
+export {
+  InMemorySessionStore,
+  createSessionRecord,
+} from './sessions/session-store.js';
+export { FileSessionStore } from './sessions/file-session-store.js';
+export { SqliteSessionStore } from './sessions/sqlite-session-store.js';
+
 // ============================================================================
 // Default
 // ============================================================================
@@ -0,0 +1,80 @@
+/**
+ * File Session Store - 每个会话一个 JSON 文件
+ *
+ * 写入先落盘到临时文件再 rename，进程中途退出不会留下半个会话文件。
+ *
+ * @module Agent
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { SessionId } from '../domain/types.js';
+import {
+  assertValidSessionId,
+  summarizeSession,
+  type SessionRecord,
+  type SessionStore,
+  type SessionSummary,
+} from './session-store.js';
+
+export interface FileSessionStoreOptions {
+  /** 会话文件目录 */
+  directory: string;
+}
+
+export class FileSessionStore implements SessionStore {
+  private readonly directory: string;
+
+  constructor(options: FileSessionStoreOptions) {
+    this.directory = path.resolve(options.directory);
+  }
+
+  async load(sessionId: SessionId): Promise<SessionRecord | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath(sessionId), 'utf-8')) as SessionRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(session: SessionRecord): Promise<void> {
+    const target = this.filePath(session.id);
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    try {
+      await fs.writeFile(temp, JSON.stringify(session), 'utf-8');
+      await fs.rename(temp, target);
+    } catch (error) {
+      await fs.rm(temp, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(sessionId: SessionId): Promise<void> {
+    await fs.rm(this.filePath(sessionId), { force: true });
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const summaries: SessionSummary[] = [];
+    for (const name of names.filter(name => name.endsWith('.json'))) {
+      const session = await this.load(name.slice(0, -'.json'.length));
+      if (session) summaries.push(summarizeSession(session));
+    }
+    return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private filePath(sessionId: SessionId): string {
+    assertValidSessionId(sessionId);
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+}
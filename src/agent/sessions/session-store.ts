@@ -0,0 +1,146 @@
+/**
+ * Session Store - 会话持久化
+ *
+ * Agent 通过 SessionStore 保存对话历史、思考步骤、工具结果与 Token 用量，
+ * 进程重启后以相同 sessionId 调用 chat() 即可恢复会话。
+ *
+ * @module Agent
+ */
+
+import type { ChatMessage, ChatUsage, SessionId, ThinkingStep } from '../domain/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Token 用量与成本（美元，无法定价的模型不计入）
+ */
+export interface SessionUsage extends ChatUsage {
+  cost?: number;
+}
+
+/**
+ * 单次工具 / Skill 调用结果
+ */
+export interface SessionToolResult {
+  step: number;
+  type: 'tool' | 'skill';
+  name: string;
+  parameters: Record<string, unknown>;
+  observation: string;
+}
+
+/**
+ * 一轮对话（一次 chat 调用）的执行记录
+ */
+export interface SessionTurn {
+  chatId: string;
+  /** 用户消息 ID */
+  inputMessageId: string;
+  /** 助手回复消息 ID */
+  responseMessageId: string;
+  success: boolean;
+  steps: ThinkingStep[];
+  toolResults: SessionToolResult[];
+  usage: SessionUsage;
+  timestamp: number;
+}
+
+export interface SessionRecord {
+  id: SessionId;
+  agentId?: string;
+  messages: ChatMessage[];
+  turns: SessionTurn[];
+  /** 累计 Token 用量 */
+  usage: SessionUsage;
+  createdAt: number;
+  updatedAt: number;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SessionSummary {
+  id: SessionId;
+  agentId?: string;
+  messageCount: number;
+  usage: SessionUsage;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface SessionStore {
+  load(sessionId: SessionId): Promise<SessionRecord | null>;
+  /** 保存完整会话（覆盖同 ID 的已有记录） */
+  save(session: SessionRecord): Promise<void>;
+  delete(sessionId: SessionId): Promise<void>;
+  /** 按最近更新时间倒序 */
+  list(): Promise<SessionSummary[]>;
+  close?(): Promise<void>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function createSessionRecord(sessionId: SessionId, agentId?: string): SessionRecord {
+  const now = Date.now();
+  return {
+    id: sessionId,
+    agentId,
+    messages: [],
+    turns: [],
+    usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0 },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+export function summarizeSession(session: SessionRecord): SessionSummary {
+  return {
+    id: session.id,
+    agentId: session.agentId,
+    messageCount: session.messages.length,
+    usage: { ...session.usage },
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+  };
+}
+
+/**
+ * 会话 ID 会被用作文件名，限制为安全字符
+ */
+export function assertValidSessionId(sessionId: SessionId): void {
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]{0,199}$/.test(sessionId)) {
+    throw new Error(`Invalid session id: ${JSON.stringify(sessionId)}`);
+  }
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * 默认存储：仅在进程内保留会话
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions = new Map<SessionId, string>();
+
+  async load(sessionId: SessionId): Promise<SessionRecord | null> {
+    const data = this.sessions.get(sessionId);
+    // 序列化存储，避免调用方修改返回值影响已保存的记录
+    return data ? (JSON.parse(data) as SessionRecord) : null;
+  }
+
+  async save(session: SessionRecord): Promise<void> {
+    this.sessions.set(session.id, JSON.stringify(session));
+  }
+
+  async delete(sessionId: SessionId): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    return Array.from(this.sessions.values(), data => summarizeSession(JSON.parse(data) as SessionRecord))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * SQLite Session Store
+ *
+ * 会话元数据、消息与执行记录分表存储，保存时在单个事务中整体替换，
+ * 多个进程可共享同一数据库文件。
+ *
+ * @module Agent
+ */
+
+import { openSqliteDatabase, type SqliteDatabase } from '../../storage/sqlite-backend.js';
+import type { ChatMessage, SessionId } from '../domain/types.js';
+import type { SessionRecord, SessionStore, SessionSummary, SessionTurn } from './session-store.js';
+
+export interface SqliteSessionStoreOptions {
+  /** 数据库文件，默认 `:memory:` */
+  filename?: string;
+  /** 复用已打开的连接（不会在 close 时关闭） */
+  database?: SqliteDatabase;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS agent_sessions (
+  id TEXT PRIMARY KEY,
+  agent_id TEXT,
+  prompt_tokens INTEGER NOT NULL DEFAULT 0,
+  completion_tokens INTEGER NOT NULL DEFAULT 0,
+  total_tokens INTEGER NOT NULL DEFAULT 0,
+  cost REAL NOT NULL DEFAULT 0,
+  metadata TEXT,
+  created_at INTEGER NOT NULL,
+  updated_at INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS agent_session_messages (
+  session_id TEXT NOT NULL REFERENCES agent_sessions (id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  message TEXT NOT NULL,
+  PRIMARY KEY (session_id, seq)
+);
+CREATE TABLE IF NOT EXISTS agent_session_turns (
+  session_id TEXT NOT NULL REFERENCES agent_sessions (id) ON DELETE CASCADE,
+  seq INTEGER NOT NULL,
+  turn TEXT NOT NULL,
+  PRIMARY KEY (session_id, seq)
+);
+`;
+
+interface SessionRow {
+  id: string;
+  agent_id: string | null;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number;
+  metadata: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export class SqliteSessionStore implements SessionStore {
+  private db: SqliteDatabase | null = null;
+  private opening: Promise<SqliteDatabase> | null = null;
+  private readonly ownsDatabase: boolean;
+
+  constructor(private options: SqliteSessionStoreOptions = {}) {
+    this.ownsDatabase = !options.database;
+  }
+
+  async load(sessionId: SessionId): Promise<SessionRecord | null> {
+    const db = await this.open();
+    const row = db.prepare('SELECT * FROM agent_sessions WHERE id = ?').get(sessionId) as SessionRow | undefined;
+    if (!row) return null;
+
+    const messages = db
+      .prepare('SELECT message FROM agent_session_messages WHERE session_id = ? ORDER BY seq')
+      .all(sessionId) as Array<{ message: string }>;
+    const turns = db
+      .prepare('SELECT turn FROM agent_session_turns WHERE session_id = ? ORDER BY seq')
+      .all(sessionId) as Array<{ turn: string }>;
+
+    return {
+      ...this.toSummaryFields(row),
+      metadata: row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : undefined,
+      messages: messages.map(({ message }) => JSON.parse(message) as ChatMessage),
+      turns: turns.map(({ turn }) => JSON.parse(turn) as SessionTurn),
+    };
+  }
+
+  async save(session: SessionRecord): Promise<void> {
+    const db = await this.open();
+
+    db.exec('BEGIN IMMEDIATE');
+    try {
+      db.prepare(
+        `INSERT INTO agent_sessions (id, agent_id, prompt_tokens, completion_tokens, total_tokens, cost, metadata, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           agent_id = excluded.agent_id,
+           prompt_tokens = excluded.prompt_tokens,
+           completion_tokens = excluded.completion_tokens,
+           total_tokens = excluded.total_tokens,
+           cost = excluded.cost,
+           metadata = excluded.metadata,
+           updated_at = excluded.updated_at`
+      ).run(
+        session.id,
+        session.agentId ?? null,
+        session.usage.promptTokens,
+        session.usage.completionTokens,
+        session.usage.totalTokens,
+        session.usage.cost ?? 0,
+        session.metadata ? JSON.stringify(session.metadata) : null,
+        session.createdAt,
+        session.updatedAt
+      );
+
+      db.prepare('DELETE FROM agent_session_messages WHERE session_id = ?').run(session.id);
+      db.prepare('DELETE FROM agent_session_turns WHERE session_id = ?').run(session.id);
+      const insertMessage = db.prepare('INSERT INTO agent_session_messages (session_id, seq, message) VALUES (?, ?, ?)');
+      session.messages.forEach((message, seq) => insertMessage.run(session.id, seq, JSON.stringify(message)));
+      const insertTurn = db.prepare('INSERT INTO agent_session_turns (session_id, seq, turn) VALUES (?, ?, ?)');
+      session.turns.forEach((turn, seq) => insertTurn.run(session.id, seq, JSON.stringify(turn)));
+
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  async delete(sessionId: SessionId): Promise<void> {
+    const db = await this.open();
+    db.prepare('DELETE FROM agent_sessions WHERE id = ?').run(sessionId);
+  }
+
+  async list(): Promise<SessionSummary[]> {
+    const db = await this.open();
+    const rows = db.prepare(
+      `SELECT s.*, (SELECT COUNT(*) FROM agent_session_messages m WHERE m.session_id = s.id) AS message_count
+       FROM agent_sessions s ORDER BY s.updated_at DESC`
+    ).all() as Array<SessionRow & { message_count: number }>;
+
+    return rows.map(row => ({ ...this.toSummaryFields(row), messageCount: Number(row.message_count) }));
+  }
+
+  async close(): Promise<void> {
+    if (this.db && this.ownsDatabase) {
+      this.db.close();
+    }
+    this.db = null;
+    this.opening = null;
+  }
+
+  private open(): Promise<SqliteDatabase> {
+    if (this.db) return Promise.resolve(this.db);
+    this.opening ??= (async () => {
+      const db = this.options.database ?? (await openSqliteDatabase(this.options.filename));
+      db.exec('PRAGMA foreign_keys = ON');
+      db.exec(SCHEMA);
+      this.db = db;
+      return db;
+    })();
+    return this.opening;
+  }
+
+  private toSummaryFields(row: SessionRow) {
+    return {
+      id: row.id,
+      agentId: row.agent_id ?? undefined,
+      usage: {
+        promptTokens: Number(row.prompt_tokens),
+        completionTokens: Number(row.completion_tokens),
+        totalTokens: Number(row.total_tokens),
+        cost: Number(row.cost),
+      },
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+    };
+  }
+}
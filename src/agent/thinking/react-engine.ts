@@ -19,6 +19,10 @@ import type {
   AgentId,
   ExecutionId,
   MessageContentPart,
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ToolDefinition,
 } from '../domain/types.js';
 import { EventBus, createEventBus } from '../domain/events.js';
 import {
@@ -31,8 +35,36 @@ import { DynamicSkillSelector, createDynamicSelector } from '../../skills/core/d
 import { 
   SkillToolAdapter, 
   createSkillToolAdapter,
+  zodToToolParameters,
   type SkillToolDefinition 
 } from '../../skills/skill-tool-adapter.js';
+import { validateStructuredContent } from '../../llm/structured.js';
+import type { JsonSchema } from '../../utils/schema-validator.js';
+import { formatToolError } from '../../tools/validation.js';
+import { scopeToolRegistry } from '../../tools/allowed-tools.js';
+import { BudgetExceededError, UsageLedger, estimateTokens, type UsageScope } from '../../llm/usage-ledger.js';
+
+/**
+ * text 模式下动作选择的结构化输出 Schema
+ */
+const ACTIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    actions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: ['tool', 'skill', 'think', 'finish'] },
+          name: { type: 'string' },
+          parameters: { type: 'object' },
+        },
+        required: ['type', 'name'],
+      },
+    },
+  },
+  required: ['actions'],
+};
 
 export interface ReActConfig {
   maxSteps?: number;
@@ -52,6 +84,12 @@ export interface ReActConfig {
   skillSelectionThreshold?: number;
   /** 最大选择的Skill数量 */
   maxSelectedSkills?: number;
+  /**
+   * 工具调用模式
+   * - text: 模型以文本输出动作，由 parseActions 解析（默认）
+   * - native: 通过 tools/tool_calls 原生调用，每步仅一次 LLM 调用
+   */
+  toolCallingMode?: 'text' | 'native';
 }
 
 /**
@@ -67,6 +105,66 @@ function extractTextContent(content: string | MessageContentPart[]): string {
     .join('');
 }
 
+function estimatePromptTokens(request: ChatRequest): number {
+  return estimateTokens(request.messages.map(message => extractTextContent(message.content)).join('\n'));
+}
+
+/**
+ * 包装 LLMService，使每次调用都记入用量账本：调用前检查预算（耗尽时抛出
+ * BudgetExceededError），调用后记录 usage，缺失时按文本估算
+ *
+ * ReAct 引擎自身的调用与技能通过 ctx.llm 发起的调用共用同一账本和预算。
+ */
+export function createMeteredLLM(
+  llm: LLMService,
+  usageLedger: UsageLedger | undefined,
+  getScope: () => UsageScope,
+  purpose: string
+): LLMService {
+  if (!usageLedger) return llm;
+
+  return {
+    complete: async (request) => {
+      const scope = getScope();
+      usageLedger.assertWithinBudget(scope);
+
+      const response = await llm.complete(request);
+
+      usageLedger.record({
+        model: response.model || request.model || 'unknown',
+        usage: response.usage,
+        estimate: () => ({
+          promptTokens: estimatePromptTokens(request),
+          completionTokens: estimateTokens(extractTextContent(response.choices[0]?.message?.content || '')),
+        }),
+        scope,
+        purpose,
+      });
+      return response;
+    },
+    completeStream: async function* (request) {
+      const scope = getScope();
+      usageLedger.assertWithinBudget(scope);
+
+      let model = request.model || 'unknown';
+      let content = '';
+      for await (const chunk of llm.completeStream(request)) {
+        model = chunk.model || model;
+        content += chunk.choices[0]?.delta?.content ?? '';
+        yield chunk;
+      }
+
+      // 流式响应不携带 usage，按文本估算
+      usageLedger.record({
+        model,
+        estimate: () => ({ promptTokens: estimatePromptTokens(request), completionTokens: estimateTokens(content) }),
+        scope,
+        purpose,
+      });
+    },
+  };
+}
+
 export interface ReActState {
   currentStep: number;
   steps: ThinkingStep[];
@@ -78,6 +176,12 @@ export interface ReActState {
   executionContext?: ExecutionContextManager;
   /** 当前选择的Skill列表 */
   selectedSkills: string[];
+  /** 用户消息附带的多模态内容（图片、文档） */
+  attachments?: MessageContentPart[];
+  /** 本轮之前的会话消息（恢复的会话历史） */
+  history?: ChatMessage[];
+  /** native 模式下的对话消息（含 assistant tool_calls 与 tool 结果） */
+  conversation?: ChatMessage[];
   /** Skill选择结果 */
   skillSelectionResult?: {
     selectedSkills: string[];
@@ -92,10 +196,14 @@ export class ReActEngine {
   private state: ReActState;
   private eventBus: EventBus;
   private abortController: AbortController;
+  /** 当前执行的中止信号（abort() 与调用方传入的 signal 合并） */
+  private signal: AbortSignal;
   private skillSelector?: DynamicSkillSelector;
   private skillToolAdapter: SkillToolAdapter;
   private _cachedToolsDescription?: string;
   private _toolsCacheKey?: string;
+  /** 当前运行的用量归属（agent / session / execution） */
+  private usageScope: UsageScope = {};
 
   constructor(
     private llm: LLMService,
@@ -104,7 +212,8 @@ export class ReActEngine {
     private memory: MemoryService,
     private logger: Logger,
     config: ReActConfig = {},
-    eventBus?: EventBus
+    eventBus?: EventBus,
+    private usageLedger?: UsageLedger
   ) {
     const defaultLimits: ExecutionLimits = {
       maxDepth: 20, // 增加到 20 层
@@ -130,16 +239,23 @@ export class ReActEngine {
       enableReflection: true,
       reflectionInterval: 3,
       maxReflections: 5, // 增加到 5 次
-      systemPrompt: this.getDefaultSystemPrompt(),
+      systemPrompt: '',
       temperature: 0.7,
       enableParallelTools: false,
       enableDynamicSkillSelection: true,
       skillSelectionThreshold: 0.6,
       maxSelectedSkills: 3,
+      toolCallingMode: 'text',
       executionLimits,
       ...restConfig,
     };
 
+    if (!this.config.systemPrompt) {
+      this.config.systemPrompt = this.config.toolCallingMode === 'native'
+        ? this.getDefaultNativeSystemPrompt()
+        : this.getDefaultSystemPrompt();
+    }
+
     this.state = {
       currentStep: 0,
       steps: [],
@@ -152,6 +268,7 @@ export class ReActEngine {
 
     this.eventBus = eventBus || createEventBus();
     this.abortController = new AbortController(); // 每次构造时重置
+    this.signal = this.abortController.signal;
     this.skillToolAdapter = createSkillToolAdapter({ prefix: 'skill_' });
 
     if (this.config.enableDynamicSkillSelection) {
@@ -171,10 +288,13 @@ export class ReActEngine {
       agentId: AgentId;
       executionId: ExecutionId;
       sessionId?: string;
+      attachments?: MessageContentPart[];
+      history?: ChatMessage[];
+      signal?: AbortSignal;
     }
   ): Promise<ThinkingResult> {
     // 重置状态和 AbortController（每次 think 调用时重置）
-    this.abortController = new AbortController();
+    this.resetAbortSignal(context.signal);
     this.state = {
       currentStep: 0,
       steps: [],
@@ -183,8 +303,12 @@ export class ReActEngine {
       startTime: Date.now(),
       isComplete: false,
       selectedSkills: [],
+      attachments: context.attachments,
+      history: context.history,
     };
 
+    this.usageScope = { agentId: context.agentId, sessionId: context.sessionId, executionId: context.executionId };
+
     // 创建执行上下文
     this.state.executionContext = createExecutionContext({
       executionId: context.executionId,
@@ -227,10 +351,10 @@ export class ReActEngine {
 
       for (let step = 1; step <= this.config.maxSteps; step++) {
         // 检查执行上下文是否已中止
-        if (this.abortController.signal.aborted || this.state.executionContext?.isAborted()) {
+        if (this.signal.aborted || this.state.executionContext?.isAborted()) {
           const reason = this.state.executionContext?.getAbortReason();
           this.logger.warn('[ReAct] Thinking process aborted', { reason });
-          throw new Error(`Thinking process aborted: ${reason?.message || 'Unknown reason'}`);
+          throw new Error(`Thinking process aborted: ${reason?.message || 'Cancelled'}`);
         }
 
         // 检查是否可以继续执行
@@ -243,12 +367,9 @@ export class ReActEngine {
         this.state.currentStep = step;
         const stepStartTime = Date.now();
 
-        // 1. 生成思考
-        const thought = await this.generateThought(input, step, memoryContext);
+        // 1-2. 生成思考并选择动作（支持并行）
+        const { thought, actions } = await this.nextTurn(input, step, memoryContext);
         this.logger.debug(`[ReAct Step ${step}] Thought: ${thought}`);
-
-        // 2. 选择动作（支持并行）
-        const actions = await this.selectActions(thought, step);
         this.logger.debug(`[ReAct Step ${step}] Actions: ${actions.length}`);
 
         // 检查是否完成
@@ -276,6 +397,7 @@ export class ReActEngine {
 
         // 3. 执行动作（支持并行）
         const observations = await this.executeActions(actions, step, context);
+        this.recordToolResults(actions, observations);
         const stepDuration = Date.now() - stepStartTime;
 
         // 记录步骤
@@ -329,6 +451,11 @@ export class ReActEngine {
       return result;
     } catch (error) {
       if (timeoutId) clearTimeout(timeoutId);
+
+      if (error instanceof BudgetExceededError) {
+        return this.finishOverBudget(error, context);
+      }
+
       this.logger.error('[ReAct] Thinking process failed', {}, error as Error);
 
       this.eventBus.publish(
@@ -351,9 +478,17 @@ export class ReActEngine {
       agentId: AgentId;
       executionId: ExecutionId;
       sessionId?: string;
+      attachments?: MessageContentPart[];
+      history?: ChatMessage[];
+      signal?: AbortSignal;
     }
   ): AsyncGenerator<ThinkingStreamEvent> {
     this.reset();
+    this.resetAbortSignal(context.signal);
+    this.state.attachments = context.attachments;
+    this.state.history = context.history;
+
+    this.usageScope = { agentId: context.agentId, sessionId: context.sessionId, executionId: context.executionId };
 
     // 创建执行上下文
     this.state.executionContext = createExecutionContext({
@@ -374,9 +509,9 @@ export class ReActEngine {
 
       for (let step = 1; step <= this.config.maxSteps; step++) {
         // 检查执行上下文是否已中止
-        if (this.abortController.signal.aborted || this.state.executionContext?.isAborted()) {
+        if (this.signal.aborted || this.state.executionContext?.isAborted()) {
           const reason = this.state.executionContext?.getAbortReason();
-          yield { type: 'error', error: `Thinking process aborted: ${reason?.message || 'Unknown reason'}` };
+          yield { type: 'error', error: `Thinking process aborted: ${reason?.message || 'Cancelled'}` };
           return;
         }
 
@@ -390,10 +525,8 @@ export class ReActEngine {
         this.state.currentStep = step;
         const stepStartTime = Date.now();
 
-        const thought = await this.generateThought(input, step, memoryContext);
+        const { thought, actions } = await this.nextTurn(input, step, memoryContext);
         yield { type: 'thought', step, thought };
-
-        const actions = await this.selectActions(thought, step);
         yield { type: 'actions', step, actions };
 
         const finishAction = actions.find(a => a.type === 'finish');
@@ -406,6 +539,7 @@ export class ReActEngine {
         }
 
         const observations = await this.executeActions(actions, step, context);
+        this.recordToolResults(actions, observations);
         const stepDuration = Date.now() - stepStartTime;
 
         this.state.steps.push({
@@ -433,6 +567,12 @@ export class ReActEngine {
       // 清理执行上下文
       removeExecutionContext(context.executionId);
     } catch (error) {
+      if (error instanceof BudgetExceededError) {
+        const result = this.finishOverBudget(error, context);
+        yield { type: 'complete', answer: result.answer, steps: result.steps, incomplete: true, reason: error.message };
+        return;
+      }
+
       // 清理执行上下文
       if (this.state.executionContext) {
         removeExecutionContext(this.state.executionContext['executionId']);
@@ -450,7 +590,6 @@ export class ReActEngine {
   }
 
   reset(): void {
-    this.abortController = new AbortController(); // 重置 AbortController
     this.state = {
       currentStep: 0,
       steps: [],
@@ -462,7 +601,18 @@ export class ReActEngine {
       selectedSkills: [],
       skillSelectionResult: undefined,
     };
+    this.resetAbortSignal();
+  }
+
+  /**
+   * 重置 AbortController，并与调用方的 signal 合并，
+   * 使外部取消能中断进行中的 LLM 请求、工具和 Skill 执行
+   */
+  private resetAbortSignal(external?: AbortSignal): void {
     this.abortController = new AbortController();
+    this.signal = external
+      ? AbortSignal.any([this.abortController.signal, external])
+      : this.abortController.signal;
   }
 
   // ============================================================================
@@ -616,13 +766,175 @@ export class ReActEngine {
     }
   }
 
+  /**
+   * 调用模型并记入用量账本；预算已耗尽时在调用前抛出 BudgetExceededError
+   */
+  private complete(purpose: string, request: ChatRequest): Promise<ChatResponse> {
+    return this.meteredLLM(purpose).complete(request);
+  }
+
+  private meteredLLM(purpose: string): LLMService {
+    return createMeteredLLM(this.llm, this.usageLedger, () => ({ ...this.usageScope, step: this.state.currentStep }), purpose);
+  }
+
+  /**
+   * 预算耗尽：以已有步骤合成部分答案结束本次运行，而不是作为错误抛出
+   */
+  private finishOverBudget(
+    error: BudgetExceededError,
+    context: { agentId: AgentId; executionId: ExecutionId; sessionId?: string }
+  ): ThinkingResult {
+    this.logger.warn('[ReAct] Usage budget exhausted', { scope: error.scope, metric: error.metric, limit: error.limit, used: error.used });
+    this.eventBus.publish(
+      'thinking:budget:exceeded',
+      { scope: error.scope, metric: error.metric, limit: error.limit, used: error.used },
+      { agentId: context.agentId, executionId: context.executionId, sessionId: context.sessionId }
+    );
+    removeExecutionContext(context.executionId);
+
+    const result = this.buildResult(false, this.synthesizePartialAnswer(), error.message);
+    this.eventBus.publish(
+      'thinking:completed',
+      { result, steps: this.state.steps },
+      { agentId: context.agentId, executionId: context.executionId }
+    );
+    return result;
+  }
+
+  private async nextTurn(
+    input: string,
+    step: number,
+    memoryContext: string
+  ): Promise<{ thought: string; actions: Action[] }> {
+    if (this.config.toolCallingMode === 'native') {
+      return this.nextNativeTurn(input, memoryContext);
+    }
+
+    const thought = await this.generateThought(input, step, memoryContext);
+    const actions = await this.selectActions(thought, step);
+    return { thought, actions };
+  }
+
+  /**
+   * native 模式：一次 LLM 调用同时产生思考文本与 tool_calls
+   *
+   * 没有 tool_calls 时，模型的回复即为最终答案。
+   */
+  private async nextNativeTurn(
+    input: string,
+    memoryContext: string
+  ): Promise<{ thought: string; actions: Action[] }> {
+    if (!this.state.conversation) {
+      const prompt = `${input}${memoryContext}`;
+      const attachments = this.state.attachments || [];
+      this.state.conversation = [
+        { role: 'system', content: this.config.systemPrompt, id: 'system', timestamp: Date.now() },
+        ...this.conversationHistory(),
+        {
+          role: 'user',
+          content: attachments.length > 0 ? [{ type: 'text', text: prompt }, ...attachments] : prompt,
+          id: 'user',
+          timestamp: Date.now(),
+        },
+      ];
+    }
+
+    const response = await this.complete('turn', {
+      signal: this.signal,
+      messages: this.state.conversation,
+      tools: this.getNativeToolDefinitions(),
+      toolChoice: 'auto',
+      temperature: this.config.temperature,
+    });
+
+    const message = response.choices[0]?.message;
+    const thought = extractTextContent(message?.content || '');
+    const toolCalls = message?.toolCalls || [];
+
+    if (toolCalls.length === 0) {
+      return { thought, actions: [{ type: 'finish', name: 'finish', parameters: { answer: thought } }] };
+    }
+
+    this.state.conversation.push({
+      id: `assistant-${Date.now()}`,
+      role: 'assistant',
+      content: thought,
+      toolCalls,
+      timestamp: Date.now(),
+    });
+
+    const actions: Action[] = [];
+    for (const call of toolCalls) {
+      let parameters: Record<string, unknown>;
+      try {
+        parameters = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+      } catch (error) {
+        this.appendToolMessage(
+          call.id,
+          call.function.name,
+          `Error: Invalid JSON arguments - ${(error as Error).message}`
+        );
+        continue;
+      }
+
+      const skillName = this.skillToolAdapter.extractSkillName(call.function.name);
+      actions.push(
+        skillName
+          ? { type: 'skill', name: skillName, parameters, id: call.id }
+          : { type: 'tool', name: call.function.name, parameters, id: call.id }
+      );
+    }
+
+    // 所有调用的参数都无效：不执行任何动作，让模型根据错误信息重试
+    if (actions.length === 0) {
+      actions.push({ type: 'think', name: 'think', parameters: { thought } });
+    }
+
+    return { thought, actions };
+  }
+
+  /**
+   * native 模式：将动作结果作为 role: 'tool' 消息回传给模型
+   */
+  private recordToolResults(actions: Action[], observations: string[]): void {
+    const conversation = this.state.conversation;
+    if (!conversation) return;
+
+    const lastAssistant = [...conversation].reverse().find(m => m.role === 'assistant');
+    const callNames = new Map((lastAssistant?.toolCalls || []).map(c => [c.id, c.function.name]));
+
+    actions.forEach((action, index) => {
+      if (action.id) {
+        this.appendToolMessage(action.id, callNames.get(action.id) || action.name, observations[index] ?? '');
+      }
+    });
+  }
+
+  private appendToolMessage(toolCallId: string, name: string, content: string): void {
+    this.state.conversation?.push({
+      id: `tool-${toolCallId}`,
+      role: 'tool',
+      name,
+      toolCallId,
+      content,
+      timestamp: Date.now(),
+    });
+  }
+
   private async generateThought(input: string, step: number, memoryContext: string = ''): Promise<string> {
     const prompt = this.buildThoughtPrompt(input, step, memoryContext);
+    const attachments = this.state.attachments || [];
 
-    const response = await this.llm.complete({
+    const response = await this.complete('thought', {
+      signal: this.signal,
       messages: [
         { role: 'system', content: this.config.systemPrompt, id: 'system', timestamp: Date.now() },
-        { role: 'user', content: prompt, id: 'user', timestamp: Date.now() },
+        {
+          role: 'user',
+          content: attachments.length > 0 ? [{ type: 'text', text: prompt }, ...attachments] : prompt,
+          id: 'user',
+          timestamp: Date.now(),
+        },
       ],
       temperature: this.config.temperature,
     });
@@ -633,15 +945,29 @@ export class ReActEngine {
   private async selectActions(thought: string, step: number): Promise<Action[]> {
     const prompt = this.buildActionPrompt(thought, step);
 
-    const response = await this.llm.complete({
+    const response = await this.complete('action', {
+      signal: this.signal,
       messages: [
         { role: 'system', content: this.config.systemPrompt, id: 'system', timestamp: Date.now() },
         { role: 'user', content: prompt, id: 'user', timestamp: Date.now() },
       ],
       temperature: 0.3,
+      responseFormat: { type: 'json_schema', schema: ACTIONS_SCHEMA },
     });
 
     const content = extractTextContent(response.choices[0]?.message?.content || '');
+
+    // 优先使用结构化输出，模型未遵循 schema 时回退到文本解析
+    const structured = response.parsed !== undefined
+      ? validateStructuredContent(JSON.stringify(response.parsed), ACTIONS_SCHEMA)
+      : validateStructuredContent(content, ACTIONS_SCHEMA);
+    if (structured.errors.length === 0) {
+      const { actions } = structured.value as { actions: Action[] };
+      if (actions.length > 0) {
+        return actions.map(a => ({ type: a.type, name: a.name, parameters: a.parameters || {} }));
+      }
+    }
+
     return this.parseActions(content);
   }
 
@@ -707,11 +1033,16 @@ export class ReActEngine {
                   toolId: action.name,
                   toolName: action.name,
                   logger: this.logger,
-                  signal: this.abortController.signal,
+                  signal: this.signal,
                   executionContext: this.state.executionContext,
                 }
               );
 
+              // 结构化错误（含字段路径）作为观察反馈给模型自我修正
+              if (!toolResult.success && toolResult.error) {
+                return formatToolError(toolResult.error);
+              }
+
               return JSON.stringify(toolResult.data || toolResult);
             }
 
@@ -732,16 +1063,26 @@ export class ReActEngine {
                 this.logger.warn(`[ReAct] Skill '${action.name}' was not in dynamically selected list, executing anyway`);
               }
 
+              // Skill 只能看到并调用 allowed-tools 中声明的工具
+              const tools = scopeToolRegistry(this.tools, skill.metadata?.allowedTools, {
+                scope: skill.name,
+                onViolation: violation => this.eventBus.publish(
+                  'skill:tool:denied',
+                  { skillId: skill.id, ...violation },
+                  { agentId: context.agentId, executionId: context.executionId, sessionId: context.sessionId }
+                ),
+              });
+
               const skillResult = await skill.execute(action.parameters, {
                 executionId: context.executionId,
                 agentId: context.agentId,
                 sessionId: context.sessionId,
                 input: action.parameters,
                 logger: this.logger,
-                llm: this.llm,
+                llm: this.meteredLLM(`skill:${skill.name}`),
                 memory: this.memory,
-                tools: this.tools,
-                signal: this.abortController.signal,
+                tools,
+                signal: this.signal,
                 executionContext: this.state.executionContext,
               });
 
@@ -762,8 +1103,8 @@ export class ReActEngine {
         } catch (error) {
           lastError = error as Error;
           
-          // 检查是否可重试
-          if (this.isRetryableError(error) && attempt < maxRetries) {
+          // 检查是否可重试（已取消的执行不再重试）
+          if (!this.signal.aborted && this.isRetryableError(error) && attempt < maxRetries) {
             this.logger.warn(`[ReAct] Retrying action ${action.name}, attempt ${attempt}/${maxRetries}`);
             await this._sleep(1000 * attempt); // 指数退避
             continue;
@@ -809,7 +1150,8 @@ ${history}
 
 Provide a brief reflection:`;
 
-    const response = await this.llm.complete({
+    const response = await this.complete('reflection', {
+      signal: this.signal,
       messages: [
         { role: 'system', content: this.config.systemPrompt, id: 'system', timestamp: Date.now() },
         { role: 'user', content: prompt, id: 'user', timestamp: Date.now() },
@@ -832,8 +1174,11 @@ Provide a brief reflection:`;
   private buildThoughtPrompt(input: string, step: number, memoryContext: string = ''): string {
     const tools = this.formatTools();
     const history = this.formatHistory();
+    const conversation = this.conversationHistory()
+      .map(message => `${message.role}: ${extractTextContent(message.content)}`)
+      .join('\n');
 
-    return `Task: ${input}
+    return `${conversation ? `Conversation so far:\n${conversation}\n\n` : ''}Task: ${input}
 
 ${tools}
 
@@ -843,6 +1188,15 @@ ${history}
 ${memoryContext ? `Context:\n${memoryContext}\n\n` : ''}Step ${step}: Think and act.`;
   }
 
+  /**
+   * 会话历史中可回放给模型的消息（用户与助手的文本轮次）
+   */
+  private conversationHistory(): ChatMessage[] {
+    return (this.state.history || []).filter(
+      message => (message.role === 'user' || message.role === 'assistant') && !message.toolCalls?.length
+    );
+  }
+
   private buildActionPrompt(thought: string, _step: number): string {
     const tools = this.formatTools();
 
@@ -1087,6 +1441,29 @@ Action:`;
     return this.skillToolAdapter.skillsToToolDefinitions(skills);
   }
 
+  /**
+   * native 模式下发送给 LLM 的工具定义（Tools + Skills）
+   */
+  getNativeToolDefinitions(): ToolDefinition[] {
+    const tools = (this.tools.list?.() || []).map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: (zodToToolParameters(tool.parameters) || {
+          type: 'object',
+          properties: {},
+        }) as ToolDefinition['function']['parameters'],
+      },
+    }));
+
+    const skills = this.skillToolAdapter
+      .buildToolDefinitionsForLLM(this.skills.list?.() || [])
+      .map(def => def as ToolDefinition);
+
+    return [...tools, ...skills];
+  }
+
   private synthesizePartialAnswer(): string {
     if (this.state.steps.length === 0) return 'No progress made.';
 
@@ -1153,6 +1530,9 @@ ${toolList || '  (暂无可用工具)'}
       selectedSkills: this.state.selectedSkills,
       skillSelectionConfidence: this.state.skillSelectionResult?.confidence,
       skillSelectionReasoning: this.state.skillSelectionResult?.reasoning,
+      usage: this.usageLedger && this.usageScope.executionId !== undefined
+        ? this.usageLedger.totals({ executionId: this.usageScope.executionId })
+        : undefined,
     };
   }
 
@@ -1169,6 +1549,15 @@ Rules:
 2. Execute independent actions in parallel
 3. Wait for results before proceeding`;
   }
+
+  private getDefaultNativeSystemPrompt(): string {
+    return `You are a ReAct agent. Think step-by-step and call the provided tools/skills when they help.
+
+Rules:
+1. Call independent tools in parallel
+2. Wait for tool results before proceeding
+3. When you have enough information, reply with the final answer without calling any tool`;
+  }
 }
 
 export type ThinkingStreamEvent =
@@ -1177,7 +1566,7 @@ export type ThinkingStreamEvent =
   | { type: 'actions'; step: number; actions: Action[] }
   | { type: 'observations'; step: number; observations: string[] }
   | { type: 'reflection'; step: number; reflection: string }
-  | { type: 'complete'; answer: string; steps: ThinkingStep[]; incomplete?: boolean }
+  | { type: 'complete'; answer: string; steps: ThinkingStep[]; incomplete?: boolean; reason?: string }
   | { type: 'error'; error: string };
 
 export interface ReActEngineConfig {
@@ -1188,6 +1577,8 @@ export interface ReActEngineConfig {
   logger: Logger;
   config?: ReActConfig;
   eventBus?: EventBus;
+  /** 用量账本：记录每次模型调用并执行预算 */
+  usageLedger?: UsageLedger;
 }
 
 export function createReActEngine(config: ReActEngineConfig): ReActEngine {
@@ -1198,6 +1589,7 @@ export function createReActEngine(config: ReActEngineConfig): ReActEngine {
     config.memory,
     config.logger,
     config.config,
-    config.eventBus
+    config.eventBus,
+    config.usageLedger
   );
 }
@@ -15,6 +15,8 @@
  * @standard Industry Leading (SOTA ANN Algorithm)
  */
 
+import { QuantizedVectorStore, type QuantizationConfig, type QuantizationStats } from './quantization.js';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -32,11 +34,15 @@ export interface HNSWConfig {
   metric?: 'cosine' | 'euclidean' | 'dot';
   /** 随机种子 */
   seed?: number;
+  /** 向量量化（int8 / PQ），默认不量化 */
+  quantization?: QuantizationConfig;
 }
 
+/**
+ * 图节点；向量统一存放在索引的 QuantizedVectorStore 中
+ */
 export interface HNSWNode {
   id: string;
-  vector: Float32Array;
   level: number;
   connections: Map<number, string[]>; // level -> connected node ids
   data?: unknown;
@@ -53,53 +59,7 @@ export interface HNSWStats {
   maxLevel: number;
   avgConnections: number;
   memoryUsage: number;
-}
-
-// ============================================================================
-// Distance Functions
-// ============================================================================
-
-type DistanceFunction = (a: Float32Array, b: Float32Array) => number;
-
-/**
- * 欧几里得距离
- */
-function euclideanDistance(a: Float32Array, b: Float32Array): number {
-  let sum = 0;
-  for (let i = 0; i < a.length; i++) {
-    const diff = a[i] - b[i];
-    sum += diff * diff;
-  }
-  return Math.sqrt(sum);
-}
-
-/**
- * 余弦距离 (1 - cosine similarity)
- */
-function cosineDistance(a: Float32Array, b: Float32Array): number {
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-
-  if (normA === 0 || normB === 0) return 1;
-  return 1 - dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
-
-/**
- * 点积距离 (负点积，用于最大化点积的场景)
- */
-function dotProductDistance(a: Float32Array, b: Float32Array): number {
-  let sum = 0;
-  for (let i = 0; i < a.length; i++) {
-    sum += a[i] * b[i];
-  }
-  return -sum; // 负值，因为我们要最小化距离
+  quantization: QuantizationStats;
 }
 
 // ============================================================================
@@ -227,7 +187,7 @@ export class HNSWIndex {
   private entryPoint: string | null = null;
   private maxLevel = 0;
   private config: Required<HNSWConfig>;
-  private distanceFunction: DistanceFunction;
+  private vectors: QuantizedVectorStore;
   private random: SeededRandom;
 
   // 预计算参数
@@ -241,9 +201,14 @@ export class HNSWIndex {
       efSearch: config.efSearch ?? 64,
       metric: config.metric ?? 'cosine',
       seed: config.seed ?? Date.now(),
+      quantization: config.quantization ?? { type: 'none' },
     };
 
-    this.distanceFunction = this.getDistanceFunction(this.config.metric);
+    this.vectors = new QuantizedVectorStore({
+      dimension: this.config.dimension,
+      metric: this.config.metric,
+      quantization: this.config.quantization,
+    });
     this.random = new SeededRandom(this.config.seed);
 
     // 计算层级衰减因子: mL = 1 / ln(M)
@@ -258,12 +223,16 @@ export class HNSWIndex {
       throw new Error(`Vector dimension mismatch: expected ${this.config.dimension}, got ${vector.length}`);
     }
 
-    const floatVector = vector instanceof Float32Array ? vector : new Float32Array(vector);
+    // 已存在的 ID 视为更新：先移除旧节点再重新插入
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    this.vectors.set(id, vector);
     const level = this.random.randomLevel(this.mL);
 
     const node: HNSWNode = {
       id,
-      vector: floatVector,
       level,
       connections: new Map(),
       data,
@@ -282,28 +251,26 @@ export class HNSWIndex {
       return;
     }
 
-    // 更新最大层级
-    if (level > this.maxLevel) {
-      this.maxLevel = level;
-      this.entryPoint = id;
-    }
-
-    // 从最高层开始搜索
+    // 从最高层开始搜索（入口点在建立连接后再更新）
+    const distanceTo = this.vectors.prepare(vector);
     let currentEntry = this.entryPoint;
-    let currentDistance = this.distanceFunction(floatVector, this.nodes.get(currentEntry)!.vector);
+    let currentDistance = distanceTo(currentEntry);
 
     for (let i = this.maxLevel; i > level; i--) {
-      const result = this.searchLayer(floatVector, currentEntry, i, 1);
+      const result = this.searchLayer(distanceTo, currentEntry, i, 1);
       if (result.length > 0 && result[0].distance < currentDistance) {
         currentEntry = result[0].id;
         currentDistance = result[0].distance;
       }
     }
 
+    // 先加入节点，邻居收缩连接时需要读取它的向量
+    this.nodes.set(id, node);
+
     // 在每一层建立连接
     for (let i = Math.min(level, this.maxLevel); i >= 0; i--) {
-      const neighbors = this.searchLayer(floatVector, currentEntry, i, this.config.efConstruction);
-      const selectedNeighbors = this.selectNeighbors(floatVector, neighbors, this.config.m);
+      const neighbors = this.searchLayer(distanceTo, currentEntry, i, this.config.efConstruction);
+      const selectedNeighbors = this.selectNeighbors(neighbors, this.config.m);
 
       // 建立双向连接
       for (const neighbor of selectedNeighbors) {
@@ -322,7 +289,25 @@ export class HNSWIndex {
       }
     }
 
-    this.nodes.set(id, node);
+    // 更新最大层级
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * 是否包含节点
+   */
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * 节点数量
+   */
+  get size(): number {
+    return this.nodes.size;
   }
 
   /**
@@ -339,22 +324,23 @@ export class HNSWIndex {
       throw new Error(`Query dimension mismatch: expected ${this.config.dimension}, got ${floatQuery.length}`);
     }
 
-    // 从入口点开始
+    // 从入口点开始（量化时为非对称距离）
+    const distanceTo = this.vectors.prepare(floatQuery);
     let currentEntry = this.entryPoint;
-    let currentDistance = this.distanceFunction(floatQuery, this.nodes.get(currentEntry)!.vector);
+    let currentDistance = distanceTo(currentEntry);
 
     // 从最高层贪心下降到第 1 层
     for (let i = this.maxLevel; i >= 1; i--) {
-      const result = this.searchLayer(floatQuery, currentEntry, i, 1);
+      const result = this.searchLayer(distanceTo, currentEntry, i, 1);
       if (result.length > 0 && result[0].distance < currentDistance) {
         currentEntry = result[0].id;
         currentDistance = result[0].distance;
       }
     }
 
-    // 在第 0 层进行完整搜索
-    const ef = Math.max(k, this.config.efSearch);
-    const candidates = this.searchLayer(floatQuery, currentEntry, 0, ef);
+    // 在第 0 层进行完整搜索；量化时多召回候选，再用原始向量精排
+    const ef = Math.max(this.vectors.candidateCount(k), this.config.efSearch);
+    const candidates = this.vectors.rerank(floatQuery, this.searchLayer(distanceTo, currentEntry, 0, ef));
 
     // 返回前 k 个结果
     return candidates.slice(0, k).map(item => {
@@ -374,19 +360,21 @@ export class HNSWIndex {
     const node = this.nodes.get(id);
     if (!node) return false;
 
-    // 删除所有连接
+    // 删除所有连接，并用被删节点的其他邻居修补，避免图被割裂
     for (const [level, connections] of node.connections) {
       for (const neighborId of connections) {
         const neighbor = this.nodes.get(neighborId);
-        if (neighbor) {
-          const neighborConnections = neighbor.connections.get(level);
-          if (neighborConnections) {
-            const index = neighborConnections.indexOf(id);
-            if (index > -1) {
-              neighborConnections.splice(index, 1);
-            }
-          }
-        }
+        const neighborConnections = neighbor?.connections.get(level);
+        if (!neighbor || !neighborConnections) continue;
+
+        const candidates = new Set([...neighborConnections, ...connections]);
+        candidates.delete(id);
+        candidates.delete(neighborId);
+        neighbor.connections.set(
+          level,
+          Array.from(candidates).filter(candidateId => this.nodes.get(candidateId)?.connections.has(level))
+        );
+        this.shrinkConnections(neighbor, level, this.config.m);
       }
     }
 
@@ -408,9 +396,17 @@ export class HNSWIndex {
     }
 
     this.nodes.delete(id);
+    this.vectors.delete(id);
     return true;
   }
 
+  /**
+   * 训练量化码本（PQ）；未传入训练集时使用已加入的向量
+   */
+  train(vectors?: Array<number[] | Float32Array>): void {
+    this.vectors.train(vectors);
+  }
+
   /**
    * 获取统计信息
    */
@@ -424,15 +420,15 @@ export class HNSWIndex {
 
     const avgConnections = this.nodes.size > 0 ? totalConnections / this.nodes.size : 0;
 
-    // 估算内存使用 (粗略)
-    const memoryUsage =
-      this.nodes.size * (this.config.dimension * 4 + 200); // vector + overhead
+    // 估算内存使用：向量存储 + 连接（每个 ID 引用约 8 字节）+ 节点开销
+    const memoryUsage = this.vectors.memoryUsage() + totalConnections * 8 + this.nodes.size * 120;
 
     return {
       totalNodes: this.nodes.size,
       maxLevel: this.maxLevel,
       avgConnections,
       memoryUsage,
+      quantization: this.vectors.stats(),
     };
   }
 
@@ -441,21 +437,27 @@ export class HNSWIndex {
    */
   clear(): void {
     this.nodes.clear();
+    this.vectors.clear();
     this.entryPoint = null;
     this.maxLevel = 0;
   }
 
   /**
    * 序列化索引
+   *
+   * includeVectors 为 false 时只保存图结构，向量由调用方另行存储，
+   * 反序列化时通过 resolveVector 提供。
    */
-  serialize(): object {
+  serialize(options: { includeVectors?: boolean } = {}): object {
+    const { includeVectors = true } = options;
     return {
       config: this.config,
       entryPoint: this.entryPoint,
       maxLevel: this.maxLevel,
+      codec: this.vectors.serializeCodec(),
       nodes: Array.from(this.nodes.entries()).map(([id, node]) => ({
         id,
-        vector: Array.from(node.vector),
+        ...(includeVectors && { vector: Array.from(this.vectors.get(id)!) }),
         level: node.level,
         connections: Array.from(node.connections.entries()),
         data: node.data,
@@ -466,12 +468,18 @@ export class HNSWIndex {
   /**
    * 反序列化索引
    */
-  static deserialize(data: object): HNSWIndex {
-    const { config, nodes } = data as {
+  static deserialize(
+    data: object,
+    resolveVector?: (id: string) => number[] | Float32Array | undefined
+  ): HNSWIndex {
+    const { config, nodes, entryPoint, maxLevel, codec } = data as {
       config: HNSWConfig;
+      entryPoint?: string | null;
+      maxLevel?: number;
+      codec?: object;
       nodes: Array<{
         id: string;
-        vector: number[];
+        vector?: number[];
         level: number;
         connections: [number, string[]][];
         data?: unknown;
@@ -479,11 +487,16 @@ export class HNSWIndex {
     };
 
     const index = new HNSWIndex(config);
+    index.vectors.restoreCodec(codec);
 
     for (const nodeData of nodes) {
+      const vector = nodeData.vector ?? resolveVector?.(nodeData.id);
+      if (!vector) {
+        throw new Error(`Missing vector for HNSW node: ${nodeData.id}`);
+      }
+      index.vectors.set(nodeData.id, vector);
       const node: HNSWNode = {
         id: nodeData.id,
-        vector: new Float32Array(nodeData.vector),
         level: nodeData.level,
         connections: new Map(nodeData.connections),
         data: nodeData.data,
@@ -491,6 +504,19 @@ export class HNSWIndex {
       index.nodes.set(nodeData.id, node);
     }
 
+    if (entryPoint && index.nodes.has(entryPoint)) {
+      index.entryPoint = entryPoint;
+      index.maxLevel = maxLevel ?? index.nodes.get(entryPoint)!.level;
+    } else {
+      // 兼容旧版序列化数据（未保存入口点）
+      for (const node of index.nodes.values()) {
+        if (index.entryPoint === null || node.level > index.maxLevel) {
+          index.entryPoint = node.id;
+          index.maxLevel = node.level;
+        }
+      }
+    }
+
     return index;
   }
 
@@ -498,24 +524,11 @@ export class HNSWIndex {
   // Private Methods
   // ============================================================================
 
-  private getDistanceFunction(metric: string): DistanceFunction {
-    switch (metric) {
-      case 'euclidean':
-        return euclideanDistance;
-      case 'cosine':
-        return cosineDistance;
-      case 'dot':
-        return dotProductDistance;
-      default:
-        return cosineDistance;
-    }
-  }
-
   /**
    * 在指定层搜索最近邻
    */
   private searchLayer(
-    query: Float32Array,
+    distanceTo: (id: string) => number,
     entryId: string,
     level: number,
     ef: number
@@ -524,8 +537,7 @@ export class HNSWIndex {
     const candidates = new PriorityQueue(); // 候选集 (最小堆)
     const results = new PriorityQueue(true); // 结果集 (最大堆)
 
-    const entryNode = this.nodes.get(entryId)!;
-    const entryDistance = this.distanceFunction(query, entryNode.vector);
+    const entryDistance = distanceTo(entryId);
 
     candidates.push({ id: entryId, distance: entryDistance });
     results.push({ id: entryId, distance: entryDistance });
@@ -547,8 +559,9 @@ export class HNSWIndex {
         if (visited.has(neighborId)) continue;
         visited.add(neighborId);
 
-        const neighborNode = this.nodes.get(neighborId)!;
-        const distance = this.distanceFunction(query, neighborNode.vector);
+        // 单向连接可能指向已删除的节点，跳过即可
+        if (!this.nodes.has(neighborId)) continue;
+        const distance = distanceTo(neighborId);
 
         const worstResult = results.peek();
         if (results.size() < ef || distance < worstResult!.distance) {
@@ -570,7 +583,6 @@ export class HNSWIndex {
    * 选择邻居 (启发式选择策略)
    */
   private selectNeighbors(
-    _query: Float32Array,
     candidates: QueueItem[],
     m: number
   ): QueueItem[] {
@@ -598,17 +610,16 @@ export class HNSWIndex {
    * 收缩连接，保持最大连接数
    */
   private shrinkConnections(node: HNSWNode, level: number, maxConnections: number): void {
-    const connections = node.connections.get(level);
-    if (!connections || connections.length <= maxConnections) return;
+    const connections = node.connections.get(level)?.filter(id => this.nodes.has(id));
+    if (!connections) return;
+    if (connections.length <= maxConnections) {
+      node.connections.set(level, connections);
+      return;
+    }
 
     // 计算到所有邻居的距离
-    const distances = connections.map(id => {
-      const neighbor = this.nodes.get(id)!;
-      return {
-        id,
-        distance: this.distanceFunction(node.vector, neighbor.vector),
-      };
-    });
+    const neighborDistances = this.vectors.distancesFrom(node.id, connections);
+    const distances = connections.map((id, i) => ({ id, distance: neighborDistances[i] }));
 
     // 保留最近的 maxConnections 个
     distances.sort((a, b) => a.distance - b.distance);
@@ -121,6 +121,22 @@ export type {
   ScannConfig,
 } from './scann-index.js';
 
+// Vector Quantization - int8 / 乘积量化 + 非对称距离
+export {
+  QuantizedVectorStore,
+  ScalarQuantizer,
+  ProductQuantizer,
+  createVectorCodec,
+  vectorDistance,
+} from './quantization.js';
+
+export type {
+  QuantizationConfig,
+  QuantizationStats,
+  QuantizationType,
+  VectorCodec,
+} from './quantization.js';
+
 // Speculative Decoding - LLM 推理加速
 export {
   SpeculativeDecoder,
@@ -0,0 +1,669 @@
+/**
+ * Vector Quantization - 向量量化
+ *
+ * 为进程内向量索引提供压缩存储：
+ * - int8 标量量化：每条向量 d + 4 字节（逐向量缩放因子），无需训练
+ * - 乘积量化 (PQ)：把向量切成 M 个子空间，每个子空间用 1 字节码本索引，需 k-means 训练
+ *
+ * 查询保持浮点，与编码直接计算非对称距离 (ADC)；可选保留 Float32 原始向量，
+ * 对量化距离选出的前若干候选做精确重排序以找回召回率。
+ *
+ * 参考：Product Quantization for Nearest Neighbor Search (Jégou et al., 2011)
+ *
+ * @algorithm Vector Quantization
+ * @version 1.0.0
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VectorMetric = 'cosine' | 'euclidean' | 'dot';
+
+export type QuantizationType = 'none' | 'int8' | 'pq';
+
+export interface QuantizationConfig {
+  type: QuantizationType;
+  /** PQ 子空间数（需整除维度），默认每个子空间 8 维 */
+  subspaces?: number;
+  /** PQ 每个子空间的聚类中心数，最多 256 */
+  centroids?: number;
+  /** PQ 累计多少条向量后自动训练，0 表示需手动调用 train */
+  trainingSize?: number;
+  /** k-means 迭代次数 */
+  trainingIterations?: number;
+  /** 保留 Float32 原始向量用于重排序（关闭后内存最省，但不再精排） */
+  keepOriginals?: boolean;
+  /** 重排序倍数：按量化距离取 k * rerankFactor 个候选，再用原始向量精排 */
+  rerankFactor?: number;
+  /** 随机种子（PQ 训练） */
+  seed?: number;
+}
+
+export interface QuantizationStats {
+  type: QuantizationType;
+  trained: boolean;
+  /** 每条向量的编码字节数 */
+  bytesPerVector: number;
+  /** 编码大小 / Float32 向量大小 */
+  compressionRatio: number;
+  keepOriginals: boolean;
+}
+
+/**
+ * 向量编解码器；输入向量已按度量预处理（cosine 时已归一化）
+ */
+export interface VectorCodec {
+  readonly type: Exclude<QuantizationType, 'none'>;
+  readonly bytesPerVector: number;
+  readonly trained: boolean;
+  /** 码本等附加数据的字节数 */
+  readonly overheadBytes: number;
+  train(vectors: Float32Array[]): void;
+  encode(vector: Float32Array, out: Uint8Array, offset: number): void;
+  decode(codes: Uint8Array, offset: number): Float32Array;
+  /** 非对称距离：euclidean 返回 L2 距离，dot 返回负内积 */
+  createScorer(query: Float32Array): (codes: Uint8Array, offset: number) => number;
+  serialize(): object;
+}
+
+type CodecMetric = 'euclidean' | 'dot';
+
+// ============================================================================
+// Distance Functions
+// ============================================================================
+
+/**
+ * 浮点距离（越小越近）：cosine 为 1 - 余弦相似度，dot 为负内积
+ */
+export function vectorDistance(
+  metric: VectorMetric,
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  offset = 0
+): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  let squared = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i];
+    const y = b[offset + i];
+    if (metric === 'euclidean') {
+      const diff = x - y;
+      squared += diff * diff;
+    } else {
+      dot += x * y;
+      normA += x * x;
+      normB += y * y;
+    }
+  }
+
+  if (metric === 'euclidean') return Math.sqrt(squared);
+  if (metric === 'dot') return -dot;
+  if (normA === 0 || normB === 0) return 1;
+  return 1 - dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function normalize(vector: Float32Array): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+
+  const normalized = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) normalized[i] = vector[i] / norm;
+  return normalized;
+}
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// ============================================================================
+// Scalar Quantizer (int8)
+// ============================================================================
+
+/**
+ * int8 标量量化：按向量最大绝对值缩放到 [-127, 127]
+ *
+ * 编码布局：4 字节 float32 缩放因子 + d 个 int8。
+ */
+export class ScalarQuantizer implements VectorCodec {
+  readonly type = 'int8' as const;
+  readonly trained = true;
+  readonly overheadBytes = 0;
+  readonly bytesPerVector: number;
+
+  constructor(private readonly dimension: number, private readonly metric: CodecMetric) {
+    this.bytesPerVector = dimension + 4;
+  }
+
+  train(): void {
+    // 逐向量缩放，无需训练
+  }
+
+  encode(vector: Float32Array, out: Uint8Array, offset: number): void {
+    let maxAbs = 0;
+    for (let i = 0; i < this.dimension; i++) maxAbs = Math.max(maxAbs, Math.abs(vector[i]));
+    const scale = maxAbs / 127;
+
+    new DataView(out.buffer, out.byteOffset).setFloat32(offset, scale, true);
+    for (let i = 0; i < this.dimension; i++) {
+      out[offset + 4 + i] = (scale === 0 ? 0 : Math.round(vector[i] / scale)) & 0xff;
+    }
+  }
+
+  decode(codes: Uint8Array, offset: number): Float32Array {
+    const scale = new DataView(codes.buffer, codes.byteOffset).getFloat32(offset, true);
+    const vector = new Float32Array(this.dimension);
+    for (let i = 0; i < this.dimension; i++) {
+      vector[i] = ((codes[offset + 4 + i] << 24) >> 24) * scale;
+    }
+    return vector;
+  }
+
+  createScorer(query: Float32Array): (codes: Uint8Array, offset: number) => number {
+    const dimension = this.dimension;
+
+    if (this.metric === 'dot') {
+      return (codes, offset) => {
+        const scale = new DataView(codes.buffer, codes.byteOffset).getFloat32(offset, true);
+        let sum = 0;
+        for (let i = 0; i < dimension; i++) sum += query[i] * ((codes[offset + 4 + i] << 24) >> 24);
+        return -sum * scale;
+      };
+    }
+
+    return (codes, offset) => {
+      const scale = new DataView(codes.buffer, codes.byteOffset).getFloat32(offset, true);
+      let sum = 0;
+      for (let i = 0; i < dimension; i++) {
+        const diff = query[i] - ((codes[offset + 4 + i] << 24) >> 24) * scale;
+        sum += diff * diff;
+      }
+      return Math.sqrt(sum);
+    };
+  }
+
+  serialize(): object {
+    return { type: this.type };
+  }
+}
+
+// ============================================================================
+// Product Quantizer
+// ============================================================================
+
+export interface ProductQuantizerOptions {
+  subspaces: number;
+  centroids: number;
+  iterations: number;
+  seed: number;
+}
+
+/**
+ * 乘积量化：每个子空间 k-means 得到码本，编码为各子空间最近中心的下标
+ */
+export class ProductQuantizer implements VectorCodec {
+  readonly type = 'pq' as const;
+  readonly bytesPerVector: number;
+  private readonly subDimension: number;
+  /** [subspace][centroid][subDimension] 展平 */
+  private codebook?: Float32Array;
+
+  constructor(
+    private readonly dimension: number,
+    private readonly metric: CodecMetric,
+    private readonly options: ProductQuantizerOptions
+  ) {
+    if (options.centroids < 1 || options.centroids > 256) {
+      throw new Error(`PQ centroids must be between 1 and 256, got ${options.centroids}`);
+    }
+    if (dimension % options.subspaces !== 0) {
+      throw new Error(`Dimension ${dimension} must be divisible by PQ subspaces ${options.subspaces}`);
+    }
+    this.subDimension = dimension / options.subspaces;
+    this.bytesPerVector = options.subspaces;
+  }
+
+  get trained(): boolean {
+    return this.codebook !== undefined;
+  }
+
+  get overheadBytes(): number {
+    return this.codebook?.byteLength ?? 0;
+  }
+
+  train(vectors: Float32Array[]): void {
+    if (vectors.length === 0) {
+      throw new Error('Cannot train product quantizer without vectors');
+    }
+
+    const { subspaces, centroids, iterations, seed } = this.options;
+    const codebook = new Float32Array(subspaces * centroids * this.subDimension);
+    const random = createRandom(seed);
+
+    for (let m = 0; m < subspaces; m++) {
+      const start = m * this.subDimension;
+      const base = m * centroids * this.subDimension;
+
+      // 随机选取初始中心
+      for (let k = 0; k < centroids; k++) {
+        const source = vectors[Math.floor(random() * vectors.length)];
+        codebook.set(source.subarray(start, start + this.subDimension), base + k * this.subDimension);
+      }
+
+      const assignments = new Int32Array(vectors.length);
+      for (let iteration = 0; iteration < iterations; iteration++) {
+        vectors.forEach((vector, index) => {
+          assignments[index] = this.nearestCentroid(codebook, m, vector, start);
+        });
+
+        const sums = new Float64Array(centroids * this.subDimension);
+        const counts = new Int32Array(centroids);
+        vectors.forEach((vector, index) => {
+          const k = assignments[index];
+          counts[k]++;
+          for (let d = 0; d < this.subDimension; d++) sums[k * this.subDimension + d] += vector[start + d];
+        });
+
+        for (let k = 0; k < centroids; k++) {
+          // 空簇保留原中心
+          if (counts[k] === 0) continue;
+          for (let d = 0; d < this.subDimension; d++) {
+            codebook[base + k * this.subDimension + d] = sums[k * this.subDimension + d] / counts[k];
+          }
+        }
+      }
+    }
+
+    this.codebook = codebook;
+  }
+
+  encode(vector: Float32Array, out: Uint8Array, offset: number): void {
+    const codebook = this.requireCodebook();
+    for (let m = 0; m < this.options.subspaces; m++) {
+      out[offset + m] = this.nearestCentroid(codebook, m, vector, m * this.subDimension);
+    }
+  }
+
+  decode(codes: Uint8Array, offset: number): Float32Array {
+    const codebook = this.requireCodebook();
+    const vector = new Float32Array(this.dimension);
+    for (let m = 0; m < this.options.subspaces; m++) {
+      const centroid = (m * this.options.centroids + codes[offset + m]) * this.subDimension;
+      vector.set(codebook.subarray(centroid, centroid + this.subDimension), m * this.subDimension);
+    }
+    return vector;
+  }
+
+  createScorer(query: Float32Array): (codes: Uint8Array, offset: number) => number {
+    const codebook = this.requireCodebook();
+    const { subspaces, centroids } = this.options;
+
+    // 查询与每个子空间每个中心的部分距离表
+    const table = new Float32Array(subspaces * centroids);
+    for (let m = 0; m < subspaces; m++) {
+      for (let k = 0; k < centroids; k++) {
+        const base = (m * centroids + k) * this.subDimension;
+        let partial = 0;
+        for (let d = 0; d < this.subDimension; d++) {
+          const q = query[m * this.subDimension + d];
+          const c = codebook[base + d];
+          partial += this.metric === 'dot' ? -q * c : (q - c) * (q - c);
+        }
+        table[m * centroids + k] = partial;
+      }
+    }
+
+    const squared = this.metric === 'euclidean';
+    return (codes, offset) => {
+      let sum = 0;
+      for (let m = 0; m < subspaces; m++) sum += table[m * centroids + codes[offset + m]];
+      return squared ? Math.sqrt(sum) : sum;
+    };
+  }
+
+  serialize(): object {
+    return { type: this.type, ...this.options, codebook: this.codebook ? Array.from(this.codebook) : undefined };
+  }
+
+  restore(state: { codebook?: number[] }): void {
+    this.codebook = state.codebook ? new Float32Array(state.codebook) : undefined;
+  }
+
+  private nearestCentroid(codebook: Float32Array, subspace: number, vector: Float32Array, start: number): number {
+    let best = 0;
+    let bestDistance = Infinity;
+    for (let k = 0; k < this.options.centroids; k++) {
+      const base = (subspace * this.options.centroids + k) * this.subDimension;
+      let distance = 0;
+      for (let d = 0; d < this.subDimension; d++) {
+        const diff = vector[start + d] - codebook[base + d];
+        distance += diff * diff;
+      }
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = k;
+      }
+    }
+    return best;
+  }
+
+  private requireCodebook(): Float32Array {
+    if (!this.codebook) {
+      throw new Error('Product quantizer has not been trained');
+    }
+    return this.codebook;
+  }
+}
+
+/**
+ * 默认子空间数：每个子空间 8 维（不能整除时依次尝试更小的子空间）
+ */
+export function defaultSubspaces(dimension: number): number {
+  const subDimension = [8, 6, 4, 3, 2].find(size => dimension % size === 0) ?? 1;
+  return dimension / subDimension;
+}
+
+export function createVectorCodec(
+  dimension: number,
+  metric: VectorMetric,
+  config: QuantizationConfig
+): VectorCodec | undefined {
+  const codecMetric: CodecMetric = metric === 'euclidean' ? 'euclidean' : 'dot';
+  switch (config.type) {
+    case 'none':
+      return undefined;
+    case 'int8':
+      return new ScalarQuantizer(dimension, codecMetric);
+    case 'pq':
+      return new ProductQuantizer(dimension, codecMetric, {
+        subspaces: config.subspaces ?? defaultSubspaces(dimension),
+        centroids: config.centroids ?? 256,
+        iterations: config.trainingIterations ?? 8,
+        seed: config.seed ?? 42,
+      });
+    default:
+      throw new Error(`Unknown quantization type: ${String((config as QuantizationConfig).type)}`);
+  }
+}
+
+// ============================================================================
+// Quantized Vector Store
+// ============================================================================
+
+export interface QuantizedVectorStoreOptions {
+  dimension: number;
+  metric?: VectorMetric;
+  quantization?: QuantizationConfig;
+}
+
+/**
+ * 按 ID 存储向量的紧凑容器，供 HNSW / ScaNN / 内存向量库共用
+ *
+ * 编码与原始向量分别放在连续的 Uint8Array / Float32Array 中，删除后槽位复用。
+ * PQ 未训练前保留浮点向量并按浮点计算距离，达到 trainingSize 后自动训练并编码。
+ */
+export class QuantizedVectorStore {
+  readonly dimension: number;
+  readonly metric: VectorMetric;
+  readonly quantization: Required<Omit<QuantizationConfig, 'subspaces' | 'centroids' | 'seed'>> & QuantizationConfig;
+
+  private codec?: VectorCodec;
+  private slots = new Map<string, number>();
+  private freeSlots: number[] = [];
+  private capacity = 0;
+  private nextSlot = 0;
+  private codes = new Uint8Array(0);
+  private originals = new Float32Array(0);
+  private keepFloats: boolean;
+
+  constructor(options: QuantizedVectorStoreOptions) {
+    this.dimension = options.dimension;
+    this.metric = options.metric ?? 'cosine';
+    this.quantization = {
+      trainingSize: 1000,
+      trainingIterations: 8,
+      keepOriginals: true,
+      rerankFactor: 4,
+      ...(options.quantization ?? { type: 'none' }),
+    };
+    this.codec = createVectorCodec(this.dimension, this.metric, this.quantization);
+    this.keepFloats = !this.codec || !this.codec.trained || this.quantization.keepOriginals;
+  }
+
+  get size(): number {
+    return this.slots.size;
+  }
+
+  /**
+   * 距离是否按量化编码计算
+   */
+  get quantized(): boolean {
+    return this.codec?.trained ?? false;
+  }
+
+  /**
+   * 是否能用原始向量精排
+   */
+  get canRerank(): boolean {
+    return this.quantized && this.keepFloats;
+  }
+
+  has(id: string): boolean {
+    return this.slots.has(id);
+  }
+
+  ids(): IterableIterator<string> {
+    return this.slots.keys();
+  }
+
+  set(id: string, vector: ArrayLike<number>): void {
+    if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension mismatch: expected ${this.dimension}, got ${vector.length}`);
+    }
+
+    const slot = this.slots.get(id) ?? this.allocate();
+    this.slots.set(id, slot);
+    const floats = Float32Array.from(vector);
+
+    if (this.keepFloats) {
+      this.originals.set(floats, slot * this.dimension);
+    }
+    if (this.codec?.trained) {
+      this.codec.encode(this.prepareForCodec(floats), this.codes, slot * this.codec.bytesPerVector);
+    } else if (this.codec && this.quantization.trainingSize > 0 && this.size >= this.quantization.trainingSize) {
+      this.train();
+    }
+  }
+
+  delete(id: string): boolean {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return false;
+    this.slots.delete(id);
+    this.freeSlots.push(slot);
+    return true;
+  }
+
+  /**
+   * 读取向量；未保留原始向量时返回解码后的近似值
+   */
+  get(id: string): Float32Array | undefined {
+    const slot = this.slots.get(id);
+    if (slot === undefined) return undefined;
+    if (this.keepFloats) {
+      return this.originals.slice(slot * this.dimension, (slot + 1) * this.dimension);
+    }
+    return this.codec!.decode(this.codes, slot * this.codec!.bytesPerVector);
+  }
+
+  /**
+   * 训练码本并编码已有向量；未传入训练集时使用已存储的向量
+   */
+  train(vectors?: ArrayLike<number>[]): void {
+    if (!this.codec || this.codec.type === 'int8') return;
+    if (!this.keepFloats) {
+      throw new Error('Cannot retrain quantizer after original vectors were discarded');
+    }
+
+    const samples = vectors
+      ? vectors.map(vector => this.prepareForCodec(Float32Array.from(vector)))
+      : Array.from(this.slots.values(), slot =>
+          this.prepareForCodec(this.originals.subarray(slot * this.dimension, (slot + 1) * this.dimension))
+        );
+    if (samples.length === 0) return;
+
+    this.codec.train(samples);
+    this.codes = new Uint8Array(this.capacity * this.codec.bytesPerVector);
+    for (const slot of this.slots.values()) {
+      const vector = this.originals.subarray(slot * this.dimension, (slot + 1) * this.dimension);
+      this.codec.encode(this.prepareForCodec(vector), this.codes, slot * this.codec.bytesPerVector);
+    }
+
+    // 编码完成后按配置释放原始向量
+    if (!this.quantization.keepOriginals) {
+      this.keepFloats = false;
+      this.originals = new Float32Array(0);
+    }
+  }
+
+  /**
+   * 为查询构建距离函数（量化时为 ADC）
+   */
+  prepare(query: ArrayLike<number>): (id: string) => number {
+    const floats = Float32Array.from(query);
+
+    if (!this.quantized) {
+      return id => vectorDistance(this.metric, floats, this.originals, this.slotOf(id) * this.dimension);
+    }
+
+    const codec = this.codec!;
+    const scorer = codec.createScorer(this.prepareForCodec(floats));
+    const offset = this.metric === 'cosine' ? 1 : 0;
+    return id => offset + scorer(this.codes, this.slotOf(id) * codec.bytesPerVector);
+  }
+
+  /**
+   * 用原始向量计算精确距离
+   */
+  exactDistance(query: ArrayLike<number>, id: string): number {
+    if (!this.keepFloats) {
+      return this.prepare(query)(id);
+    }
+    return vectorDistance(this.metric, query, this.originals, this.slotOf(id) * this.dimension);
+  }
+
+  /**
+   * 已存储向量到其他向量的距离（用于构图时比较节点）
+   */
+  distancesFrom(id: string, others: string[]): number[] {
+    const base = this.get(id);
+    if (!base) {
+      throw new Error(`Vector not found: ${id}`);
+    }
+    return others.map(other =>
+      this.keepFloats
+        ? vectorDistance(this.metric, base, this.originals, this.slotOf(other) * this.dimension)
+        : vectorDistance(this.metric, base, this.get(other)!)
+    );
+  }
+
+  /**
+   * 按原始向量重新计算候选距离并排序；无原始向量时原样返回
+   */
+  rerank<T extends { id: string; distance: number }>(query: ArrayLike<number>, candidates: T[]): T[] {
+    if (!this.canRerank) return candidates;
+    return candidates
+      .map(candidate => ({ ...candidate, distance: this.exactDistance(query, candidate.id) }))
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * 量化搜索需要召回的候选数
+   */
+  candidateCount(k: number): number {
+    return this.canRerank ? k * this.quantization.rerankFactor : k;
+  }
+
+  /**
+   * 向量存储占用的字节数
+   */
+  memoryUsage(): number {
+    const codeBytes = this.codec?.trained ? this.nextSlot * this.codec.bytesPerVector : 0;
+    const floatBytes = this.keepFloats ? this.nextSlot * this.dimension * 4 : 0;
+    return codeBytes + floatBytes + (this.codec?.overheadBytes ?? 0);
+  }
+
+  stats(): QuantizationStats {
+    const bytesPerVector = this.codec?.trained ? this.codec.bytesPerVector : this.dimension * 4;
+    return {
+      type: this.quantization.type,
+      trained: this.codec?.trained ?? true,
+      bytesPerVector,
+      compressionRatio: bytesPerVector / (this.dimension * 4),
+      keepOriginals: this.keepFloats,
+    };
+  }
+
+  clear(): void {
+    this.slots.clear();
+    this.freeSlots = [];
+    this.nextSlot = 0;
+  }
+
+  serializeCodec(): object | undefined {
+    return this.codec?.trained ? this.codec.serialize() : undefined;
+  }
+
+  /**
+   * 恢复已训练的码本（需在写入向量前调用）
+   */
+  restoreCodec(state: object | undefined): void {
+    if (state && this.codec instanceof ProductQuantizer) {
+      this.codec.restore(state as { codebook?: number[] });
+      this.keepFloats = this.quantization.keepOriginals;
+    }
+  }
+
+  private prepareForCodec(vector: Float32Array): Float32Array {
+    return this.metric === 'cosine' ? normalize(vector) : vector;
+  }
+
+  private slotOf(id: string): number {
+    const slot = this.slots.get(id);
+    if (slot === undefined) {
+      throw new Error(`Vector not found: ${id}`);
+    }
+    return slot;
+  }
+
+  private allocate(): number {
+    const reused = this.freeSlots.pop();
+    if (reused !== undefined) return reused;
+
+    if (this.nextSlot >= this.capacity) {
+      this.capacity = Math.max(64, this.capacity * 2);
+      if (this.keepFloats) {
+        const originals = new Float32Array(this.capacity * this.dimension);
+        originals.set(this.originals);
+        this.originals = originals;
+      }
+      if (this.codec?.trained) {
+        const codes = new Uint8Array(this.capacity * this.codec.bytesPerVector);
+        codes.set(this.codes);
+        this.codes = codes;
+      }
+    }
+    return this.nextSlot++;
+  }
+}
@@ -19,7 +19,7 @@
  * @advanced
  */
 
-import { PriorityQueue } from '../utils/priority-queue.js';
+import { QuantizedVectorStore, type QuantizationConfig, type QuantizationStats } from './quantization.js';
 
 /**
  * ScaNN 索引配置
@@ -37,10 +37,11 @@ export interface ScannConfig {
   numCandidates: number;
   /** 距离度量 */
   metric: 'euclidean' | 'cosine' | 'dot';
+  /** 向量编码，默认按 numSubspaces / kMeansCentersPerSubspace 做 PQ，调用 train 后生效 */
+  quantization?: QuantizationConfig;
 }
 
 
-
 /**
  * 倒排列表项
  */
@@ -55,17 +56,14 @@ interface InvertedListItem {
  */
 export class ScannIndex {
   private config: ScannConfig;
-  private subspaceDimension: number;
-
-  // 乘积量化相关
-  private subspaceCentroids: number[][][] = []; // [subspace][centroid][dimension]
 
   // 倒排索引相关
   private coarseCentroids: number[][] = [];
   private invertedLists: Map<number, InvertedListItem[]> = new Map();
+  private listOf: Map<string, number> = new Map();
 
-  // 原始向量存储（用于重排序）
-  private vectors: Map<string, number[]> = new Map();
+  // 乘积量化编码 + 原始向量（用于重排序）
+  private vectors: QuantizedVectorStore;
   private metadata: Map<string, Record<string, unknown>> = new Map();
 
   // 统计信息
@@ -73,8 +71,6 @@ export class ScannIndex {
     insertions: 0,
     deletions: 0,
     searches: 0,
-    quantizedSize: 0,
-    originalSize: 0,
   };
 
   constructor(config: ScannConfig) {
@@ -93,33 +89,22 @@ export class ScannIndex {
       );
     }
 
-    this.subspaceDimension = config.dimension / this.config.numSubspaces;
-
-    // 初始化子空间聚类中心（随机初始化，实际应使用 k-means）
-    this.initializeSubspaceCentroids();
+    this.vectors = new QuantizedVectorStore({
+      dimension: config.dimension,
+      metric: this.config.metric,
+      quantization: config.quantization ?? {
+        type: 'pq',
+        subspaces: this.config.numSubspaces,
+        centroids: Math.min(this.config.kMeansCentersPerSubspace, 256),
+        trainingSize: 0,
+        keepOriginals: true,
+      },
+    });
 
     // 初始化粗量化聚类中心
     this.initializeCoarseCentroids();
   }
 
-  /**
-   * 初始化子空间聚类中心
-   */
-  private initializeSubspaceCentroids(): void {
-    for (let m = 0; m < this.config.numSubspaces; m++) {
-      const centroids: number[][] = [];
-      for (let k = 0; k < this.config.kMeansCentersPerSubspace; k++) {
-        // 随机初始化（实际应使用 k-means++）
-        const centroid: number[] = [];
-        for (let d = 0; d < this.subspaceDimension; d++) {
-          centroid.push((Math.random() - 0.5) * 2);
-        }
-        centroids.push(centroid);
-      }
-      this.subspaceCentroids.push(centroids);
-    }
-  }
-
   /**
    * 初始化粗量化聚类中心
    */
@@ -137,44 +122,62 @@ export class ScannIndex {
   /**
    * 训练索引（使用 k-means 优化聚类中心）
    *
+   * 训练后已有向量会重新编码并重新分配到倒排列表。
+   *
    * @param vectors - 训练向量集
-   * @param iterations - k-means 迭代次数
+   * @param iterations - 粗量化 k-means 迭代次数（PQ 码本使用 quantization.trainingIterations）
    */
   train(vectors: number[][], iterations: number = 10): void {
     if (vectors.length === 0) return;
 
-    // 训练子空间聚类中心
-    this.trainSubspaceCentroids(vectors, iterations);
+    // 训练乘积量化码本
+    this.vectors.train(vectors);
 
     // 训练粗量化聚类中心
     this.trainCoarseCentroids(vectors, iterations);
+    this.reassignInvertedLists();
   }
 
   /**
-   * 训练子空间聚类中心
+   * 训练粗量化聚类中心
    */
-  private trainSubspaceCentroids(vectors: number[][], iterations: number): void {
-    for (let m = 0; m < this.config.numSubspaces; m++) {
-      const startDim = m * this.subspaceDimension;
-      const endDim = startDim + this.subspaceDimension;
-
-      // 提取子空间向量
-      const subspaceVectors = vectors.map(v => v.slice(startDim, endDim));
-
-      // k-means 聚类
-      this.subspaceCentroids[m] = this.kMeans(
-        subspaceVectors,
-        this.config.kMeansCentersPerSubspace,
-        iterations
-      );
+  private trainCoarseCentroids(vectors: number[][], iterations: number): void {
+    this.coarseCentroids = this.kMeans(vectors, this.config.numInvertedLists, iterations);
+  }
+
+  /**
+   * 按新的粗量化中心重建倒排列表
+   */
+  private reassignInvertedLists(): void {
+    this.invertedLists.clear();
+    this.listOf.clear();
+    for (let i = 0; i < this.coarseCentroids.length; i++) {
+      this.invertedLists.set(i, []);
+    }
+    for (const id of [...this.vectors.ids()]) {
+      this.assignToList(id, Array.from(this.vectors.get(id)!));
     }
   }
 
   /**
-   * 训练粗量化聚类中心
+   * 把向量放入最近的粗量化中心对应的倒排列表
    */
-  private trainCoarseCentroids(vectors: number[][], iterations: number): void {
-    this.coarseCentroids = this.kMeans(vectors, this.config.numInvertedLists, iterations);
+  private assignToList(id: string, vector: number[]): void {
+    let minDist = Infinity;
+    let closestList = 0;
+
+    for (let i = 0; i < this.coarseCentroids.length; i++) {
+      const dist = this.distance(vector, this.coarseCentroids[i]);
+      if (dist < minDist) {
+        minDist = dist;
+        closestList = i;
+      }
+    }
+
+    const list = this.invertedLists.get(closestList) || [];
+    list.push({ vectorId: id, distanceToCenter: minDist });
+    this.invertedLists.set(closestList, list);
+    this.listOf.set(id, closestList);
   }
 
   /**
@@ -248,41 +251,6 @@ export class ScannIndex {
     return centroids;
   }
 
-  /**
-   * 量化向量
-   */
-  private quantize(vector: number[]): { codes: Uint8Array; residual: number[] } {
-    const codes = new Uint8Array(this.config.numSubspaces);
-    const residual: number[] = [];
-
-    for (let m = 0; m < this.config.numSubspaces; m++) {
-      const startDim = m * this.subspaceDimension;
-      const subspace = vector.slice(startDim, startDim + this.subspaceDimension);
-
-      // 找到最近的聚类中心
-      let minDist = Infinity;
-      let closest = 0;
-
-      for (let k = 0; k < this.config.kMeansCentersPerSubspace; k++) {
-        const dist = this.distance(subspace, this.subspaceCentroids[m][k]);
-        if (dist < minDist) {
-          minDist = dist;
-          closest = k;
-        }
-      }
-
-      codes[m] = closest;
-
-      // 计算残差
-      const centroid = this.subspaceCentroids[m][closest];
-      for (let d = 0; d < this.subspaceDimension; d++) {
-        residual.push(subspace[d] - centroid[d]);
-      }
-    }
-
-    return { codes, residual };
-  }
-
   /**
    * 添加向量到索引
    */
@@ -293,34 +261,18 @@ export class ScannIndex {
       );
     }
 
-    // 量化向量
-    const { codes } = this.quantize(vector);
+    // 重复 ID 视为更新
+    this.removeFromList(id);
 
-    // 找到最近的粗量化中心
-    let minDist = Infinity;
-    let closestList = 0;
-
-    for (let i = 0; i < this.coarseCentroids.length; i++) {
-      const dist = this.distance(vector, this.coarseCentroids[i]);
-      if (dist < minDist) {
-        minDist = dist;
-        closestList = i;
-      }
-    }
-
-    // 添加到倒排列表
-    const list = this.invertedLists.get(closestList) || [];
-    list.push({ vectorId: id, distanceToCenter: minDist });
-    this.invertedLists.set(closestList, list);
-
-    // 存储原始向量和元数据
-    this.vectors.set(id, [...vector]);
+    // 编码并存储向量和元数据
+    this.vectors.set(id, vector);
     this.metadata.set(id, metadata || {});
 
+    // 添加到最近的倒排列表
+    this.assignToList(id, vector);
+
     // 更新统计
     this.stats.insertions++;
-    this.stats.quantizedSize += codes.length;
-    this.stats.originalSize += vector.length * 4; // float32
   }
 
   /**
@@ -352,43 +304,23 @@ export class ScannIndex {
 
     coarseDistances.sort((a, b) => a.distance - b.distance);
 
-    // 2. 收集候选向量
-    const candidates = new PriorityQueue<string>();
-    const candidateSet = new Set<string>();
+    // 2. 用非对称距离 (ADC) 给候选列表中的向量打分
+    const distanceTo = this.vectors.prepare(query);
+    const candidates: Array<{ id: string; distance: number }> = [];
 
     for (let i = 0; i < Math.min(this.config.numCandidates, coarseDistances.length); i++) {
-      const listId = coarseDistances[i].idx;
-      const list = this.invertedLists.get(listId) || [];
-
+      const list = this.invertedLists.get(coarseDistances[i].idx) || [];
       for (const item of list) {
-        if (!candidateSet.has(item.vectorId)) {
-          candidateSet.add(item.vectorId);
-          // 使用到粗量化中心的距离作为近似距离
-          candidates.enqueue(item.vectorId, item.distanceToCenter + coarseDistances[i].distance);
-        }
+        candidates.push({ id: item.vectorId, distance: distanceTo(item.vectorId) });
       }
     }
 
-    // 3. 重排序 - 使用原始向量计算精确距离
-    const results: Array<{ id: string; distance: number; metadata?: Record<string, unknown> }> = [];
-
-    while (!candidates.isEmpty() && results.length < k * 2) {
-      const id = candidates.dequeue();
-      if (id === undefined) break;
-
-      const vector = this.vectors.get(id);
-      if (vector) {
-        const distance = this.distance(query, vector);
-        results.push({
-          id,
-          distance,
-          metadata: this.metadata.get(id),
-        });
-      }
-    }
+    // 3. 重排序 - 对量化距离最近的候选用原始向量计算精确距离
+    candidates.sort((a, b) => a.distance - b.distance);
+    const reranked = this.vectors.rerank(query, candidates.slice(0, this.vectors.candidateCount(k)));
 
     // 返回最近的 k 个
-    return results.sort((a, b) => a.distance - b.distance).slice(0, k);
+    return reranked.slice(0, k).map(({ id, distance }) => ({ id, distance, metadata: this.metadata.get(id) }));
   }
 
   /**
@@ -456,20 +388,24 @@ export class ScannIndex {
 
     this.vectors.delete(id);
     this.metadata.delete(id);
-
-    // 从倒排列表中删除
-    for (const [listId, list] of this.invertedLists) {
-      const newList = list.filter(item => item.vectorId !== id);
-      if (newList.length !== list.length) {
-        this.invertedLists.set(listId, newList);
-        break;
-      }
-    }
+    this.removeFromList(id);
 
     this.stats.deletions++;
     return true;
   }
 
+  /**
+   * 从倒排列表中删除
+   */
+  private removeFromList(id: string): void {
+    const listId = this.listOf.get(id);
+    if (listId === undefined) return;
+
+    const list = this.invertedLists.get(listId) || [];
+    this.invertedLists.set(listId, list.filter(item => item.vectorId !== id));
+    this.listOf.delete(id);
+  }
+
   /**
    * 获取统计信息
    */
@@ -479,15 +415,18 @@ export class ScannIndex {
     searches: number;
     compressionRatio: number;
     memorySaved: string;
+    memoryUsage: number;
+    quantization: QuantizationStats;
   } {
-    const compressionRatio = this.stats.originalSize > 0
-      ? this.stats.quantizedSize / this.stats.originalSize
-      : 0;
+    const quantization = this.vectors.stats();
+    const compressionRatio = this.vectors.size > 0 ? quantization.compressionRatio : 0;
 
     return {
       ...this.stats,
       compressionRatio,
       memorySaved: `${((1 - compressionRatio) * 100).toFixed(1)}%`,
+      memoryUsage: this.vectors.memoryUsage(),
+      quantization,
     };
   }
 
@@ -505,12 +444,11 @@ export class ScannIndex {
     this.vectors.clear();
     this.metadata.clear();
     this.invertedLists.clear();
+    this.listOf.clear();
     this.stats = {
       insertions: 0,
       deletions: 0,
       searches: 0,
-      quantizedSize: 0,
-      originalSize: 0,
     };
 
     // 重新初始化倒排列表
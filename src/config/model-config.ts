@@ -22,6 +22,7 @@ export type ModelProvider =
   | 'qwen'
   | 'deepseek'
   | 'doubao'
+  | 'local'
   | 'custom';
 
 // ============================================
@@ -1210,6 +1211,31 @@ export const PREDEFINED_PROVIDERS: Record<ModelProvider, ProviderConfig> = {
     ],
   },
 
+  local: {
+    name: 'local',
+    displayName: 'Local (Ollama / llama.cpp)',
+    defaultBaseUrl: 'http://localhost:11434',
+    defaultModel: 'llama3.2',
+    requiresApiKey: false,
+    docsUrl: 'https://github.com/ollama/ollama/blob/main/docs/api.md',
+    models: [
+      {
+        id: 'llama3.2',
+        name: 'Llama 3.2',
+        provider: 'local',
+        contextWindow: 131072,
+        supportsTools: true,
+        supportsVision: false,
+        supportsStreaming: true,
+        supportsJsonMode: true,
+        inputPrice: 0,
+        outputPrice: 0,
+        description: 'Default local model, installed models are discovered from the server',
+        recommendedFor: ['offline', 'air-gapped', 'testing'],
+      },
+    ],
+  },
+
   custom: {
     name: 'custom',
     displayName: 'Custom Provider',
@@ -1285,12 +1311,12 @@ export function validateModelConfig(config: UserModelConfig): { valid: boolean;
     errors.push('Model ID is required');
   }
 
-  if (!config.apiKey) {
+  if (!config.apiKey && config.provider && PREDEFINED_PROVIDERS[config.provider]?.requiresApiKey !== false) {
     errors.push('API Key is required');
   }
 
-  // 验证模型是否存在
-  if (config.provider && config.modelId) {
+  // 验证模型是否存在（本地模型由服务端动态发现，不做校验）
+  if (config.provider && config.modelId && config.provider !== 'local') {
     const model = getModelDefinition(config.provider, config.modelId);
     if (!model) {
       errors.push(`Model ${config.modelId} not found for provider ${config.provider}`);
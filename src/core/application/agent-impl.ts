@@ -30,7 +30,10 @@ import type { MCPServerConfig } from '../domain/mcp.js';
 import type { PluginConfig } from '../domain/plugin.js';
 import type { SessionId } from '../domain/agent.js';
 import type { MemoryStore } from '../domain/memory.js';
-import type { LLMProvider } from '../../llm/provider.js';
+import type { LLMMessage, LLMProvider, LLMRequest, ResponseSchema } from '../../llm/provider.js';
+import { fromChatContent } from '../../llm/content.js';
+import { completeStructured } from '../../llm/structured.js';
+import type { JsonSchema } from '../../utils/schema-validator.js';
 import type { ExecutionEngine } from './execution-engine.js';
 import { OpenAIProvider } from '../../llm/providers/openai.js';
 import { AnthropicProvider } from '../../llm/providers/anthropic.js';
@@ -41,15 +44,17 @@ import { ZhipuProvider } from '../../llm/providers/zhipu.js';
 import { QwenProvider } from '../../llm/providers/qwen.js';
 import { DeepSeekProvider } from '../../llm/providers/deepseek.js';
 import { DoubaoProvider } from '../../llm/providers/doubao.js';
+import { LocalProvider } from '../../llm/providers/local.js';
 import { SkillExecutorImpl } from './skill-executor.js';
 import { ToolExecutorImpl } from './tool-executor.js';
-import { MCPManagerImpl } from './mcp-client.js';
+import { MCPManagerImpl, MCPRegistryImpl, createLLMSamplingHandler } from './mcp-client.js';
 import { PluginManagerImpl, createPluginManager } from './plugin-manager.js';
 import { Microkernel, createMicrokernel } from '../microkernel';
 import { ExecutionEngineImpl } from './execution-engine.js';
 import { createMemoryAdapter } from './memory-adapter.js';
 import { scanLazySkills, loadSkillLazy, loadSkillByNameLazy, getLazySkillEntries } from '../../skills/skill-loader.js';
 import { createSkillWatcher, type SkillChangeEvent } from '../../skills/watcher.js';
+import { createEventBus, type EventBus } from '../../agent/domain/events.js';
 
 
 // ============================================
@@ -62,6 +67,9 @@ export class AgentImpl extends EventEmitter implements Agent {
   readonly name: string;
   readonly description?: string;
 
+  // Event bus (approval audit events)
+  readonly eventBus: EventBus;
+
   // State
   private _state: AgentState = AgentState.IDLE;
 
@@ -91,6 +99,7 @@ export class AgentImpl extends EventEmitter implements Agent {
 
   // MCP Manager (managed by kernel)
   private _mcpManager!: MCPManagerImpl;
+  private _mcpRegistry!: MCPRegistryImpl;
 
   // Plugin Manager (managed by kernel)
   private _pluginManager!: PluginManagerImpl;
@@ -131,6 +140,15 @@ export class AgentImpl extends EventEmitter implements Agent {
     // Subscribe to kernel events
     this._subscribeKernelEvents();
 
+    // Approval decisions are published on the agent's event bus and re-emitted as agent events
+    this.eventBus = config.eventBus ?? createEventBus();
+    if (config.toolApproval && !config.toolApproval.getEventBus()) {
+      config.toolApproval.setEventBus(this.eventBus);
+    }
+    this.eventBus.subscribe(['tool:approval:requested', 'tool:approval:decided'], (event) => {
+      this._emitEvent(event.type as AgentEventType, event.payload);
+    });
+
     // Initialize tools (tools are lightweight, can be loaded upfront)
     if (config.tools) {
       for (const tool of config.tools) {
@@ -254,6 +272,7 @@ export class AgentImpl extends EventEmitter implements Agent {
       initialize: async () => {
         this._toolExecutor = new ToolExecutorImpl({
           timeout: 30000,
+          approval: this._config.toolApproval,
         });
       },
       destroy: async () => {
@@ -267,11 +286,17 @@ export class AgentImpl extends EventEmitter implements Agent {
       version: '1.0.0',
       dependencies: [],
       initialize: async () => {
-        this._mcpManager = new MCPManagerImpl();
+        // sampling 请求路由到当前 LLM（setLLM 后同样生效）
+        this._mcpRegistry = new MCPRegistryImpl();
+        this._mcpManager = new MCPManagerImpl(this._mcpRegistry, {
+          sampling: createLLMSamplingHandler({ complete: (request) => this._llm.complete(request) }),
+          ...this._config.mcpClient,
+        });
 
         // Initialize MCP servers
         if (this._config.mcp) {
           for (const mcpConfig of this._config.mcp) {
+            this._mcpRegistry.register(mcpConfig);
             this._mcpManager.connect(mcpConfig.id).catch((error) => {
               this.agentLogger.error(`Failed to connect to MCP server ${mcpConfig.id}`, { error });
             });
@@ -423,6 +448,19 @@ export class AgentImpl extends EventEmitter implements Agent {
         execute: async (name: string, input: unknown, context: import('../domain/tool').ToolExecutionContext) => {
           const tool = this.tools.getByName(name);
           if (!tool) throw new Error(`Tool ${name} not found`);
+
+          const approval = await this._config.toolApproval?.check({
+            tool: { id: tool.id, name: tool.name, description: tool.description, requiresConfirmation: tool.confirm !== 'none' },
+            input,
+            agentId: context.agentId,
+            sessionId: context.sessionId,
+            executionId: context.executionId,
+            signal: context.signal,
+          });
+          if (approval && !approval.approved) {
+            throw new Error(`Tool ${name} execution denied${approval.reason ? `: ${approval.reason}` : ''}`);
+          }
+
           return tool.execute(input, context);
         },
       };
@@ -661,19 +699,18 @@ export class AgentImpl extends EventEmitter implements Agent {
 
     try {
       // Execute chat via LLM
-      const response = await this._llm.complete({
+      const llmRequest: LLMRequest = {
         model: request.model || 'default',
-        messages: request.messages.map((m) => ({
-          role: m.role,
-          content: typeof m.content === 'string' ? m.content : '',
-          name: m.name,
-          tool_calls: m.toolCalls,
-          tool_call_id: m.toolCallId,
-        })),
+        messages: this._toLLMMessages(request.messages),
         temperature: request.temperature,
         max_tokens: request.maxTokens,
         stream: false,
-      });
+        signal: request.signal,
+      };
+      const responseSchema = this._toResponseSchema(request.responseFormat);
+      const response = responseSchema
+        ? await completeStructured(this._llm, { ...llmRequest, responseSchema })
+        : await this._llm.complete(llmRequest);
 
       // Store in session
       this._addToSession(sessionId, request.messages);
@@ -709,6 +746,7 @@ export class AgentImpl extends EventEmitter implements Agent {
           completionTokens: response.usage?.completion_tokens || 0,
           totalTokens: response.usage?.total_tokens || 0,
         },
+        parsed: response.parsed,
       };
     } catch (error) {
       this._setState(AgentState.ERROR);
@@ -740,13 +778,11 @@ export class AgentImpl extends EventEmitter implements Agent {
     try {
       const stream = this._llm.stream({
         model: request.model || 'default',
-        messages: request.messages.map((m) => ({
-          role: m.role,
-          content: typeof m.content === 'string' ? m.content : '',
-        })),
+        messages: this._toLLMMessages(request.messages),
         temperature: request.temperature,
         max_tokens: request.maxTokens,
         stream: true,
+        signal: request.signal,
       });
 
       for await (const chunk of stream) {
@@ -955,6 +991,7 @@ export class AgentImpl extends EventEmitter implements Agent {
   async connectMCP(config: MCPServerConfig): Promise<void> {
     this._ensureReady();
 
+    this._mcpRegistry.register(config);
     await this._mcpManager.connect(config.id);
 
     this._emitEvent('execution:step', {
@@ -1040,11 +1077,33 @@ export class AgentImpl extends EventEmitter implements Agent {
         return new DeepSeekProvider({ apiKey });
       case 'doubao':
         return new DoubaoProvider({ apiKey });
+      case 'local':
+        return new LocalProvider({ apiKey, baseUrl, model: llmConfig?.model });
       default:
         throw new Error(`Unknown LLM provider: ${provider}`);
     }
   }
 
+  private _toResponseSchema(format: ChatRequest['responseFormat']): ResponseSchema | undefined {
+    if (format?.type === 'json_schema' && format.schema) {
+      return { name: 'response', schema: format.schema as JsonSchema };
+    }
+    if (format?.type === 'json_object') {
+      return { name: 'response', schema: { type: 'object' } };
+    }
+    return undefined;
+  }
+
+  private _toLLMMessages(messages: ChatMessage[]): LLMMessage[] {
+    return messages.map((m) => ({
+      role: m.role,
+      content: fromChatContent(m.content),
+      name: m.name,
+      tool_calls: m.toolCalls,
+      tool_call_id: m.toolCallId,
+    }));
+  }
+
   private _setState(state: AgentState): void {
     const oldState = this._state;
     this._state = state;
@@ -39,6 +39,8 @@ export {
 export {
   RAGSystem,
   InMemoryVectorStore,
+  InMemoryIngestionManifestStore,
+  FileIngestionManifestStore,
   RecursiveCharacterTextSplitter,
   type Document,
   type DocumentMetadata,
@@ -52,8 +54,61 @@ export {
   type EmbeddingProvider,
   type LLMProvider,
   type TextSplitter,
+  type IngestOptions,
+  type IngestionResult,
+  type IngestionManifest,
+  type IngestionManifestEntry,
+  type IngestionManifestStore,
+  type RetrievalMode,
 } from './rag.js';
 
+// RAG document ingestion - loaders and structure-aware chunkers
+export {
+  MarkdownLoader,
+  HtmlLoader,
+  PdfLoader,
+  CodeLoader,
+  JsonLoader,
+  CsvLoader,
+  TextLoader,
+  createDefaultLoaders,
+  findLoader,
+  loadFile,
+  loadDirectory,
+  extractPdfText,
+  htmlToText,
+  parseCsv,
+  type DocumentLoader,
+  type DocumentContentType,
+  type DirectoryLoaderOptions,
+  type PdfLoaderOptions,
+} from './rag-loaders.js';
+export {
+  MarkdownHeadingChunker,
+  CodeSymbolChunker,
+  StructureAwareChunker,
+  SYMBOL_PATTERNS,
+  type ChunkDraft,
+  type DocumentChunker,
+  type ChunkerOptions,
+} from './rag-chunkers.js';
+
+// RAG reranking and citations
+export {
+  KeywordOverlapReranker,
+  LLMReranker,
+  CrossEncoderReranker,
+  type Reranker,
+  type CrossEncoder,
+  type LLMRerankerOptions,
+  type CrossEncoderRerankerOptions,
+} from './rag-rerankers.js';
+export {
+  CitationTracker,
+  extractCitations,
+  type Citation,
+} from './rag-citations.js';
+
 // Reflection - Self-improvement system
 export {
   ReflectionEngine,
@@ -0,0 +1,187 @@
+/**
+ * Structure-aware chunkers for RAG ingestion
+ *
+ * - Markdown / HTML: split at headings, keeping the heading path as metadata
+ * - Source code: split at top-level symbols (functions, classes, types), merging small neighbours
+ * - Everything else: the configured TextSplitter
+ *
+ * Sections larger than chunkSize fall back to the TextSplitter.
+ */
+
+import type { Document, TextSplitter } from './rag.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChunkDraft {
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface DocumentChunker {
+  chunk(document: Document): ChunkDraft[];
+}
+
+export interface ChunkerOptions {
+  chunkSize: number;
+  /** Splitter for plain text and oversized sections */
+  fallback: TextSplitter;
+}
+
+// ============================================================================
+// Markdown Heading Chunker
+// ============================================================================
+
+export class MarkdownHeadingChunker implements DocumentChunker {
+  constructor(private options: ChunkerOptions) {}
+
+  chunk(document: Document): ChunkDraft[] {
+    const sections: Array<{ headings: string[]; lines: string[] }> = [{ headings: [], lines: [] }];
+    let headings: string[] = [];
+    let fence: string | undefined;
+
+    for (const line of document.content.split('\n')) {
+      const fenceMatch = line.match(/^\s*(```|~~~)/);
+      if (fenceMatch) {
+        fence = fence === undefined ? fenceMatch[1] : fence === fenceMatch[1] ? undefined : fence;
+      }
+
+      const heading = fence === undefined && !fenceMatch ? line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/) : null;
+      if (heading) {
+        headings = [...headings.slice(0, heading[1].length - 1), heading[2]];
+        sections.push({ headings, lines: [line] });
+      } else {
+        sections[sections.length - 1].lines.push(line);
+      }
+    }
+
+    const drafts: ChunkDraft[] = [];
+    for (const section of sections) {
+      const content = section.lines.join('\n').trim();
+      if (!content) continue;
+
+      const metadata = section.headings.length > 0 ? { section: section.headings.join(' > ') } : {};
+      for (const part of this.fit(content)) {
+        drafts.push({ content: part, metadata });
+      }
+    }
+    return drafts;
+  }
+
+  private fit(content: string): string[] {
+    return content.length <= this.options.chunkSize ? [content] : this.options.fallback.split(content);
+  }
+}
+
+// ============================================================================
+// Code Symbol Chunker
+// ============================================================================
+
+const TS_SYMBOL =
+  /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|const|let|var|namespace)\s+([A-Za-z_$][\w$]*)/;
+
+/** Top-level declarations by language; group 1 is the symbol name */
+export const SYMBOL_PATTERNS: Record<string, RegExp> = {
+  typescript: TS_SYMBOL,
+  javascript: TS_SYMBOL,
+  python: /^(?:async\s+)?(?:def|class)\s+([A-Za-z_]\w*)/,
+  go: /^(?:func|type)\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/,
+  rust: /^(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:fn|struct|enum|trait|impl|mod)\s+(?:<[^>]*>\s*)?([A-Za-z_]\w*)/,
+  java: /^\s{0,4}(?:(?:public|private|protected|static|final|abstract|sealed|synchronized)\s+)+(?:[\w<>[\],.?\s]+?\s+)?([A-Za-z_]\w*)\s*[({]/,
+};
+
+/** Comment and decorator lines that belong to the following symbol */
+const LEADING_LINE = /^\s*(?:\/\/|\/\*|\*|#|@)/;
+
+export class CodeSymbolChunker implements DocumentChunker {
+  constructor(private options: ChunkerOptions) {}
+
+  chunk(document: Document): ChunkDraft[] {
+    const language = String(document.metadata.language ?? 'typescript');
+    const pattern = SYMBOL_PATTERNS[language];
+    const lines = document.content.split('\n');
+    if (!pattern) {
+      return this.options.fallback.split(document.content).map(content => ({ content, metadata: { language } }));
+    }
+
+    // Symbol boundaries, moved up over their doc comments / decorators
+    const boundaries: Array<{ line: number; symbol: string }> = [];
+    let floor = 0;
+    lines.forEach((line, index) => {
+      const match = line.match(pattern);
+      if (!match) return;
+      let boundary = index;
+      while (boundary > floor && LEADING_LINE.test(lines[boundary - 1])) {
+        boundary--;
+      }
+      boundaries.push({ line: boundary, symbol: match[1] });
+      floor = index + 1;
+    });
+
+    // Preamble (imports etc.) + one segment per symbol up to the next boundary
+    const segments: Array<{ start: number; end: number; symbol?: string }> = [];
+    if (boundaries.length === 0 || boundaries[0].line > 0) {
+      segments.push({ start: 0, end: boundaries[0]?.line ?? lines.length });
+    }
+    boundaries.forEach((boundary, i) => {
+      segments.push({ start: boundary.line, end: boundaries[i + 1]?.line ?? lines.length, symbol: boundary.symbol });
+    });
+
+    // Merge small neighbours up to chunkSize
+    const drafts: ChunkDraft[] = [];
+    let group: { start: number; end: number; symbols: string[] } | undefined;
+    const flush = () => {
+      if (!group) return;
+      const content = lines.slice(group.start, group.end).join('\n').trim();
+      if (content) {
+        const metadata = { language, symbols: group.symbols, startLine: group.start + 1, endLine: group.end };
+        const parts = content.length <= this.options.chunkSize ? [content] : this.options.fallback.split(content);
+        drafts.push(...parts.map(part => ({ content: part, metadata })));
+      }
+      group = undefined;
+    };
+
+    for (const segment of segments) {
+      const size = lines.slice(segment.start, segment.end).join('\n').length;
+      const groupSize = group ? lines.slice(group.start, group.end).join('\n').length : 0;
+      if (group && groupSize + size > this.options.chunkSize) {
+        flush();
+      }
+      group = group
+        ? { ...group, end: segment.end, symbols: segment.symbol ? [...group.symbols, segment.symbol] : group.symbols }
+        : { start: segment.start, end: segment.end, symbols: segment.symbol ? [segment.symbol] : [] };
+    }
+    flush();
+    return drafts;
+  }
+}
+
+// ============================================================================
+// Dispatch
+// ============================================================================
+
+/**
+ * Picks a chunker from `metadata.contentType` (set by the document loaders)
+ */
+export class StructureAwareChunker implements DocumentChunker {
+  private markdown: MarkdownHeadingChunker;
+  private code: CodeSymbolChunker;
+
+  constructor(private options: ChunkerOptions) {
+    this.markdown = new MarkdownHeadingChunker(options);
+    this.code = new CodeSymbolChunker(options);
+  }
+
+  chunk(document: Document): ChunkDraft[] {
+    switch (document.metadata.contentType) {
+      case 'markdown':
+      case 'html':
+        return this.markdown.chunk(document);
+      case 'code':
+        return this.code.chunk(document);
+      default:
+        return this.options.fallback.split(document.content).map(content => ({ content }));
+    }
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Inline citations for RAG answers
+ *
+ * Answers cite sources with numbered markers matching the context numbering, e.g.
+ * "Use npm [1]." or "Both work [1, 3].". Each valid number becomes a Citation with
+ * the marker's offsets in the answer and the cited chunk's offsets in its document.
+ */
+
+import type { RetrievalResult } from './rag.js';
+
+export interface Citation {
+  /** Citation number as written in the answer; `sources[number - 1]` is the cited result */
+  number: number;
+  /** Offsets of the whole marker (e.g. `[1, 3]`) in the answer */
+  start: number;
+  end: number;
+  chunkId: string;
+  documentId: string;
+  /** Document source (file path or URL), if known */
+  source?: string;
+  /** Character range of the cited chunk within the document content */
+  sourceStart?: number;
+  sourceEnd?: number;
+}
+
+const MARKER = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+/** Longest partial marker kept pending between streamed deltas */
+const MAX_MARKER_LENGTH = 24;
+
+/**
+ * Incrementally extracts citations from a (streamed) answer
+ *
+ * Markers split across deltas are held back until they are complete.
+ */
+export class CitationTracker {
+  readonly citations: Citation[] = [];
+  private text = '';
+  private scanned = 0;
+
+  constructor(private sources: RetrievalResult[]) {}
+
+  get answer(): string {
+    return this.text;
+  }
+
+  /**
+   * Append answer text; returns citations completed by this delta
+   */
+  push(delta: string): Citation[] {
+    this.text += delta;
+    const found: Citation[] = [];
+
+    MARKER.lastIndex = this.scanned;
+    for (let match = MARKER.exec(this.text); match; match = MARKER.exec(this.text)) {
+      for (const value of match[1].split(',')) {
+        const citation = this.resolve(Number(value.trim()), match.index, match.index + match[0].length);
+        if (citation) found.push(citation);
+      }
+      this.scanned = match.index + match[0].length;
+    }
+
+    // Keep an unterminated `[...` pending until the next delta
+    const open = this.text.lastIndexOf('[');
+    this.scanned = open >= this.scanned && !this.text.includes(']', open) && this.text.length - open <= MAX_MARKER_LENGTH
+      ? open
+      : this.text.length;
+
+    this.citations.push(...found);
+    return found;
+  }
+
+  private resolve(number: number, start: number, end: number): Citation | undefined {
+    // Numbers outside the context are not real sources
+    const result = this.sources[number - 1];
+    if (!result) return undefined;
+
+    const { chunk } = result;
+    return {
+      number,
+      start,
+      end,
+      chunkId: chunk.id,
+      documentId: chunk.documentId,
+      ...(typeof chunk.metadata?.source === 'string' && { source: chunk.metadata.source }),
+      ...(chunk.startOffset !== undefined && { sourceStart: chunk.startOffset, sourceEnd: chunk.endOffset }),
+    };
+  }
+}
+
+/**
+ * Extract all citations from a complete answer
+ */
+export function extractCitations(answer: string, sources: RetrievalResult[]): Citation[] {
+  const tracker = new CitationTracker(sources);
+  tracker.push(answer);
+  return tracker.citations;
+}
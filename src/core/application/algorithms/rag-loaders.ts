@@ -0,0 +1,505 @@
+/**
+ * Document loaders for RAG ingestion
+ *
+ * Turn files into RAG Documents: Markdown (front matter), HTML, PDF text, source code,
+ * JSON / JSON Lines, CSV / TSV and plain text, plus directory loading with glob filters.
+ * Loaders set `metadata.contentType` so StructureAwareChunker can pick a chunking strategy.
+ */
+
+import { readdir, readFile, stat } from 'fs/promises';
+import { basename, extname, join, posix, relative, sep } from 'path';
+import { inflateSync } from 'zlib';
+import { globToRegExp } from '../../../tools/filesystem.js';
+import type { Document, DocumentMetadata } from './rag.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DocumentContentType = 'markdown' | 'html' | 'pdf' | 'code' | 'json' | 'csv' | 'text';
+
+export interface DocumentLoader {
+  readonly contentType: DocumentContentType;
+  /** Lower-case file extensions including the dot */
+  readonly extensions: string[];
+  load(data: Uint8Array, source: string): Document[] | Promise<Document[]>;
+}
+
+export interface DirectoryLoaderOptions {
+  /** Glob patterns relative to the directory (default: every file with a loader) */
+  include?: string[];
+  /** Glob patterns to skip; matched against files and directories */
+  exclude?: string[];
+  /** Loaders tried before the defaults */
+  loaders?: DocumentLoader[];
+  /** Files larger than this are skipped (default 10 MB) */
+  maxFileSize?: number;
+}
+
+const DEFAULT_EXCLUDE = ['**/node_modules', '**/.git', '**/dist', '**/build', '**/coverage', '**/.*'];
+
+const decoder = new TextDecoder('utf-8');
+
+function decode(data: Uint8Array): string {
+  return decoder.decode(data).replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+function createDocument(source: string, content: string, metadata: DocumentMetadata): Document {
+  return {
+    id: source,
+    content,
+    metadata: { source, title: basename(source), ...metadata },
+  };
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+/**
+ * Parse simple `key: value` front matter; `[a, b]` values become arrays
+ */
+function parseFrontMatter(text: string): { data: Record<string, unknown>; body: string } {
+  const match = text.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!match) return { data: {}, body: text };
+
+  const data: Record<string, unknown> = {};
+  for (const line of match[1].split('\n')) {
+    const pair = line.match(/^([\w-]+):\s*(.*)$/);
+    if (!pair) continue;
+    const value = pair[2].trim().replace(/^(['"])(.*)\1$/, '$2');
+    data[pair[1]] = /^\[.*\]$/.test(value)
+      ? value.slice(1, -1).split(',').map(item => item.trim().replace(/^(['"])(.*)\1$/, '$2')).filter(Boolean)
+      : value;
+  }
+  return { data, body: text.slice(match[0].length) };
+}
+
+export class MarkdownLoader implements DocumentLoader {
+  readonly contentType = 'markdown' as const;
+  readonly extensions = ['.md', '.markdown', '.mdx'];
+
+  load(data: Uint8Array, source: string): Document[] {
+    const { data: frontMatter, body } = parseFrontMatter(decode(data));
+    const heading = body.match(/^#\s+(.+)$/m)?.[1].trim();
+    const title = typeof frontMatter.title === 'string' ? frontMatter.title : heading;
+
+    return [createDocument(source, body.trim(), {
+      ...frontMatter,
+      contentType: this.contentType,
+      ...(title && { title }),
+    })];
+  }
+}
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * Convert HTML to Markdown-like text: headings become `#` lines, `<pre>` becomes a fence
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|head|svg)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) =>
+      `\n\n${'#'.repeat(Number(level))} ${inner.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()}\n\n`)
+    .replace(/<pre\b[^>]*>([\s\S]*?)<\/pre>/gi, (_, inner: string) => `\n\n\`\`\`\n${inner.replace(/<[^>]+>/g, '')}\n\`\`\`\n\n`)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|section|article|tr|ul|ol|table|blockquote|header|footer)>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export class HtmlLoader implements DocumentLoader {
+  readonly contentType = 'html' as const;
+  readonly extensions = ['.html', '.htm', '.xhtml'];
+
+  load(data: Uint8Array, source: string): Document[] {
+    const html = decode(data);
+    const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1].trim();
+    return [createDocument(source, htmlToText(html), {
+      contentType: this.contentType,
+      ...(title && { title: decodeEntities(title) }),
+    })];
+  }
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+/**
+ * Parse a PDF literal string starting after `(`; returns the text and the index after `)`
+ */
+function readLiteralString(content: string, index: number): [string, number] {
+  let text = '';
+  let depth = 1;
+  const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+  while (index < content.length) {
+    const char = content[index++];
+    if (char === '\\') {
+      const next = content[index++];
+      if (/[0-7]/.test(next)) {
+        const octal = (next + content.slice(index, index + 2)).match(/^[0-7]{1,3}/)![0];
+        index += octal.length - 1;
+        text += String.fromCharCode(parseInt(octal, 8));
+      } else if (next !== '\n') {
+        text += escapes[next] ?? next;
+      }
+    } else if (char === '(') {
+      depth++;
+      text += char;
+    } else if (char === ')') {
+      if (--depth === 0) break;
+      text += char;
+    } else {
+      text += char;
+    }
+  }
+  return [text, index];
+}
+
+/**
+ * Extract text shown by Tj / TJ / ' / " operators from a content stream
+ */
+function extractStreamText(content: string): string {
+  let text = '';
+  let strings: string[] = [];
+  let numbers: number[] = [];
+  let arrayDepth = 0;
+  let index = 0;
+
+  while (index < content.length) {
+    const char = content[index];
+
+    if (char === '(') {
+      const [value, next] = readLiteralString(content, index + 1);
+      strings.push(value);
+      index = next;
+    } else if (char === '<' && content[index + 1] !== '<') {
+      const end = content.indexOf('>', index);
+      const hex = content.slice(index + 1, end).replace(/\s/g, '');
+      strings.push((hex.match(/.{1,2}/g) ?? []).map(pair => String.fromCharCode(parseInt(pair.padEnd(2, '0'), 16))).join(''));
+      index = end + 1;
+    } else if (char === '[' || char === ']') {
+      arrayDepth += char === '[' ? 1 : -1;
+      index++;
+    } else if (char === '%') {
+      index = content.indexOf('\n', index) === -1 ? content.length : content.indexOf('\n', index);
+    } else if (/[\s<>{}/]/.test(char)) {
+      index++;
+    } else {
+      const token = content.slice(index).match(/^[^\s()<>[\]{}/%]+/)![0];
+      index += token.length;
+
+      if (/^[-+]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+        // large negative kerning inside TJ arrays is a word gap
+        if (arrayDepth > 0 && Number(token) < -200) strings.push(' ');
+        numbers.push(Number(token));
+        continue;
+      }
+
+      switch (token) {
+        case 'Tj':
+        case 'TJ':
+          text += strings.join('');
+          break;
+        case "'":
+        case '"':
+          text += `\n${strings.join('')}`;
+          break;
+        case 'T*':
+          text += '\n';
+          break;
+        case 'Td':
+        case 'TD':
+          text += numbers[numbers.length - 1] !== 0 ? '\n' : ' ';
+          break;
+        case 'ET':
+          text += '\n';
+          break;
+      }
+      strings = [];
+      numbers = [];
+    }
+  }
+  return text;
+}
+
+/**
+ * Extract text from a PDF with text-based content streams (uncompressed or FlateDecode)
+ *
+ * Covers PDFs exported by word processors and documentation tools with simple fonts.
+ * Scanned or CID-encoded PDFs need an external extractor (see PdfLoader options).
+ */
+export function extractPdfText(data: Uint8Array): string {
+  const raw = Buffer.from(data).toString('latin1');
+  const pages: string[] = [];
+  const streamPattern = /<<((?:[^<>]|<<(?:[^<>]|<<[^<>]*>>)*>>|<[^<>]*>)*)>>\s*stream\r?\n/g;
+
+  for (let match = streamPattern.exec(raw); match; match = streamPattern.exec(raw)) {
+    const dictionary = match[1];
+    const start = match.index + match[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+    streamPattern.lastIndex = end;
+
+    // skip images, embedded fonts and other binary streams
+    if (/\/Subtype\s*\/Image|\/Length1|\/Type\s*\/(?:XRef|ObjStm|EmbeddedFile)/.test(dictionary)) continue;
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1] ?? '';
+    if (filters && filters.replace(/\/FlateDecode|[[\]\s]/g, '')) continue;
+
+    let content = raw.slice(start, end).replace(/\r?\n$/, '');
+    if (filters.includes('FlateDecode')) {
+      try {
+        content = inflateSync(Buffer.from(content, 'latin1')).toString('latin1');
+      } catch {
+        continue;
+      }
+    }
+    if (!/\bBT\b/.test(content)) continue;
+
+    const text = extractStreamText(content).replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (text) pages.push(text);
+  }
+  return pages.join('\n\n');
+}
+
+export interface PdfLoaderOptions {
+  /** Custom extractor (e.g. pdf.js) for PDFs the built-in parser cannot read */
+  extractText?: (data: Uint8Array) => string | Promise<string>;
+}
+
+export class PdfLoader implements DocumentLoader {
+  readonly contentType = 'pdf' as const;
+  readonly extensions = ['.pdf'];
+
+  constructor(private options: PdfLoaderOptions = {}) {}
+
+  async load(data: Uint8Array, source: string): Promise<Document[]> {
+    const text = this.options.extractText ? await this.options.extractText(data) : extractPdfText(data);
+    const title = Buffer.from(data).toString('latin1').match(/\/Title\s*\(([^)]*)\)/)?.[1];
+    return [createDocument(source, text, { contentType: this.contentType, ...(title && { title }) })];
+  }
+}
+
+// ============================================================================
+// Source Code
+// ============================================================================
+
+export const CODE_LANGUAGES: Record<string, string> = {
+  '.ts': 'typescript', '.tsx': 'typescript', '.mts': 'typescript', '.cts': 'typescript',
+  '.js': 'javascript', '.jsx': 'javascript', '.mjs': 'javascript', '.cjs': 'javascript',
+  '.py': 'python', '.go': 'go', '.rs': 'rust', '.java': 'java', '.kt': 'kotlin',
+  '.cs': 'csharp', '.rb': 'ruby', '.php': 'php', '.swift': 'swift', '.c': 'c', '.h': 'c',
+  '.cpp': 'cpp', '.hpp': 'cpp', '.sh': 'shell', '.sql': 'sql', '.yaml': 'yaml', '.yml': 'yaml',
+};
+
+export class CodeLoader implements DocumentLoader {
+  readonly contentType = 'code' as const;
+  readonly extensions = Object.keys(CODE_LANGUAGES);
+
+  load(data: Uint8Array, source: string): Document[] {
+    const language = CODE_LANGUAGES[extname(source).toLowerCase()] ?? 'text';
+    return [createDocument(source, decode(data), { contentType: this.contentType, language })];
+  }
+}
+
+// ============================================================================
+// JSON / CSV
+// ============================================================================
+
+function flattenJson(value: unknown, path: string, lines: string[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenJson(item, `${path}[${index}]`, lines));
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      flattenJson(item, path ? `${path}.${key}` : key, lines);
+    }
+  } else {
+    lines.push(`${path || '$'}: ${String(value)}`);
+  }
+}
+
+/**
+ * JSON becomes `path: value` lines; JSON Lines becomes one line per record
+ */
+export class JsonLoader implements DocumentLoader {
+  readonly contentType = 'json' as const;
+  readonly extensions = ['.json', '.jsonl', '.ndjson'];
+
+  load(data: Uint8Array, source: string): Document[] {
+    const text = decode(data);
+    const lines: string[] = [];
+
+    if (extname(source).toLowerCase() === '.json') {
+      flattenJson(JSON.parse(text), '', lines);
+    } else {
+      for (const line of text.split('\n').filter(line => line.trim())) {
+        const fields: string[] = [];
+        flattenJson(JSON.parse(line), '', fields);
+        lines.push(fields.join('; '));
+      }
+    }
+    return [createDocument(source, lines.join('\n'), { contentType: this.contentType })];
+  }
+}
+
+/**
+ * Parse delimited text (RFC 4180 quoting)
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+/**
+ * Each row becomes a `column: value; ...` line
+ */
+export class CsvLoader implements DocumentLoader {
+  readonly contentType = 'csv' as const;
+  readonly extensions = ['.csv', '.tsv'];
+
+  load(data: Uint8Array, source: string): Document[] {
+    const [header = [], ...rows] = parseCsv(decode(data), extname(source).toLowerCase() === '.tsv' ? '\t' : ',');
+    const lines = rows.map(cells => header.map((column, index) => `${column}: ${cells[index] ?? ''}`).join('; '));
+    return [createDocument(source, lines.join('\n'), { contentType: this.contentType, columns: header, rows: rows.length })];
+  }
+}
+
+// ============================================================================
+// Plain Text
+// ============================================================================
+
+export class TextLoader implements DocumentLoader {
+  readonly contentType = 'text' as const;
+  readonly extensions = ['.txt', '.text', '.rst', '.adoc', '.log'];
+
+  load(data: Uint8Array, source: string): Document[] {
+    return [createDocument(source, decode(data), { contentType: this.contentType })];
+  }
+}
+
+// ============================================================================
+// Files and Directories
+// ============================================================================
+
+export function createDefaultLoaders(): DocumentLoader[] {
+  return [new MarkdownLoader(), new HtmlLoader(), new PdfLoader(), new CodeLoader(), new JsonLoader(), new CsvLoader(), new TextLoader()];
+}
+
+export function findLoader(source: string, loaders: DocumentLoader[]): DocumentLoader | undefined {
+  const extension = extname(source).toLowerCase();
+  return loaders.find(loader => loader.extensions.includes(extension));
+}
+
+export function toPosixPath(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
+
+/**
+ * Load a single file; the document ID and `metadata.source` are the given path
+ */
+export async function loadFile(file: string, loaders: DocumentLoader[] = createDefaultLoaders()): Promise<Document[]> {
+  const source = posix.normalize(toPosixPath(file));
+  const loader = findLoader(source, loaders);
+  if (!loader) {
+    throw new Error(`No document loader for ${file}`);
+  }
+
+  const [data, info] = await Promise.all([readFile(file), stat(file)]);
+  const documents = await loader.load(data, source);
+  return documents.map(document => ({
+    ...document,
+    metadata: { updatedAt: info.mtime, ...document.metadata },
+  }));
+}
+
+/**
+ * Load every supported file under a directory, sorted by path
+ *
+ * Document IDs are `<dir>/<relative path>`, so re-loading the same directory yields the same IDs.
+ */
+export async function loadDirectory(dir: string, options: DirectoryLoaderOptions = {}): Promise<Document[]> {
+  const loaders = [...(options.loaders ?? []), ...createDefaultLoaders()];
+  const include = (options.include ?? []).map(globToRegExp);
+  const exclude = [...DEFAULT_EXCLUDE, ...(options.exclude ?? [])].map(globToRegExp);
+  const maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024;
+  const isExcluded = (path: string) => exclude.some(pattern => pattern.test(path));
+
+  const files: string[] = [];
+  const visit = async (current: string): Promise<void> => {
+    const entries = await readdir(current, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      const absolute = join(current, entry.name);
+      const path = toPosixPath(relative(dir, absolute));
+      if (entry.isSymbolicLink() || isExcluded(path)) continue;
+
+      if (entry.isDirectory()) {
+        await visit(absolute);
+      } else if (entry.isFile() && findLoader(path, loaders) && (include.length === 0 || include.some(pattern => pattern.test(path)))) {
+        files.push(absolute);
+      }
+    }
+  };
+  await visit(dir);
+
+  const documents: Document[] = [];
+  for (const file of files) {
+    if ((await stat(file)).size > maxFileSize) continue;
+    documents.push(...await loadFile(file, loaders));
+  }
+  return documents;
+}
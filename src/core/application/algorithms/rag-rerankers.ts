@@ -0,0 +1,109 @@
+/**
+ * Rerankers for RAG retrieval
+ *
+ * A reranker rescores the fused candidate set against the query and keeps the best topK.
+ * Scores are written to `RetrievalResult.relevance` (higher is more relevant).
+ *
+ * - KeywordOverlapReranker: query term overlap, no model required (default)
+ * - LLMReranker: asks the completion model for a 0-10 relevance grade per passage
+ * - CrossEncoderReranker: delegates to a cross-encoder model (bge-reranker, ms-marco-MiniLM, ...)
+ */
+
+import type { LLMProvider, RetrievalResult } from './rag.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Reranker {
+  rerank(query: string, results: RetrievalResult[], topK: number): Promise<RetrievalResult[]>;
+}
+
+/**
+ * A cross-encoder scores (query, passage) pairs jointly; one score per passage
+ */
+export interface CrossEncoder {
+  score(query: string, passages: string[]): Promise<number[]>;
+}
+
+function rankByRelevance(results: RetrievalResult[], scores: number[], topK: number): RetrievalResult[] {
+  return results
+    .map((result, i) => ({ ...result, relevance: scores[i] }))
+    .sort((a, b) => b.relevance - a.relevance)
+    .slice(0, topK);
+}
+
+// ============================================================================
+// Keyword Overlap
+// ============================================================================
+
+export class KeywordOverlapReranker implements Reranker {
+  async rerank(query: string, results: RetrievalResult[], topK: number): Promise<RetrievalResult[]> {
+    const queryWords = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const scores = results.map(result => {
+      if (queryWords.length === 0) return 0;
+      const contentWords = result.chunk.content.toLowerCase().split(/\s+/);
+      const matches = queryWords.filter(word => contentWords.some(cw => cw.includes(word))).length;
+      return matches / queryWords.length;
+    });
+    return rankByRelevance(results, scores, topK);
+  }
+}
+
+// ============================================================================
+// LLM Reranker
+// ============================================================================
+
+export interface LLMRerankerOptions {
+  /** Passages are truncated to this many characters in the grading prompt (default 2000) */
+  maxPassageLength?: number;
+  /** Options passed through to LLMProvider.complete */
+  completionOptions?: unknown;
+}
+
+export class LLMReranker implements Reranker {
+  constructor(private llm: LLMProvider, private options: LLMRerankerOptions = {}) {}
+
+  async rerank(query: string, results: RetrievalResult[], topK: number): Promise<RetrievalResult[]> {
+    const scores = await Promise.all(results.map(result => this.grade(query, result.chunk.content)));
+    return rankByRelevance(results, scores, topK);
+  }
+
+  private async grade(query: string, passage: string): Promise<number> {
+    const prompt = `Rate how relevant the passage is to the question on a scale from 0 (unrelated) to 10 (fully answers it). Reply with the number only.
+
+Question: ${query}
+
+Passage:
+${passage.slice(0, this.options.maxPassageLength ?? 2000)}
+
+Score:`;
+    const reply = await this.llm.complete(prompt, this.options.completionOptions);
+    const grade = Number(reply.match(/\d+(?:\.\d+)?/)?.[0]);
+    return Number.isFinite(grade) ? Math.min(Math.max(grade, 0), 10) / 10 : 0;
+  }
+}
+
+// ============================================================================
+// Cross-Encoder Reranker
+// ============================================================================
+
+export interface CrossEncoderRerankerOptions {
+  /** Map raw scores (logits) to 0-1 with a sigmoid; use 'none' for models that already do (default 'sigmoid') */
+  activation?: 'sigmoid' | 'none';
+}
+
+export class CrossEncoderReranker implements Reranker {
+  constructor(private model: CrossEncoder, private options: CrossEncoderRerankerOptions = {}) {}
+
+  async rerank(query: string, results: RetrievalResult[], topK: number): Promise<RetrievalResult[]> {
+    if (results.length === 0) return [];
+
+    const raw = await this.model.score(query, results.map(result => result.chunk.content));
+    if (raw.length !== results.length) {
+      throw new Error(`Cross-encoder returned ${raw.length} scores for ${results.length} passages`);
+    }
+    const scores = (this.options.activation ?? 'sigmoid') === 'sigmoid' ? raw.map(score => 1 / (1 + Math.exp(-score))) : raw;
+    return rankByRelevance(results, scores, topK);
+  }
+}
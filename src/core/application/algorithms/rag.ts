@@ -4,7 +4,16 @@
  * Reference: LangChain, LlamaIndex
  */
 
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, posix } from 'path';
 import { EventEmitter } from '../../../utils/event-emitter.js';
+import { BM25SearchEngine } from '../memory/bm25-search.js';
+import { HybridSearchEngine } from '../memory/hybrid-search.js';
+import { StructureAwareChunker, type DocumentChunker } from './rag-chunkers.js';
+import { CitationTracker, type Citation } from './rag-citations.js';
+import { KeywordOverlapReranker, type Reranker } from './rag-rerankers.js';
+import { loadDirectory, toPosixPath, type DirectoryLoaderOptions } from './rag-loaders.js';
 
 // ============================================================================
 // Core Types
@@ -35,20 +44,37 @@ export interface Chunk {
   index: number;
   embedding?: number[];
   metadata?: DocumentMetadata;
+  /** Character range of the chunk within the document content */
+  startOffset?: number;
+  endOffset?: number;
 }
 
 export interface RetrievalResult {
   chunk: Chunk;
   score: number;
   relevance: number;
+  /** Per-retriever scores behind a fused result */
+  retrieval?: {
+    dense?: number;
+    sparse?: number;
+    rrf?: number;
+  };
 }
 
+/**
+ * - dense: vector search only
+ * - sparse: BM25 keyword search only
+ * - hybrid: both, fused with Reciprocal Rank Fusion
+ */
+export type RetrievalMode = 'dense' | 'sparse' | 'hybrid';
+
 export interface RAGQuery {
   text: string;
   topK?: number;
   filters?: QueryFilter;
   minScore?: number;
   rerank?: boolean;
+  mode?: RetrievalMode;
 }
 
 export interface QueryFilter {
@@ -61,6 +87,8 @@ export interface QueryFilter {
 export interface RAGResponse {
   answer: string;
   sources: RetrievalResult[];
+  /** Inline `[n]` markers in the answer, resolved to `sources[n - 1]` */
+  citations: Citation[];
   context: string;
   confidence: number;
   metadata: {
@@ -79,6 +107,51 @@ export interface RAGConfig {
   embeddingModel: string;
   completionModel: string;
   maxContextTokens: number;
+  retrievalMode: RetrievalMode;
+  /** RRF constant k used to fuse dense and BM25 rankings */
+  rrfK: number;
+  /**
+   * Where `ingest` records document hashes; use a persistent store together with a
+   * persistent vector store so a restarted process skips unchanged documents and
+   * deletes stale ones (default: in memory)
+   */
+  ingestionManifest?: IngestionManifestStore;
+}
+
+export interface IngestOptions {
+  /**
+   * Source owned by this ingestion (e.g. a directory). Documents recorded under the
+   * same scope that are not in the batch are treated as stale and deleted
+   */
+  scope?: string;
+}
+
+/**
+ * Hashes `ingest` recorded for a document
+ */
+export interface IngestionManifestEntry {
+  contentHash: string;
+  chunkHashes: string[];
+  /** Scope that produced the document, if any */
+  scope?: string;
+}
+
+export type IngestionManifest = Record<string, IngestionManifestEntry>;
+
+export interface IngestionManifestStore {
+  load(): Promise<IngestionManifest>;
+  save(manifest: IngestionManifest): Promise<void>;
+}
+
+export interface IngestionResult {
+  added: string[];
+  updated: string[];
+  unchanged: string[];
+  deleted: string[];
+  /** Chunks sent to the embedding provider */
+  embeddedChunks: number;
+  /** Chunks whose embedding was reused because their content hash did not change */
+  reusedChunks: number;
 }
 
 // ============================================================================
@@ -91,6 +164,12 @@ export interface VectorStore {
   delete(documentId: string): Promise<void>;
   clear(): Promise<void>;
   count(): Promise<number>;
+  /**
+   * All stored chunks. Persistent stores should implement this so a new RAGSystem can
+   * rebuild its BM25 index; without it, sparse and hybrid retrieval fall back to dense
+   * search until documents are ingested in the current process.
+   */
+  list?(): Promise<Chunk[]>;
 }
 
 // ============================================================================
@@ -154,7 +233,9 @@ export class RecursiveCharacterTextSplitter implements TextSplitter {
       }
 
       chunks.push(text.slice(start, end).trim());
-      start = end - this.chunkOverlap;
+      if (end >= text.length) break;
+      // Always advance, even when the overlap reaches back past the previous start
+      start = Math.max(end - this.chunkOverlap, start + 1);
     }
 
     return chunks.filter(chunk => chunk.length > 0);
@@ -171,16 +252,25 @@ export class RAGSystem extends EventEmitter {
   private embeddingProvider: EmbeddingProvider;
   private llmProvider: LLMProvider;
   private textSplitter: TextSplitter;
+  private chunker: DocumentChunker;
+  private reranker: Reranker;
+  private bm25 = new BM25SearchEngine();
+  private fusion: HybridSearchEngine;
 
   private documents = new Map<string, Document>();
   private chunks = new Map<string, Chunk>();
+  private manifestStore: IngestionManifestStore;
+  private manifest?: Promise<IngestionManifest>;
+  private storedChunks?: Promise<void>;
 
   constructor(
     config: Partial<RAGConfig>,
     vectorStore: VectorStore,
     embeddingProvider: EmbeddingProvider,
     llmProvider: LLMProvider,
-    textSplitter?: TextSplitter
+    textSplitter?: TextSplitter,
+    chunker?: DocumentChunker,
+    reranker?: Reranker
   ) {
     super();
     this.config = {
@@ -192,59 +282,175 @@ export class RAGSystem extends EventEmitter {
       embeddingModel: 'text-embedding-3-small',
       completionModel: 'gpt-4',
       maxContextTokens: 4000,
+      retrievalMode: 'hybrid',
+      rrfK: 60,
       ...config,
     };
     this.vectorStore = vectorStore;
     this.embeddingProvider = embeddingProvider;
     this.llmProvider = llmProvider;
+    this.manifestStore = this.config.ingestionManifest ?? new InMemoryIngestionManifestStore();
     this.textSplitter = textSplitter || new RecursiveCharacterTextSplitter(
       this.config.chunkSize,
       this.config.chunkOverlap
     );
+    this.chunker = chunker || new StructureAwareChunker({
+      chunkSize: this.config.chunkSize,
+      fallback: this.textSplitter,
+    });
+    this.reranker = reranker || new KeywordOverlapReranker();
+    // Equal weights; fused scores are normalized in _fuse, so no minimum here
+    this.fusion = new HybridSearchEngine({ k: this.config.rrfK, semanticWeight: 1, textWeight: 1, minScore: 0 });
   }
 
   /**
    * Add documents to the RAG system
    */
   async addDocuments(docs: Document[]): Promise<void> {
+    await this.ingest(docs);
+  }
+
+  /**
+   * Incrementally index documents
+   *
+   * Documents whose content and metadata hash is unchanged are skipped. For changed
+   * documents, chunks whose content hash matches a previous chunk reuse its embedding,
+   * so only new or edited chunks are re-embedded.
+   *
+   * Hashes are kept in the ingestion manifest. With a persistent manifest, documents
+   * skipped in a restarted process stay in the vector store but are not loaded into
+   * `getDocument()`.
+   */
+  async ingest(docs: Document[], options: IngestOptions = {}): Promise<IngestionResult> {
+    const result: IngestionResult = { added: [], updated: [], unchanged: [], deleted: [], embeddedChunks: 0, reusedChunks: 0 };
     this.emit('indexing:started', { count: docs.length });
+    await this._loadStoredChunks();
+    const manifest = await this._getManifest();
 
     for (const doc of docs) {
-      // Store document
-      this.documents.set(doc.id, doc);
+      const contentHash = hashDocument(doc);
+      const existing = this.documents.get(doc.id);
+      const recorded = manifest[doc.id];
+      if (recorded?.contentHash === contentHash) {
+        result.unchanged.push(doc.id);
+        continue;
+      }
+
+      const previous = this.getDocumentChunks(doc.id);
+      const embeddingsByHash = new Map<string, number[]>();
+      for (const chunk of previous) {
+        if (chunk.embedding) embeddingsByHash.set(String(chunk.metadata?.contentHash), chunk.embedding);
+      }
 
       // Split into chunks
-      const texts = this.textSplitter.split(doc.content);
-      const docChunks: Chunk[] = [];
-
-      for (let i = 0; i < texts.length; i++) {
-        const chunk: Chunk = {
-          id: `${doc.id}-chunk-${i}`,
-          documentId: doc.id,
-          content: texts[i],
-          index: i,
-          metadata: doc.metadata,
-        };
-        docChunks.push(chunk);
+      const drafts = this.chunker.chunk(doc);
+      const offsets = locateChunks(doc.content, drafts.map(draft => draft.content));
+      const docChunks: Chunk[] = drafts.map((draft, i) => ({
+        id: `${doc.id}-chunk-${i}`,
+        documentId: doc.id,
+        content: draft.content,
+        index: i,
+        metadata: { ...doc.metadata, ...draft.metadata, contentHash: sha256(draft.content) },
+        ...offsets[i],
+      }));
+
+      // Generate embeddings for new or edited chunks only
+      const pending: Chunk[] = [];
+      for (const chunk of docChunks) {
+        chunk.embedding = embeddingsByHash.get(String(chunk.metadata!.contentHash));
+        if (!chunk.embedding) pending.push(chunk);
+      }
+      if (pending.length > 0) {
+        const embeddings = await this.embeddingProvider.embedBatch(pending.map(c => c.content));
+        pending.forEach((chunk, i) => {
+          chunk.embedding = embeddings[i];
+        });
+      }
+      result.embeddedChunks += pending.length;
+      result.reusedChunks += docChunks.length - pending.length;
+
+      // Replace the previous version. A persistent vector store may still hold chunks
+      // from an earlier process, so delete by document id even for unknown documents
+      await this.vectorStore.delete(doc.id);
+      for (const chunk of previous) {
+        this.chunks.delete(chunk.id);
+        this.bm25.removeDocument(chunk.id);
+      }
+      this.documents.set(doc.id, { ...doc, metadata: { ...doc.metadata, contentHash } });
+      for (const chunk of docChunks) {
         this.chunks.set(chunk.id, chunk);
+        this.bm25.addDocument(chunk.id, chunk.content);
       }
+      await this.vectorStore.add(docChunks);
+      manifest[doc.id] = {
+        contentHash,
+        chunkHashes: docChunks.map(chunk => String(chunk.metadata!.contentHash)),
+        ...(options.scope !== undefined && { scope: options.scope }),
+      };
+
+      (existing || recorded ? result.updated : result.added).push(doc.id);
+      this.emit('document:indexed', { documentId: doc.id, chunks: docChunks.length, embedded: pending.length });
+    }
 
-      // Generate embeddings
-      const embeddings = await this.embeddingProvider.embedBatch(
-        docChunks.map(c => c.content)
-      );
-
-      for (let i = 0; i < docChunks.length; i++) {
-        docChunks[i].embedding = embeddings[i];
+    // Delete stale documents recorded under the same scope
+    if (options.scope !== undefined) {
+      const ids = new Set(docs.map(doc => doc.id));
+      for (const [id, entry] of Object.entries(manifest)) {
+        if (entry.scope === options.scope && !ids.has(id)) {
+          await this.deleteDocument(id);
+          result.deleted.push(id);
+        }
       }
+    }
+    await this.manifestStore.save(manifest);
 
-      // Add to vector store
-      await this.vectorStore.add(docChunks);
+    this.emit('indexing:completed', { totalDocuments: this.documents.size, totalChunks: this.chunks.size, ...result });
+    return result;
+  }
+
+  /**
+   * Load a directory with the document loaders and ingest it; files removed
+   * since the last run are deleted from the index
+   */
+  async ingestDirectory(dir: string, options: DirectoryLoaderOptions = {}): Promise<IngestionResult> {
+    const docs = await loadDirectory(dir, options);
+    const root = posix.normalize(toPosixPath(dir)).replace(/(.)\/$/, '$1');
+    return this.ingest(docs, { scope: root });
+  }
+
+  /**
+   * Retrieve chunks for a query: dense and/or BM25 candidates, fused with RRF,
+   * then optionally reranked
+   *
+   * `minScore` applies to dense similarities; BM25 candidates are kept whenever
+   * they match a query term.
+   */
+  async retrieve(query: RAGQuery): Promise<RetrievalResult[]> {
+    await this._loadStoredChunks();
+    const topK = query.topK || this.config.topK;
+    // No keyword index (e.g. a store without list() opened in a new process): dense only
+    const mode = this.chunks.size === 0 ? 'dense' : query.mode ?? this.config.retrievalMode;
+    const candidates = query.rerank ? Math.max(this.config.rerankTopK, topK) : topK;
+    const minScore = query.minScore ?? this.config.minScore;
+
+    let dense: RetrievalResult[] = [];
+    if (mode !== 'sparse') {
+      const queryEmbedding = await this.embeddingProvider.embed(query.text);
+      const results = await this.vectorStore.search(queryEmbedding, candidates, query.filters);
+      dense = results.filter(r => r.score >= minScore);
+    }
 
-      this.emit('document:indexed', { documentId: doc.id, chunks: docChunks.length });
+    let results = dense;
+    if (mode !== 'dense') {
+      const sparse = this._searchKeywords(query.text, candidates, query.filters);
+      results = this._fuse(mode === 'hybrid' ? dense : [], sparse).slice(0, candidates);
     }
 
-    this.emit('indexing:completed', { totalDocuments: this.documents.size, totalChunks: this.chunks.size });
+    // Rerank if enabled
+    if (query.rerank && results.length > topK) {
+      return this.reranker.rerank(query.text, results, topK);
+    }
+    return results.slice(0, topK);
   }
 
   /**
@@ -254,72 +460,52 @@ export class RAGSystem extends EventEmitter {
     const startTime = Date.now();
     this.emit('query:started', { query: query.text });
 
-    // 1. Embed query
-    const queryEmbedding = await this.embeddingProvider.embed(query.text);
-
-    // 2. Retrieve relevant chunks
-    const topK = query.topK || this.config.topK;
-    const results = await this.vectorStore.search(
-      queryEmbedding,
-      query.rerank ? this.config.rerankTopK : topK,
-      query.filters
-    );
-
-    // 3. Filter by minimum score
-    const minScore = query.minScore || this.config.minScore;
-    const filteredResults = results.filter(r => r.score >= minScore);
-
-    // 4. Rerank if enabled
-    let finalResults = filteredResults;
-    if (query.rerank && filteredResults.length > topK) {
-      finalResults = await this._rerank(query.text, filteredResults, topK);
-    } else {
-      finalResults = filteredResults.slice(0, topK);
-    }
+    // 1. Retrieve relevant chunks
+    const finalResults = await this.retrieve(query);
 
-    // 5. Build context
+    // 2. Build context
     const context = this._buildContext(finalResults);
 
-    // 6. Generate answer
+    // 3. Generate answer
     const prompt = this._buildPrompt(query.text, context);
     const answer = await this.llmProvider.complete(prompt);
 
-    // 7. Calculate confidence
-    const confidence = this._calculateConfidence(finalResults, answer);
-
-    const response: RAGResponse = {
-      answer,
-      sources: finalResults,
-      context,
-      confidence,
-      metadata: {
-        queryTime: Date.now() - startTime,
-        tokensUsed: this._estimateTokens(prompt + answer),
-        chunksRetrieved: finalResults.length,
-      },
-    };
+    // 4. Resolve citations
+    const citations = new CitationTracker(finalResults);
+    citations.push(answer);
 
+    const response = this._buildResponse(answer, finalResults, citations.citations, context, prompt, startTime);
     this.emit('query:completed', response);
     return response;
   }
 
   /**
    * Stream query response
+   *
+   * Yields answer text as it is generated and emits `query:citation` as each
+   * citation marker completes; the generator's return value is the full response.
    */
-  async *queryStream(query: RAGQuery): AsyncGenerator<string> {
-    // 1-5. Same as query()
-    const queryEmbedding = await this.embeddingProvider.embed(query.text);
-    const topK = query.topK || this.config.topK;
-    const results = await this.vectorStore.search(queryEmbedding, topK, query.filters);
-    const minScore = query.minScore || this.config.minScore;
-    const filteredResults = results.filter(r => r.score >= minScore);
-    const context = this._buildContext(filteredResults);
+  async *queryStream(query: RAGQuery): AsyncGenerator<string, RAGResponse, undefined> {
+    const startTime = Date.now();
+    this.emit('query:started', { query: query.text });
+
+    // 1-2. Same as query()
+    const finalResults = await this.retrieve(query);
+    const context = this._buildContext(finalResults);
     const prompt = this._buildPrompt(query.text, context);
 
-    // 6. Stream answer
+    // 3. Stream answer, tracking citations across deltas
+    const citations = new CitationTracker(finalResults);
     for await (const chunk of this.llmProvider.completeStream(prompt)) {
+      for (const citation of citations.push(chunk)) {
+        this.emit('query:citation', citation);
+      }
       yield chunk;
     }
+
+    const response = this._buildResponse(citations.answer, finalResults, citations.citations, context, prompt, startTime);
+    this.emit('query:completed', response);
+    return response;
   }
 
   /**
@@ -327,11 +513,17 @@ export class RAGSystem extends EventEmitter {
    */
   async deleteDocument(documentId: string): Promise<void> {
     this.documents.delete(documentId);
+    const manifest = await this._getManifest();
+    if (manifest[documentId]) {
+      delete manifest[documentId];
+      await this.manifestStore.save(manifest);
+    }
 
     // Remove associated chunks
     for (const [id, chunk] of this.chunks) {
       if (chunk.documentId === documentId) {
         this.chunks.delete(id);
+        this.bm25.removeDocument(id);
       }
     }
 
@@ -345,6 +537,9 @@ export class RAGSystem extends EventEmitter {
   async clear(): Promise<void> {
     this.documents.clear();
     this.chunks.clear();
+    this.bm25.clear();
+    this.manifest = Promise.resolve({});
+    await this.manifestStore.save({});
     await this.vectorStore.clear();
     this.emit('index:cleared');
   }
@@ -356,6 +551,15 @@ export class RAGSystem extends EventEmitter {
     return this.documents.get(id);
   }
 
+  /**
+   * Get the chunks of a document in order
+   */
+  getDocumentChunks(documentId: string): Chunk[] {
+    return Array.from(this.chunks.values())
+      .filter(chunk => chunk.documentId === documentId)
+      .sort((a, b) => a.index - b.index);
+  }
+
   /**
    * Get all documents
    */
@@ -382,38 +586,63 @@ export class RAGSystem extends EventEmitter {
   // Private Methods
   // ============================================================================
 
-  private async _rerank(
-    query: string,
-    results: RetrievalResult[],
-    topK: number
-  ): Promise<RetrievalResult[]> {
-    // Simple reranking based on LLM scoring
-    // In production, use a dedicated reranking model like Cohere Rerank
-    const scoredResults = await Promise.all(
-      results.map(async (result) => {
-        const score = await this._scoreRelevance(query, result.chunk.content);
-        return { ...result, relevance: score };
-      })
-    );
-
-    scoredResults.sort((a, b) => b.relevance - a.relevance);
-    return scoredResults.slice(0, topK);
+  /**
+   * Load chunks persisted by an earlier process into the BM25 index, once
+   */
+  private _loadStoredChunks(): Promise<void> {
+    this.storedChunks ??= (async () => {
+      for (const chunk of await this.vectorStore.list?.() ?? []) {
+        if (this.chunks.has(chunk.id)) continue;
+        this.chunks.set(chunk.id, chunk);
+        this.bm25.addDocument(chunk.id, chunk.content);
+      }
+    })();
+    return this.storedChunks;
   }
 
-  private async _scoreRelevance(query: string, content: string): Promise<number> {
-    // Simple relevance scoring
-    // In production, use cross-encoder or LLM-based scoring
-    const queryWords = query.toLowerCase().split(/\s+/);
-    const contentWords = content.toLowerCase().split(/\s+/);
+  private _getManifest(): Promise<IngestionManifest> {
+    this.manifest ??= this.manifestStore.load();
+    return this.manifest;
+  }
 
-    let matches = 0;
-    for (const word of queryWords) {
-      if (contentWords.some(cw => cw.includes(word))) {
-        matches++;
+  private _searchKeywords(text: string, limit: number, filters?: QueryFilter): RetrievalResult[] {
+    // Over-fetch so that filtering still leaves enough candidates
+    const hits = this.bm25.search(text, filters ? limit * 4 : limit);
+    const results: RetrievalResult[] = [];
+    for (const hit of hits) {
+      const chunk = this.chunks.get(hit.id);
+      if (chunk && (!filters || matchesQueryFilter(chunk, filters))) {
+        results.push({ chunk, score: hit.score, relevance: 0 });
       }
     }
+    return results.slice(0, limit);
+  }
 
-    return matches / queryWords.length;
+  /**
+   * Reciprocal Rank Fusion of dense and BM25 rankings; `score` is the RRF score
+   * scaled to 0-1 (1 = ranked first by every retriever used)
+   */
+  private _fuse(dense: RetrievalResult[], sparse: RetrievalResult[]): RetrievalResult[] {
+    const byId = new Map<string, RetrievalResult>();
+    for (const result of [...dense, ...sparse]) {
+      if (!byId.has(result.chunk.id)) byId.set(result.chunk.id, result);
+    }
+
+    const sources = [
+      { source: 'semantic' as const, results: dense.map(r => ({ id: r.chunk.id, score: r.score })) },
+      { source: 'fulltext' as const, results: sparse.map(r => ({ id: r.chunk.id, score: r.score })) },
+    ].filter(source => source.results.length > 0);
+    const maxScore = sources.length / (this.config.rrfK + 1);
+
+    return this.fusion.fuseResults(sources).map(fused => {
+      const scores = Object.fromEntries(fused.ranks.map(rank => [rank.source === 'semantic' ? 'dense' : 'sparse', rank.originalScore]));
+      return {
+        chunk: byId.get(fused.id)!.chunk,
+        score: fused.rrfScore / maxScore,
+        relevance: 0,
+        retrieval: { ...scores, rrf: fused.rrfScore },
+      };
+    });
   }
 
   private _buildContext(results: RetrievalResult[]): string {
@@ -424,6 +653,7 @@ export class RAGSystem extends EventEmitter {
 
   private _buildPrompt(query: string, context: string): string {
     return `You are a helpful assistant. Use the following context to answer the question. If you don't know the answer based on the context, say so.
+Cite the context passages you use with their numbers in square brackets, e.g. [1] or [2, 3], right after the statement they support.
 
 Context:
 ${context}
@@ -436,8 +666,8 @@ Answer:`;
   private _calculateConfidence(results: RetrievalResult[], answer: string): number {
     if (results.length === 0) return 0;
 
-    // Average similarity score
-    const avgScore = results.reduce((sum, r) => sum + r.score, 0) / results.length;
+    // Average similarity score (dense similarity when the result was fused)
+    const avgScore = results.reduce((sum, r) => sum + (r.retrieval?.dense ?? r.score), 0) / results.length;
 
     // Check if answer contains "I don't know" or similar
     const uncertaintyIndicators = [
@@ -455,12 +685,115 @@ Answer:`;
     return hasUncertainty ? avgScore * 0.5 : avgScore;
   }
 
+  private _buildResponse(
+    answer: string,
+    sources: RetrievalResult[],
+    citations: Citation[],
+    context: string,
+    prompt: string,
+    startTime: number
+  ): RAGResponse {
+    return {
+      answer,
+      sources,
+      citations,
+      context,
+      confidence: this._calculateConfidence(sources, answer),
+      metadata: {
+        queryTime: Date.now() - startTime,
+        tokensUsed: this._estimateTokens(prompt + answer),
+        chunksRetrieved: sources.length,
+      },
+    };
+  }
+
   private _estimateTokens(text: string): number {
     // Rough estimation: ~4 characters per token
     return Math.ceil(text.length / 4);
   }
 }
 
+/**
+ * Character ranges of chunks within the document; chunks may overlap, so each
+ * search starts just after the previous chunk's start
+ */
+function locateChunks(content: string, chunks: string[]): Array<{ startOffset?: number; endOffset?: number }> {
+  let cursor = 0;
+  return chunks.map(chunk => {
+    let start = content.indexOf(chunk, cursor);
+    if (start === -1) start = content.indexOf(chunk);
+    if (start === -1) return {};
+    cursor = start + 1;
+    return { startOffset: start, endOffset: start + chunk.length };
+  });
+}
+
+function matchesQueryFilter(chunk: Chunk, filters: QueryFilter): boolean {
+  if (filters.tags && chunk.metadata?.tags) {
+    if (!filters.tags.some(tag => chunk.metadata!.tags!.includes(tag))) {
+      return false;
+    }
+  }
+
+  if (filters.category && chunk.metadata?.category !== filters.category) {
+    return false;
+  }
+
+  return true;
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Hash of the content and metadata; `updatedAt` and the stored hash are ignored
+ * so that touching a file without editing it does not trigger re-indexing
+ */
+function hashDocument(doc: Document): string {
+  const metadata = { ...doc.metadata };
+  delete metadata.updatedAt;
+  delete metadata.contentHash;
+  return sha256(JSON.stringify([doc.content, metadata]));
+}
+
+// ============================================================================
+// Ingestion Manifest Stores
+// ============================================================================
+
+export class InMemoryIngestionManifestStore implements IngestionManifestStore {
+  private manifest: IngestionManifest = {};
+
+  async load(): Promise<IngestionManifest> {
+    return structuredClone(this.manifest);
+  }
+
+  async save(manifest: IngestionManifest): Promise<void> {
+    this.manifest = structuredClone(manifest);
+  }
+}
+
+/**
+ * Manifest kept in a JSON file, for use alongside a persistent vector store
+ */
+export class FileIngestionManifestStore implements IngestionManifestStore {
+  constructor(private path: string) {}
+
+  async load(): Promise<IngestionManifest> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf-8')) as IngestionManifest;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  async save(manifest: IngestionManifest): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, JSON.stringify(manifest), 'utf-8');
+  }
+}
+
 // ============================================================================
 // In-Memory Vector Store (for testing)
 // ============================================================================
@@ -485,7 +818,7 @@ export class InMemoryVectorStore implements VectorStore {
 
     // Apply filters
     if (filters) {
-      results = results.filter(r => this._matchesFilters(r.chunk, filters));
+      results = results.filter(r => matchesQueryFilter(r.chunk, filters));
     }
 
     // Sort by score
@@ -506,6 +839,10 @@ export class InMemoryVectorStore implements VectorStore {
     return this.vectors.length;
   }
 
+  async list(): Promise<Chunk[]> {
+    return this.vectors.map(({ chunk, embedding }) => ({ ...chunk, embedding }));
+  }
+
   private _cosineSimilarity(a: number[], b: number[]): number {
     let dotProduct = 0;
     let normA = 0;
@@ -519,20 +856,6 @@ export class InMemoryVectorStore implements VectorStore {
 
     return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
-
-  private _matchesFilters(chunk: Chunk, filters: QueryFilter): boolean {
-    if (filters.tags && chunk.metadata?.tags) {
-      if (!filters.tags.some(tag => chunk.metadata!.tags!.includes(tag))) {
-        return false;
-      }
-    }
-
-    if (filters.category && chunk.metadata?.category !== filters.category) {
-      return false;
-    }
-
-    return true;
-  }
 }
 
 export default RAGSystem;
@@ -1,7 +1,8 @@
 /**
  * MCP Client Implementation
  * Full implementation of Model Context Protocol client
- * Supports stdio, SSE, HTTP, WebSocket transports
+ * Supports stdio, SSE, Streamable HTTP, WebSocket transports
+ * with automatic reconnect
  */
 
 import { EventEmitter } from '../../utils/event-emitter.js';
@@ -9,8 +10,20 @@ import { Logger, createLogger } from '../../utils/logger.js';
 
 // Node.js 专用 - 直接导入 child_process
 import { spawn } from 'child_process';
+import { basename, resolve as resolvePath } from 'path';
+import { pathToFileURL } from 'url';
+import type { LLMMessage, LLMProvider } from '../../llm/provider.js';
 import {
   MCPClient,
+  MCPClientOptions,
+  MCPServerRequest,
+  MCPMessage,
+  MCPErrorCode,
+  MCPRoot,
+  MCPCreateMessageParams,
+  MCPCreateMessageResult,
+  MCPSamplingHandler,
+  MCPElicitParams,
   MCPServerConfig,
   MCPTransport,
   MCPRequest,
@@ -35,6 +48,16 @@ import {
   MCPManager,
 } from '../domain/mcp.js';
 
+/**
+ * Error answered to a server request with a JSON-RPC error code
+ */
+class MCPRequestError extends Error {
+  constructor(public readonly code: number, message: string) {
+    super(message);
+    this.name = 'MCPRequestError';
+  }
+}
+
 // ============================================================================
 // Transport Implementations
 // ============================================================================
@@ -42,15 +65,15 @@ import {
 interface MCPTransportHandler {
   connect(): Promise<void>;
   disconnect(): Promise<void>;
-  send(message: MCPRequest): Promise<void>;
-  onMessage(callback: (message: MCPResponse | MCPNotification) => void): void;
+  send(message: MCPMessage): Promise<void>;
+  onMessage(callback: (message: MCPMessage) => void): void;
   onError(callback: (error: Error) => void): void;
   onClose(callback: () => void): void;
 }
 
 class StdioTransport implements MCPTransportHandler {
   private _process: import('child_process').ChildProcess | null = null;
-  private _messageCallback: ((message: MCPResponse | MCPNotification) => void) | null = null;
+  private _messageCallback: ((message: MCPMessage) => void) | null = null;
   private _errorCallback: ((error: Error) => void) | null = null;
   private _closeCallback: (() => void) | null = null;
   private _buffer = '';
@@ -112,7 +135,7 @@ class StdioTransport implements MCPTransportHandler {
     this._buffer = '';
   }
 
-  async send(message: MCPRequest): Promise<void> {
+  async send(message: MCPMessage): Promise<void> {
     if (!this._process?.stdin) {
       throw new Error('Not connected');
     }
@@ -120,7 +143,7 @@ class StdioTransport implements MCPTransportHandler {
     this._process.stdin.write(json + '\n');
   }
 
-  onMessage(callback: (message: MCPResponse | MCPNotification) => void): void {
+  onMessage(callback: (message: MCPMessage) => void): void {
     this._messageCallback = callback;
   }
 
@@ -139,7 +162,7 @@ class StdioTransport implements MCPTransportHandler {
     for (const line of lines) {
       if (line.trim()) {
         try {
-          const message = JSON.parse(line) as MCPResponse | MCPNotification;
+          const message = JSON.parse(line) as MCPMessage;
           this._messageCallback?.(message);
         } catch (error) {
           console.error('Failed to parse MCP message:', line);
@@ -152,7 +175,7 @@ class StdioTransport implements MCPTransportHandler {
 class SSETransport implements MCPTransportHandler {
   private _eventSource: EventSource | null = null;
   private _endpoint: string;
-  private _messageCallback: ((message: MCPResponse | MCPNotification) => void) | null = null;
+  private _messageCallback: ((message: MCPMessage) => void) | null = null;
   private _errorCallback: ((error: Error) => void) | null = null;
 
   constructor(private _config: MCPTransport) {
@@ -170,7 +193,7 @@ class SSETransport implements MCPTransportHandler {
 
       this._eventSource.onmessage = (event) => {
         try {
-          const message = JSON.parse(event.data) as MCPResponse | MCPNotification;
+          const message = JSON.parse(event.data) as MCPMessage;
           this._messageCallback?.(message);
         } catch (error) {
           console.error('Failed to parse SSE message:', event.data);
@@ -192,7 +215,7 @@ class SSETransport implements MCPTransportHandler {
     this._eventSource = null;
   }
 
-  async send(message: MCPRequest): Promise<void> {
+  async send(message: MCPMessage): Promise<void> {
     const response = await fetch(this._endpoint, {
       method: 'POST',
       headers: {
@@ -207,7 +230,7 @@ class SSETransport implements MCPTransportHandler {
     }
   }
 
-  onMessage(callback: (message: MCPResponse | MCPNotification) => void): void {
+  onMessage(callback: (message: MCPMessage) => void): void {
     this._messageCallback = callback;
   }
 
@@ -220,53 +243,322 @@ class SSETransport implements MCPTransportHandler {
   }
 }
 
+/**
+ * Streamable HTTP transport (MCP 2025-03-26+).
+ * Replies arrive as JSON or as an SSE stream; a GET stream carries server-initiated
+ * messages. Streams are resumed with Last-Event-ID after a drop.
+ */
 class HTTPTransport implements MCPTransportHandler {
   private _endpoint: string;
-  private _messageCallback: ((message: MCPResponse | MCPNotification) => void) | null = null;
+  private _sessionId: string | null = null;
+  private _protocolVersion: string | null = null;
+  private _initializeId: string | number | null = null;
+  private _streams = new AbortController();
+  private _messageCallback: ((message: MCPMessage) => void) | null = null;
+  private _errorCallback: ((error: Error) => void) | null = null;
+  private _closeCallback: (() => void) | null = null;
 
   constructor(private _config: MCPTransport) {
     this._endpoint = _config.endpoint || '';
   }
 
+  get sessionId(): string | null {
+    return this._sessionId;
+  }
+
   async connect(): Promise<void> {
     if (!this._endpoint) {
       throw new Error('Endpoint is required for HTTP transport');
     }
-    // HTTP is stateless, no persistent connection needed
+    this._streams = new AbortController();
   }
 
   async disconnect(): Promise<void> {
-    // HTTP is stateless
+    this._streams.abort();
+
+    // 显式结束会话，服务端不支持时返回 405
+    if (this._sessionId) {
+      await fetch(this._endpoint, { method: 'DELETE', headers: this._headers() }).catch(() => {});
+      this._sessionId = null;
+    }
   }
 
-  async send(message: MCPRequest): Promise<void> {
+  async send(message: MCPMessage): Promise<void> {
+    if ('method' in message && message.method === 'initialize' && 'id' in message) {
+      this._initializeId = message.id;
+    }
+
     const response = await fetch(this._endpoint, {
       method: 'POST',
       headers: {
+        ...this._headers(),
         'Content-Type': 'application/json',
-        ...this._config.headers,
+        Accept: 'application/json, text/event-stream',
       },
       body: JSON.stringify(message),
+      signal: this._streams.signal,
     });
 
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) {
+      this._sessionId = sessionId;
+    }
+
+    if (response.status === 404 && this._sessionId) {
+      // 会话已过期：由客户端重连并重新 initialize
+      this._sessionId = null;
+      this._closeCallback?.();
+      throw new Error('MCP session expired');
+    }
+
     if (!response.ok) {
       throw new Error(`HTTP error: ${response.status}`);
     }
 
-    const data = await response.json() as MCPResponse | MCPNotification;
-    this._messageCallback?.(data);
+    if ('method' in message && message.method === 'notifications/initialized') {
+      void this._openServerStream();
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/event-stream')) {
+      void this._consumeStream(response, null);
+      return;
+    }
+
+    const text = await response.text();
+    if (text) {
+      this._dispatch(JSON.parse(text) as MCPMessage | MCPMessage[]);
+    }
   }
 
-  onMessage(callback: (message: MCPResponse | MCPNotification) => void): void {
+  onMessage(callback: (message: MCPMessage) => void): void {
     this._messageCallback = callback;
   }
 
-  onError(_callback: (error: Error) => void): void {
-    // HTTP transport doesn't use error callback
+  onError(callback: (error: Error) => void): void {
+    this._errorCallback = callback;
   }
 
-  onClose(_callback: () => void): void {
-    // HTTP transport doesn't use close callback
+  onClose(callback: () => void): void {
+    this._closeCallback = callback;
+  }
+
+  private _headers(): Record<string, string> {
+    const headers: Record<string, string> = { ...this._config.headers };
+    if (this._sessionId) headers['Mcp-Session-Id'] = this._sessionId;
+    if (this._protocolVersion) headers['MCP-Protocol-Version'] = this._protocolVersion;
+    return headers;
+  }
+
+  private _dispatch(payload: MCPMessage | MCPMessage[]): void {
+    for (const message of Array.isArray(payload) ? payload : [payload]) {
+      if ('id' in message && message.id === this._initializeId && 'result' in message) {
+        const result = message.result as { protocolVersion?: string } | undefined;
+        this._protocolVersion = result?.protocolVersion ?? null;
+        this._initializeId = null;
+      }
+      this._messageCallback?.(message);
+    }
+  }
+
+  /**
+   * GET stream for server-initiated requests and notifications (optional for servers)
+   */
+  private async _openServerStream(lastEventId: string | null = null): Promise<void> {
+    try {
+      const response = await fetch(this._endpoint, {
+        method: 'GET',
+        headers: {
+          ...this._headers(),
+          Accept: 'text/event-stream',
+          ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+        },
+        signal: this._streams.signal,
+      });
+
+      // 405: 服务端不提供 GET 流
+      if (!response.ok) {
+        return;
+      }
+      await this._consumeStream(response, lastEventId, true);
+    } catch (error) {
+      if (!this._streams.signal.aborted) {
+        this._errorCallback?.(error as Error);
+      }
+    }
+  }
+
+  /**
+   * Read an SSE response; when it drops, resume it with the last event ID
+   */
+  private async _consumeStream(response: Response, lastEventId: string | null, persistent = false): Promise<void> {
+    let retry = 1000;
+    let cursor = lastEventId;
+    let completed = false;
+
+    try {
+      for await (const event of readSSE(response)) {
+        if (event.id) cursor = event.id;
+        if (event.retry) retry = event.retry;
+        if (event.data) {
+          this._dispatch(JSON.parse(event.data) as MCPMessage | MCPMessage[]);
+        }
+      }
+      completed = true;
+    } catch (error) {
+      if (this._streams.signal.aborted) return;
+      this._errorCallback?.(error as Error);
+    }
+
+    // 响应流正常结束即完成；中断时（或 GET 流关闭时）带 Last-Event-ID 续传
+    if (this._streams.signal.aborted || (completed && !persistent) || (!cursor && !persistent)) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, retry));
+    if (!this._streams.signal.aborted) {
+      void this._openServerStream(cursor);
+    }
+  }
+}
+
+/**
+ * Minimal SSE parser over a fetch response body
+ */
+async function* readSSE(
+  response: Response
+): AsyncGenerator<{ id?: string; event?: string; data: string; retry?: number }> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: { id?: string; event?: string; data: string; retry?: number } = { data: '' };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (line === '') {
+          if (event.data || event.id) yield event;
+          event = { data: '' };
+          continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+        if (field === 'data') event.data += event.data ? `\n${value}` : value;
+        else if (field === 'id') event.id = value;
+        else if (field === 'event') event.event = value;
+        else if (field === 'retry' && /^\d+$/.test(value)) event.retry = Number(value);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+type WebSocketConstructor = new (url: string, protocols?: string | string[], options?: unknown) => WebSocket;
+
+/**
+ * Global WebSocket (browsers, Node.js 22+) or the optional `ws` package
+ */
+async function resolveWebSocket(): Promise<{ WebSocketImpl: WebSocketConstructor; isWs: boolean }> {
+  if (typeof globalThis.WebSocket === 'function') {
+    return { WebSocketImpl: globalThis.WebSocket as WebSocketConstructor, isWs: false };
+  }
+  try {
+    const moduleName = 'ws';
+    const mod = await import(moduleName) as { default?: WebSocketConstructor; WebSocket?: WebSocketConstructor };
+    return { WebSocketImpl: (mod.default ?? mod.WebSocket)!, isWs: true };
+  } catch {
+    throw new Error('WebSocket transport requires Node.js 22+ or the optional peer dependency "ws"');
+  }
+}
+
+class WebSocketTransport implements MCPTransportHandler {
+  private _socket: WebSocket | null = null;
+  private _closing = false;
+  private _messageCallback: ((message: MCPMessage) => void) | null = null;
+  private _errorCallback: ((error: Error) => void) | null = null;
+  private _closeCallback: (() => void) | null = null;
+
+  constructor(private _config: MCPTransport) {}
+
+  async connect(): Promise<void> {
+    if (!this._config.endpoint) {
+      throw new Error('Endpoint is required for WebSocket transport');
+    }
+
+    const { WebSocketImpl, isWs } = await resolveWebSocket();
+    this._closing = false;
+
+    // 仅 ws 支持自定义请求头
+    const socket = isWs && this._config.headers
+      ? new WebSocketImpl(this._config.endpoint, 'mcp', { headers: this._config.headers })
+      : new WebSocketImpl(this._config.endpoint, 'mcp');
+    this._socket = socket;
+
+    await new Promise<void>((resolve, reject) => {
+      socket.onopen = () => resolve();
+      socket.onerror = () => reject(new Error(`WebSocket connection failed: ${this._config.endpoint}`));
+      // 握手被拒绝时部分实现只触发 close
+      socket.onclose = () => reject(new Error(`WebSocket closed before opening: ${this._config.endpoint}`));
+    });
+
+    socket.onerror = () => {
+      this._errorCallback?.(new Error('WebSocket error'));
+    };
+    socket.onclose = () => {
+      this._socket = null;
+      if (!this._closing) {
+        this._closeCallback?.();
+      }
+    };
+    socket.onmessage = (event: MessageEvent) => {
+      const data = typeof event.data === 'string' ? event.data : String(event.data);
+      try {
+        const payload = JSON.parse(data) as MCPMessage | MCPMessage[];
+        for (const message of Array.isArray(payload) ? payload : [payload]) {
+          this._messageCallback?.(message);
+        }
+      } catch {
+        this._errorCallback?.(new Error(`Failed to parse WebSocket message: ${data}`));
+      }
+    };
+  }
+
+  async disconnect(): Promise<void> {
+    this._closing = true;
+    this._socket?.close();
+    this._socket = null;
+  }
+
+  async send(message: MCPMessage): Promise<void> {
+    if (!this._socket || this._socket.readyState !== 1) {
+      throw new Error('Not connected');
+    }
+    this._socket.send(JSON.stringify(message));
+  }
+
+  onMessage(callback: (message: MCPMessage) => void): void {
+    this._messageCallback = callback;
+  }
+
+  onError(callback: (error: Error) => void): void {
+    this._errorCallback = callback;
+  }
+
+  onClose(callback: () => void): void {
+    this._closeCallback = callback;
   }
 }
 
@@ -283,8 +575,12 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
   private _prompts: MCPPrompt[] = [];
   private _pendingRequests = new Map<string | number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
   private _requestId = 0;
+  private _serverRequests = new AbortController();
+  private _closing = false;
+  private _reconnecting = false;
+  private _cancelReconnect: (() => void) | null = null;
 
-  constructor(private _config: MCPServerConfig) {
+  constructor(private _config: MCPServerConfig, private _options: MCPClientOptions = {}) {
     super();
   }
 
@@ -321,6 +617,9 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
       return;
     }
 
+    this._closing = false;
+    this._serverRequests = new AbortController();
+
     // Create transport
     this._transport = this._createTransport(this._config.transport);
 
@@ -329,11 +628,17 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
     this._transport.onError((error) => this._handleError(error));
     this._transport.onClose(() => this._handleClose());
 
-    // Connect transport
-    await this._transport.connect();
+    try {
+      // Connect transport
+      await this._transport.connect();
 
-    // Initialize MCP protocol
-    await this._initialize();
+      // Initialize MCP protocol
+      await this._initialize();
+    } catch (error) {
+      await this._transport?.disconnect().catch(() => {});
+      this._transport = null;
+      throw error;
+    }
 
     this._isConnected = true;
 
@@ -347,10 +652,15 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
   }
 
   async disconnect(): Promise<void> {
+    // 同时终止进行中的重连
+    this._closing = true;
+    this._cancelReconnect?.();
+
     if (!this._isConnected) {
       return;
     }
 
+    this._serverRequests.abort();
     await this._transport?.disconnect();
     this._isConnected = false;
     this._transport = null;
@@ -420,6 +730,16 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
     await this._request<void>('ping', {});
   }
 
+  async setRoots(directories: string[]): Promise<void> {
+    const advertised = this._options.roots !== undefined;
+    this._options = { ...this._options, roots: directories };
+
+    // roots 能力在 initialize 时声明，之后只能通知变更
+    if (advertised && this._isConnected) {
+      await this._notify('notifications/roots/list_changed');
+    }
+  }
+
   // ============================================================================
   // Private Methods
   // ============================================================================
@@ -432,6 +752,8 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
         return new SSETransport(transportConfig);
       case 'http':
         return new HTTPTransport(transportConfig);
+      case 'websocket':
+        return new WebSocketTransport(transportConfig);
       default:
         throw new Error(`Unsupported transport type: ${transportConfig.type}`);
     }
@@ -451,12 +773,17 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
         prompts: { listChanged: true },
         logging: {},
         completions: {},
+        ...(this._options.roots ? { roots: { listChanged: true } } : {}),
+        ...(this._options.sampling ? { sampling: {} } : {}),
+        ...(this._options.elicitation ? { elicitation: {} } : {}),
       },
       clientInfo,
     };
 
     const result = await this._request<MCPInitializeResult>('initialize', params);
     this._capabilities = result.capabilities;
+
+    await this._notify('notifications/initialized');
   }
 
   private async _fetchCapabilities(): Promise<void> {
@@ -517,18 +844,36 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
     });
   }
 
-  private _handleMessage(message: MCPResponse | MCPNotification): void {
+  private async _notify(method: string, params?: unknown): Promise<void> {
+    if (!this._transport) {
+      throw new Error('Not connected');
+    }
+    const notification: MCPNotification = { jsonrpc: '2.0', method };
+    if (params !== undefined) {
+      notification.params = params;
+    }
+    await this._transport.send(notification);
+  }
+
+  private _handleMessage(message: MCPMessage): void {
     this.emit('mcp:message', { clientId: this._config.id, message });
 
+    // Handle server-initiated request
+    if ('method' in message && 'id' in message && message.id !== undefined) {
+      void this._handleServerRequest(message as MCPServerRequest);
+      return;
+    }
+
     // Handle response
     if ('id' in message && message.id !== undefined) {
-      const pending = this._pendingRequests.get(message.id);
+      const response = message as MCPResponse;
+      const pending = this._pendingRequests.get(response.id);
       if (pending) {
-        this._pendingRequests.delete(message.id);
-        if (message.error) {
-          pending.reject(new Error(message.error.message));
+        this._pendingRequests.delete(response.id);
+        if (response.error) {
+          pending.reject(new Error(response.error.message));
         } else {
-          pending.resolve(message.result);
+          pending.resolve(response.result);
         }
       }
     }
@@ -539,6 +884,59 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
     }
   }
 
+  private async _handleServerRequest(request: MCPServerRequest): Promise<void> {
+    this.emit('mcp:request', { clientId: this._config.id, request });
+
+    let response: MCPResponse;
+    try {
+      const result = await this._dispatchServerRequest(request);
+      response = { jsonrpc: '2.0', id: request.id, result };
+    } catch (error) {
+      response = {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: error instanceof MCPRequestError ? error.code : MCPErrorCode.INTERNAL_ERROR,
+          message: (error as Error).message,
+        },
+      };
+    }
+
+    // 连接已关闭时无需回复
+    if (!this._transport || this._serverRequests.signal.aborted) {
+      return;
+    }
+
+    try {
+      await this._transport.send(response);
+    } catch (error) {
+      this._handleError(error as Error);
+    }
+  }
+
+  private async _dispatchServerRequest(request: MCPServerRequest): Promise<unknown> {
+    const context = { clientId: this._config.id, signal: this._serverRequests.signal };
+
+    switch (request.method) {
+      case 'ping':
+        return {};
+
+      case 'roots/list':
+        if (!this._options.roots) break;
+        return { roots: toMCPRoots(this._options.roots) };
+
+      case 'sampling/createMessage':
+        if (!this._options.sampling) break;
+        return await this._options.sampling(request.params as MCPCreateMessageParams, context);
+
+      case 'elicitation/create':
+        if (!this._options.elicitation) break;
+        return await this._options.elicitation(request.params as MCPElicitParams, context);
+    }
+
+    throw new MCPRequestError(MCPErrorCode.METHOD_NOT_FOUND, `Method not supported: ${request.method}`);
+  }
+
   private _handleNotification(notification: MCPNotification): void {
     this.emit('mcp:notification', { clientId: this._config.id, notification });
 
@@ -577,9 +975,126 @@ export class MCPClientImpl extends EventEmitter implements MCPClient {
   }
 
   private _handleClose(): void {
+    // 仅在已建立的连接意外断开时重连（连接/重连过程中的失败由调用方处理）
+    if (!this._isConnected) {
+      return;
+    }
+
     this._isConnected = false;
+    this._serverRequests.abort();
+    for (const [, { reject }] of this._pendingRequests) {
+      reject(new Error('Connection closed'));
+    }
+    this._pendingRequests.clear();
+
     this.emit('mcp:disconnected', { clientId: this._config.id, reason: 'Transport closed' });
+
+    if (!this._closing && !this._reconnecting) {
+      void this._reconnect();
+    }
   }
+
+  /**
+   * Reconnect with exponential backoff, re-running initialize and re-listing
+   * tools, resources and prompts (config.retry, default 3 attempts from 1s)
+   */
+  private async _reconnect(): Promise<void> {
+    const maxAttempts = this._config.retry?.maxAttempts ?? 3;
+    const baseDelay = this._config.retry?.delay ?? 1000;
+    this._reconnecting = true;
+
+    try {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const delay = Math.min(baseDelay * 2 ** (attempt - 1), 30000);
+        this.emit('mcp:reconnecting', { clientId: this._config.id, attempt, delay });
+
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, delay);
+          this._cancelReconnect = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        this._cancelReconnect = null;
+        if (this._closing) {
+          return;
+        }
+
+        const previous = this._transport;
+        this._transport = null;
+        await previous?.disconnect().catch(() => {});
+
+        try {
+          await this.connect();
+          return;
+        } catch (error) {
+          this._handleError(error as Error);
+          if (this._closing) {
+            return;
+          }
+        }
+      }
+
+      this._handleError(new Error(`Reconnect failed after ${maxAttempts} attempts`));
+    } finally {
+      this._reconnecting = false;
+    }
+  }
+}
+
+// ============================================================================
+// Client Feature Helpers
+// ============================================================================
+
+/**
+ * Convert workspace directories to MCP roots (file:// URIs)
+ */
+export function toMCPRoots(directories: string[]): MCPRoot[] {
+  return directories.map((directory) => {
+    const absolute = resolvePath(directory);
+    return { uri: pathToFileURL(absolute).href, name: basename(absolute) || absolute };
+  });
+}
+
+/**
+ * Sampling handler that answers sampling/createMessage with an LLM provider
+ * (an LLMProvider or LLMManager)
+ */
+export function createLLMSamplingHandler(llm: Pick<LLMProvider, 'complete'>): MCPSamplingHandler {
+  return async (params, context): Promise<MCPCreateMessageResult> => {
+    const messages: LLMMessage[] = [];
+    if (params.systemPrompt) {
+      messages.push({ role: 'system', content: params.systemPrompt });
+    }
+
+    for (const message of params.messages) {
+      const { content } = message;
+      if (content.type === 'text') {
+        messages.push({ role: message.role, content: content.text });
+      } else if (content.type === 'image') {
+        messages.push({
+          role: message.role,
+          content: [{ type: 'image', source: { type: 'base64', mediaType: content.mimeType, data: content.data } }],
+        });
+      } else {
+        throw new MCPRequestError(MCPErrorCode.INVALID_PARAMS, `Unsupported sampling content: ${content.type}`);
+      }
+    }
+
+    const response = await llm.complete({
+      messages,
+      max_tokens: params.maxTokens,
+      temperature: params.temperature,
+      signal: context.signal,
+    });
+
+    return {
+      role: 'assistant',
+      content: { type: 'text', text: response.content },
+      model: response.model,
+      stopReason: response.finish_reason === 'length' ? 'maxTokens' : 'endTurn',
+    };
+  };
 }
 
 // ============================================================================
@@ -618,7 +1133,7 @@ export class MCPManagerImpl extends EventEmitter implements MCPManager {
   private _clients = new Map<string, MCPClient>();
   private _registry: MCPRegistry;
 
-  constructor(registry?: MCPRegistry) {
+  constructor(registry?: MCPRegistry, private _options: MCPClientOptions = {}) {
     super();
     this._registry = registry || new MCPRegistryImpl();
   }
@@ -633,11 +1148,12 @@ export class MCPManagerImpl extends EventEmitter implements MCPManager {
       throw new Error(`MCP server config not found: ${serverId}`);
     }
 
-    const client = new MCPClientImpl(config);
+    const client = new MCPClientImpl(config, this._options);
 
     // Forward all events
     client.on('mcp:connected', (event) => this.emit('mcp:connected', event));
     client.on('mcp:disconnected', (event) => this.emit('mcp:disconnected', event));
+    client.on('mcp:reconnecting', (event) => this.emit('mcp:reconnecting', event));
     client.on('mcp:error', (event) => this.emit('mcp:error', event));
     client.on('mcp:tools:changed', (event) => this.emit('mcp:tools:changed', event));
     client.on('mcp:resources:changed', (event) => this.emit('mcp:resources:changed', event));
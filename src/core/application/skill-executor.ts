@@ -35,6 +35,7 @@ import type {
   SkillId,
 } from '../domain/unified.js';
 import { createExecutionId } from '../domain/unified.js';
+import { parseAllowedTools, checkToolPermission } from '../../tools/allowed-tools.js';
 import { AgentEventEmitter } from '../../utils/typed-event-emitter.js';
 import { createLogger } from '../../utils/logger.js';
 import { NodeSecureSandbox, type NodeSandboxConfig } from '../../security/node-sandbox.js';
@@ -545,6 +546,7 @@ export class SkillExecutorImpl {
 
   private buildInjectedAPI(_skill: Skill, context: SkillExecutionContext): SkillInjectedAPI {
     const self = this;
+    const allowedTools = parseAllowedTools(_skill.meta?.allowedTools);
     const emitProgress = (progress: number, message: string, data?: Record<string, unknown>) => {
       self.eventEmitter.emit('skill:progress', {
         executionId: context.executionId,
@@ -612,6 +614,14 @@ export class SkillExecutorImpl {
           throw new Error('Skill execution aborted');
         }
 
+        const tool = this.toolRegistry.get(name) ?? this.toolRegistry.getByName(name);
+        const permission = checkToolPermission(allowedTools, tool ?? { id: name, name }, input);
+        if (!permission.allowed) {
+          context.logger.warn(`[AllowedTools] Blocked tool call from '${_skill.name}'`, { toolName: name, input, reason: permission.reason });
+          this.logger.warn(`Skill ${_skill.name} tool call denied: ${permission.reason}`);
+          throw new Error(permission.reason);
+        }
+
         const toolResult = await this.toolRegistry.execute(name, input, {
           executionId: context.executionId,
           agentId: context.agentId,
@@ -22,6 +22,7 @@ import type {
   ToolEvent,
   ToolEventType,
 } from '../domain/tool.js';
+import type { ApprovalPolicy } from '../../tools/approval.js';
 
 /**
  * Tool 执行器配置
@@ -31,6 +32,8 @@ export interface ToolExecutorConfig {
   timeout?: number;
   /** 确认回调 */
   onConfirm?: (tool: Tool, input: unknown) => Promise<boolean>;
+  /** 审批策略，配置后替代 onConfirm，对所有 Tool 生效 */
+  approval?: ApprovalPolicy;
 }
 
 /**
@@ -39,6 +42,7 @@ export interface ToolExecutorConfig {
 export class ToolExecutorImpl extends EventEmitter {
   private _timeout: number;
   private _onConfirm?: (tool: Tool, input: unknown) => Promise<boolean>;
+  private _approval?: ApprovalPolicy;
   private _abortControllers: Map<string, AbortController> = new Map();
   private _registry: Map<string, Tool> = new Map();
 
@@ -46,6 +50,7 @@ export class ToolExecutorImpl extends EventEmitter {
     super();
     this._timeout = config.timeout || 30000;
     this._onConfirm = config.onConfirm;
+    this._approval = config.approval;
   }
 
   /**
@@ -89,7 +94,19 @@ export class ToolExecutorImpl extends EventEmitter {
       }
 
       // 2. 确认操作
-      if (this.needsConfirmation(tool)) {
+      if (this._approval) {
+        const approval = await this._approval.check({
+          tool: { id: tool.id, name: tool.name, description: tool.description, requiresConfirmation: this.needsConfirmation(tool) },
+          input,
+          agentId: context.agentId,
+          sessionId: context.sessionId,
+          executionId,
+          signal: abortController.signal,
+        });
+        if (!approval.approved) {
+          throw new Error(`Tool execution denied${approval.reason ? `: ${approval.reason}` : ''}`);
+        }
+      } else if (this.needsConfirmation(tool)) {
         const confirmed = await this._confirm(tool, input);
         if (!confirmed) {
           throw new Error('Tool execution cancelled by user');
@@ -53,6 +53,8 @@ export type AgentEventType =
   | 'tool:invoked'
   | 'tool:completed'
   | 'tool:failed'
+  | 'tool:approval:requested'
+  | 'tool:approval:decided'
   // Skill 事件
   | 'skill:invoking'
   | 'skill:invoked'
@@ -178,6 +180,9 @@ export interface ChatRequest {
   
   // 元数据
   metadata?: Record<string, unknown>;
+
+  // 取消
+  signal?: AbortSignal;
 }
 
 /**
@@ -191,6 +196,8 @@ export interface ChatResponse {
   choices: ChatChoice[];
   usage: ChatUsage;
   systemFingerprint?: string;
+  /** 结构化输出（responseFormat 为 json_schema / json_object 时，已按 schema 校验） */
+  parsed?: unknown;
 }
 
 /**
@@ -362,6 +369,12 @@ export interface AgentConfig {
   skills?: import('./skill').Skill[];
   tools?: import('./tool').Tool[];
   mcp?: import('./mcp').MCPServerConfig[];
+  // MCP 客户端能力：roots 工作区目录、elicitation 用户输入处理（sampling 默认使用 llm）
+  mcpClient?: import('./mcp').MCPClientOptions;
+  // Tool 执行审批：confirm 非 none 的 Tool 默认需要确认
+  toolApproval?: import('../../tools/approval').ApprovalPolicy;
+  // 事件总线：审批审计事件发布于此，未配置时自动创建
+  eventBus?: import('../../agent/domain/events').EventBus;
   
   // Memory - 支持三种方式
   // 1. 自定义 MemoryStore 实例
@@ -374,7 +387,7 @@ export interface AgentConfig {
  * LLM 配置
  */
 export interface LLMConfig {
-  provider: 'openai' | 'anthropic' | 'google' | 'moonshot' | 'minimax' | 'zhipu' | 'qwen' | 'deepseek' | 'doubao' | 'custom';
+  provider: 'openai' | 'anthropic' | 'google' | 'moonshot' | 'minimax' | 'zhipu' | 'qwen' | 'deepseek' | 'doubao' | 'local' | 'custom';
   apiKey: string;
   model?: string;
   baseUrl?: string;
@@ -74,6 +74,36 @@ export interface MCPNotification {
   params?: unknown;
 }
 
+/**
+ * Requests sent by the server to the client
+ */
+export type MCPServerRequestMethod =
+  | 'sampling/createMessage'
+  | 'roots/list'
+  | 'elicitation/create'
+  | 'ping';
+
+export interface MCPServerRequest {
+  jsonrpc: '2.0';
+  id: string | number;
+  method: MCPServerRequestMethod | string;
+  params?: unknown;
+}
+
+export type MCPMessage = MCPRequest | MCPServerRequest | MCPResponse | MCPNotification;
+
+/**
+ * JSON-RPC error codes
+ */
+export const MCPErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  RESOURCE_NOT_FOUND: -32002,
+} as const;
+
 // ============================================================================
 // MCP Capability Types
 // ============================================================================
@@ -98,9 +128,20 @@ export interface MCPImplementation {
   version: string;
 }
 
+/**
+ * Capabilities the client offers to the server
+ */
+export interface MCPClientCapabilities {
+  roots?: {
+    listChanged?: boolean;
+  };
+  sampling?: {};
+  elicitation?: {};
+}
+
 export interface MCPInitializeParams {
   protocolVersion: string;
-  capabilities: MCPCapabilities;
+  capabilities: MCPCapabilities & MCPClientCapabilities;
   clientInfo: MCPImplementation;
 }
 
@@ -199,6 +240,110 @@ export interface MCPPromptGetResult {
   messages: MCPPromptMessage[];
 }
 
+// ============================================================================
+// MCP Sampling Types
+// ============================================================================
+
+export type MCPSamplingContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string };
+
+export interface MCPSamplingMessage {
+  role: 'user' | 'assistant';
+  content: MCPSamplingContent;
+}
+
+export interface MCPModelPreferences {
+  hints?: Array<{ name?: string }>;
+  costPriority?: number;
+  speedPriority?: number;
+  intelligencePriority?: number;
+}
+
+export interface MCPCreateMessageParams {
+  messages: MCPSamplingMessage[];
+  modelPreferences?: MCPModelPreferences;
+  systemPrompt?: string;
+  includeContext?: 'none' | 'thisServer' | 'allServers';
+  temperature?: number;
+  maxTokens: number;
+  stopSequences?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+export interface MCPCreateMessageResult {
+  role: 'assistant';
+  content: MCPSamplingContent;
+  model: string;
+  stopReason?: 'endTurn' | 'stopSequence' | 'maxTokens' | string;
+}
+
+// ============================================================================
+// MCP Roots Types
+// ============================================================================
+
+export interface MCPRoot {
+  /** file:// URI of the directory */
+  uri: string;
+  name?: string;
+}
+
+export interface MCPRootList {
+  roots: MCPRoot[];
+}
+
+// ============================================================================
+// MCP Elicitation Types
+// ============================================================================
+
+export interface MCPElicitParams {
+  message: string;
+  /** Flat object schema with primitive properties */
+  requestedSchema: {
+    type: 'object';
+    properties: Record<string, JSONSchema>;
+    required?: string[];
+  };
+}
+
+export interface MCPElicitResult {
+  action: 'accept' | 'decline' | 'cancel';
+  content?: Record<string, string | number | boolean>;
+}
+
+// ============================================================================
+// MCP Client Handlers
+// ============================================================================
+
+export interface MCPServerRequestContext {
+  clientId: string;
+  signal?: AbortSignal;
+}
+
+export type MCPSamplingHandler = (
+  params: MCPCreateMessageParams,
+  context: MCPServerRequestContext
+) => Promise<MCPCreateMessageResult>;
+
+export type MCPElicitationHandler = (
+  params: MCPElicitParams,
+  context: MCPServerRequestContext
+) => Promise<MCPElicitResult>;
+
+/**
+ * Client-side features offered to servers.
+ * Each capability is only advertised when configured.
+ */
+export interface MCPClientOptions {
+  /** Handles sampling/createMessage (e.g. by routing to the agent's LLM) */
+  sampling?: MCPSamplingHandler;
+  /** Workspace directories exposed through roots/list */
+  roots?: string[];
+  /** Asks the user for input on elicitation/create */
+  elicitation?: MCPElicitationHandler;
+}
+
 // ============================================================================
 // MCP Client Domain Model
 // ============================================================================
@@ -233,6 +378,9 @@ export interface MCPClient {
   }): Promise<{ completion: { values: string[]; total: number; hasMore: boolean } }>;
 
   ping(): Promise<void>;
+
+  /** Replace the exposed workspace directories and notify the server */
+  setRoots(directories: string[]): Promise<void>;
 }
 
 // ============================================================================
@@ -242,13 +390,15 @@ export interface MCPClient {
 export interface MCPClientEvents {
   'mcp:connected': { clientId: string; serverInfo: MCPImplementation };
   'mcp:disconnected': { clientId: string; reason?: string };
+  'mcp:reconnecting': { clientId: string; attempt: number; delay: number };
   'mcp:error': { clientId: string; error: Error };
   'mcp:tools:changed': { clientId: string; tools: MCPTool[] };
   'mcp:resources:changed': { clientId: string; resources: MCPResource[] };
   'mcp:resource:updated': { clientId: string; uri: string };
   'mcp:prompts:changed': { clientId: string; prompts: MCPPrompt[] };
   'mcp:notification': { clientId: string; notification: MCPNotification };
-  'mcp:message': { clientId: string; message: MCPRequest | MCPResponse | MCPNotification };
+  'mcp:message': { clientId: string; message: MCPMessage };
+  'mcp:request': { clientId: string; request: MCPServerRequest };
 }
 
 // ============================================================================
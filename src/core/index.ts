@@ -65,9 +65,15 @@ export type {
   MCPResponse,
   MCPNotification,
   MCPRequestMethod,
+  MCPServerRequest,
+  MCPServerRequestMethod,
+  MCPServerRequestContext,
+  MCPMessage,
   MCPInitializeParams,
   MCPInitializeResult,
   MCPCapabilities,
+  MCPClientCapabilities,
+  MCPClientOptions,
   MCPImplementation,
   MCPTool,
   MCPToolList,
@@ -81,11 +87,23 @@ export type {
   MCPPromptMessage,
   MCPPromptGetResult,
   MCPContentItem,
+  MCPSamplingContent,
+  MCPSamplingMessage,
+  MCPModelPreferences,
+  MCPCreateMessageParams,
+  MCPCreateMessageResult,
+  MCPSamplingHandler,
+  MCPRoot,
+  MCPRootList,
+  MCPElicitParams,
+  MCPElicitResult,
+  MCPElicitationHandler,
   MCPRegistry,
   MCPManager,
   MCPExecutionContext,
   MCPExecutionResult,
 } from './domain/mcp.js';
+export { MCPErrorCode } from './domain/mcp.js';
 
 // Plugin Domain
 export type {
@@ -156,11 +174,27 @@ export {
   ToolExecutorImpl,
 } from './application/tool-executor.js';
 
+// Tool Approval
+export {
+  ApprovalPolicy,
+  createApprovalPolicy,
+} from '../tools/approval.js';
+export type {
+  ApprovalDecision,
+  ApprovalRule,
+  ApprovalRequest,
+  ApprovalHandler,
+  ApprovalResult,
+  ApprovalPolicyConfig,
+} from '../tools/approval.js';
+
 // MCP Client
 export {
   MCPClientImpl,
   MCPRegistryImpl,
   MCPManagerImpl,
+  toMCPRoots,
+  createLLMSamplingHandler,
 } from './application/mcp-client.js';
 
 // Plugin Manager
@@ -254,6 +288,10 @@ export type {
 export {
   PluginSystem,
   createPluginSystem,
+  PluginKeyring,
+  signPlugin,
+  verifyPluginSignature,
+  getKeyId,
 } from './plugin-system';
 export type {
   PluginManifest,
@@ -264,4 +302,8 @@ export type {
   PluginEvent,
   PluginStatus,
   PluginSystemConfig,
+  PluginAPIMethod,
+  PluginVerificationResult,
+  PluginKeyringData,
+  TrustedPublisher,
 } from './plugin-system';
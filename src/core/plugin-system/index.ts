@@ -17,7 +17,10 @@
  * @standard Netflix/Google Level
  */
 
+import { Worker, MessageChannel, type MessagePort } from 'worker_threads';
 import { createLogger } from '../../utils/logger.js';
+import { PluginKeyring, verifyPluginSignature, type PluginVerificationResult } from './signing.js';
+import { PLUGIN_WORKER_SOURCE, type PluginWorkerData, type PluginWorkerMessage } from './worker-runtime.js';
 
 // ============================================================================
 // Types
@@ -110,11 +113,21 @@ export interface PluginSystemConfig {
   isolation?: 'worker' | 'vm' | 'iframe' | 'none';
   enableHotReload?: boolean;
   enableSignatureVerification?: boolean;
+  /** 受信任发布者公钥（PEM），会加入 keyring */
   publicKey?: string;
+  /** 受信任发布者与吊销列表 */
+  keyring?: PluginKeyring;
   maxConcurrentPlugins?: number;
   defaultQuota?: ResourceQuota;
+  /** Worker 隔离模式下插件崩溃后的最大重启次数 */
+  maxRestarts?: number;
 }
 
+/**
+ * 宿主暴露给插件的 API 方法，插件通过 context.api.call 调用
+ */
+export type PluginAPIMethod = (params: unknown, pluginId: string) => unknown | Promise<unknown>;
+
 // ============================================================================
 // Plugin Registry
 // ============================================================================
@@ -122,6 +135,8 @@ export interface PluginSystemConfig {
 class PluginRegistry {
   private plugins = new Map<string, Plugin>();
   private versions = new Map<string, string[]>(); // pluginId -> versions
+  private methods = new Map<string, PluginAPIMethod>();
+  private subscribers = new Map<string, Set<(data: unknown) => void>>();
 
   constructor() {
     // PluginRegistry initialized
@@ -162,6 +177,26 @@ class PluginRegistry {
     return this.versions.get(pluginId) || [];
   }
 
+  registerMethod(method: string, handler: PluginAPIMethod): void {
+    this.methods.set(method, handler);
+  }
+
+  subscribe(event: string, handler: (data: unknown) => void): () => void {
+    if (!this.subscribers.has(event)) {
+      this.subscribers.set(event, new Set());
+    }
+    this.subscribers.get(event)!.add(handler);
+    return () => {
+      this.subscribers.get(event)?.delete(handler);
+    };
+  }
+
+  publish(event: string, data: unknown): void {
+    for (const handler of [...(this.subscribers.get(event) ?? [])]) {
+      handler(data);
+    }
+  }
+
   private createContext(manifest: PluginManifest): PluginContext {
     return {
       id: manifest.id,
@@ -171,19 +206,25 @@ class PluginRegistry {
     };
   }
 
-  private createAPI(_manifest: PluginManifest): PluginAPI {
+  private createAPI(manifest: PluginManifest): PluginAPI {
     return {
-      call: async (_method: string, _params: unknown) => {
-        // Implement API call with permission check
-        return { success: true };
-      },
-      subscribe: (_event: string, _handler: (data: unknown) => void) => {
-        // Implement event subscription
-        return () => {};
-      },
-      publish: (_event: string, _data: unknown) => {
-        // Implement event publishing
+      call: async (method: string, params: unknown) => {
+        const handler = this.methods.get(method);
+        if (!handler) {
+          throw new Error(`API method ${method} not found`);
+        }
+        const allowed = manifest.permissions.some(permission =>
+          permission.type === 'api' &&
+          (permission.resource === method || permission.resource === '*') &&
+          permission.actions.includes('execute')
+        );
+        if (!allowed) {
+          throw new Error(`Plugin ${manifest.id} is not permitted to call ${method}`);
+        }
+        return handler(params, manifest.id);
       },
+      subscribe: (event: string, handler: (data: unknown) => void) => this.subscribe(event, handler),
+      publish: (event: string, data: unknown) => this.publish(event, data),
     };
   }
 
@@ -281,41 +322,25 @@ class DependencyResolver {
 // ============================================================================
 
 class SignatureVerifier {
-  private publicKey?: string;
+  private keyring: PluginKeyring;
 
-  constructor(publicKey?: string) {
-    this.publicKey = publicKey;
+  constructor(keyring?: PluginKeyring, publicKey?: string) {
+    this.keyring = keyring ?? new PluginKeyring();
+    if (publicKey) {
+      this.keyring.trust(publicKey);
+    }
   }
 
-  async verify(manifest: PluginManifest, code: string): Promise<boolean> {
+  async verify(manifest: PluginManifest, code: string): Promise<PluginVerificationResult> {
     if (!manifest.signature) {
-      return false; // No signature provided
-    }
-
-    if (!this.publicKey) {
-      throw new Error('Public key not configured for signature verification');
+      return { valid: false, reason: 'Plugin is not signed' };
     }
 
-    // Implement signature verification using Web Crypto API
-    try {
-      const data = JSON.stringify({
-        id: manifest.id,
-        version: manifest.version,
-        entry: manifest.entry,
-        code,
-      });
-
-      // Verify signature
-      return await this.verifySignature(data, manifest.signature, this.publicKey);
-    } catch (error) {
-      return false;
+    if (this.keyring.size === 0) {
+      throw new Error('No trusted publisher keys configured for signature verification');
     }
-  }
 
-  private async verifySignature(_data: string, _signature: string, _publicKey: string): Promise<boolean> {
-    // Implementation using Web Crypto API
-    // This is a placeholder - actual implementation would use crypto.subtle
-    return true;
+    return verifyPluginSignature(manifest, code, this.keyring);
   }
 }
 
@@ -330,37 +355,54 @@ class PluginLoader {
     this.config = config;
   }
 
-  async load(manifest: PluginManifest, code: string): Promise<PluginInstance> {
+  async load(
+    manifest: PluginManifest,
+    code: string,
+    context: PluginContext,
+    onStatusChange?: (status: PluginStatus) => void
+  ): Promise<PluginInstance> {
     switch (this.config.isolation) {
       case 'worker':
-        throw new Error('Worker isolation not supported in Node.js');
+        return this.loadInWorker(manifest, code, context, onStatusChange);
       case 'vm':
-        return this.loadInVM(manifest, code);
+        return this.loadInVM(manifest, code, context);
       case 'iframe':
         throw new Error('iframe isolation not supported in Node.js');
       case 'none':
       default:
-        return this.loadDirectly(manifest, code);
+        return this.loadDirectly(manifest, code, context);
     }
   }
 
-  // Worker isolation removed - Node.js only supports VM isolation
+  private async loadInWorker(
+    manifest: PluginManifest,
+    code: string,
+    context: PluginContext,
+    onStatusChange?: (status: PluginStatus) => void
+  ): Promise<PluginInstance> {
+    const quota = manifest.resources ?? this.config.defaultQuota;
+    return new WorkerPluginInstance(code, context, {
+      maxMemoryMB: quota?.maxMemoryMB ?? 100,
+      maxRestarts: this.config.maxRestarts ?? 3,
+      onStatusChange,
+    });
+  }
 
-  private async loadInVM(manifest: PluginManifest, code: string): Promise<PluginInstance> {
+  private async loadInVM(manifest: PluginManifest, code: string, context: PluginContext): Promise<PluginInstance> {
     // Use vm2 or similar for Node.js
     // For browser, use sandboxed iframe
-    return this.loadDirectly(manifest, code);
+    return this.loadDirectly(manifest, code, context);
   }
 
   // iframe isolation removed - Node.js only supports VM isolation
 
-  private async loadDirectly(manifest: PluginManifest, code: string): Promise<PluginInstance> {
+  private async loadDirectly(_manifest: PluginManifest, code: string, context: PluginContext): Promise<PluginInstance> {
     // Direct execution (no isolation)
     // Create a function from the code
     const factory = new Function('context', `${code}; return initialize;`);
-    const initialize = factory({});
+    const initialize = factory(context);
     
-    return new DirectPluginInstance(initialize, manifest);
+    return new DirectPluginInstance(initialize, context);
   }
 }
 
@@ -368,36 +410,300 @@ class PluginLoader {
 // Plugin Instance Implementations
 // ============================================================================
 
-// WorkerPluginInstance and IframePluginInstance removed
+// IframePluginInstance removed
+
+/**
+ * initialize(context) 可选返回的生命周期钩子
+ */
+interface PluginHooks {
+  handleEvent?(event: PluginEvent): unknown;
+  pause?(): unknown;
+  resume?(): unknown;
+  destroy?(): unknown;
+}
+
+type PluginInitializeFn = (context: PluginContext) => Promise<PluginHooks | void> | PluginHooks | void;
 
 class DirectPluginInstance implements PluginInstance {
-  private initializeFn: (context: PluginContext) => Promise<void>;
-  private manifest: PluginManifest;
-  private context?: PluginContext;
+  private initializeFn: PluginInitializeFn;
+  private context: PluginContext;
+  private hooks: PluginHooks = {};
 
-  constructor(initializeFn: (context: PluginContext) => Promise<void>, manifest: PluginManifest) {
+  constructor(initializeFn: PluginInitializeFn, context: PluginContext) {
     this.initializeFn = initializeFn;
-    this.manifest = manifest;
+    this.context = context;
   }
 
   async initialize(): Promise<void> {
-    // Create context
-    this.context = {
-      id: this.manifest.id,
-      api: {} as PluginAPI,
-      logger: console as unknown as PluginLogger,
-      storage: {} as PluginStorage,
-    };
-    
-    await this.initializeFn(this.context);
+    this.hooks = (await this.initializeFn(this.context)) || {};
   }
 
   async destroy(): Promise<void> {
-    // Cleanup
+    await this.hooks.destroy?.();
+  }
+
+  async pause(): Promise<void> {
+    await this.hooks.pause?.();
+  }
+
+  async resume(): Promise<void> {
+    await this.hooks.resume?.();
   }
 
-  async handleEvent(_event: PluginEvent): Promise<void> {
-    // Handle event
+  async handleEvent(event: PluginEvent): Promise<void> {
+    await this.hooks.handleEvent?.(event);
+  }
+}
+
+interface WorkerInstanceOptions {
+  /** 映射为 Worker 的 maxOldGenerationSizeMb */
+  maxMemoryMB: number;
+  maxRestarts: number;
+  onStatusChange?: (status: PluginStatus) => void;
+}
+
+const WORKER_DESTROY_TIMEOUT_MS = 5000;
+
+/**
+ * 在 worker_threads 中运行插件
+ *
+ * PluginAPI 与 PluginStorage 通过 MessagePort 桥接到宿主的 PluginContext；
+ * Worker 崩溃（异常、内存超限）时自动重启并重新 initialize，超过重启次数后进入 error 状态
+ */
+class WorkerPluginInstance implements PluginInstance {
+  private code: string;
+  private context: PluginContext;
+  private options: WorkerInstanceOptions;
+  private worker?: Worker;
+  private port?: MessagePort;
+  private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+  private subscriptions = new Map<string, () => void>();
+  private nextId = 0;
+  private restarts = 0;
+  private paused = false;
+  private stopping = false;
+  private lastError?: Error;
+  private ready = false;
+  private restarting = false;
+
+  constructor(code: string, context: PluginContext, options: WorkerInstanceOptions) {
+    this.code = code;
+    this.context = context;
+    this.options = options;
+  }
+
+  async initialize(): Promise<void> {
+    this.stopping = false;
+    await this.boot();
+  }
+
+  async destroy(): Promise<void> {
+    this.stopping = true;
+    if (!this.worker) return;
+
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      await Promise.race([
+        this.request('destroy'),
+        new Promise(resolve => { timer = setTimeout(resolve, WORKER_DESTROY_TIMEOUT_MS); }),
+      ]);
+    } catch {
+      // 插件 destroy 失败不影响终止 Worker
+    } finally {
+      clearTimeout(timer);
+      await this.terminate();
+    }
+  }
+
+  async pause(): Promise<void> {
+    await this.request('pause');
+    this.paused = true;
+  }
+
+  async resume(): Promise<void> {
+    await this.request('resume');
+    this.paused = false;
+  }
+
+  async handleEvent(event: PluginEvent): Promise<void> {
+    await this.request('handleEvent', event);
+  }
+
+  private async boot(): Promise<void> {
+    this.start();
+    const worker = this.worker;
+    try {
+      await this.request('initialize');
+      this.ready = true;
+    } catch (error) {
+      if (this.worker === worker) {
+        await this.terminate();
+      }
+      throw error;
+    }
+  }
+
+  private start(): void {
+    const { port1, port2 } = new MessageChannel();
+    const workerData: PluginWorkerData = { id: this.context.id, code: this.code, port: port2 };
+
+    this.lastError = undefined;
+    this.port = port1;
+    this.worker = new Worker(PLUGIN_WORKER_SOURCE, {
+      eval: true,
+      workerData,
+      transferList: [port2],
+      resourceLimits: { maxOldGenerationSizeMb: this.options.maxMemoryMB },
+    });
+
+    const worker = this.worker;
+    port1.on('message', (message: PluginWorkerMessage) => this.handleMessage(message));
+    worker.on('error', (error) => {
+      this.lastError = error as Error;
+    });
+    worker.once('exit', (code) => {
+      if (this.worker === worker) {
+        void this.handleExit(code);
+      }
+    });
+  }
+
+  private async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.cleanup(new Error(`Plugin ${this.context.id} was terminated`));
+    await worker?.terminate();
+  }
+
+  private cleanup(error: Error): void {
+    this.worker = undefined;
+    this.ready = false;
+    this.port?.close();
+    this.port = undefined;
+
+    for (const { reject } of this.pending.values()) {
+      reject(error);
+    }
+    this.pending.clear();
+
+    for (const unsubscribe of this.subscriptions.values()) {
+      unsubscribe();
+    }
+    this.subscriptions.clear();
+  }
+
+  private async handleExit(code: number): Promise<void> {
+    const wasReady = this.ready;
+    const reason = this.lastError?.message ?? `exit code ${code}`;
+    this.cleanup(new Error(`Plugin ${this.context.id} worker crashed: ${reason}`));
+    // 初始化阶段的崩溃由 initialize 的调用方处理
+    if (this.stopping || !wasReady || this.restarting) return;
+
+    this.restarting = true;
+    try {
+      await this.restart(reason);
+    } finally {
+      this.restarting = false;
+    }
+  }
+
+  private async restart(crashReason: string): Promise<void> {
+    let reason = crashReason;
+    while (this.restarts < this.options.maxRestarts) {
+      this.restarts++;
+      this.context.logger.warn(`Plugin worker crashed, restarting (${this.restarts}/${this.options.maxRestarts})`, { reason });
+      this.options.onStatusChange?.('initializing');
+
+      try {
+        await this.boot();
+        if (this.paused) {
+          await this.request('pause');
+        }
+        this.options.onStatusChange?.(this.paused ? 'paused' : 'running');
+        return;
+      } catch (error) {
+        if (this.stopping) return;
+        if (this.worker) {
+          await this.terminate();
+        }
+        reason = (error as Error).message;
+      }
+    }
+
+    this.context.logger.error(`Plugin worker crashed, giving up after ${this.restarts} restarts`, { reason });
+    this.options.onStatusChange?.('error');
+  }
+
+  private request(method: string, ...params: unknown[]): Promise<unknown> {
+    const port = this.port;
+    if (!port) {
+      return Promise.reject(new Error(`Plugin ${this.context.id} is not running`));
+    }
+    return new Promise((resolve, reject) => {
+      const id = ++this.nextId;
+      this.pending.set(id, { resolve, reject });
+      port.postMessage({ type: 'request', id, method, params } satisfies PluginWorkerMessage);
+    });
+  }
+
+  private handleMessage(message: PluginWorkerMessage): void {
+    switch (message.type) {
+      case 'request':
+        this.handleRequest(message.method, message.params).then(
+          result => this.port?.postMessage({ type: 'response', id: message.id, result } satisfies PluginWorkerMessage),
+          error => this.port?.postMessage({
+            type: 'response',
+            id: message.id,
+            error: error instanceof Error ? error.message : String(error),
+          } satisfies PluginWorkerMessage)
+        );
+        break;
+      case 'response': {
+        const entry = this.pending.get(message.id);
+        if (!entry) break;
+        this.pending.delete(message.id);
+        if (message.error !== undefined) {
+          entry.reject(new Error(message.error));
+        } else {
+          entry.resolve(message.result);
+        }
+        break;
+      }
+      case 'subscribe':
+        if (!this.subscriptions.has(message.event)) {
+          this.subscriptions.set(message.event, this.context.api.subscribe(message.event, (data) => {
+            this.port?.postMessage({ type: 'event', event: message.event, data } satisfies PluginWorkerMessage);
+          }));
+        }
+        break;
+      case 'unsubscribe':
+        this.subscriptions.get(message.event)?.();
+        this.subscriptions.delete(message.event);
+        break;
+      case 'publish':
+        this.context.api.publish(message.event, message.data);
+        break;
+      case 'log':
+        this.context.logger[message.level](message.message, message.context);
+        break;
+    }
+  }
+
+  private async handleRequest(method: string, params: unknown[]): Promise<unknown> {
+    const { api, storage } = this.context;
+    switch (method) {
+      case 'api.call':
+        return api.call(params[0] as string, params[1]);
+      case 'storage.get':
+        return storage.get(params[0] as string);
+      case 'storage.set':
+        return storage.set(params[0] as string, params[1]);
+      case 'storage.remove':
+        return storage.remove(params[0] as string);
+      case 'storage.clear':
+        return storage.clear();
+      default:
+        throw new Error(`Unknown method: ${method}`);
+    }
   }
 }
 
@@ -449,7 +755,7 @@ export class PluginSystem {
   private resolver: DependencyResolver;
   private verifier: SignatureVerifier;
   private loader: PluginLoader;
-  private config: Required<Omit<PluginSystemConfig, 'publicKey'>> & { publicKey?: string };
+  private config: Required<Omit<PluginSystemConfig, 'publicKey' | 'keyring'>> & Pick<PluginSystemConfig, 'publicKey' | 'keyring'>;
 
   constructor(config: PluginSystemConfig = {}) {
     this.config = {
@@ -457,6 +763,7 @@ export class PluginSystem {
       enableHotReload: false,
       enableSignatureVerification: false,
       maxConcurrentPlugins: 10,
+      maxRestarts: 3,
       defaultQuota: {
         maxMemoryMB: 100,
         maxCPU: 50,
@@ -468,7 +775,7 @@ export class PluginSystem {
 
     this.registry = new PluginRegistry();
     this.resolver = new DependencyResolver(this.registry);
-    this.verifier = new SignatureVerifier(config.publicKey);
+    this.verifier = new SignatureVerifier(config.keyring, config.publicKey);
     this.loader = new PluginLoader(this.config);
   }
 
@@ -476,13 +783,7 @@ export class PluginSystem {
    * 注册插件
    */
   async register(manifest: PluginManifest, code: string): Promise<void> {
-    // Verify signature if enabled
-    if (this.config.enableSignatureVerification) {
-      const isValid = await this.verifier.verify(manifest, code);
-      if (!isValid) {
-        throw new Error(`Invalid signature for plugin ${manifest.id}`);
-      }
-    }
+    await this.verifySignature(manifest, code);
 
     // Resolve dependencies
     const dependencies = this.resolver.resolve(manifest);
@@ -502,7 +803,7 @@ export class PluginSystem {
     // Load plugin
     plugin.status = 'loading';
     try {
-      plugin.instance = await this.loader.load(manifest, code);
+      plugin.instance = await this.loader.load(manifest, code, plugin.context, status => { plugin.status = status; });
       plugin.status = 'initializing';
       await plugin.instance.initialize();
       plugin.status = 'running';
@@ -530,8 +831,10 @@ export class PluginSystem {
 
   /**
    * 热更新插件
+   *
+   * 启用签名验证时，新代码需附带重新签名的 manifest
    */
-  async hotReload(pluginId: string, newCode: string): Promise<void> {
+  async hotReload(pluginId: string, newCode: string, newManifest?: PluginManifest): Promise<void> {
     if (!this.config.enableHotReload) {
       throw new Error('Hot reload is not enabled');
     }
@@ -541,6 +844,12 @@ export class PluginSystem {
       throw new Error(`Plugin ${pluginId} not found`);
     }
 
+    if (newManifest && newManifest.id !== pluginId) {
+      throw new Error(`Manifest id ${newManifest.id} does not match plugin ${pluginId}`);
+    }
+    const manifest = newManifest ?? plugin.manifest;
+    await this.verifySignature(manifest, newCode);
+
     // Pause plugin
     if (plugin.instance?.pause) {
       await plugin.instance.pause();
@@ -553,11 +862,33 @@ export class PluginSystem {
     }
 
     // Load new instance
-    plugin.instance = await this.loader.load(plugin.manifest, newCode);
+    plugin.manifest = manifest;
+    plugin.instance = await this.loader.load(manifest, newCode, plugin.context, status => { plugin.status = status; });
     await plugin.instance.initialize();
     plugin.status = 'running';
   }
 
+  /**
+   * 注册供插件调用的 API 方法，插件需声明 api 类型的 execute 权限
+   */
+  registerMethod(method: string, handler: PluginAPIMethod): void {
+    this.registry.registerMethod(method, handler);
+  }
+
+  /**
+   * 订阅插件发布的事件
+   */
+  subscribe(event: string, handler: (data: unknown) => void): () => void {
+    return this.registry.subscribe(event, handler);
+  }
+
+  /**
+   * 向订阅了该事件的插件发布数据
+   */
+  publish(event: string, data: unknown): void {
+    this.registry.publish(event, data);
+  }
+
   /**
    * 获取插件
    */
@@ -621,6 +952,17 @@ export class PluginSystem {
     const plugins = this.registry.getAll().filter(p => p.status === 'running');
     await Promise.all(plugins.map(p => p.instance!.handleEvent(event)));
   }
+
+  private async verifySignature(manifest: PluginManifest, code: string): Promise<void> {
+    if (!this.config.enableSignatureVerification) {
+      return;
+    }
+
+    const result = await this.verifier.verify(manifest, code);
+    if (!result.valid) {
+      throw new Error(`Invalid signature for plugin ${manifest.id}: ${result.reason}`);
+    }
+  }
 }
 
 // ============================================================================
@@ -635,3 +977,19 @@ export function createPluginSystem(config?: PluginSystemConfig): PluginSystem {
 // Re-exports
 // ============================================================================
 // Types are already exported above
+
+export {
+  PluginKeyring,
+  signPlugin,
+  verifyPluginSignature,
+  createSigningPayload,
+  parsePluginSignature,
+  getKeyId,
+} from './signing.js';
+export type {
+  PluginSignature,
+  PluginSignatureAlgorithm,
+  PluginVerificationResult,
+  PluginKeyringData,
+  TrustedPublisher,
+} from './signing.js';
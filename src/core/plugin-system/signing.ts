@@ -0,0 +1,298 @@
+/**
+ * Plugin Signing - 插件签名与验证
+ *
+ * 签名覆盖规范化的 manifest（不含 signature 字段）与入口代码的 SHA-256，
+ * 支持 Ed25519 与 ECDSA（P-256/P-384/P-521），基于 node:crypto 实现。
+ *
+ * 签名格式: `<algorithm>:<keyId>:<base64 signature>`
+ *
+ * @module PluginSystem
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+  KeyObject,
+} from 'crypto';
+import type { PluginManifest } from './index.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type PluginSignatureAlgorithm = 'ed25519' | 'ecdsa-p256' | 'ecdsa-p384' | 'ecdsa-p521';
+
+export interface PluginSignature {
+  algorithm: PluginSignatureAlgorithm;
+  keyId: string;
+  /** Base64 编码的签名 */
+  value: string;
+}
+
+export interface TrustedPublisher {
+  keyId: string;
+  /** PEM 格式公钥 */
+  publicKey: string;
+  name?: string;
+}
+
+/**
+ * Keyring 文件格式
+ */
+export interface PluginKeyringData {
+  publishers: TrustedPublisher[];
+  /** 已吊销的 keyId，可独立于 publishers 分发 */
+  revoked?: string[];
+}
+
+export interface PluginVerificationResult {
+  valid: boolean;
+  keyId?: string;
+  publisher?: string;
+  reason?: string;
+}
+
+type KeyInput = string | Buffer | KeyObject;
+
+const CURVE_ALGORITHMS: Record<string, PluginSignatureAlgorithm> = {
+  prime256v1: 'ecdsa-p256',
+  secp384r1: 'ecdsa-p384',
+  secp521r1: 'ecdsa-p521',
+};
+
+const HASH_BY_ALGORITHM: Record<PluginSignatureAlgorithm, string | null> = {
+  ed25519: null,
+  'ecdsa-p256': 'sha256',
+  'ecdsa-p384': 'sha384',
+  'ecdsa-p521': 'sha512',
+};
+
+// ============================================================================
+// Payload
+// ============================================================================
+
+/**
+ * 键排序的 JSON 序列化，保证同一 manifest 在任何环境下得到相同字节
+ */
+function canonicalize(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * 构造待签名数据：manifest（不含 signature）+ 入口代码摘要
+ */
+export function createSigningPayload(manifest: PluginManifest, code: string): Buffer {
+  const unsigned: PluginManifest = { ...manifest };
+  delete unsigned.signature;
+  const entry = {
+    path: manifest.entry,
+    sha256: createHash('sha256').update(code, 'utf-8').digest('hex'),
+  };
+  return Buffer.from(canonicalize({ manifest: unsigned, entry }), 'utf-8');
+}
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+function algorithmOf(key: KeyObject): PluginSignatureAlgorithm {
+  if (key.asymmetricKeyType === 'ed25519') {
+    return 'ed25519';
+  }
+  if (key.asymmetricKeyType === 'ec') {
+    const curve = key.asymmetricKeyDetails?.namedCurve ?? '';
+    const algorithm = CURVE_ALGORITHMS[curve];
+    if (algorithm) return algorithm;
+    throw new Error(`Unsupported ECDSA curve: ${curve}`);
+  }
+  throw new Error(`Unsupported key type: ${key.asymmetricKeyType}`);
+}
+
+function toPublicKey(key: KeyInput): KeyObject {
+  if (key instanceof KeyObject && key.type === 'public') {
+    return key;
+  }
+  return createPublicKey(key);
+}
+
+/**
+ * 由公钥 SPKI 的 SHA-256 派生 keyId
+ */
+export function getKeyId(key: KeyInput): string {
+  const der = toPublicKey(key).export({ type: 'spki', format: 'der' });
+  return createHash('sha256').update(der).digest('hex').slice(0, 16);
+}
+
+export function parsePluginSignature(signature: string): PluginSignature {
+  const first = signature.indexOf(':');
+  const last = signature.lastIndexOf(':');
+  if (first <= 0 || last === first) {
+    throw new Error('Malformed plugin signature');
+  }
+
+  const algorithm = signature.slice(0, first) as PluginSignatureAlgorithm;
+  if (!(algorithm in HASH_BY_ALGORITHM)) {
+    throw new Error(`Unsupported signature algorithm: ${algorithm}`);
+  }
+  return {
+    algorithm,
+    keyId: signature.slice(first + 1, last),
+    value: signature.slice(last + 1),
+  };
+}
+
+// ============================================================================
+// Sign / Verify
+// ============================================================================
+
+/**
+ * 签名插件，返回可写入 manifest.signature 的字符串
+ */
+export function signPlugin(
+  manifest: PluginManifest,
+  code: string,
+  privateKey: KeyInput,
+  keyId?: string
+): string {
+  const key = privateKey instanceof KeyObject ? privateKey : createPrivateKey(privateKey);
+  if (key.type !== 'private') {
+    throw new Error('A private key is required to sign plugins');
+  }
+
+  const algorithm = algorithmOf(key);
+  const id = keyId ?? getKeyId(key);
+  if (id.includes(':')) {
+    throw new Error('keyId must not contain ":"');
+  }
+
+  const value = sign(HASH_BY_ALGORITHM[algorithm], createSigningPayload(manifest, code), key).toString('base64');
+  return `${algorithm}:${id}:${value}`;
+}
+
+/**
+ * 使用 keyring 验证插件签名
+ */
+export function verifyPluginSignature(
+  manifest: PluginManifest,
+  code: string,
+  keyring: PluginKeyring
+): PluginVerificationResult {
+  if (!manifest.signature) {
+    return { valid: false, reason: 'Plugin is not signed' };
+  }
+
+  let signature: PluginSignature;
+  try {
+    signature = parsePluginSignature(manifest.signature);
+  } catch (error) {
+    return { valid: false, reason: (error as Error).message };
+  }
+
+  const { keyId } = signature;
+  if (keyring.isRevoked(keyId)) {
+    return { valid: false, keyId, reason: `Key ${keyId} has been revoked` };
+  }
+
+  const publisher = keyring.get(keyId);
+  if (!publisher) {
+    return { valid: false, keyId, reason: `Key ${keyId} is not trusted` };
+  }
+
+  try {
+    const publicKey = createPublicKey(publisher.publicKey);
+    // 签名算法必须与受信任公钥一致，防止算法混淆
+    if (algorithmOf(publicKey) !== signature.algorithm) {
+      return { valid: false, keyId, publisher: publisher.name, reason: 'Signature algorithm does not match the trusted key' };
+    }
+
+    const valid = verify(
+      HASH_BY_ALGORITHM[signature.algorithm],
+      createSigningPayload(manifest, code),
+      publicKey,
+      Buffer.from(signature.value, 'base64')
+    );
+    return valid
+      ? { valid, keyId, publisher: publisher.name }
+      : { valid, keyId, publisher: publisher.name, reason: 'Signature does not match plugin contents' };
+  } catch (error) {
+    return { valid: false, keyId, publisher: publisher.name, reason: (error as Error).message };
+  }
+}
+
+// ============================================================================
+// Keyring
+// ============================================================================
+
+/**
+ * 受信任发布者公钥集合，支持吊销
+ */
+export class PluginKeyring {
+  private publishers = new Map<string, TrustedPublisher>();
+  private revoked = new Set<string>();
+
+  constructor(data?: PluginKeyringData) {
+    for (const publisher of data?.publishers ?? []) {
+      this.trust(publisher.publicKey, { keyId: publisher.keyId, name: publisher.name });
+    }
+    for (const keyId of data?.revoked ?? []) {
+      this.revoke(keyId);
+    }
+  }
+
+  static fromJSON(json: string): PluginKeyring {
+    return new PluginKeyring(JSON.parse(json) as PluginKeyringData);
+  }
+
+  get size(): number {
+    return this.publishers.size;
+  }
+
+  /**
+   * 添加受信任公钥，返回 keyId（默认由公钥派生）
+   */
+  trust(publicKey: KeyInput, options: { keyId?: string; name?: string } = {}): string {
+    const key = toPublicKey(publicKey);
+    algorithmOf(key);
+
+    const keyId = options.keyId ?? getKeyId(key);
+    this.publishers.set(keyId, {
+      keyId,
+      publicKey: key.export({ type: 'spki', format: 'pem' }).toString(),
+      name: options.name,
+    });
+    return keyId;
+  }
+
+  revoke(keyId: string): void {
+    this.revoked.add(keyId);
+  }
+
+  isRevoked(keyId: string): boolean {
+    return this.revoked.has(keyId);
+  }
+
+  get(keyId: string): TrustedPublisher | undefined {
+    return this.publishers.get(keyId);
+  }
+
+  list(): TrustedPublisher[] {
+    return Array.from(this.publishers.values());
+  }
+
+  toJSON(): PluginKeyringData {
+    return { publishers: this.list(), revoked: Array.from(this.revoked) };
+  }
+}
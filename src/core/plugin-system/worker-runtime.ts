@@ -0,0 +1,119 @@
+/**
+ * Plugin Worker Runtime - 插件 Worker 端运行时
+ *
+ * 以 eval 方式注入 worker_threads，在 Worker 内重建 PluginContext，
+ * 并通过 MessagePort 与宿主进行双向 RPC：
+ * - Worker -> 宿主: api.call / storage.*，以及 subscribe / unsubscribe / publish / log 通知
+ * - 宿主 -> Worker: initialize / handleEvent / pause / resume / destroy，以及订阅事件投递
+ *
+ * 插件代码与直接执行模式相同：定义 initialize(context)，
+ * 可返回 { handleEvent, pause, resume, destroy } 钩子。
+ *
+ * @module PluginSystem
+ */
+
+/**
+ * 宿主与 Worker 之间的消息
+ */
+export type PluginWorkerMessage =
+  | { type: 'request'; id: number; method: string; params: unknown[] }
+  | { type: 'response'; id: number; result?: unknown; error?: string }
+  | { type: 'subscribe' | 'unsubscribe'; event: string }
+  | { type: 'publish' | 'event'; event: string; data: unknown }
+  | { type: 'log'; level: 'debug' | 'info' | 'warn' | 'error'; message: string; context?: Record<string, unknown> };
+
+export interface PluginWorkerData {
+  id: string;
+  code: string;
+  port: import('worker_threads').MessagePort;
+}
+
+export const PLUGIN_WORKER_SOURCE = `
+const { workerData } = require('worker_threads');
+const port = workerData.port;
+const pending = new Map();
+const handlers = new Map();
+let nextId = 0;
+let hooks = {};
+
+const request = (method, ...params) => new Promise((resolve, reject) => {
+  const id = ++nextId;
+  pending.set(id, { resolve, reject });
+  port.postMessage({ type: 'request', id, method, params });
+});
+
+const subscribe = (event, handler) => {
+  let set = handlers.get(event);
+  if (!set) {
+    set = new Set();
+    handlers.set(event, set);
+    port.postMessage({ type: 'subscribe', event });
+  }
+  set.add(handler);
+  return () => {
+    set.delete(handler);
+    if (set.size === 0 && handlers.get(event) === set) {
+      handlers.delete(event);
+      port.postMessage({ type: 'unsubscribe', event });
+    }
+  };
+};
+
+const log = (level) => (message, context) => port.postMessage({ type: 'log', level, message: String(message), context });
+
+const context = {
+  id: workerData.id,
+  api: {
+    call: (method, params) => request('api.call', method, params),
+    subscribe,
+    publish: (event, data) => port.postMessage({ type: 'publish', event, data }),
+  },
+  logger: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') },
+  storage: {
+    get: (key) => request('storage.get', key),
+    set: (key, value) => request('storage.set', key, value),
+    remove: (key) => request('storage.remove', key),
+    clear: () => request('storage.clear'),
+  },
+};
+
+const invoke = async (method, params) => {
+  switch (method) {
+    case 'initialize': {
+      const initialize = new Function('context', workerData.code + '; return initialize;')(context);
+      hooks = (await initialize(context)) || {};
+      return;
+    }
+    case 'handleEvent':
+    case 'pause':
+    case 'resume':
+    case 'destroy':
+      if (typeof hooks[method] === 'function') await hooks[method](...params);
+      return;
+    default:
+      throw new Error('Unknown method: ' + method);
+  }
+};
+
+port.on('message', (message) => {
+  switch (message.type) {
+    case 'request':
+      invoke(message.method, message.params).then(
+        (result) => port.postMessage({ type: 'response', id: message.id, result }),
+        (error) => port.postMessage({ type: 'response', id: message.id, error: error instanceof Error ? error.message : String(error) })
+      );
+      break;
+    case 'response': {
+      const entry = pending.get(message.id);
+      if (!entry) break;
+      pending.delete(message.id);
+      if (message.error !== undefined) entry.reject(new Error(message.error));
+      else entry.resolve(message.result);
+      break;
+    }
+    case 'event':
+      for (const handler of handlers.get(message.event) || []) handler(message.data);
+      break;
+  }
+});
+`;
@@ -6,6 +6,8 @@
  * Compatible with both browser and Node.js environments.
  */
 
+import { WordPieceTokenizer, type TokenizedInput } from './wordpiece-tokenizer.js';
+
 // ============================================
 // Types
 // ============================================
@@ -221,6 +223,13 @@ export abstract class EmbeddingProvider {
     };
   }
 
+  /**
+   * Get embedding dimensions
+   */
+  getDimensions(): number {
+    return this.config.dimensions;
+  }
+
   /**
    * Get provider metrics
    */
@@ -261,7 +270,7 @@ export abstract class EmbeddingProvider {
     }
   }
 
-  private getFromCache(text: string): number[] | null {
+  protected getFromCache(text: string): number[] | null {
     const key = this.hashText(text);
     const entry = this.cache.get(key);
 
@@ -273,7 +282,7 @@ export abstract class EmbeddingProvider {
     return null;
   }
 
-  private addToCache(text: string, embedding: number[]): void {
+  protected addToCache(text: string, embedding: number[]): void {
     // Evict if at capacity
     if (this.cache.size >= this.config.cacheSize) {
       this.evictLRU();
@@ -442,12 +451,115 @@ export class AnthropicEmbeddingProvider extends EmbeddingProvider {
 // Local Model Embedding Provider
 // ============================================
 
+/**
+ * Subset of the onnxruntime-node / onnxruntime-web API used for inference
+ */
+export interface OnnxTensor {
+  readonly data: ArrayLike<number | bigint>;
+  readonly dims: readonly number[];
+}
+
+export interface OnnxInferenceSession {
+  readonly inputNames: readonly string[];
+  readonly outputNames: readonly string[];
+  run(feeds: Record<string, OnnxTensor>): Promise<Record<string, OnnxTensor>>;
+  release?(): Promise<void>;
+}
+
+export interface OnnxRuntime {
+  InferenceSession: {
+    create(path: string, options?: Record<string, unknown>): Promise<OnnxInferenceSession>;
+  };
+  Tensor: new (type: 'int64', data: BigInt64Array, dims: number[]) => OnnxTensor;
+}
+
 export interface LocalModelConfig {
+  /** Path to a .onnx file, or a model directory containing model.onnx or onnx/model.onnx */
   modelPath: string;
   runtime: 'onnx' | 'tensorflow' | 'pytorch';
+  /** tokenizer.json or vocab.txt; defaults to the one next to the model */
+  tokenizerPath?: string;
+  /** Max tokens per input including [CLS]/[SEP] (default: tokenizer truncation, at most 256) */
+  maxLength?: number;
+  /** How token embeddings are pooled into a sentence embedding */
+  pooling?: 'mean' | 'cls';
+  /** CPU threads used by the ONNX session */
+  threads?: number;
+  /** Pre-loaded ONNX runtime (e.g. onnxruntime-web); defaults to importing onnxruntime-node */
+  onnxRuntime?: OnnxRuntime;
+}
+
+interface LoadedModel {
+  ort: OnnxRuntime;
+  session: OnnxInferenceSession;
+  tokenizer: WordPieceTokenizer;
+}
+
+async function loadOnnxRuntime(): Promise<OnnxRuntime> {
+  try {
+    const moduleName = 'onnxruntime-node';
+    const mod = await import(moduleName) as OnnxRuntime & { default?: OnnxRuntime };
+    return mod.default?.InferenceSession ? mod.default : mod;
+  } catch (error) {
+    throw new Error('Local ONNX embeddings require the optional peer dependency "onnxruntime-node"', { cause: error });
+  }
+}
+
+/**
+ * Resolve the model file and tokenizer from a model file or directory
+ * (Hugging Face layout: tokenizer.json at the root, model in onnx/)
+ */
+async function resolveModelFiles(
+  modelPath: string,
+  tokenizerPath?: string
+): Promise<{ modelFile: string; tokenizerFile: string }> {
+  const fs = await import('fs/promises');
+  const path = await import('path');
+  const exists = (file: string) => fs.access(file).then(() => true, () => false);
+
+  let modelFile = modelPath;
+  const stat = await fs.stat(modelPath).catch(() => undefined);
+  if (!stat) {
+    throw new Error(`Local embedding model not found: ${modelPath}`);
+  }
+  if (stat.isDirectory()) {
+    const candidates = [path.join(modelPath, 'model.onnx'), path.join(modelPath, 'onnx', 'model.onnx')];
+    const found = await Promise.all(candidates.map(exists));
+    if (!found.includes(true)) {
+      throw new Error(`No model.onnx found in ${modelPath}`);
+    }
+    modelFile = candidates[found.indexOf(true)];
+  }
+
+  if (tokenizerPath) {
+    return { modelFile, tokenizerFile: tokenizerPath };
+  }
+  const modelDir = path.dirname(modelFile);
+  for (const dir of [modelDir, path.dirname(modelDir)]) {
+    for (const name of ['tokenizer.json', 'vocab.txt']) {
+      const file = path.join(dir, name);
+      if (await exists(file)) {
+        return { modelFile, tokenizerFile: file };
+      }
+    }
+  }
+  throw new Error(`No tokenizer.json or vocab.txt found next to ${modelFile}`);
 }
 
+/**
+ * CPU-only sentence-transformer embeddings via ONNX Runtime
+ *
+ * Tokenizes with WordPiece, pads each batch to its longest input, and mean-pools
+ * the token embeddings over the attention mask. Results go through the shared cache.
+ */
 export class LocalEmbeddingProvider extends EmbeddingProvider {
+  private localConfig: LocalModelConfig;
+  private model?: Promise<LoadedModel>;
+  private onnxRuntime?: Promise<OnnxRuntime>;
+  private loadError?: Error;
+  /** Whether `dimensions` was configured or read from the model */
+  private dimensionsKnown: boolean;
+
   constructor(localConfig: LocalModelConfig, embeddingConfig?: Partial<EmbeddingConfig>) {
     super({
       provider: 'local',
@@ -455,26 +567,207 @@ export class LocalEmbeddingProvider extends EmbeddingProvider {
       dimensions: 384,
       ...embeddingConfig,
     });
-    // Store localConfig for future use
-    void localConfig;
+    this.localConfig = localConfig;
+    this.dimensionsKnown = embeddingConfig?.dimensions !== undefined;
   }
 
-  async embed(_text: string): Promise<EmbeddingResult> {
-    // Placeholder for local model inference
-    // Would integrate with ONNX Runtime, TensorFlow.js, etc.
-    throw new Error('Local embedding provider not yet implemented');
+  /**
+   * Load the model and tokenizer (otherwise done lazily on first use)
+   *
+   * Unless `dimensions` is configured, `getDimensions()` reports the default 384 until
+   * the model has been loaded here or has embedded a first batch.
+   */
+  async load(): Promise<void> {
+    const model = await this.getModel();
+    if (!this.dimensionsKnown) {
+      await this.infer(model, ['']);
+    }
   }
 
-  async embedBatch(_texts: string[]): Promise<BatchEmbeddingResult> {
-    throw new Error('Local embedding provider not yet implemented');
+  async embed(text: string): Promise<EmbeddingResult> {
+    const result = await this.runBatch([text]);
+    return {
+      embedding: result.embeddings[0],
+      model: this.config.model,
+      dimensions: this.config.dimensions,
+      usage: { promptTokens: result.tokens, totalTokens: result.tokens },
+    };
+  }
+
+  async embedBatch(texts: string[]): Promise<BatchEmbeddingResult> {
+    const embeddings: number[][] = new Array(texts.length);
+    const pending: number[] = [];
+
+    texts.forEach((text, index) => {
+      const cached = this.config.cacheEnabled ? this.getFromCache(text) : null;
+      if (cached) {
+        this.metrics.cacheHits++;
+        embeddings[index] = cached;
+      } else {
+        this.metrics.cacheMisses++;
+        pending.push(index);
+      }
+    });
+
+    let tokens = 0;
+    for (let start = 0; start < pending.length; start += this.config.batchSize) {
+      const indices = pending.slice(start, start + this.config.batchSize);
+      const result = await this.runBatch(indices.map((index) => texts[index]));
+      tokens += result.tokens;
+
+      indices.forEach((index, i) => {
+        embeddings[index] = result.embeddings[i];
+        if (this.config.cacheEnabled) {
+          this.addToCache(texts[index], result.embeddings[i]);
+        }
+      });
+    }
+    this.metrics.totalTokens += tokens;
+
+    return {
+      embeddings,
+      model: this.config.model,
+      dimensions: this.config.dimensions,
+      usage: { promptTokens: tokens, totalTokens: tokens },
+    };
+  }
+
+  /**
+   * Release the ONNX session
+   */
+  async dispose(): Promise<void> {
+    const model = this.model;
+    this.model = undefined;
+    if (model) {
+      await (await model.catch(() => undefined))?.session.release?.();
+    }
   }
 
   getName(): string {
     return 'local';
   }
 
+  /**
+   * Configured for ONNX and no model load has failed; use `checkAvailability()` to
+   * also verify that the runtime can be imported
+   */
   isAvailable(): boolean {
-    return false; // Requires model loading
+    return this.localConfig.runtime === 'onnx' && !this.loadError;
+  }
+
+  /**
+   * Like `isAvailable()`, and the ONNX runtime can be imported
+   */
+  async checkAvailability(): Promise<boolean> {
+    if (!this.isAvailable()) return false;
+    return this.getOnnxRuntime().then(() => true, () => false);
+  }
+
+  private getOnnxRuntime(): Promise<OnnxRuntime> {
+    this.onnxRuntime ??= this.localConfig.onnxRuntime ? Promise.resolve(this.localConfig.onnxRuntime) : loadOnnxRuntime();
+    return this.onnxRuntime;
+  }
+
+  private getModel(): Promise<LoadedModel> {
+    if (!this.model) {
+      this.model = this.loadModel().catch((error: Error) => {
+        this.model = undefined;
+        this.loadError = error;
+        throw error;
+      });
+    }
+    return this.model;
+  }
+
+  private async loadModel(): Promise<LoadedModel> {
+    if (this.localConfig.runtime !== 'onnx') {
+      throw new Error(`Local runtime '${this.localConfig.runtime}' is not supported; export the model to ONNX`);
+    }
+
+    const { modelFile, tokenizerFile } = await resolveModelFiles(this.localConfig.modelPath, this.localConfig.tokenizerPath);
+    const fs = await import('fs/promises');
+    const tokenizerText = await fs.readFile(tokenizerFile, 'utf-8');
+    const tokenizer = tokenizerFile.endsWith('.json')
+      ? WordPieceTokenizer.fromTokenizerJson(tokenizerText)
+      : WordPieceTokenizer.fromVocab(tokenizerText);
+
+    const ort = await this.getOnnxRuntime();
+    const session = await ort.InferenceSession.create(modelFile, {
+      executionProviders: ['cpu'],
+      graphOptimizationLevel: 'all',
+      ...(this.localConfig.threads && { intraOpNumThreads: this.localConfig.threads }),
+    });
+
+    this.loadError = undefined;
+    return { ort, session, tokenizer };
+  }
+
+  private async runBatch(texts: string[]): Promise<{ embeddings: number[][]; tokens: number }> {
+    return this.infer(await this.getModel(), texts);
+  }
+
+  private async infer({ ort, session, tokenizer }: LoadedModel, texts: string[]): Promise<{ embeddings: number[][]; tokens: number }> {
+    const maxLength = this.localConfig.maxLength ?? Math.min(tokenizer.maxLength, 256);
+    const encoded = texts.map((text) => tokenizer.encode(text, maxLength));
+
+    // Pad to the longest input in the batch
+    const seqLength = Math.max(...encoded.map((input) => input.inputIds.length));
+    const inputIds = new BigInt64Array(texts.length * seqLength).fill(BigInt(tokenizer.padId));
+    const attentionMask = new BigInt64Array(texts.length * seqLength);
+    encoded.forEach((input, b) => {
+      input.inputIds.forEach((id, t) => {
+        inputIds[b * seqLength + t] = BigInt(id);
+        attentionMask[b * seqLength + t] = BigInt(1);
+      });
+    });
+
+    const dims = [texts.length, seqLength];
+    const feeds: Record<string, OnnxTensor> = {
+      input_ids: new ort.Tensor('int64', inputIds, dims),
+      attention_mask: new ort.Tensor('int64', attentionMask, dims),
+    };
+    if (session.inputNames.includes('token_type_ids')) {
+      feeds.token_type_ids = new ort.Tensor('int64', new BigInt64Array(texts.length * seqLength), dims);
+    }
+
+    const outputs = await session.run(feeds);
+    const output =
+      outputs.sentence_embedding ?? outputs.last_hidden_state ?? outputs.token_embeddings ?? outputs[session.outputNames[0]];
+    const embeddings = this.pool(output, encoded).map((vector) => this.normalize(vector));
+    if (embeddings[0]) {
+      this.config.dimensions = embeddings[0].length;
+      this.dimensionsKnown = true;
+    }
+
+    return { embeddings, tokens: encoded.reduce((sum, input) => sum + input.inputIds.length, 0) };
+  }
+
+  /**
+   * Pool `[batch, seq, hidden]` token embeddings; `[batch, hidden]` outputs are already pooled
+   */
+  private pool(output: OnnxTensor, encoded: TokenizedInput[]): number[][] {
+    const data = output.data;
+    if (output.dims.length === 2) {
+      const hidden = output.dims[1];
+      return encoded.map((_, b) => Array.from({ length: hidden }, (_, h) => Number(data[b * hidden + h])));
+    }
+    if (output.dims.length !== 3) {
+      throw new Error(`Unexpected embedding output shape [${output.dims.join(', ')}]`);
+    }
+
+    const [, seqLength, hidden] = output.dims;
+    return encoded.map((input, b) => {
+      const vector = new Array<number>(hidden).fill(0);
+      // padding sits after the real tokens, so the attention mask is a prefix
+      const count = this.localConfig.pooling === 'cls' ? 1 : input.inputIds.length;
+      for (let t = 0; t < count; t++) {
+        const base = (b * seqLength + t) * hidden;
+        for (let h = 0; h < hidden; h++) {
+          vector[h] += Number(data[base + h]);
+        }
+      }
+      return vector.map((value) => value / count);
+    });
   }
 }
 
@@ -639,7 +932,9 @@ export class EmbeddingProviderFactory {
   /**
    * Create embedding provider based on configuration
    */
-  static create(config: Partial<EmbeddingConfig> & { apiKey?: string; baseUrl?: string }): EmbeddingProvider {
+  static create(
+    config: Partial<EmbeddingConfig> & { apiKey?: string; baseUrl?: string; modelPath?: string }
+  ): EmbeddingProvider {
     switch (config.provider) {
       case 'openai':
         if (!config.apiKey) throw new Error('OpenAI API key required');
@@ -659,7 +954,8 @@ export class EmbeddingProviderFactory {
         return new TransformersEmbeddingProvider(config);
 
       case 'local':
-        throw new Error('Local provider requires model path configuration');
+        if (!config.modelPath) throw new Error('Local provider requires model path configuration');
+        return new LocalEmbeddingProvider({ modelPath: config.modelPath, runtime: 'onnx' }, config);
 
       case 'tfidf':
       default:
@@ -724,6 +1020,13 @@ export class EmbeddingService {
     return result.embeddings;
   }
 
+  /**
+   * Embedding dimensions of the current provider
+   */
+  getDimension(): number {
+    return this.provider.getDimensions();
+  }
+
   /**
    * Calculate similarity between two texts
    */
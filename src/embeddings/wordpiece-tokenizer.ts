@@ -0,0 +1,251 @@
+/**
+ * WordPiece Tokenizer
+ *
+ * BERT-family tokenizer used by sentence-transformer models (all-MiniLM, bge, e5, ...).
+ * Loads either a Hugging Face `tokenizer.json` (WordPiece model) or a plain `vocab.txt`.
+ *
+ * Pipeline: BertNormalizer -> whitespace/punctuation pre-tokenization -> greedy
+ * longest-match WordPiece -> `[CLS] ... [SEP]` with truncation.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface WordPieceOptions {
+  /** Lowercase input (uncased models) */
+  lowercase?: boolean;
+  /** Strip accents; defaults to the value of `lowercase` like BERT */
+  stripAccents?: boolean;
+  /** Put spaces around CJK characters so each becomes its own word */
+  handleChineseChars?: boolean;
+  unkToken?: string;
+  clsToken?: string;
+  sepToken?: string;
+  padToken?: string;
+  continuingSubwordPrefix?: string;
+  maxInputCharsPerWord?: number;
+  /** Maximum sequence length including special tokens */
+  maxLength?: number;
+}
+
+export interface TokenizedInput {
+  inputIds: number[];
+  attentionMask: number[];
+  tokenTypeIds: number[];
+}
+
+interface TokenizerJson {
+  normalizer?: {
+    type?: string;
+    lowercase?: boolean;
+    strip_accents?: boolean | null;
+    handle_chinese_chars?: boolean;
+  } | null;
+  model?: {
+    type?: string;
+    vocab?: Record<string, number>;
+    unk_token?: string;
+    continuing_subword_prefix?: string;
+    max_input_chars_per_word?: number;
+  };
+  truncation?: { max_length?: number } | null;
+}
+
+// ============================================
+// Tokenizer
+// ============================================
+
+export class WordPieceTokenizer {
+  readonly maxLength: number;
+  readonly padId: number;
+  private readonly vocab: Map<string, number>;
+  private readonly options: Required<Omit<WordPieceOptions, 'maxLength'>>;
+  private readonly clsId: number;
+  private readonly sepId: number;
+  private readonly unkId: number;
+
+  constructor(vocab: Map<string, number>, options: WordPieceOptions = {}) {
+    const lowercase = options.lowercase ?? true;
+    this.vocab = vocab;
+    this.maxLength = options.maxLength ?? 512;
+    this.options = {
+      lowercase,
+      stripAccents: options.stripAccents ?? lowercase,
+      handleChineseChars: options.handleChineseChars ?? true,
+      unkToken: options.unkToken ?? '[UNK]',
+      clsToken: options.clsToken ?? '[CLS]',
+      sepToken: options.sepToken ?? '[SEP]',
+      padToken: options.padToken ?? '[PAD]',
+      continuingSubwordPrefix: options.continuingSubwordPrefix ?? '##',
+      maxInputCharsPerWord: options.maxInputCharsPerWord ?? 100,
+    };
+
+    this.unkId = this.requireToken(this.options.unkToken);
+    this.clsId = this.requireToken(this.options.clsToken);
+    this.sepId = this.requireToken(this.options.sepToken);
+    this.padId = this.vocab.get(this.options.padToken) ?? 0;
+  }
+
+  /**
+   * Create from the contents of a Hugging Face `tokenizer.json`
+   */
+  static fromTokenizerJson(json: string | object, options: WordPieceOptions = {}): WordPieceTokenizer {
+    const data = (typeof json === 'string' ? JSON.parse(json) : json) as TokenizerJson;
+    const model = data.model;
+    if (!model?.vocab || (model.type && model.type !== 'WordPiece')) {
+      throw new Error(`Unsupported tokenizer model: ${model?.type ?? 'unknown'} (only WordPiece is supported)`);
+    }
+
+    const normalizer = data.normalizer?.type === 'BertNormalizer' ? data.normalizer : undefined;
+    return new WordPieceTokenizer(new Map(Object.entries(model.vocab)), {
+      lowercase: normalizer?.lowercase,
+      stripAccents: normalizer?.strip_accents ?? undefined,
+      handleChineseChars: normalizer?.handle_chinese_chars,
+      unkToken: model.unk_token,
+      continuingSubwordPrefix: model.continuing_subword_prefix,
+      maxInputCharsPerWord: model.max_input_chars_per_word,
+      maxLength: data.truncation?.max_length,
+      ...options,
+    });
+  }
+
+  /**
+   * Create from a `vocab.txt` file (one token per line, id = line number)
+   */
+  static fromVocab(text: string, options: WordPieceOptions = {}): WordPieceTokenizer {
+    const vocab = new Map<string, number>();
+    text.split(/\r?\n/).forEach((token, index) => {
+      if (token.length > 0 && !vocab.has(token)) vocab.set(token, index);
+    });
+    return new WordPieceTokenizer(vocab, options);
+  }
+
+  /**
+   * Split text into WordPiece tokens (without special tokens)
+   */
+  tokenize(text: string): string[] {
+    const tokens: string[] = [];
+    for (const word of this.preTokenize(this.normalize(text))) {
+      tokens.push(...this.wordPiece(word));
+    }
+    return tokens;
+  }
+
+  /**
+   * Encode a single text as `[CLS] tokens [SEP]`, truncated to maxLength
+   */
+  encode(text: string, maxLength = this.maxLength): TokenizedInput {
+    const ids = this.tokenize(text)
+      .slice(0, Math.max(0, maxLength - 2))
+      .map(token => this.vocab.get(token) ?? this.unkId);
+    const inputIds = [this.clsId, ...ids, this.sepId];
+    return {
+      inputIds,
+      attentionMask: inputIds.map(() => 1),
+      tokenTypeIds: inputIds.map(() => 0),
+    };
+  }
+
+  private requireToken(token: string): number {
+    const id = this.vocab.get(token);
+    if (id === undefined) {
+      throw new Error(`Tokenizer vocabulary is missing special token ${token}`);
+    }
+    return id;
+  }
+
+  private normalize(text: string): string {
+    let output = '';
+    for (const char of text) {
+      const code = char.codePointAt(0)!;
+      // clean_text: drop control characters, map all whitespace to a space
+      if (code === 0 || code === 0xfffd || (/\p{Cc}|\p{Cf}/u.test(char) && !/\s/.test(char))) continue;
+      if (/\s/.test(char)) {
+        output += ' ';
+      } else if (this.options.handleChineseChars && isChineseChar(code)) {
+        output += ` ${char} `;
+      } else {
+        output += char;
+      }
+    }
+
+    if (this.options.stripAccents) {
+      output = output.normalize('NFD').replace(/\p{Mn}/gu, '');
+    }
+    return this.options.lowercase ? output.toLowerCase() : output;
+  }
+
+  private preTokenize(text: string): string[] {
+    const words: string[] = [];
+    for (const chunk of text.split(' ')) {
+      let current = '';
+      for (const char of chunk) {
+        if (isPunctuation(char)) {
+          if (current) words.push(current);
+          words.push(char);
+          current = '';
+        } else {
+          current += char;
+        }
+      }
+      if (current) words.push(current);
+    }
+    return words;
+  }
+
+  private wordPiece(word: string): string[] {
+    const chars = Array.from(word);
+    if (chars.length > this.options.maxInputCharsPerWord) {
+      return [this.options.unkToken];
+    }
+
+    const pieces: string[] = [];
+    let start = 0;
+    while (start < chars.length) {
+      let end = chars.length;
+      let piece: string | undefined;
+      // greedy longest match first
+      while (start < end) {
+        const candidate = (start > 0 ? this.options.continuingSubwordPrefix : '') + chars.slice(start, end).join('');
+        if (this.vocab.has(candidate)) {
+          piece = candidate;
+          break;
+        }
+        end--;
+      }
+      if (piece === undefined) {
+        return [this.options.unkToken];
+      }
+      pieces.push(piece);
+      start = end;
+    }
+    return pieces;
+  }
+}
+
+// ============================================
+// Character classes
+// ============================================
+
+function isChineseChar(code: number): boolean {
+  return (
+    (code >= 0x4e00 && code <= 0x9fff) ||
+    (code >= 0x3400 && code <= 0x4dbf) ||
+    (code >= 0x20000 && code <= 0x2a6df) ||
+    (code >= 0x2a700 && code <= 0x2b73f) ||
+    (code >= 0x2b740 && code <= 0x2b81f) ||
+    (code >= 0x2b820 && code <= 0x2ceaf) ||
+    (code >= 0xf900 && code <= 0xfaff) ||
+    (code >= 0x2f800 && code <= 0x2fa1f)
+  );
+}
+
+function isPunctuation(char: string): boolean {
+  const code = char.codePointAt(0)!;
+  // BERT treats all non-alphanumeric ASCII as punctuation, e.g. "$" and "^"
+  if ((code >= 33 && code <= 47) || (code >= 58 && code <= 64) || (code >= 91 && code <= 96) || (code >= 123 && code <= 126)) {
+    return true;
+  }
+  return /\p{P}/u.test(char);
+}
@@ -294,6 +294,8 @@ export interface LLMRequest {
   temperature?: number;
   maxTokens?: number;
   tools?: LLMToolDefinition[];
+  /** 中止信号 */
+  signal?: AbortSignal;
 }
 
 /**
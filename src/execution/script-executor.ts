@@ -133,6 +133,17 @@ export class ScriptExecutor {
   ): Promise<ExecutionResult> {
     const startTime = new Date();
     const steps: ExecutionStep[] = [];
+    const signal = context.abortSignal;
+
+    if (signal?.aborted) {
+      return this.createErrorResult(
+        context.executionId,
+        executable,
+        'SCRIPT_ABORTED',
+        'Script execution aborted',
+        startTime
+      );
+    }
 
     try {
       // 1. 验证脚本
@@ -160,7 +171,7 @@ export class ScriptExecutor {
 
       // 3. 执行脚本
       const executeStep = this.createStep('execute', '执行脚本');
-      const result = await this.runScript(executable, input, sandbox, context);
+      const result = await this.raceAbort(this.runScript(executable, input, sandbox, context), signal);
       this.completeStep(executeStep, result);
       steps.push(executeStep);
 
@@ -181,7 +192,7 @@ export class ScriptExecutor {
       return this.createErrorResult(
         context.executionId,
         executable,
-        'SCRIPT_EXECUTION_ERROR',
+        signal?.aborted ? 'SCRIPT_ABORTED' : 'SCRIPT_EXECUTION_ERROR',
         (error as Error).message,
         startTime,
         error as Error
@@ -240,11 +251,13 @@ export class ScriptExecutor {
         memory: context.memory,
         tools: context.tools,
         mcp: context.mcp,
+        signal: context.abortSignal,
       },
       // 注入工具函数
       $llm: async (prompt: string) => {
         const response = await context.llm.complete({
           messages: [{ role: 'user', content: prompt }],
+          signal: context.abortSignal,
         });
         return response.content;
       },
@@ -313,6 +326,28 @@ export class ScriptExecutor {
     }
   }
 
+  /**
+   * 取消时立即结束等待（脚本可通过 $context.signal 自行停止后续工作）
+   */
+  private async raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+      return promise;
+    }
+
+    let onAbort: (() => void) | undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(new Error('Script execution aborted'));
+      if (signal.aborted) onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([promise, aborted]);
+    } finally {
+      signal.removeEventListener('abort', onAbort!);
+    }
+  }
+
   /**
    * 执行JavaScript/TypeScript
    */
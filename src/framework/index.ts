@@ -123,6 +123,8 @@ export {
   object,
   type Schema,
   type SchemaField,
+  type JsonSchema,
+  type JsonSchemaType,
   type ValidationRule as SchemaValidationRule,
   type ValidationResult as SchemaValidationResult,
 } from '../utils/schema-validator.js';
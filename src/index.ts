@@ -52,6 +52,8 @@ export type {
   Tool,
 } from './agent';
 export { ReasonSkill, PlanSkill, MemorySkill } from './agent';
+export { InMemorySessionStore, FileSessionStore, SqliteSessionStore } from './agent';
+export type { SessionStore, SessionRecord, SessionSummary } from './agent';
 
 // ============================================
 // Planning Algorithms
@@ -97,6 +99,8 @@ export type {
 // ============================================
 export { ScannIndex, createScannIndex } from './algorithms/scann-index.js';
 export type { ScannConfig } from './algorithms/scann-index.js';
+export { QuantizedVectorStore, createVectorCodec } from './algorithms/quantization.js';
+export type { QuantizationConfig, QuantizationStats } from './algorithms/quantization.js';
 
 export { SpeculativeDecoder, createSpeculativeDecoder, MockLanguageModel } from './algorithms/speculative-decoding.js';
 export type { SpeculativeDecodingConfig, DecodingResult, LanguageModel } from './algorithms/speculative-decoding.js';
@@ -110,10 +114,15 @@ export type {
   LLMResponse,
   LLMStreamChunk,
   LLMMessage,
+  LLMContentPart,
+  LLMMediaSource,
   ToolDefinition,
   ToolCall,
 } from './llm/provider.js';
 
+export { UsageLedger, BudgetExceededError, findModelPricing, calculateCost } from './llm/usage-ledger.js';
+export type { UsageRecord, UsageTotals, UsageBudget, UsageBudgets, UsageScope, UsageLedgerOptions } from './llm/usage-ledger.js';
+
 // ============================================
 // Unified Execution Engine
 // ============================================
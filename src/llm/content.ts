@@ -0,0 +1,174 @@
+/**
+ * Multimodal Content Helpers
+ * Shared conversions between LLMContentPart[] and provider wire formats
+ */
+
+import type { LLMContentPart, LLMMediaSource, LLMMessage } from './provider.js';
+
+/**
+ * Agent-layer content part (ChatMessage / MessageContentPart shape)
+ */
+export type ChatContentLike =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; imageUrl: { url: string; detail?: 'low' | 'high' | 'auto' } }
+  | { type: 'file'; file: { name: string; content: string; mimeType: string } };
+
+const TEXT_MIME_PATTERN = /^(text\/|application\/(json|xml|x-yaml|yaml|javascript|typescript))/i;
+
+/**
+ * Extract the plain text of a message, ignoring images and documents
+ */
+export function getTextContent(content: string | LLMContentPart[]): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content
+    .filter((part): part is { type: 'text'; text: string } => part.type === 'text')
+    .map(part => part.text)
+    .join('');
+}
+
+/**
+ * Whether a message carries image or document parts
+ */
+export function hasMediaContent(content: string | LLMContentPart[]): boolean {
+  return typeof content !== 'string' && content.some(part => part.type !== 'text');
+}
+
+/**
+ * Parse a `data:<mime>;base64,<data>` URL into a base64 source
+ */
+export function parseDataUrl(url: string): { type: 'base64'; mediaType: string; data: string } | undefined {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  if (!match) return undefined;
+  return { type: 'base64', mediaType: match[1], data: match[2] };
+}
+
+/**
+ * Render a media source as a URL (data URL for inline bytes)
+ */
+export function toDataUrl(source: LLMMediaSource): string {
+  switch (source.type) {
+    case 'url':
+      return source.url;
+    case 'base64':
+      return `data:${source.mediaType};base64,${source.data}`;
+    case 'text':
+      return `data:${source.mediaType || 'text/plain'};base64,${Buffer.from(source.data, 'utf-8').toString('base64')}`;
+  }
+}
+
+/**
+ * Convert agent-layer message content (ChatMessage.content) to LLM content parts
+ */
+export function fromChatContent(content: string | ChatContentLike[]): string | LLMContentPart[] {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map((part): LLMContentPart => {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image_url': {
+        const inline = parseDataUrl(part.imageUrl.url);
+        return {
+          type: 'image',
+          source: inline || { type: 'url', url: part.imageUrl.url },
+          detail: part.imageUrl.detail,
+        };
+      }
+      case 'file': {
+        const { name, content: data, mimeType } = part.file;
+        if (mimeType.startsWith('image/')) {
+          return { type: 'image', source: { type: 'base64', mediaType: mimeType, data } };
+        }
+        if (TEXT_MIME_PATTERN.test(mimeType)) {
+          return { type: 'document', name, source: { type: 'text', mediaType: mimeType, data } };
+        }
+        return { type: 'document', name, source: { type: 'base64', mediaType: mimeType, data } };
+      }
+    }
+  });
+}
+
+/**
+ * Inline a text document as a labelled text block
+ */
+function documentAsText(name: string | undefined, data: string): string {
+  return name ? `<document name="${name}">\n${data}\n</document>` : `<document>\n${data}\n</document>`;
+}
+
+/**
+ * Convert content to OpenAI Chat Completions format (also used by compatible APIs)
+ */
+export function toOpenAIContent(content: string | LLMContentPart[]): string | Array<Record<string, unknown>> {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content.map(part => {
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: part.text };
+      case 'image':
+        return {
+          type: 'image_url',
+          image_url: part.detail
+            ? { url: toDataUrl(part.source), detail: part.detail }
+            : { url: toDataUrl(part.source) },
+        };
+      case 'document':
+        if (part.source.type === 'text') {
+          return { type: 'text', text: documentAsText(part.name, part.source.data) };
+        }
+        if (part.source.type === 'url') {
+          throw new Error('Document URLs are not supported by OpenAI-compatible APIs, provide base64 data');
+        }
+        return {
+          type: 'file',
+          file: {
+            filename: part.name || 'document',
+            file_data: toDataUrl(part.source),
+          },
+        };
+    }
+  });
+}
+
+/**
+ * Format messages for OpenAI-compatible chat completion endpoints
+ */
+export function toOpenAIMessages(messages: LLMMessage[]): Array<Record<string, unknown>> {
+  return messages.map(msg => {
+    const formatted: Record<string, unknown> = {
+      role: msg.role,
+      content: toOpenAIContent(msg.content),
+    };
+    if (msg.name) formatted.name = msg.name;
+    if (msg.tool_calls) formatted.tool_calls = msg.tool_calls;
+    if (msg.tool_call_id) formatted.tool_call_id = msg.tool_call_id;
+    return formatted;
+  });
+}
+
+/**
+ * Flatten content to a string for text-only models.
+ * Text documents are inlined; images and binary documents are rejected
+ * rather than silently dropped.
+ */
+export function toTextOnlyContent(content: string | LLMContentPart[], providerName: string): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+
+  return content
+    .map(part => {
+      if (part.type === 'text') return part.text;
+      if (part.type === 'document' && part.source.type === 'text') {
+        return documentAsText(part.name, part.source.data);
+      }
+      throw new Error(`${providerName} does not support ${part.type} content`);
+    })
+    .join('\n');
+}
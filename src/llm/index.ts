@@ -1,5 +1,7 @@
 // LLM Provider exports
 export * from './provider.js';
+export * from './content.js';
+export * from './structured.js';
 export * from './providers/openai.js';
 export * from './providers/anthropic.js';
 export * from './providers/gemini.js';
@@ -9,3 +11,5 @@ export * from './providers/zhipu.js';
 export * from './providers/qwen.js';
 export * from './providers/deepseek.js';
 export * from './providers/doubao.js';
+export * from './providers/local.js';
+export * from './usage-ledger.js';
@@ -3,15 +3,61 @@
  * Supports various LLM providers: OpenAI, Anthropic, Google, local models, etc.
  */
 
+import type { JsonSchema } from '../utils/schema-validator.js';
+import { completeStructured } from './structured.js';
+
 // Message types for LLM communication
 export interface LLMMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string;
+  content: string | LLMContentPart[];
   name?: string;
   tool_calls?: ToolCall[];
   tool_call_id?: string;
+  /** Reasoning blocks returned with an assistant turn, replayed verbatim on the next request */
+  thinking?: LLMThinkingBlock[];
+  /** Prompt-caching breakpoint: cache the prompt prefix up to and including this message */
+  cache_control?: CacheControl;
+}
+
+export interface CacheControl {
+  type: 'ephemeral';
+  ttl?: '5m' | '1h';
+}
+
+// Extended thinking / reasoning output
+export type LLMThinkingBlock =
+  | { type: 'thinking'; thinking: string; signature?: string }
+  | { type: 'redacted_thinking'; data: string };
+
+// Multimodal content parts (translated by each provider to its wire format)
+export type LLMContentPart = LLMTextPart | LLMImagePart | LLMDocumentPart;
+
+export interface LLMTextPart {
+  type: 'text';
+  text: string;
+}
+
+export interface LLMImagePart {
+  type: 'image';
+  source: LLMMediaSource;
+  detail?: 'low' | 'high' | 'auto';
 }
 
+export interface LLMDocumentPart {
+  type: 'document';
+  source: LLMMediaSource;
+  name?: string;
+}
+
+/**
+ * Where the bytes of an image or document come from.
+ * `text` is only meaningful for documents (plain text, markdown, JSON, ...).
+ */
+export type LLMMediaSource =
+  | { type: 'base64'; mediaType: string; data: string }
+  | { type: 'url'; url: string; mediaType?: string }
+  | { type: 'text'; mediaType?: string; data: string };
+
 export interface ToolCall {
   id: string;
   type: 'function';
@@ -31,6 +77,24 @@ export interface LLMRequest {
   stream?: boolean;
   tools?: ToolDefinition[];
   tool_choice?: 'auto' | 'none' | { type: 'function'; function: { name: string } };
+  /** Extended thinking budget (providers without reasoning support ignore it) */
+  thinking?: { type: 'enabled'; budget_tokens: number } | { type: 'disabled' };
+  /** Cancels the HTTP request, including an open stream */
+  signal?: AbortSignal;
+  /** Constrain the reply to JSON matching this schema (see completeStructured) */
+  responseSchema?: ResponseSchema;
+}
+
+/**
+ * Structured output request: the model must reply with JSON matching `schema`
+ */
+export interface ResponseSchema {
+  /** Schema name (letters, digits, `_` and `-`), used by vendors that require one */
+  name: string;
+  schema: JsonSchema;
+  description?: string;
+  /** Ask vendors that support it to enforce the schema strictly */
+  strict?: boolean;
 }
 
 export interface ToolDefinition {
@@ -40,21 +104,32 @@ export interface ToolDefinition {
     description: string;
     parameters: Record<string, unknown>;
   };
+  /** Prompt-caching breakpoint placed after this tool definition */
+  cache_control?: CacheControl;
+}
+
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  /** Prompt tokens served from the provider's prompt cache */
+  cache_read_tokens?: number;
+  /** Prompt tokens written to the provider's prompt cache */
+  cache_creation_tokens?: number;
 }
 
 // LLM Response
-export interface LLMResponse {
+export interface LLMResponse<TParsed = unknown> {
   id: string;
   model: string;
   content: string;
   role: 'assistant';
   tool_calls?: ToolCall[];
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  thinking?: LLMThinkingBlock[];
+  usage?: LLMUsage;
   finish_reason: 'stop' | 'length' | 'tool_calls' | 'content_filter';
+  /** Validated JSON for requests with responseSchema */
+  parsed?: TParsed;
 }
 
 // Streaming response chunk
@@ -65,13 +140,13 @@ export interface LLMStreamChunk {
     content?: string;
     role?: 'assistant';
     tool_calls?: ToolCall[];
+    /** Incremental reasoning text */
+    thinking?: string;
+    /** Completed reasoning blocks (with signatures) for replaying on the next turn */
+    thinking_blocks?: LLMThinkingBlock[];
   };
   finish_reason?: 'stop' | 'length' | 'tool_calls' | 'content_filter';
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: LLMUsage;
 }
 
 // Provider configuration
@@ -88,6 +163,12 @@ export interface LLMProviderConfig {
 export interface LLMProvider {
   readonly name: string;
   readonly supportedModels: string[];
+  /**
+   * Native structured output support for responseSchema.
+   * 'json_schema' enforces the schema, 'json_object' only guarantees JSON;
+   * without either the schema is described in the prompt.
+   */
+  readonly structuredOutput?: 'json_schema' | 'json_object';
 
   complete(request: LLMRequest): Promise<LLMResponse>;
   stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk>;
@@ -166,9 +247,19 @@ export class LLMManager {
 
   async complete(request: LLMRequest, providerName?: string): Promise<LLMResponse> {
     const provider = this.getProvider(providerName);
+    if (request.responseSchema) {
+      return completeStructured(provider, { ...request, responseSchema: request.responseSchema });
+    }
     return provider.complete(request);
   }
 
+  async completeStructured<T>(
+    request: LLMRequest & { responseSchema: ResponseSchema },
+    providerName?: string
+  ): Promise<LLMResponse<T> & { parsed: T }> {
+    return completeStructured<T>(this.getProvider(providerName), request);
+  }
+
   async *stream(request: LLMRequest, providerName?: string): AsyncIterableIterator<LLMStreamChunk> {
     const provider = this.getProvider(providerName);
     yield* provider.stream(request);
@@ -4,12 +4,19 @@
  */
 
 import {
+  LLMContentPart,
+  LLMMediaSource,
+  LLMMessage,
   LLMProvider,
   LLMProviderConfig as LLMProviderConfigType,
   LLMRequest,
   LLMResponse,
   LLMStreamChunk,
+  LLMThinkingBlock,
+  LLMUsage,
+  ToolCall,
 } from '../provider.js';
+import { getTextContent } from '../content.js';
 
 export interface AnthropicConfig extends LLMProviderConfigType {
   anthropicVersion?: string;
@@ -17,6 +24,7 @@ export interface AnthropicConfig extends LLMProviderConfigType {
 
 export class AnthropicProvider implements LLMProvider {
   readonly name = 'anthropic';
+  readonly structuredOutput = 'json_schema' as const;
   readonly supportedModels = [
     // Claude 4.5 系列 (最新 - 2025)
     'claude-sonnet-4-5',
@@ -85,7 +93,7 @@ export class AnthropicProvider implements LLMProvider {
     return !!this._apiKey;
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<Response> {
+  private async makeRequest(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this._timeout);
 
@@ -98,7 +106,7 @@ export class AnthropicProvider implements LLMProvider {
           'Anthropic-Version': this._anthropicVersion,
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -117,15 +125,15 @@ export class AnthropicProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest('/messages', body);
+    const response = await this.makeRequest('/messages', body, request.signal);
     const data = await response.json() as Record<string, unknown>;
 
-    return this.parseResponse(data);
+    return this.parseResponse(data, request.responseSchema?.name);
   }
 
   async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
     const body = this.buildRequestBody(request, true);
-    const response = await this.makeRequest('/messages', body);
+    const response = await this.makeRequest('/messages', body, request.signal);
 
     const reader = response.body?.getReader();
     if (!reader) {
@@ -133,6 +141,7 @@ export class AnthropicProvider implements LLMProvider {
     }
 
     const decoder = new TextDecoder();
+    const state: AnthropicStreamState = { id: '', model: '', promptTokens: 0, blocks: new Map() };
     let buffer = '';
 
     try {
@@ -145,18 +154,27 @@ export class AnthropicProvider implements LLMProvider {
         buffer = lines.pop() || '';
 
         for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') return;
-
-            try {
-              const event = JSON.parse(data);
-              if (event.type === 'content_block_delta') {
-                yield this.parseStreamChunk(event);
-              }
-            } catch {
-              // Ignore parse errors
-            }
+          if (!line.startsWith('data: ')) continue;
+
+          let event: Record<string, unknown>;
+          try {
+            event = JSON.parse(line.slice(6));
+          } catch {
+            // Ignore parse errors
+            continue;
+          }
+
+          if (event.type === 'error') {
+            const error = event.error as Record<string, string> | undefined;
+            throw new Error(`Anthropic API error: ${error?.type || 'stream_error'} - ${error?.message || ''}`);
+          }
+
+          const chunk = this.parseStreamEvent(event, state);
+          if (chunk) {
+            yield chunk;
+          }
+          if (event.type === 'message_stop') {
+            return;
           }
         }
       }
@@ -166,67 +184,396 @@ export class AnthropicProvider implements LLMProvider {
   }
 
   private buildRequestBody(request: LLMRequest, stream = false): Record<string, unknown> {
-    const systemMessage = request.messages.find(m => m.role === 'system');
+    const systemMessages = request.messages.filter(m => m.role === 'system');
     const messages = request.messages.filter(m => m.role !== 'system');
+    const thinking = request.thinking ?? this._defaultParams.thinking;
 
     const body: Record<string, unknown> = {
       model: request.model || this._defaultParams.model || 'claude-sonnet-4-5-latest',
-      messages: messages.map(msg => ({
-        role: msg.role === 'assistant' ? 'assistant' : 'user',
-        content: msg.content,
-      })),
+      messages: this.formatMessages(messages),
       max_tokens: request.max_tokens ?? this._defaultParams.max_tokens ?? 4096,
       stream,
     };
 
-    if (systemMessage) {
-      body.system = systemMessage.content;
+    if (systemMessages.length > 0) {
+      body.system = this.formatSystem(systemMessages);
+    }
+
+    if (thinking) {
+      body.thinking = thinking;
     }
 
-    if (request.temperature !== undefined) {
+    // Extended thinking only accepts the default temperature
+    if (request.temperature !== undefined && thinking?.type !== 'enabled') {
       body.temperature = request.temperature;
     }
 
     if (request.tools) {
-      body.tools = request.tools.map(tool => ({
-        name: tool.function.name,
-        description: tool.function.description,
-        input_schema: tool.function.parameters,
-      }));
+      body.tools = request.tools.map(tool => {
+        const formatted: Record<string, unknown> = {
+          name: tool.function.name,
+          description: tool.function.description,
+          input_schema: tool.function.parameters,
+        };
+        if (tool.cache_control) formatted.cache_control = tool.cache_control;
+        return formatted;
+      });
+    }
+
+    if (request.tool_choice) {
+      body.tool_choice = this.formatToolChoice(request.tool_choice);
+    }
+
+    // Structured output: force a call to a tool whose input schema is the response schema
+    if (request.responseSchema) {
+      const { name, description, schema } = request.responseSchema;
+      body.tools = [
+        ...((body.tools as unknown[]) || []),
+        { name, description: description || 'Respond with the structured result', input_schema: schema },
+      ];
+      body.tool_choice = { type: 'tool', name };
     }
 
     return body;
   }
 
-  private parseResponse(data: Record<string, unknown>): LLMResponse {
+  private formatSystem(systemMessages: LLMMessage[]): string | Array<Record<string, unknown>> {
+    if (!systemMessages.some(m => m.cache_control)) {
+      return systemMessages.map(m => getTextContent(m.content)).join('\n\n');
+    }
+
+    return systemMessages.map(m => {
+      const block: Record<string, unknown> = { type: 'text', text: getTextContent(m.content) };
+      if (m.cache_control) block.cache_control = m.cache_control;
+      return block;
+    });
+  }
+
+  private formatToolChoice(toolChoice: NonNullable<LLMRequest['tool_choice']>): Record<string, unknown> {
+    if (toolChoice === 'auto') return { type: 'auto' };
+    if (toolChoice === 'none') return { type: 'none' };
+    return { type: 'tool', name: toolChoice.function.name };
+  }
+
+  /**
+   * Map chat messages to Anthropic turns.
+   * Assistant tool_calls become tool_use blocks; consecutive `tool` messages
+   * are merged into a single user turn of tool_result blocks.
+   */
+  private formatMessages(messages: LLMMessage[]): Array<Record<string, unknown>> {
+    const turns: Array<{ role: 'user' | 'assistant'; content: Array<Record<string, unknown>> }> = [];
+
+    for (const msg of messages) {
+      const role = msg.role === 'assistant' ? 'assistant' : 'user';
+      const blocks = msg.role === 'tool'
+        ? [this.formatToolResult(msg)]
+        : msg.role === 'assistant'
+          ? this.formatAssistantBlocks(msg)
+          : this.toBlocks(this.formatContent(msg.content));
+
+      if (msg.cache_control && blocks.length > 0) {
+        blocks[blocks.length - 1] = { ...blocks[blocks.length - 1], cache_control: msg.cache_control };
+      }
+
+      const previous = turns[turns.length - 1];
+      if (previous && previous.role === role) {
+        previous.content.push(...blocks);
+      } else {
+        turns.push({ role, content: blocks });
+      }
+    }
+
+    return turns.map(turn => ({
+      role: turn.role,
+      content:
+        turn.content.length === 1 && turn.content[0].type === 'text' && !turn.content[0].cache_control
+          ? turn.content[0].text
+          : turn.content,
+    }));
+  }
+
+  private formatAssistantBlocks(msg: LLMMessage): Array<Record<string, unknown>> {
+    const blocks: Array<Record<string, unknown>> = [];
+
+    for (const block of msg.thinking || []) {
+      blocks.push({ ...block });
+    }
+
+    const content = this.formatContent(msg.content);
+    if (typeof content === 'string') {
+      if (content) blocks.push({ type: 'text', text: content });
+    } else {
+      blocks.push(...content);
+    }
+
+    for (const call of msg.tool_calls || []) {
+      blocks.push({
+        type: 'tool_use',
+        id: call.id,
+        name: call.function.name,
+        input: this.parseToolInput(call.function.arguments),
+      });
+    }
+
+    return blocks;
+  }
+
+  private formatToolResult(msg: LLMMessage): Record<string, unknown> {
+    const content = this.formatContent(msg.content);
+    return {
+      type: 'tool_result',
+      tool_use_id: msg.tool_call_id,
+      content,
+    };
+  }
+
+  private toBlocks(content: string | Array<Record<string, unknown>>): Array<Record<string, unknown>> {
+    return typeof content === 'string' ? [{ type: 'text', text: content }] : content;
+  }
+
+  private parseToolInput(args: string): Record<string, unknown> {
+    if (!args) return {};
+    try {
+      return JSON.parse(args);
+    } catch {
+      return {};
+    }
+  }
+
+  private formatContent(content: string | LLMContentPart[]): string | Array<Record<string, unknown>> {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    return content.map(part => {
+      switch (part.type) {
+        case 'text':
+          return { type: 'text', text: part.text };
+        case 'image':
+          return { type: 'image', source: this.formatSource(part.source) };
+        case 'document': {
+          const block: Record<string, unknown> = {
+            type: 'document',
+            source: this.formatSource(part.source),
+          };
+          if (part.name) block.title = part.name;
+          return block;
+        }
+      }
+    });
+  }
+
+  private formatSource(source: LLMMediaSource): Record<string, unknown> {
+    switch (source.type) {
+      case 'base64':
+        return { type: 'base64', media_type: source.mediaType, data: source.data };
+      case 'url':
+        return { type: 'url', url: source.url };
+      case 'text':
+        return { type: 'text', media_type: 'text/plain', data: source.data };
+    }
+  }
+
+  private parseResponse(data: Record<string, unknown>, responseToolName?: string): LLMResponse {
     const content = (data.content as Array<Record<string, unknown>>) || [];
-    const textContent = content.find(c => c.type === 'text');
+
+    // The forced structured-output tool call carries the JSON reply
+    const structured = responseToolName
+      ? content.find(block => block.type === 'tool_use' && block.name === responseToolName)
+      : undefined;
+    if (structured) {
+      return {
+        ...this.parseResponse({ ...data, content: content.filter(block => block !== structured) }),
+        content: JSON.stringify(structured.input ?? {}),
+        finish_reason: 'stop',
+      };
+    }
+
+    const text = content
+      .filter(block => block.type === 'text')
+      .map(block => block.text as string)
+      .join('');
+
+    const toolCalls: ToolCall[] = content
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id as string,
+        type: 'function',
+        function: {
+          name: block.name as string,
+          arguments: JSON.stringify(block.input ?? {}),
+        },
+      }));
+
+    const thinking = content
+      .filter(block => block.type === 'thinking' || block.type === 'redacted_thinking')
+      .map(block => this.toThinkingBlock(block));
 
     return {
       id: data.id as string,
       model: data.model as string,
-      content: (textContent?.text as string) || '',
+      content: text,
       role: 'assistant',
-      usage: {
-        prompt_tokens: (data.usage as Record<string, number>)?.input_tokens || 0,
-        completion_tokens: (data.usage as Record<string, number>)?.output_tokens || 0,
-        total_tokens:
-          ((data.usage as Record<string, number>)?.input_tokens || 0) +
-          ((data.usage as Record<string, number>)?.output_tokens || 0),
-      },
-      finish_reason: 'stop',
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+      thinking: thinking.length > 0 ? thinking : undefined,
+      usage: this.parseUsage(data.usage as Record<string, number> | undefined),
+      finish_reason: this.mapStopReason(data.stop_reason as string | undefined),
     };
   }
 
-  private parseStreamChunk(event: Record<string, unknown>): LLMStreamChunk {
+  private parseUsage(usage: Record<string, number> | undefined, promptTokens?: number): LLMUsage {
+    const inputTokens = promptTokens ?? usage?.input_tokens ?? 0;
+    const outputTokens = usage?.output_tokens || 0;
+    const cacheRead = usage?.cache_read_input_tokens || 0;
+    const cacheCreation = usage?.cache_creation_input_tokens || 0;
+
     return {
-      id: event.id as string,
-      model: event.model as string,
-      delta: {
-        content: (event.delta as Record<string, string>)?.text,
-      },
+      prompt_tokens: inputTokens,
+      completion_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens,
+      cache_read_tokens: cacheRead || undefined,
+      cache_creation_tokens: cacheCreation || undefined,
     };
   }
+
+  private mapStopReason(stopReason: string | undefined): LLMResponse['finish_reason'] {
+    switch (stopReason) {
+      case 'max_tokens':
+        return 'length';
+      case 'tool_use':
+        return 'tool_calls';
+      case 'refusal':
+        return 'content_filter';
+      default:
+        return 'stop';
+    }
+  }
+
+  private toThinkingBlock(block: Record<string, unknown>): LLMThinkingBlock {
+    if (block.type === 'redacted_thinking') {
+      return { type: 'redacted_thinking', data: block.data as string };
+    }
+    return {
+      type: 'thinking',
+      thinking: (block.thinking as string) || '',
+      signature: block.signature as string | undefined,
+    };
+  }
+
+  /**
+   * Translate one SSE event into a stream chunk.
+   * Tool input arrives as `input_json_delta` fragments and is emitted as a
+   * complete tool call once its content block stops.
+   */
+  private parseStreamEvent(
+    event: Record<string, unknown>,
+    state: AnthropicStreamState
+  ): LLMStreamChunk | undefined {
+    const chunk = (delta: LLMStreamChunk['delta'], extra: Partial<LLMStreamChunk> = {}): LLMStreamChunk => ({
+      id: state.id,
+      model: state.model,
+      delta,
+      ...extra,
+    });
+
+    switch (event.type) {
+      case 'message_start': {
+        const message = event.message as Record<string, unknown>;
+        state.id = message.id as string;
+        state.model = message.model as string;
+        state.usage = message.usage as Record<string, number> | undefined;
+        state.promptTokens = state.usage?.input_tokens || 0;
+        return chunk({ role: 'assistant' });
+      }
+
+      case 'content_block_start': {
+        const block = event.content_block as Record<string, unknown>;
+        state.blocks.set(event.index as number, {
+          type: block.type as string,
+          id: block.id as string | undefined,
+          name: block.name as string | undefined,
+          text: '',
+          signature: '',
+          data: block.data as string | undefined,
+        });
+        return undefined;
+      }
+
+      case 'content_block_delta': {
+        const delta = event.delta as Record<string, string>;
+        const block = state.blocks.get(event.index as number);
+
+        switch (delta.type) {
+          case 'text_delta':
+            return chunk({ content: delta.text });
+          case 'input_json_delta':
+            if (block) block.text += delta.partial_json;
+            return undefined;
+          case 'thinking_delta':
+            if (block) block.text += delta.thinking;
+            return chunk({ thinking: delta.thinking });
+          case 'signature_delta':
+            if (block) block.signature += delta.signature;
+            return undefined;
+          default:
+            return undefined;
+        }
+      }
+
+      case 'content_block_stop': {
+        const block = state.blocks.get(event.index as number);
+        if (!block) return undefined;
+        state.blocks.delete(event.index as number);
+
+        if (block.type === 'tool_use') {
+          return chunk({
+            tool_calls: [
+              {
+                id: block.id as string,
+                type: 'function',
+                function: { name: block.name as string, arguments: block.text || '{}' },
+              },
+            ],
+          });
+        }
+        if (block.type === 'thinking') {
+          return chunk({
+            thinking_blocks: [{ type: 'thinking', thinking: block.text, signature: block.signature || undefined }],
+          });
+        }
+        if (block.type === 'redacted_thinking') {
+          return chunk({ thinking_blocks: [{ type: 'redacted_thinking', data: block.data || '' }] });
+        }
+        return undefined;
+      }
+
+      case 'message_delta': {
+        const delta = event.delta as Record<string, string>;
+        const usage = { ...state.usage, ...(event.usage as Record<string, number> | undefined) };
+        return chunk(
+          {},
+          {
+            finish_reason: this.mapStopReason(delta?.stop_reason),
+            usage: this.parseUsage(usage, state.promptTokens),
+          }
+        );
+      }
+
+      default:
+        return undefined;
+    }
+  }
+}
+
+interface AnthropicStreamState {
+  id: string;
+  model: string;
+  promptTokens: number;
+  usage?: Record<string, number>;
+  blocks: Map<
+    number,
+    { type: string; id?: string; name?: string; text: string; signature: string; data?: string }
+  >;
 }
 
 // Register provider
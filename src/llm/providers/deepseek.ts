@@ -11,11 +11,13 @@ import {
   LLMResponse,
   LLMStreamChunk,
 } from '../provider.js';
+import { toOpenAIMessages, toTextOnlyContent } from '../content.js';
 
 export interface DeepSeekConfig extends LLMProviderConfig {}
 
 export class DeepSeekProvider implements LLMProvider {
   readonly name = 'deepseek';
+  readonly structuredOutput = 'json_object' as const;
   readonly supportedModels = [
     // DeepSeek-V3.2 系列 (最新)
     'deepseek-v3.2',
@@ -94,7 +96,7 @@ export class DeepSeekProvider implements LLMProvider {
     return !!this._apiKey;
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<Response> {
+  private async makeRequest(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this._timeout);
 
@@ -106,7 +108,7 @@ export class DeepSeekProvider implements LLMProvider {
           Authorization: `Bearer ${this._apiKey}`,
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -125,7 +127,7 @@ export class DeepSeekProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
     const data = await response.json() as Record<string, unknown>;
 
     return this.parseResponse(data);
@@ -133,7 +135,7 @@ export class DeepSeekProvider implements LLMProvider {
 
   async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
     const body = this.buildRequestBody(request, true);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
 
     const reader = response.body?.getReader();
     if (!reader) {
@@ -174,11 +176,14 @@ export class DeepSeekProvider implements LLMProvider {
   private buildRequestBody(request: LLMRequest, stream = false): Record<string, unknown> {
     return {
       model: request.model || this._defaultParams.model || 'deepseek-v3.2',
-      messages: request.messages,
+      messages: toOpenAIMessages(
+        request.messages.map(msg => ({ ...msg, content: toTextOnlyContent(msg.content, 'DeepSeek') }))
+      ),
       temperature: request.temperature ?? this._defaultParams.temperature ?? 0.7,
       max_tokens: request.max_tokens ?? this._defaultParams.max_tokens ?? 4096,
       top_p: request.top_p ?? this._defaultParams.top_p ?? 1,
       stream,
+      response_format: request.responseSchema ? { type: 'json_object' } : undefined,
     };
   }
 
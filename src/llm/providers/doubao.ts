@@ -11,6 +11,7 @@ import {
   LLMResponse,
   LLMStreamChunk,
 } from '../provider.js';
+import { toOpenAIMessages } from '../content.js';
 
 export interface DoubaoConfig extends LLMProviderConfig {
   region?: string;
@@ -18,6 +19,7 @@ export interface DoubaoConfig extends LLMProviderConfig {
 
 export class DoubaoProvider implements LLMProvider {
   readonly name = 'doubao';
+  readonly structuredOutput = 'json_object' as const;
   readonly supportedModels = [
     // Doubao Seed 1.8 系列 (最新)
     'doubao-seed-1-8-251228',
@@ -129,7 +131,7 @@ export class DoubaoProvider implements LLMProvider {
     return !!this._apiKey;
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<Response> {
+  private async makeRequest(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this._timeout);
 
@@ -141,7 +143,7 @@ export class DoubaoProvider implements LLMProvider {
           Authorization: `Bearer ${this._apiKey}`,
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -160,7 +162,7 @@ export class DoubaoProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
     const data = await response.json() as Record<string, unknown>;
 
     return this.parseResponse(data);
@@ -168,7 +170,7 @@ export class DoubaoProvider implements LLMProvider {
 
   async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
     const body = this.buildRequestBody(request, true);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
 
     const reader = response.body?.getReader();
     if (!reader) {
@@ -209,11 +211,12 @@ export class DoubaoProvider implements LLMProvider {
   private buildRequestBody(request: LLMRequest, stream = false): Record<string, unknown> {
     return {
       model: request.model || this._defaultParams.model || 'doubao-1.8-pro-32k',
-      messages: request.messages,
+      messages: toOpenAIMessages(request.messages),
       temperature: request.temperature ?? this._defaultParams.temperature ?? 0.7,
       max_tokens: request.max_tokens ?? this._defaultParams.max_tokens ?? 4096,
       top_p: request.top_p ?? this._defaultParams.top_p ?? 1,
       stream,
+      response_format: request.responseSchema ? { type: 'json_object' } : undefined,
     };
   }
 
@@ -4,12 +4,14 @@
  */
 
 import {
+  LLMContentPart,
   LLMProvider,
   LLMProviderConfig as LLMProviderConfigType,
   LLMRequest,
   LLMResponse,
   LLMStreamChunk,
 } from '../provider.js';
+import { getTextContent } from '../content.js';
 
 export interface GeminiConfig extends LLMProviderConfigType {
   apiVersion?: string;
@@ -17,6 +19,7 @@ export interface GeminiConfig extends LLMProviderConfigType {
 
 export class GeminiProvider implements LLMProvider {
   readonly name = 'gemini';
+  readonly structuredOutput = 'json_schema' as const;
   readonly supportedModels = [
     // Gemini 3.0 系列 (最新 - 2025)
     'gemini-3.0-pro',
@@ -101,7 +104,7 @@ export class GeminiProvider implements LLMProvider {
     return !!this._apiKey;
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<Response> {
+  private async makeRequest(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this._timeout);
 
@@ -114,7 +117,7 @@ export class GeminiProvider implements LLMProvider {
             'Content-Type': 'application/json',
           },
           body: JSON.stringify(body),
-          signal: controller.signal,
+          signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
         }
       );
 
@@ -135,7 +138,7 @@ export class GeminiProvider implements LLMProvider {
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const model = request.model || this._defaultParams.model || 'gemini-3.0-flash';
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest(`models/${model}:generateContent`, body);
+    const response = await this.makeRequest(`models/${model}:generateContent`, body, request.signal);
     const data = await response.json() as Record<string, unknown>;
 
     return this.parseResponse(data, model);
@@ -144,7 +147,7 @@ export class GeminiProvider implements LLMProvider {
   async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
     const model = request.model || this._defaultParams.model || 'gemini-3.0-flash';
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest(`models/${model}:streamGenerateContent`, body);
+    const response = await this.makeRequest(`models/${model}:streamGenerateContent`, body, request.signal);
 
     const reader = response.body?.getReader();
     if (!reader) {
@@ -185,21 +188,28 @@ export class GeminiProvider implements LLMProvider {
 
     const contents = messages.map(msg => ({
       role: msg.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: msg.content }],
+      parts: this.formatParts(msg.content),
     }));
 
+    const generationConfig: Record<string, unknown> = {
+      temperature: request.temperature ?? this._defaultParams.temperature ?? 0.7,
+      maxOutputTokens: request.max_tokens ?? this._defaultParams.max_tokens ?? 2048,
+      topP: request.top_p ?? this._defaultParams.top_p ?? 0.95,
+    };
+
+    if (request.responseSchema) {
+      generationConfig.responseMimeType = 'application/json';
+      generationConfig.responseJsonSchema = request.responseSchema.schema;
+    }
+
     const body: Record<string, unknown> = {
       contents,
-      generationConfig: {
-        temperature: request.temperature ?? this._defaultParams.temperature ?? 0.7,
-        maxOutputTokens: request.max_tokens ?? this._defaultParams.max_tokens ?? 2048,
-        topP: request.top_p ?? this._defaultParams.top_p ?? 0.95,
-      },
+      generationConfig,
     };
 
     if (systemMessage) {
       body.systemInstruction = {
-        parts: [{ text: systemMessage.content }],
+        parts: [{ text: getTextContent(systemMessage.content) }],
       };
     }
 
@@ -218,6 +228,38 @@ export class GeminiProvider implements LLMProvider {
     return body;
   }
 
+  private formatParts(content: string | LLMContentPart[]): Array<Record<string, unknown>> {
+    if (typeof content === 'string') {
+      return [{ text: content }];
+    }
+
+    return content.map(part => {
+      if (part.type === 'text') {
+        return { text: part.text };
+      }
+
+      const { source } = part;
+      switch (source.type) {
+        case 'base64':
+          return { inlineData: { mimeType: source.mediaType, data: source.data } };
+        case 'url':
+          return {
+            fileData: {
+              mimeType: source.mediaType || (part.type === 'image' ? 'image/jpeg' : 'application/pdf'),
+              fileUri: source.url,
+            },
+          };
+        case 'text':
+          return {
+            inlineData: {
+              mimeType: source.mediaType || 'text/plain',
+              data: Buffer.from(source.data, 'utf-8').toString('base64'),
+            },
+          };
+      }
+    });
+  }
+
   private parseResponse(data: Record<string, unknown>, model: string): LLMResponse {
     const candidates = (data.candidates as Array<Record<string, unknown>>) || [];
     const firstCandidate = candidates[0];
@@ -0,0 +1,456 @@
+/**
+ * Local Model Provider Implementation
+ * Self-hosted models via Ollama (/api/chat) or any OpenAI-compatible server
+ * (llama.cpp server, vLLM, LM Studio, ...)
+ */
+
+import {
+  LLMMessage,
+  LLMProvider,
+  LLMProviderConfig,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMUsage,
+  ToolCall,
+} from '../provider.js';
+import { toOpenAIMessages, toTextOnlyContent } from '../content.js';
+
+export type LocalApiFormat = 'ollama' | 'openai';
+
+export interface LocalConfig extends LLMProviderConfig {
+  /**
+   * Wire protocol. Defaults to 'openai' when baseUrl ends with /v1, otherwise 'ollama'.
+   */
+  api?: LocalApiFormat;
+}
+
+export class LocalProvider implements LLMProvider {
+  readonly name = 'local';
+  readonly structuredOutput = 'json_schema' as const;
+  /** Populated from the server by listModels() */
+  supportedModels: string[] = [];
+
+  private _apiKey: string;
+  private _baseUrl: string;
+  private _api: LocalApiFormat;
+  private _defaultParams: Partial<LLMRequest>;
+  private _timeout: number;
+
+  constructor(config: LocalConfig) {
+    this._apiKey = config.apiKey || '';
+    this._baseUrl = (config.baseUrl || 'http://localhost:11434').replace(/\/+$/, '');
+    this._api = config.api || (/\/v1$/.test(this._baseUrl) ? 'openai' : 'ollama');
+    this._defaultParams = { ...config.defaultParams, model: config.model ?? config.defaultParams?.model };
+    this._timeout = config.timeout || 300000;
+  }
+
+  get api(): LocalApiFormat {
+    return this._api;
+  }
+
+  validateConfig(): boolean {
+    return !!this._baseUrl;
+  }
+
+  /**
+   * Discover the models installed on the server and refresh supportedModels
+   */
+  async listModels(): Promise<string[]> {
+    const response = await this.makeRequest(this._api === 'ollama' ? '/api/tags' : '/models');
+    const data = await response.json() as Record<string, unknown>;
+
+    if (this._api === 'ollama') {
+      const models = (data.models as Array<Record<string, unknown>>) || [];
+      this.supportedModels = models.map(m => (m.name || m.model) as string);
+    } else {
+      const models = (data.data as Array<Record<string, unknown>>) || [];
+      this.supportedModels = models.map(m => m.id as string);
+    }
+
+    return this.supportedModels;
+  }
+
+  private async makeRequest(endpoint: string, body?: unknown, signal?: AbortSignal): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this._timeout);
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this._apiKey) {
+      headers.Authorization = `Bearer ${this._apiKey}`;
+    }
+
+    try {
+      const response = await fetch(`${this._baseUrl}${endpoint}`, {
+        method: body === undefined ? 'GET' : 'POST',
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Local model API error: ${response.status} - ${error}`);
+      }
+
+      return response;
+    } catch (error) {
+      clearTimeout(timeoutId);
+      throw error;
+    }
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = await this.resolveModel(request);
+    const body = this.buildRequestBody(request, model);
+    const response = await this.makeRequest(this.chatEndpoint(), body, request.signal);
+    const data = await response.json() as Record<string, unknown>;
+
+    return this._api === 'ollama' ? this.parseOllamaResponse(data) : this.parseOpenAIResponse(data);
+  }
+
+  async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
+    const model = await this.resolveModel(request);
+    const body = this.buildRequestBody(request, model, true);
+    const response = await this.makeRequest(this.chatEndpoint(), body, request.signal);
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      throw new Error('No response body');
+    }
+
+    const decoder = new TextDecoder();
+    const toolCalls = new Map<number, ToolCall>();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          // Ollama streams NDJSON, OpenAI-compatible servers stream SSE
+          const data = this._api === 'ollama' ? line.trim() : line.startsWith('data: ') ? line.slice(6) : '';
+          if (!data) continue;
+          if (data === '[DONE]') return;
+
+          let chunk: Record<string, unknown>;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            // Ignore parse errors for malformed chunks
+            continue;
+          }
+
+          if (chunk.error) {
+            throw new Error(`Local model API error: ${JSON.stringify(chunk.error)}`);
+          }
+
+          const parsed = this._api === 'ollama'
+            ? this.parseOllamaStreamChunk(chunk, toolCalls)
+            : this.parseOpenAIStreamChunk(chunk, toolCalls);
+          if (parsed) {
+            yield parsed;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  private chatEndpoint(): string {
+    return this._api === 'ollama' ? '/api/chat' : '/chat/completions';
+  }
+
+  private buildRequestBody(request: LLMRequest, model: string, stream = false): Record<string, unknown> {
+    return this._api === 'ollama'
+      ? this.buildOllamaBody(request, model, stream)
+      : this.buildOpenAIBody(request, model, stream);
+  }
+
+  /**
+   * Use the requested model, else the configured default, else the first installed model
+   */
+  private async resolveModel(request: LLMRequest): Promise<string> {
+    const model = request.model || this._defaultParams.model;
+    if (model) return model;
+
+    const models = this.supportedModels.length > 0 ? this.supportedModels : await this.listModels();
+    if (models.length === 0) {
+      throw new Error('No local models available, pull or load a model first');
+    }
+    return models[0];
+  }
+
+  // ============================================================================
+  // Ollama
+  // ============================================================================
+
+  private buildOllamaBody(request: LLMRequest, model: string, stream: boolean): Record<string, unknown> {
+    const options: Record<string, unknown> = {};
+    const temperature = request.temperature ?? this._defaultParams.temperature;
+    const topP = request.top_p ?? this._defaultParams.top_p;
+    const maxTokens = request.max_tokens ?? this._defaultParams.max_tokens;
+    if (temperature !== undefined) options.temperature = temperature;
+    if (topP !== undefined) options.top_p = topP;
+    if (maxTokens !== undefined) options.num_predict = maxTokens;
+
+    const body: Record<string, unknown> = {
+      model,
+      messages: request.messages.map(msg => this.formatOllamaMessage(msg, request.messages)),
+      stream,
+      options,
+    };
+
+    if (request.tools && request.tool_choice !== 'none') {
+      body.tools = request.tools.map(tool => ({ type: 'function', function: tool.function }));
+    }
+
+    if (request.thinking) {
+      body.think = request.thinking.type === 'enabled';
+    }
+
+    if (request.responseSchema) {
+      body.format = request.responseSchema.schema;
+    }
+
+    return body;
+  }
+
+  private formatOllamaMessage(msg: LLMMessage, messages: LLMMessage[]): Record<string, unknown> {
+    const images: string[] = [];
+    const parts = typeof msg.content === 'string' ? msg.content : msg.content.filter(part => {
+      if (part.type !== 'image') return true;
+      if (part.source.type !== 'base64') {
+        throw new Error('Ollama only supports base64 images');
+      }
+      images.push(part.source.data);
+      return false;
+    });
+
+    const formatted: Record<string, unknown> = {
+      role: msg.role,
+      content: toTextOnlyContent(parts, 'Ollama'),
+    };
+
+    if (images.length > 0) {
+      formatted.images = images;
+    }
+
+    if (msg.tool_calls) {
+      formatted.tool_calls = msg.tool_calls.map(call => ({
+        function: { name: call.function.name, arguments: this.parseArguments(call.function.arguments) },
+      }));
+    }
+
+    if (msg.role === 'tool') {
+      formatted.tool_name = msg.name || this.findToolName(msg.tool_call_id, messages);
+    }
+
+    return formatted;
+  }
+
+  private findToolName(toolCallId: string | undefined, messages: LLMMessage[]): string | undefined {
+    for (const msg of messages) {
+      const call = msg.tool_calls?.find(c => c.id === toolCallId);
+      if (call) return call.function.name;
+    }
+    return undefined;
+  }
+
+  private parseArguments(args: string): Record<string, unknown> {
+    try {
+      return args ? JSON.parse(args) : {};
+    } catch {
+      return {};
+    }
+  }
+
+  /**
+   * Ollama returns tool arguments as objects and omits call IDs
+   */
+  private parseOllamaToolCalls(message: Record<string, unknown> | undefined): ToolCall[] | undefined {
+    const calls = message?.tool_calls as Array<{ id?: string; function: { name: string; arguments: unknown } }> | undefined;
+    if (!calls || calls.length === 0) return undefined;
+
+    return calls.map((call, index) => ({
+      id: call.id || `call_${Date.now()}_${index}`,
+      type: 'function',
+      function: {
+        name: call.function.name,
+        arguments: typeof call.function.arguments === 'string'
+          ? call.function.arguments
+          : JSON.stringify(call.function.arguments ?? {}),
+      },
+    }));
+  }
+
+  private parseOllamaUsage(data: Record<string, unknown>): LLMUsage {
+    const promptTokens = (data.prompt_eval_count as number) || 0;
+    const completionTokens = (data.eval_count as number) || 0;
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+
+  private mapOllamaDoneReason(data: Record<string, unknown>, hasToolCalls: boolean): LLMResponse['finish_reason'] {
+    if (hasToolCalls) return 'tool_calls';
+    return data.done_reason === 'length' ? 'length' : 'stop';
+  }
+
+  private parseOllamaResponse(data: Record<string, unknown>): LLMResponse {
+    const message = data.message as Record<string, unknown> | undefined;
+    const toolCalls = this.parseOllamaToolCalls(message);
+    const thinking = message?.thinking as string | undefined;
+
+    return {
+      id: `ollama-${data.created_at || Date.now()}`,
+      model: data.model as string,
+      content: (message?.content as string) || '',
+      role: 'assistant',
+      tool_calls: toolCalls,
+      thinking: thinking ? [{ type: 'thinking', thinking }] : undefined,
+      usage: this.parseOllamaUsage(data),
+      finish_reason: this.mapOllamaDoneReason(data, !!toolCalls),
+    };
+  }
+
+  /**
+   * Ollama sends tool calls in an earlier chunk than `done`; they are recorded in
+   * `streamedToolCalls` so the final chunk reports `tool_calls` as finish reason
+   */
+  private parseOllamaStreamChunk(data: Record<string, unknown>, streamedToolCalls: Map<number, ToolCall>): LLMStreamChunk {
+    const message = data.message as Record<string, unknown> | undefined;
+    const toolCalls = this.parseOllamaToolCalls(message);
+    toolCalls?.forEach(call => streamedToolCalls.set(streamedToolCalls.size, call));
+
+    return {
+      id: `ollama-${data.created_at || Date.now()}`,
+      model: data.model as string,
+      delta: {
+        content: (message?.content as string) || undefined,
+        role: message?.role as 'assistant' | undefined,
+        tool_calls: toolCalls,
+        thinking: (message?.thinking as string) || undefined,
+      },
+      finish_reason: data.done ? this.mapOllamaDoneReason(data, streamedToolCalls.size > 0) : undefined,
+      usage: data.done ? this.parseOllamaUsage(data) : undefined,
+    };
+  }
+
+  // ============================================================================
+  // OpenAI-compatible
+  // ============================================================================
+
+  private buildOpenAIBody(request: LLMRequest, model: string, stream: boolean): Record<string, unknown> {
+    return {
+      model,
+      messages: toOpenAIMessages(request.messages),
+      temperature: request.temperature ?? this._defaultParams.temperature,
+      max_tokens: request.max_tokens ?? this._defaultParams.max_tokens,
+      top_p: request.top_p ?? this._defaultParams.top_p,
+      stream,
+      tools: request.tools,
+      tool_choice: request.tools ? request.tool_choice : undefined,
+      response_format: request.responseSchema
+        ? {
+            type: 'json_schema',
+            json_schema: { name: request.responseSchema.name, schema: request.responseSchema.schema },
+          }
+        : undefined,
+    };
+  }
+
+  private parseOpenAIUsage(usage: Record<string, number> | undefined): LLMUsage | undefined {
+    if (!usage) return undefined;
+    return {
+      prompt_tokens: usage.prompt_tokens || 0,
+      completion_tokens: usage.completion_tokens || 0,
+      total_tokens: usage.total_tokens || 0,
+    };
+  }
+
+  private parseOpenAIResponse(data: Record<string, unknown>): LLMResponse {
+    const choice = (data.choices as Record<string, unknown>[])[0];
+    const message = choice.message as Record<string, unknown>;
+    const toolCalls = message.tool_calls as ToolCall[] | undefined;
+
+    return {
+      id: data.id as string,
+      model: data.model as string,
+      content: (message.content as string) || '',
+      role: 'assistant',
+      tool_calls: toolCalls && toolCalls.length > 0 ? toolCalls : undefined,
+      usage: this.parseOpenAIUsage(data.usage as Record<string, number> | undefined),
+      finish_reason: (choice.finish_reason as LLMResponse['finish_reason']) || 'stop',
+    };
+  }
+
+  /**
+   * Tool call fragments are accumulated by index and emitted whole with the finish chunk
+   */
+  private parseOpenAIStreamChunk(
+    data: Record<string, unknown>,
+    toolCalls: Map<number, ToolCall>
+  ): LLMStreamChunk | undefined {
+    const choice = (data.choices as Record<string, unknown>[] | undefined)?.[0];
+    const delta = (choice?.delta as Record<string, unknown>) || {};
+    const usage = this.parseOpenAIUsage(data.usage as Record<string, number> | undefined);
+
+    const fragments = delta.tool_calls as Array<{
+      index?: number;
+      id?: string;
+      function?: { name?: string; arguments?: string };
+    }> | undefined;
+    for (const fragment of fragments || []) {
+      const index = fragment.index ?? 0;
+      const call = toolCalls.get(index) || {
+        id: fragment.id || `call_${Date.now()}_${index}`,
+        type: 'function' as const,
+        function: { name: '', arguments: '' },
+      };
+      if (fragment.id) call.id = fragment.id;
+      if (fragment.function?.name) call.function.name += fragment.function.name;
+      if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      toolCalls.set(index, call);
+    }
+
+    const finishReason = choice?.finish_reason as LLMStreamChunk['finish_reason'] | undefined;
+    const completedCalls = finishReason && toolCalls.size > 0 ? Array.from(toolCalls.values()) : undefined;
+    if (completedCalls) toolCalls.clear();
+
+    if (!delta.content && !delta.role && !finishReason && !completedCalls && !usage) {
+      return undefined;
+    }
+
+    return {
+      id: data.id as string,
+      model: data.model as string,
+      delta: {
+        content: delta.content as string | undefined,
+        role: delta.role as 'assistant' | undefined,
+        tool_calls: completedCalls,
+      },
+      finish_reason: finishReason || undefined,
+      usage,
+    };
+  }
+}
+
+// Register provider
+import { globalProviderRegistry } from '../provider.js';
+globalProviderRegistry.register(
+  'local',
+  (config: LLMProviderConfig) => new LocalProvider(config as LocalConfig)
+);
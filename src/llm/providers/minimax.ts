@@ -10,6 +10,7 @@ import {
   LLMResponse,
   LLMStreamChunk,
 } from '../provider.js';
+import { toOpenAIMessages } from '../content.js';
 
 export interface MiniMaxConfig extends LLMProviderConfig {
   groupId?: string;
@@ -70,7 +71,7 @@ export class MiniMaxProvider implements LLMProvider {
     return !!this._apiKey && !!this._groupId;
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<Response> {
+  private async makeRequest(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this._timeout);
 
@@ -82,7 +83,7 @@ export class MiniMaxProvider implements LLMProvider {
           Authorization: `Bearer ${this._apiKey}`,
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -101,7 +102,7 @@ export class MiniMaxProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest('/text/chatcompletion_v2', body);
+    const response = await this.makeRequest('/text/chatcompletion_v2', body, request.signal);
     const data = await response.json() as Record<string, unknown>;
 
     return this.parseResponse(data);
@@ -109,7 +110,7 @@ export class MiniMaxProvider implements LLMProvider {
 
   async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
     const body = this.buildRequestBody(request, true);
-    const response = await this.makeRequest('/text/chatcompletion_v2', body);
+    const response = await this.makeRequest('/text/chatcompletion_v2', body, request.signal);
 
     const reader = response.body?.getReader();
     if (!reader) {
@@ -150,7 +151,7 @@ export class MiniMaxProvider implements LLMProvider {
   private buildRequestBody(request: LLMRequest, stream = false): Record<string, unknown> {
     return {
       model: request.model || this._defaultParams.model || 'MiniMax-Text-01',
-      messages: request.messages,
+      messages: toOpenAIMessages(request.messages),
       temperature: request.temperature ?? this._defaultParams.temperature ?? 0.7,
       max_tokens: request.max_tokens ?? this._defaultParams.max_tokens ?? 4096,
       top_p: request.top_p ?? this._defaultParams.top_p ?? 1,
@@ -10,11 +10,13 @@ import {
   LLMResponse,
   LLMStreamChunk,
 } from '../provider.js';
+import { toOpenAIMessages } from '../content.js';
 
 export interface MoonshotConfig extends LLMProviderConfig {}
 
 export class MoonshotProvider implements LLMProvider {
   readonly name = 'moonshot';
+  readonly structuredOutput = 'json_object' as const;
   readonly supportedModels = [
     // Kimi K2.5 系列 (最新旗舰)
     'kimi-k2.5',
@@ -62,7 +64,7 @@ export class MoonshotProvider implements LLMProvider {
     return !!this._apiKey;
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<Response> {
+  private async makeRequest(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this._timeout);
 
@@ -74,7 +76,7 @@ export class MoonshotProvider implements LLMProvider {
           Authorization: `Bearer ${this._apiKey}`,
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -93,7 +95,7 @@ export class MoonshotProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
     const data = await response.json() as Record<string, unknown>;
 
     return this.parseResponse(data);
@@ -101,7 +103,7 @@ export class MoonshotProvider implements LLMProvider {
 
   async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
     const body = this.buildRequestBody(request, true);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
 
     const reader = response.body?.getReader();
     if (!reader) {
@@ -142,11 +144,12 @@ export class MoonshotProvider implements LLMProvider {
   private buildRequestBody(request: LLMRequest, stream = false): Record<string, unknown> {
     return {
       model: request.model || this._defaultParams.model || 'kimi-k2.5',
-      messages: request.messages,
+      messages: toOpenAIMessages(request.messages),
       temperature: request.temperature ?? this._defaultParams.temperature ?? 0.7,
       max_tokens: request.max_tokens ?? this._defaultParams.max_tokens ?? 4096,
       top_p: request.top_p ?? this._defaultParams.top_p ?? 1,
       stream,
+      response_format: request.responseSchema ? { type: 'json_object' } : undefined,
     };
   }
 
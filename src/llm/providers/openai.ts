@@ -10,6 +10,7 @@ import {
   LLMResponse,
   LLMStreamChunk,
 } from '../provider.js';
+import { toOpenAIMessages } from '../content.js';
 
 export interface OpenAIConfig extends LLMProviderConfig {
   organization?: string;
@@ -18,6 +19,7 @@ export interface OpenAIConfig extends LLMProviderConfig {
 
 export class OpenAIProvider implements LLMProvider {
   readonly name = 'openai';
+  readonly structuredOutput = 'json_schema' as const;
   readonly supportedModels = [
     // GPT-5.2 系列 (最新旗舰模型 - 2025)
     'gpt-5.2',
@@ -98,7 +100,7 @@ export class OpenAIProvider implements LLMProvider {
     return !!this._apiKey;
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<Response> {
+  private async makeRequest(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
       Authorization: `Bearer ${this._apiKey}`,
@@ -119,7 +121,7 @@ export class OpenAIProvider implements LLMProvider {
         method: 'POST',
         headers,
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -138,7 +140,7 @@ export class OpenAIProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
     const data = await response.json() as Record<string, unknown>;
 
     return this.parseResponse(data);
@@ -146,7 +148,7 @@ export class OpenAIProvider implements LLMProvider {
 
   async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
     const body = this.buildRequestBody(request, true);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
 
     const reader = response.body?.getReader();
     if (!reader) {
@@ -187,37 +189,27 @@ export class OpenAIProvider implements LLMProvider {
   private buildRequestBody(request: LLMRequest, stream = false): Record<string, unknown> {
     return {
       model: request.model || this._defaultParams.model || 'gpt-5.2',
-      messages: this.formatMessages(request.messages),
+      messages: toOpenAIMessages(request.messages),
       temperature: request.temperature ?? this._defaultParams.temperature ?? 0.7,
       max_tokens: request.max_tokens ?? this._defaultParams.max_tokens,
       top_p: request.top_p ?? this._defaultParams.top_p ?? 1,
       stream,
       tools: request.tools,
       tool_choice: request.tool_choice,
+      response_format: request.responseSchema
+        ? {
+            type: 'json_schema',
+            json_schema: {
+              name: request.responseSchema.name,
+              description: request.responseSchema.description,
+              schema: request.responseSchema.schema,
+              strict: request.responseSchema.strict,
+            },
+          }
+        : undefined,
     };
   }
 
-  private formatMessages(
-    messages: Array<{
-      role: string;
-      content: string;
-      name?: string;
-      tool_calls?: unknown;
-      tool_call_id?: string;
-    }>
-  ): Array<Record<string, unknown>> {
-    return messages.map(msg => {
-      const formatted: Record<string, unknown> = {
-        role: msg.role,
-        content: msg.content,
-      };
-      if (msg.name) formatted.name = msg.name;
-      if (msg.tool_calls) formatted.tool_calls = msg.tool_calls;
-      if (msg.tool_call_id) formatted.tool_call_id = msg.tool_call_id;
-      return formatted;
-    });
-  }
-
   private parseResponse(data: Record<string, unknown>): LLMResponse {
     const choice = (data.choices as Record<string, unknown>[])[0];
     const message = choice.message as Record<string, unknown>;
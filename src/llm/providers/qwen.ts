@@ -5,17 +5,21 @@
  */
 
 import {
+  LLMContentPart,
+  LLMMessage,
   LLMProvider,
   LLMProviderConfig,
   LLMRequest,
   LLMResponse,
   LLMStreamChunk,
 } from '../provider.js';
+import { hasMediaContent, toDataUrl, toTextOnlyContent } from '../content.js';
 
 export interface QwenConfig extends LLMProviderConfig {}
 
 export class QwenProvider implements LLMProvider {
   readonly name = 'qwen';
+  readonly structuredOutput = 'json_object' as const;
   readonly supportedModels = [
     // Qwen3 Max 系列 (最新旗舰)
     'qwen3-max',
@@ -156,7 +160,7 @@ export class QwenProvider implements LLMProvider {
     return !!this._apiKey;
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<Response> {
+  private async makeRequest(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this._timeout);
 
@@ -168,7 +172,7 @@ export class QwenProvider implements LLMProvider {
           Authorization: `Bearer ${this._apiKey}`,
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -187,7 +191,7 @@ export class QwenProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest('/services/aigc/text-generation/generation', body);
+    const response = await this.makeRequest(this.getEndpoint(request), body, request.signal);
     const data = await response.json() as Record<string, unknown>;
 
     return this.parseResponse(data);
@@ -195,7 +199,7 @@ export class QwenProvider implements LLMProvider {
 
   async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
     const body = this.buildRequestBody(request, true);
-    const response = await this.makeRequest('/services/aigc/text-generation/generation', body);
+    const response = await this.makeRequest(this.getEndpoint(request), body, request.signal);
 
     const reader = response.body?.getReader();
     if (!reader) {
@@ -233,17 +237,55 @@ export class QwenProvider implements LLMProvider {
     }
   }
 
+  private isMultimodal(request: LLMRequest): boolean {
+    return request.messages.some(msg => hasMediaContent(msg.content));
+  }
+
+  private getEndpoint(request: LLMRequest): string {
+    return this.isMultimodal(request)
+      ? '/services/aigc/multimodal-generation/generation'
+      : '/services/aigc/text-generation/generation';
+  }
+
+  private formatMessages(messages: LLMMessage[], multimodal: boolean): Array<Record<string, unknown>> {
+    return messages.map(msg => ({
+      ...msg,
+      content: multimodal
+        ? this.formatMultimodalContent(msg.content)
+        : toTextOnlyContent(msg.content, 'Qwen'),
+    }));
+  }
+
+  // DashScope multimodal format: [{ text }, { image }]
+  private formatMultimodalContent(content: string | LLMContentPart[]): Array<Record<string, unknown>> {
+    if (typeof content === 'string') {
+      return [{ text: content }];
+    }
+
+    return content.map(part => {
+      switch (part.type) {
+        case 'text':
+          return { text: part.text };
+        case 'image':
+          return { image: toDataUrl(part.source) };
+        case 'document':
+          return { text: toTextOnlyContent([part], 'Qwen') };
+      }
+    });
+  }
+
   private buildRequestBody(request: LLMRequest, _stream = false): Record<string, unknown> {
     return {
       model: request.model || this._defaultParams.model || 'qwen3-max',
       input: {
-        messages: request.messages,
+        messages: this.formatMessages(request.messages, this.isMultimodal(request)),
       },
       parameters: {
         temperature: request.temperature ?? this._defaultParams.temperature ?? 0.7,
         max_tokens: request.max_tokens ?? this._defaultParams.max_tokens ?? 4096,
         top_p: request.top_p ?? this._defaultParams.top_p ?? 1,
         result_format: 'message',
+        response_format: request.responseSchema ? { type: 'json_object' } : undefined,
       },
     };
   }
@@ -257,7 +299,7 @@ export class QwenProvider implements LLMProvider {
     return {
       id: data.request_id as string,
       model: data.model as string,
-      content: (message.content as string) || '',
+      content: this.parseContent(message.content),
       role: 'assistant',
       usage: {
         prompt_tokens: usage?.input_tokens || 0,
@@ -268,6 +310,16 @@ export class QwenProvider implements LLMProvider {
     };
   }
 
+  private parseContent(content: unknown): string {
+    if (Array.isArray(content)) {
+      return content
+        .map(part => (part as Record<string, unknown>).text as string | undefined)
+        .filter(Boolean)
+        .join('');
+    }
+    return (content as string) || '';
+  }
+
   private parseStreamChunk(data: Record<string, unknown>): LLMStreamChunk {
     const output = data.output as Record<string, unknown>;
     const choice = (output.choices as Record<string, unknown>[])[0];
@@ -277,7 +329,7 @@ export class QwenProvider implements LLMProvider {
       id: data.request_id as string,
       model: data.model as string,
       delta: {
-        content: message.content as string | undefined,
+        content: message.content !== undefined ? this.parseContent(message.content) : undefined,
         role: message.role as 'assistant' | undefined,
       },
       finish_reason: choice.finish_reason as LLMStreamChunk['finish_reason'],
@@ -10,11 +10,13 @@ import {
   LLMResponse,
   LLMStreamChunk,
 } from '../provider.js';
+import { toOpenAIMessages } from '../content.js';
 
 export interface ZhipuConfig extends LLMProviderConfig {}
 
 export class ZhipuProvider implements LLMProvider {
   readonly name = 'zhipu';
+  readonly structuredOutput = 'json_object' as const;
   readonly supportedModels = [
     // GLM-4.5 系列 (最新)
     'glm-4.5',
@@ -78,7 +80,7 @@ export class ZhipuProvider implements LLMProvider {
     return !!this._apiKey;
   }
 
-  private async makeRequest(endpoint: string, body: unknown): Promise<Response> {
+  private async makeRequest(endpoint: string, body: unknown, signal?: AbortSignal): Promise<Response> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this._timeout);
 
@@ -90,7 +92,7 @@ export class ZhipuProvider implements LLMProvider {
           Authorization: `Bearer ${this._apiKey}`,
         },
         body: JSON.stringify(body),
-        signal: controller.signal,
+        signal: signal ? AbortSignal.any([controller.signal, signal]) : controller.signal,
       });
 
       clearTimeout(timeoutId);
@@ -109,7 +111,7 @@ export class ZhipuProvider implements LLMProvider {
 
   async complete(request: LLMRequest): Promise<LLMResponse> {
     const body = this.buildRequestBody(request);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
     const data = await response.json() as Record<string, unknown>;
 
     return this.parseResponse(data);
@@ -117,7 +119,7 @@ export class ZhipuProvider implements LLMProvider {
 
   async *stream(request: LLMRequest): AsyncIterableIterator<LLMStreamChunk> {
     const body = this.buildRequestBody(request, true);
-    const response = await this.makeRequest('/chat/completions', body);
+    const response = await this.makeRequest('/chat/completions', body, request.signal);
 
     const reader = response.body?.getReader();
     if (!reader) {
@@ -158,11 +160,12 @@ export class ZhipuProvider implements LLMProvider {
   private buildRequestBody(request: LLMRequest, stream = false): Record<string, unknown> {
     return {
       model: request.model || this._defaultParams.model || 'glm-4.5',
-      messages: request.messages,
+      messages: toOpenAIMessages(request.messages),
       temperature: request.temperature ?? this._defaultParams.temperature ?? 0.7,
       max_tokens: request.max_tokens ?? this._defaultParams.max_tokens ?? 4096,
       top_p: request.top_p ?? this._defaultParams.top_p ?? 1,
       stream,
+      response_format: request.responseSchema ? { type: 'json_object' } : undefined,
     };
   }
 
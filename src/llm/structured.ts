@@ -0,0 +1,111 @@
+/**
+ * Structured Output
+ * Native JSON/structured-output modes with a prompt-and-repair fallback,
+ * validated against the request's JSON Schema
+ */
+
+import type { LLMMessage, LLMProvider, LLMRequest, LLMResponse, ResponseSchema } from './provider.js';
+import { createValidator, type JsonSchema } from '../utils/schema-validator.js';
+import { ValidationError } from '../utils/errors.js';
+import { getTextContent } from './content.js';
+
+export interface StructuredOutputOptions {
+  /** Follow-up requests asking the model to fix invalid JSON (default 2) */
+  maxRepairAttempts?: number;
+}
+
+/**
+ * Prompt text describing the expected JSON, for models without native schema support
+ */
+export function schemaInstruction(responseSchema: ResponseSchema): string {
+  const description = responseSchema.description ? `${responseSchema.description}\n` : '';
+  return `${description}Respond with a single JSON value that matches this JSON Schema. Output only the JSON, without code fences or commentary.\n${JSON.stringify(responseSchema.schema)}`;
+}
+
+/**
+ * Parse a model reply as JSON, tolerating a surrounding ```json fence
+ */
+export function parseJsonContent(content: string): unknown {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : trimmed);
+}
+
+/**
+ * Parse and validate a reply, returning the schema errors (empty when valid)
+ */
+export function validateStructuredContent(
+  content: string,
+  schema: JsonSchema
+): { value?: unknown; errors: string[] } {
+  let value: unknown;
+  try {
+    value = parseJsonContent(content);
+  } catch (error) {
+    return { errors: [`Reply is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  const result = createValidator().validateJsonSchema(value, schema);
+  return result.valid ? { value, errors: [] } : { errors: result.errors || [] };
+}
+
+/**
+ * Complete a request with responseSchema and return the validated `parsed` value.
+ * Providers map responseSchema to their native mode; when the provider cannot
+ * enforce the schema it is described in the system prompt, and invalid replies
+ * are sent back to the model with the validation errors.
+ */
+export async function completeStructured<T>(
+  provider: LLMProvider,
+  request: LLMRequest & { responseSchema: ResponseSchema },
+  options: StructuredOutputOptions = {}
+): Promise<LLMResponse<T> & { parsed: T }> {
+  const { responseSchema } = request;
+  const maxRepairAttempts = options.maxRepairAttempts ?? 2;
+
+  let messages = provider.structuredOutput === 'json_schema'
+    ? request.messages
+    : withSystemInstruction(request.messages, schemaInstruction(responseSchema));
+
+  let errors: string[] = [];
+  let content = '';
+
+  for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+    const response = await provider.complete({ ...request, messages });
+    content = response.content;
+
+    const result = validateStructuredContent(content, responseSchema.schema);
+    if (result.errors.length === 0) {
+      return { ...response, parsed: result.value as T };
+    }
+
+    errors = result.errors;
+    messages = [
+      ...messages,
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Your reply did not match the required JSON Schema:\n${errors.map(e => `- ${e}`).join('\n')}\nReply again with only the corrected JSON.`,
+      },
+    ];
+  }
+
+  throw new ValidationError(
+    `Structured output for '${responseSchema.name}' did not match the schema: ${errors.join('; ')}`,
+    { details: { errors, content } }
+  );
+}
+
+function withSystemInstruction(messages: LLMMessage[], instruction: string): LLMMessage[] {
+  const index = messages.findIndex(m => m.role === 'system');
+  if (index === -1) {
+    return [{ role: 'system', content: instruction }, ...messages];
+  }
+
+  const system = messages[index];
+  return [
+    ...messages.slice(0, index),
+    { ...system, content: `${getTextContent(system.content)}\n\n${instruction}` },
+    ...messages.slice(index + 1),
+  ];
+}
@@ -0,0 +1,322 @@
+/**
+ * Usage Ledger - Token 用量与成本核算
+ *
+ * 逐次记录提供商返回的真实 usage，可按调用、步骤、会话、Agent 聚合；
+ * 成本依据模型目录中的 inputPrice / outputPrice（美元 / 1M tokens）换算。
+ * 配置预算后，ReAct 引擎在每次调用模型前检查，超出时提前结束本次运行。
+ *
+ * @module LLM
+ */
+
+import { PREDEFINED_PROVIDERS, type ModelDefinition } from '../config/model-config.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageScope {
+  agentId?: string;
+  sessionId?: string;
+  /** 单次 ReAct 运行 */
+  executionId?: string;
+  step?: number;
+}
+
+export interface UsageRecord extends TokenUsage, UsageScope {
+  id: string;
+  timestamp: number;
+  model: string;
+  /** 调用用途，如 thought / action / reflection */
+  purpose?: string;
+  /** 美元 */
+  cost: number;
+  /** 模型目录中找到了价格 */
+  priced: boolean;
+  /** 提供商未返回 usage，按字符数估算 */
+  estimated: boolean;
+}
+
+export interface UsageTotals extends TokenUsage {
+  calls: number;
+  cost: number;
+  /** 无法定价的调用数（成本未计入） */
+  unpricedCalls: number;
+}
+
+export interface UsageBudget {
+  maxTokens?: number;
+  /** 美元 */
+  maxCost?: number;
+}
+
+export interface UsageBudgets {
+  /** 单次 ReAct 运行 */
+  run?: UsageBudget;
+  session?: UsageBudget;
+  agent?: UsageBudget;
+}
+
+export type BudgetScope = keyof UsageBudgets;
+
+export type UsageBreakdownKey = 'model' | 'agent' | 'session' | 'execution' | 'step';
+
+export type ModelPricing = Pick<ModelDefinition, 'inputPrice' | 'outputPrice'>;
+
+export interface UsageLedgerOptions {
+  budgets?: UsageBudgets;
+  /** 自定义价格；未命中时回退到内置模型目录 */
+  pricing?: Record<string, ModelPricing> | ((model: string) => ModelPricing | undefined);
+  /** 保留的调用记录上限，超出后丢弃最早的记录（汇总值不受影响） */
+  maxRecords?: number;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    readonly scope: BudgetScope,
+    readonly metric: 'tokens' | 'cost',
+    readonly limit: number,
+    readonly used: number
+  ) {
+    const format = (value: number) => (metric === 'cost' ? `$${value.toFixed(4)}` : `${value} tokens`);
+    super(`${scope} ${metric} budget exceeded: ${format(used)} used of ${format(limit)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * 在内置模型目录中查找价格，支持 `provider/model` 形式
+ */
+export function findModelPricing(model: string): ModelPricing | undefined {
+  const [provider, id] = model.includes('/') ? model.split('/', 2) : [undefined, model];
+  for (const [name, config] of Object.entries(PREDEFINED_PROVIDERS)) {
+    if (provider && provider !== name) continue;
+    const definition = config.models.find(candidate => candidate.id === id);
+    if (definition?.inputPrice !== undefined || definition?.outputPrice !== undefined) {
+      return { inputPrice: definition.inputPrice, outputPrice: definition.outputPrice };
+    }
+  }
+  return undefined;
+}
+
+export function calculateCost(usage: Pick<TokenUsage, 'promptTokens' | 'completionTokens'>, pricing: ModelPricing): number {
+  return (usage.promptTokens * (pricing.inputPrice ?? 0) + usage.completionTokens * (pricing.outputPrice ?? 0)) / 1_000_000;
+}
+
+/**
+ * 粗略估算（约 4 字符 / token），用于提供商未返回 usage 的情况
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function emptyUsageTotals(): UsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, unpricedCalls: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord | UsageTotals): void {
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cost += record.cost;
+  if ('calls' in record) {
+    totals.calls += record.calls;
+    totals.unpricedCalls += record.unpricedCalls;
+  } else {
+    totals.calls++;
+    if (!record.priced) totals.unpricedCalls++;
+  }
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+const BREAKDOWN_FIELDS: Record<UsageBreakdownKey, keyof UsageRecord> = {
+  model: 'model',
+  agent: 'agentId',
+  session: 'sessionId',
+  execution: 'executionId',
+  step: 'step',
+};
+
+export class UsageLedger {
+  readonly budgets: UsageBudgets;
+
+  private entries: UsageRecord[] = [];
+  private totalsByScope = new Map<string, UsageTotals>();
+  private sessionBaselines = new Map<string, UsageTotals>();
+  private nextId = 1;
+
+  constructor(private options: UsageLedgerOptions = {}) {
+    this.budgets = options.budgets ?? {};
+  }
+
+  /**
+   * 记录一次模型调用；usage 缺失或为 0 时使用 estimate 估算
+   */
+  record(entry: {
+    model: string;
+    usage?: Partial<TokenUsage>;
+    estimate?: () => Pick<TokenUsage, 'promptTokens' | 'completionTokens'>;
+    scope?: UsageScope;
+    purpose?: string;
+  }): UsageRecord {
+    const reported = entry.usage && (entry.usage.totalTokens || entry.usage.promptTokens || entry.usage.completionTokens);
+    const base = reported
+      ? { promptTokens: entry.usage!.promptTokens ?? 0, completionTokens: entry.usage!.completionTokens ?? 0 }
+      : entry.estimate?.() ?? { promptTokens: 0, completionTokens: 0 };
+    const totalTokens = reported && entry.usage!.totalTokens ? entry.usage!.totalTokens : base.promptTokens + base.completionTokens;
+    const pricing = this.pricingFor(entry.model);
+
+    const record: UsageRecord = {
+      id: `usage-${this.nextId++}`,
+      timestamp: Date.now(),
+      model: entry.model,
+      purpose: entry.purpose,
+      ...entry.scope,
+      ...base,
+      totalTokens,
+      cost: pricing ? calculateCost(base, pricing) : 0,
+      priced: pricing !== undefined,
+      estimated: !reported,
+    };
+
+    this.entries.push(record);
+    if (this.options.maxRecords && this.entries.length > this.options.maxRecords) {
+      this.entries.splice(0, this.entries.length - this.options.maxRecords);
+    }
+    for (const key of this.scopeKeys(record)) {
+      const totals = this.totalsByScope.get(key) ?? emptyUsageTotals();
+      addToTotals(totals, record);
+      this.totalsByScope.set(key, totals);
+    }
+    return record;
+  }
+
+  /**
+   * 汇总用量；未指定过滤条件时为全部调用
+   *
+   * 仅按单一维度过滤时直接读取累计值，不受 maxRecords 影响。
+   */
+  totals(filter: UsageScope = {}): UsageTotals {
+    const dimensions = Object.entries(filter).filter(([, value]) => value !== undefined);
+    let totals: UsageTotals;
+
+    if (dimensions.length === 0) {
+      totals = { ...(this.totalsByScope.get('*') ?? emptyUsageTotals()) };
+    } else if (dimensions.length === 1 && dimensions[0][0] !== 'step') {
+      totals = { ...(this.totalsByScope.get(`${dimensions[0][0]}:${dimensions[0][1]}`) ?? emptyUsageTotals()) };
+    } else {
+      totals = emptyUsageTotals();
+      this.records(filter).forEach(record => addToTotals(totals, record));
+    }
+
+    const baseline = filter.sessionId !== undefined && dimensions.length === 1
+      ? this.sessionBaselines.get(filter.sessionId)
+      : undefined;
+    if (baseline) addToTotals(totals, baseline);
+    return totals;
+  }
+
+  records(filter: UsageScope = {}): UsageRecord[] {
+    return this.entries.filter(record =>
+      (Object.keys(filter) as Array<keyof UsageScope>).every(
+        key => filter[key] === undefined || record[key] === filter[key]
+      )
+    );
+  }
+
+  /**
+   * 按维度拆分用量，按 token 数降序
+   */
+  breakdown(by: UsageBreakdownKey, filter: UsageScope = {}): Array<{ key: string; totals: UsageTotals }> {
+    const groups = new Map<string, UsageTotals>();
+    for (const record of this.records(filter)) {
+      const value = record[BREAKDOWN_FIELDS[by]];
+      const key = value === undefined ? '(none)' : String(value);
+      const totals = groups.get(key) ?? emptyUsageTotals();
+      addToTotals(totals, record);
+      groups.set(key, totals);
+    }
+    return Array.from(groups, ([key, totals]) => ({ key, totals })).sort((a, b) => b.totals.totalTokens - a.totals.totalTokens);
+  }
+
+  /**
+   * 计入已持久化会话此前的用量，使会话预算在进程重启后继续生效
+   *
+   * 仅在账本尚未见过该会话时生效，避免与本进程已记录的调用重复计算。
+   */
+  restoreSession(sessionId: string, usage: Partial<UsageTotals>): boolean {
+    if (this.sessionBaselines.has(sessionId) || this.totalsByScope.has(`sessionId:${sessionId}`)) {
+      return false;
+    }
+    this.sessionBaselines.set(sessionId, {
+      calls: usage.calls ?? 0,
+      promptTokens: usage.promptTokens ?? 0,
+      completionTokens: usage.completionTokens ?? 0,
+      totalTokens: usage.totalTokens ?? 0,
+      cost: usage.cost ?? 0,
+      unpricedCalls: usage.unpricedCalls ?? 0,
+    });
+    return true;
+  }
+
+  /**
+   * 返回第一个已耗尽的预算（用量达到上限即视为耗尽）
+   */
+  checkBudgets(scope: UsageScope): BudgetExceededError | null {
+    const checks: Array<[BudgetScope, UsageScope | null]> = [
+      ['run', scope.executionId !== undefined ? { executionId: scope.executionId } : null],
+      ['session', scope.sessionId !== undefined ? { sessionId: scope.sessionId } : null],
+      ['agent', scope.agentId !== undefined ? { agentId: scope.agentId } : null],
+    ];
+
+    for (const [name, filter] of checks) {
+      const budget = this.budgets[name];
+      if (!budget || !filter) continue;
+      const used = this.totals(filter);
+      if (budget.maxTokens !== undefined && used.totalTokens >= budget.maxTokens) {
+        return new BudgetExceededError(name, 'tokens', budget.maxTokens, used.totalTokens);
+      }
+      if (budget.maxCost !== undefined && used.cost >= budget.maxCost) {
+        return new BudgetExceededError(name, 'cost', budget.maxCost, used.cost);
+      }
+    }
+    return null;
+  }
+
+  assertWithinBudget(scope: UsageScope): void {
+    const exceeded = this.checkBudgets(scope);
+    if (exceeded) throw exceeded;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.totalsByScope.clear();
+    this.sessionBaselines.clear();
+  }
+
+  private pricingFor(model: string): ModelPricing | undefined {
+    const { pricing } = this.options;
+    const custom = typeof pricing === 'function' ? pricing(model) : pricing?.[model];
+    return custom ?? findModelPricing(model);
+  }
+
+  private scopeKeys(record: UsageRecord): string[] {
+    const keys = ['*'];
+    if (record.agentId !== undefined) keys.push(`agentId:${record.agentId}`);
+    if (record.sessionId !== undefined) keys.push(`sessionId:${record.sessionId}`);
+    if (record.executionId !== undefined) keys.push(`executionId:${record.executionId}`);
+    return keys;
+  }
+}
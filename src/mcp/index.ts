@@ -1 +1,3 @@
 export * from './protocol.js';
+export * from './server.js';
+export * from './server-transports.js';
@@ -34,6 +34,24 @@ interface MCPToolResult {
   error?: string;
 }
 
+interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: { type: 'text'; text: string };
+}
+
+interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+  get: (args: Record<string, string>) => Promise<MCPPromptMessage[]>;
+}
+
 interface ExecutionContext {
   executionId: string;
   agentId?: string;
@@ -147,6 +165,7 @@ export interface MCPServerConfig {
   version: string;
   resources?: MCPResource[];
   tools?: MCPTool[];
+  prompts?: MCPPrompt[];
 }
 
 // MCP Client for connecting to external MCP servers
@@ -276,11 +295,13 @@ export class MCPClient {
 export class MCPServer {
   private resources = new Map<string, MCPResource>();
   private tools = new Map<string, MCPTool>();
+  private prompts = new Map<string, MCPPrompt>();
 
   constructor(private config: MCPServerConfig) {
-    // Register initial resources and tools
+    // Register initial resources, tools and prompts
     config.resources?.forEach(resource => this.registerResource(resource));
     config.tools?.forEach(tool => this.registerTool(tool));
+    config.prompts?.forEach(prompt => this.registerPrompt(prompt));
   }
 
   registerResource(resource: MCPResource): void {
@@ -291,6 +312,10 @@ export class MCPServer {
     this.tools.set(tool.name, tool);
   }
 
+  registerPrompt(prompt: MCPPrompt): void {
+    this.prompts.set(prompt.name, prompt);
+  }
+
   unregisterResource(uri: string): boolean {
     return this.resources.delete(uri);
   }
@@ -299,11 +324,16 @@ export class MCPServer {
     return this.tools.delete(name);
   }
 
+  unregisterPrompt(name: string): boolean {
+    return this.prompts.delete(name);
+  }
+
   getCapabilities(): {
     name: string;
     version: string;
     resources: Array<{ uri: string; name: string; description?: string; mimeType?: string }>;
     tools: Array<{ name: string; description: string; inputSchema: unknown }>;
+    prompts: Array<{ name: string; description?: string; arguments?: MCPPromptArgument[] }>;
   } {
     return {
       name: this.config.name,
@@ -319,6 +349,11 @@ export class MCPServer {
         description: t.description ?? '',
         inputSchema: t.inputSchema,
       })),
+      prompts: Array.from(this.prompts.values()).map(p => ({
+        name: p.name,
+        description: p.description,
+        arguments: p.arguments,
+      })),
     };
   }
 
@@ -328,6 +363,18 @@ export class MCPServer {
     return resource.read();
   }
 
+  async getPrompt(name: string, args: Record<string, string> = {}): Promise<MCPPromptMessage[] | null> {
+    const prompt = this.prompts.get(name);
+    if (!prompt) return null;
+
+    const missing = (prompt.arguments || []).filter(arg => arg.required && args[arg.name] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`Missing required arguments: ${missing.map(arg => arg.name).join(', ')}`);
+    }
+
+    return prompt.get(args);
+  }
+
   async executeTool(name: string, args: unknown): Promise<MCPToolResult | null> {
     const tool = this.tools.get(name);
     if (!tool) return null;
@@ -0,0 +1,323 @@
+/**
+ * MCP Server Transports
+ * stdio (newline-delimited JSON) and Streamable HTTP for MCPServerRuntime
+ */
+
+import { createInterface } from 'readline';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { Readable, Writable } from 'stream';
+import type { MCPResponse } from '../core/domain/mcp.js';
+import { MCPErrorCode } from '../core/domain/mcp.js';
+import type { JSONRPCMessage, MCPServerRuntime, MCPServerSession } from './server.js';
+
+// ============================================================================
+// Shared
+// ============================================================================
+
+/**
+ * Handle a single message or a batch, returning what should be written back
+ */
+async function handlePayload(
+  runtime: MCPServerRuntime,
+  sessionId: string,
+  payload: unknown
+): Promise<MCPResponse | MCPResponse[] | null> {
+  if (Array.isArray(payload)) {
+    const responses = await Promise.all(
+      payload.map(message => runtime.handle(sessionId, message as JSONRPCMessage))
+    );
+    const filtered = responses.filter((response): response is MCPResponse => response !== null);
+    return filtered.length > 0 ? filtered : null;
+  }
+  return runtime.handle(sessionId, payload as JSONRPCMessage);
+}
+
+function parseError(message: string): MCPResponse {
+  return { jsonrpc: '2.0', id: null as unknown as string, error: { code: MCPErrorCode.PARSE_ERROR, message } };
+}
+
+// ============================================================================
+// stdio
+// ============================================================================
+
+export interface StdioServerOptions {
+  input?: Readable;
+  output?: Writable;
+}
+
+export interface StdioServerHandle {
+  session: MCPServerSession;
+  /** Resolves when the input stream ends */
+  closed: Promise<void>;
+  close(): void;
+}
+
+/**
+ * Serve over stdio. Only protocol messages may be written to stdout,
+ * so loggers used by tools and skills must write to stderr.
+ */
+export function serveStdio(runtime: MCPServerRuntime, options: StdioServerOptions = {}): StdioServerHandle {
+  const input = options.input ?? process.stdin;
+  const output = options.output ?? process.stdout;
+  const write = (message: unknown) => {
+    output.write(JSON.stringify(message) + '\n');
+  };
+
+  const session = runtime.openSession(write);
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  lines.on('line', (line) => {
+    if (!line.trim()) return;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(line);
+    } catch (error) {
+      write(parseError(`Invalid JSON: ${(error as Error).message}`));
+      return;
+    }
+
+    handlePayload(runtime, session.id, payload)
+      .then(response => {
+        if (response) write(response);
+      })
+      .catch(error => write({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: MCPErrorCode.INTERNAL_ERROR, message: (error as Error).message },
+      }));
+  });
+
+  const closed = new Promise<void>((resolve) => {
+    lines.once('close', () => {
+      runtime.closeSession(session.id);
+      resolve();
+    });
+  });
+
+  return {
+    session,
+    closed,
+    close: () => lines.close(),
+  };
+}
+
+// ============================================================================
+// Streamable HTTP
+// ============================================================================
+
+export interface StreamableHTTPOptions {
+  /** Endpoint path (default '/mcp') */
+  path?: string;
+  /**
+   * Additional allowed Origin headers. Localhost and loopback origins are always
+   * allowed; requests from any other origin are rejected
+   */
+  allowedOrigins?: string[];
+  /** Maximum request body size in bytes (default 4 MB) */
+  maxBodySize?: number;
+}
+
+export interface StreamableHTTPListenOptions extends StreamableHTTPOptions {
+  port?: number;
+  /** Bind address (default 127.0.0.1) */
+  host?: string;
+}
+
+const SESSION_HEADER = 'mcp-session-id';
+
+function isLoopbackOrigin(origin: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(origin).hostname;
+  } catch {
+    return false;
+  }
+  return hostname === 'localhost' || hostname === '[::1]' || /^127(\.\d{1,3}){3}$/.test(hostname);
+}
+
+/**
+ * Create a request handler implementing the Streamable HTTP transport:
+ * POST carries client messages, GET opens an SSE stream for server notifications,
+ * DELETE ends the session. The session ID is issued on initialize.
+ */
+export function createStreamableHTTPHandler(
+  runtime: MCPServerRuntime,
+  options: StreamableHTTPOptions = {}
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+  const path = options.path ?? '/mcp';
+  const maxBodySize = options.maxBodySize ?? 4 * 1024 * 1024;
+  const streams = new Map<string, Set<ServerResponse>>();
+
+  const sendJson = (res: ServerResponse, status: number, body?: unknown, headers: Record<string, string> = {}) => {
+    if (body === undefined) {
+      res.writeHead(status, headers).end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+  };
+
+  const httpError = (res: ServerResponse, status: number, code: number, message: string) => {
+    sendJson(res, status, { jsonrpc: '2.0', id: null, error: { code, message } });
+  };
+
+  const openSession = (): MCPServerSession => {
+    let id = '';
+    const session = runtime.openSession((notification) => {
+      for (const stream of streams.get(id) ?? []) {
+        stream.write(`event: message\ndata: ${JSON.stringify(notification)}\n\n`);
+      }
+    });
+    id = session.id;
+    return session;
+  };
+
+  const handlePost = async (req: IncomingMessage, res: ServerResponse, sessionId: string | undefined) => {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(await readBody(req, maxBodySize));
+    } catch (error) {
+      sendJson(res, 400, parseError((error as Error).message));
+      return;
+    }
+
+    const messages = (Array.isArray(payload) ? payload : [payload]) as JSONRPCMessage[];
+    const isInitialize = messages.some(message => message?.method === 'initialize');
+    const headers: Record<string, string> = {};
+
+    if (isInitialize) {
+      if (messages.length > 1) {
+        httpError(res, 400, MCPErrorCode.INVALID_REQUEST, 'initialize must not be batched');
+        return;
+      }
+      sessionId = openSession().id;
+      headers['Mcp-Session-Id'] = sessionId;
+    } else if (!sessionId) {
+      httpError(res, 400, MCPErrorCode.INVALID_REQUEST, 'Missing Mcp-Session-Id header');
+      return;
+    } else if (!runtime.getSession(sessionId)) {
+      httpError(res, 404, MCPErrorCode.INVALID_REQUEST, 'Session not found');
+      return;
+    }
+
+    const response = await handlePayload(runtime, sessionId, payload);
+    if (response) {
+      sendJson(res, 200, response, headers);
+    } else {
+      sendJson(res, 202, undefined, headers);
+    }
+  };
+
+  const handleGet = (req: IncomingMessage, res: ServerResponse, sessionId: string | undefined) => {
+    if (!String(req.headers.accept ?? '').includes('text/event-stream')) {
+      sendJson(res, 406, undefined);
+      return;
+    }
+    if (!sessionId || !runtime.getSession(sessionId)) {
+      httpError(res, sessionId ? 404 : 400, MCPErrorCode.INVALID_REQUEST, 'Session not found');
+      return;
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    const set = streams.get(sessionId) ?? new Set<ServerResponse>();
+    set.add(res);
+    streams.set(sessionId, set);
+    req.on('close', () => set.delete(res));
+  };
+
+  const handleDelete = (res: ServerResponse, sessionId: string | undefined) => {
+    if (!sessionId || !runtime.closeSession(sessionId)) {
+      sendJson(res, 404, undefined);
+      return;
+    }
+    for (const stream of streams.get(sessionId) ?? []) {
+      stream.end();
+    }
+    streams.delete(sessionId);
+    sendJson(res, 200, undefined);
+  };
+
+  return async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== path) {
+      sendJson(res, 404, undefined);
+      return;
+    }
+
+    // DNS rebinding 防护：浏览器请求只接受本机来源与显式允许的来源
+    const origin = req.headers.origin;
+    if (origin && !isLoopbackOrigin(origin) && !options.allowedOrigins?.includes(origin)) {
+      httpError(res, 403, MCPErrorCode.INVALID_REQUEST, 'Origin not allowed');
+      return;
+    }
+
+    const header = req.headers[SESSION_HEADER];
+    const sessionId = Array.isArray(header) ? header[0] : header;
+
+    try {
+      switch (req.method) {
+        case 'POST':
+          await handlePost(req, res, sessionId);
+          break;
+        case 'GET':
+          handleGet(req, res, sessionId);
+          break;
+        case 'DELETE':
+          handleDelete(res, sessionId);
+          break;
+        default:
+          sendJson(res, 405, undefined, { Allow: 'GET, POST, DELETE' });
+      }
+    } catch (error) {
+      if (!res.headersSent) {
+        httpError(res, 500, MCPErrorCode.INTERNAL_ERROR, (error as Error).message);
+      }
+    }
+  };
+}
+
+/**
+ * Start an HTTP server for the runtime. Binds to localhost unless a host is given.
+ */
+export function listenStreamableHTTP(
+  runtime: MCPServerRuntime,
+  options: StreamableHTTPListenOptions = {}
+): Promise<Server> {
+  const handler = createStreamableHTTPHandler(runtime, options);
+  const server = createServer((req, res) => {
+    void handler(req, res);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 3000, options.host ?? '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
+
+function readBody(req: IncomingMessage, maxBodySize: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodySize) {
+        reject(new Error(`Request body exceeds ${maxBodySize} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
@@ -0,0 +1,431 @@
+/**
+ * MCP Server Runtime
+ * JSON-RPC dispatcher that exposes an MCPServer, an agent's ToolRegistry
+ * and its loaded skills to MCP hosts. Transports live in ./server-transports.ts
+ */
+
+import { randomUUID } from 'crypto';
+import type { AgentDeps } from '../agent/agent.js';
+import type { Logger } from '../agent/domain/types.js';
+import type {
+  MCPCapabilities,
+  MCPImplementation,
+  MCPNotification,
+  MCPResponse,
+  MCPTool,
+  MCPToolCallResult,
+} from '../core/domain/mcp.js';
+import { MCPErrorCode } from '../core/domain/mcp.js';
+import type { JSONSchema } from '../types.js';
+import { SkillToolAdapter, zodToToolParameters } from '../skills/skill-tool-adapter.js';
+import { scopeToolRegistry } from '../tools/allowed-tools.js';
+import { MCPServer } from './protocol.js';
+
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'] as const;
+
+/**
+ * Incoming JSON-RPC message (request, notification or response)
+ */
+export interface JSONRPCMessage {
+  jsonrpc: '2.0';
+  id?: string | number | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export interface MCPServerRuntimeOptions {
+  name: string;
+  version: string;
+  /** Usage hints returned from initialize */
+  instructions?: string;
+  /** Resources, tools and prompts registered directly */
+  server?: MCPServer;
+  /** Publish the agent's ToolRegistry tools and loaded skills */
+  agent?: Pick<AgentDeps, 'llm' | 'memory' | 'toolRegistry' | 'skillRegistry'> & { id?: string };
+  /** Name prefix for published skills (default 'skill_', same as native tool calling) */
+  skillPrefix?: string;
+  /** Must not write to stdout when serving over stdio */
+  logger?: Logger;
+}
+
+/**
+ * A connected client. Notifications are pushed through the transport's send callback.
+ */
+export interface MCPServerSession {
+  readonly id: string;
+  initialized: boolean;
+  protocolVersion?: string;
+  clientInfo?: MCPImplementation;
+}
+
+interface SessionState extends MCPServerSession {
+  send: (notification: MCPNotification) => void;
+  inFlight: Map<string | number, AbortController>;
+}
+
+class MCPMethodError extends Error {
+  constructor(public readonly code: number, message: string) {
+    super(message);
+    this.name = 'MCPMethodError';
+  }
+}
+
+const NOOP_LOGGER: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+export class MCPServerRuntime {
+  private readonly server: MCPServer;
+  private readonly skillAdapter: SkillToolAdapter;
+  private readonly sessions = new Map<string, SessionState>();
+  private readonly logger: Logger;
+
+  constructor(private readonly options: MCPServerRuntimeOptions) {
+    this.server = options.server ?? new MCPServer({ name: options.name, version: options.version });
+    this.skillAdapter = new SkillToolAdapter({ prefix: options.skillPrefix ?? 'skill_' });
+    this.logger = options.logger ?? NOOP_LOGGER;
+  }
+
+  get capabilities(): MCPCapabilities {
+    return {
+      tools: { listChanged: true },
+      resources: { listChanged: true },
+      prompts: { listChanged: true },
+      logging: {},
+    };
+  }
+
+  // ============================================================================
+  // Sessions
+  // ============================================================================
+
+  openSession(send: (notification: MCPNotification) => void, id: string = randomUUID()): MCPServerSession {
+    const session: SessionState = { id, initialized: false, send, inFlight: new Map() };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  getSession(id: string): MCPServerSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  closeSession(id: string): boolean {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+
+    for (const controller of session.inFlight.values()) {
+      controller.abort();
+    }
+    return this.sessions.delete(id);
+  }
+
+  notifyToolsChanged(): void {
+    this.broadcast('notifications/tools/list_changed');
+  }
+
+  notifyResourcesChanged(): void {
+    this.broadcast('notifications/resources/list_changed');
+  }
+
+  notifyResourceUpdated(uri: string): void {
+    this.broadcast('notifications/resources/updated', { uri });
+  }
+
+  notifyPromptsChanged(): void {
+    this.broadcast('notifications/prompts/list_changed');
+  }
+
+  // ============================================================================
+  // Dispatch
+  // ============================================================================
+
+  /**
+   * Handle one message from a session.
+   * Returns the response for requests and null for notifications and responses.
+   */
+  async handle(sessionId: string, message: JSONRPCMessage): Promise<MCPResponse | null> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Unknown MCP session: ${sessionId}`);
+    }
+
+    if (message?.jsonrpc !== '2.0' || (message.method === undefined && message.id === undefined)) {
+      return this.errorResponse(message?.id ?? null, MCPErrorCode.INVALID_REQUEST, 'Invalid JSON-RPC message');
+    }
+
+    // Responses to server requests are not used yet
+    if (message.method === undefined) {
+      return null;
+    }
+
+    if (message.id === undefined || message.id === null) {
+      this.handleNotification(session, message.method, message.params);
+      return null;
+    }
+
+    const controller = new AbortController();
+    session.inFlight.set(message.id, controller);
+
+    try {
+      const result = await this.dispatch(session, message.method, message.params, controller.signal);
+      return { jsonrpc: '2.0', id: message.id, result };
+    } catch (error) {
+      const code = error instanceof MCPMethodError ? error.code : MCPErrorCode.INTERNAL_ERROR;
+      if (code === MCPErrorCode.INTERNAL_ERROR) {
+        this.logger.error(`MCP ${message.method} failed`, { error: (error as Error).message });
+      }
+      return this.errorResponse(message.id, code, (error as Error).message);
+    } finally {
+      session.inFlight.delete(message.id);
+    }
+  }
+
+  private async dispatch(
+    session: SessionState,
+    method: string,
+    params: unknown,
+    signal: AbortSignal
+  ): Promise<unknown> {
+    const args = (params && typeof params === 'object' ? params : {}) as Record<string, unknown>;
+
+    if (method === 'initialize') {
+      return this.initialize(session, args);
+    }
+    if (method === 'ping') {
+      return {};
+    }
+    if (!session.protocolVersion) {
+      throw new MCPMethodError(MCPErrorCode.INVALID_REQUEST, 'Server not initialized');
+    }
+
+    switch (method) {
+      case 'tools/list':
+        return { tools: this.listTools() };
+
+      case 'tools/call':
+        if (typeof args.name !== 'string') {
+          throw new MCPMethodError(MCPErrorCode.INVALID_PARAMS, 'Tool name is required');
+        }
+        return this.callTool(args.name, (args.arguments ?? {}) as Record<string, unknown>, signal);
+
+      case 'resources/list':
+        return { resources: this.server.getCapabilities().resources };
+
+      case 'resources/read': {
+        const uri = String(args.uri ?? '');
+        const contents = await this.server.readResource(uri);
+        if (!contents) {
+          throw new MCPMethodError(MCPErrorCode.RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+        }
+        return { contents: [contents] };
+      }
+
+      case 'prompts/list':
+        return { prompts: this.server.getCapabilities().prompts };
+
+      case 'prompts/get': {
+        const name = String(args.name ?? '');
+        let messages;
+        try {
+          messages = await this.server.getPrompt(name, (args.arguments ?? {}) as Record<string, string>);
+        } catch (error) {
+          throw new MCPMethodError(MCPErrorCode.INVALID_PARAMS, (error as Error).message);
+        }
+        if (!messages) {
+          throw new MCPMethodError(MCPErrorCode.INVALID_PARAMS, `Prompt not found: ${name}`);
+        }
+        const prompt = this.server.getCapabilities().prompts.find(p => p.name === name);
+        return { description: prompt?.description, messages };
+      }
+
+      case 'logging/setLevel':
+        return {};
+
+      default:
+        throw new MCPMethodError(MCPErrorCode.METHOD_NOT_FOUND, `Method not found: ${method}`);
+    }
+  }
+
+  private initialize(session: SessionState, params: Record<string, unknown>): unknown {
+    const requested = String(params.protocolVersion ?? '');
+    session.protocolVersion = (MCP_PROTOCOL_VERSIONS as readonly string[]).includes(requested)
+      ? requested
+      : MCP_PROTOCOL_VERSIONS[0];
+    session.clientInfo = params.clientInfo as MCPImplementation | undefined;
+
+    return {
+      protocolVersion: session.protocolVersion,
+      capabilities: this.capabilities,
+      serverInfo: { name: this.options.name, version: this.options.version },
+      ...(this.options.instructions ? { instructions: this.options.instructions } : {}),
+    };
+  }
+
+  private handleNotification(session: SessionState, method: string, params: unknown): void {
+    switch (method) {
+      case 'notifications/initialized':
+        session.initialized = true;
+        break;
+
+      case 'notifications/cancelled': {
+        const requestId = (params as { requestId?: string | number } | undefined)?.requestId;
+        if (requestId !== undefined) {
+          session.inFlight.get(requestId)?.abort();
+        }
+        break;
+      }
+    }
+  }
+
+  // ============================================================================
+  // Tools
+  // ============================================================================
+
+  /**
+   * Tools published to clients: server tools, then registry tools, then skills.
+   * Later entries with a name already taken are skipped.
+   */
+  listTools(): MCPTool[] {
+    const tools = new Map<string, MCPTool>();
+    const add = (tool: MCPTool) => {
+      if (tools.has(tool.name)) {
+        this.logger.warn(`MCP tool name conflict, skipping: ${tool.name}`);
+        return;
+      }
+      tools.set(tool.name, tool);
+    };
+
+    for (const tool of this.server.getCapabilities().tools) {
+      add({ name: tool.name, description: tool.description, inputSchema: toInputSchema(tool.inputSchema) });
+    }
+
+    const agent = this.options.agent;
+    for (const tool of agent?.toolRegistry.list() ?? []) {
+      add({ name: tool.name, description: tool.description, inputSchema: toInputSchema(tool.parameters) });
+    }
+    for (const skill of agent?.skillRegistry.list() ?? []) {
+      const definition = this.skillAdapter.skillToToolDefinition(skill).function;
+      add({
+        name: definition.name,
+        description: definition.description,
+        inputSchema: definition.parameters as JSONSchema,
+      });
+    }
+
+    return Array.from(tools.values());
+  }
+
+  async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<MCPToolCallResult> {
+    if (this.server.getCapabilities().tools.some(tool => tool.name === name)) {
+      const result = await this.server.executeTool(name, args);
+      return result?.success
+        ? toToolCallResult(result.data)
+        : errorResult(result?.error || 'Tool execution failed');
+    }
+
+    const agent = this.options.agent;
+    const context = {
+      agentId: agent?.id ?? this.options.name,
+      executionId: `mcp-${randomUUID()}`,
+      logger: this.logger,
+      signal,
+    };
+
+    const tool = agent?.toolRegistry.getByName(name);
+    if (agent && tool) {
+      const parsed = tool.parameters.safeParse(args);
+      if (!parsed.success) {
+        return errorResult(`Invalid arguments: ${formatIssues(parsed.error.issues)}`);
+      }
+      const result = await agent.toolRegistry.execute(tool.id, parsed.data, {
+        ...context,
+        toolId: tool.id,
+        toolName: tool.name,
+      });
+      return result.success ? toToolCallResult(result.data) : errorResult(result.error?.message || 'Tool execution failed');
+    }
+
+    const skillName = this.skillAdapter.extractSkillName(name);
+    const skill = skillName ? agent?.skillRegistry.getByName(skillName) : undefined;
+    if (agent && skill) {
+      const parsed = skill.inputSchema.safeParse(args);
+      if (!parsed.success) {
+        return errorResult(`Invalid arguments: ${formatIssues(parsed.error.issues)}`);
+      }
+      // Skills exposed over MCP are held to their allowed-tools; denied calls are logged through context.logger
+      const tools = scopeToolRegistry(agent.toolRegistry, skill.metadata?.allowedTools, { scope: skill.name });
+      const result = await skill.execute(parsed.data, {
+        ...context,
+        input: parsed.data,
+        llm: agent.llm,
+        memory: agent.memory,
+        tools,
+      });
+      return result.success ? toToolCallResult(result.data) : errorResult(result.error?.message || 'Skill execution failed');
+    }
+
+    throw new MCPMethodError(MCPErrorCode.INVALID_PARAMS, `Unknown tool: ${name}`);
+  }
+
+  // ============================================================================
+  // Private
+  // ============================================================================
+
+  private broadcast(method: string, params?: unknown): void {
+    const notification: MCPNotification = params === undefined
+      ? { jsonrpc: '2.0', method }
+      : { jsonrpc: '2.0', method, params };
+
+    for (const session of this.sessions.values()) {
+      if (!session.initialized) continue;
+      try {
+        session.send(notification);
+      } catch (error) {
+        this.logger.warn('Failed to send MCP notification', { sessionId: session.id, error: (error as Error).message });
+      }
+    }
+  }
+
+  private errorResponse(id: string | number | null, code: number, message: string): MCPResponse {
+    return { jsonrpc: '2.0', id: id as string | number, error: { code, message } };
+  }
+}
+
+/**
+ * Convert a zod schema (or an existing JSON Schema) to an MCP tool inputSchema
+ */
+function toInputSchema(schema: unknown): JSONSchema {
+  if (schema && typeof schema === 'object' && '_zod' in schema) {
+    const converted = zodToToolParameters(schema as Parameters<typeof zodToToolParameters>[0]);
+    if (converted) return converted as JSONSchema;
+  } else if (schema && typeof schema === 'object' && (schema as JSONSchema).type === 'object') {
+    return schema as JSONSchema;
+  }
+  return { type: 'object', properties: {} };
+}
+
+function toToolCallResult(data: unknown): MCPToolCallResult & { structuredContent?: unknown } {
+  const text = typeof data === 'string' ? data : JSON.stringify(data ?? null);
+  const result: MCPToolCallResult & { structuredContent?: unknown } = { content: [{ type: 'text', text }] };
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    result.structuredContent = data;
+  }
+  return result;
+}
+
+function errorResult(message: string): MCPToolCallResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+function formatIssues(issues: Array<{ path: PropertyKey[]; message: string }>): string {
+  return issues.map(issue => `${issue.path.map(String).join('.') || 'input'}: ${issue.message}`).join(', ');
+}
+
+export function createMCPServerRuntime(options: MCPServerRuntimeOptions): MCPServerRuntime {
+  return new MCPServerRuntime(options);
+}
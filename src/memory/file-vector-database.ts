@@ -1,8 +1,12 @@
 /**
  * 文件持久化向量数据库
  *
- * 使用本地文件系统持久化存储向量数据
- * 支持JSON和Binary两种格式
+ * 使用本地文件系统持久化存储向量数据：
+ * - 快照：manifest.json 指向的文档 JSON（含 HNSW 图结构）+ Float32 二进制向量
+ * - 预写日志：每次写操作先追加到 wal-<generation>.log，initialize 时在快照之上重放
+ * - 后台压实：日志超过阈值或定时触发，写入新快照并切换到新的日志文件
+ *
+ * 向量搜索走持久化的 HNSW 索引，写操作增量更新索引；小集合直接全量扫描。
  */
 
 import * as fs from 'fs/promises';
@@ -16,6 +20,7 @@ import {
   HybridSearchOptions,
   IndexStats,
 } from './vector-database.js';
+import { HNSWIndex, type HNSWConfig } from '../algorithms/hnsw.js';
 
 /**
  * 文件向量数据库配置
@@ -23,14 +28,39 @@ import {
 export interface FileVectorDBConfig extends VectorDBConfig {
   /** 数据目录路径 */
   dataDir: string;
-  /** 存储格式: 'json' | 'binary' */
+  /** 旧版单文件存储格式，仅用于迁移 vectors.json / vectors.bin */
   format: 'json' | 'binary';
-  /** 自动保存间隔(ms) */
+  /** 后台压实检查间隔(ms)，0 表示只按 compactionThreshold 压实 */
   autoSaveInterval: number;
   /** 是否压缩 */
   compress: boolean;
+  /** 日志累计多少条记录后触发后台压实 */
+  compactionThreshold?: number;
+  /** 每次追加日志后 fsync，防止断电丢失（进程崩溃无需开启） */
+  syncWrites?: boolean;
+  /** 文档数不超过该值时精确全量扫描，不走索引 */
+  fullScanThreshold?: number;
+  /** HNSW 参数 */
+  hnsw?: Partial<Pick<HNSWConfig, 'm' | 'efConstruction' | 'efSearch' | 'seed'>>;
+}
+
+/**
+ * 快照清单，原子替换后才切换到新快照
+ */
+interface SnapshotManifest {
+  version: 1;
+  generation: number;
+  documents: string;
+  vectors: string;
+  count: number;
+  dimension: number;
+  createdAt: string;
 }
 
+type WalRecord =
+  | { op: 'put'; docs: VectorDocument[] }
+  | { op: 'delete'; ids: string[] };
+
 /**
  * 默认文件向量数据库配置
  */
@@ -50,28 +80,42 @@ export const DEFAULT_FILE_VECTOR_DB_CONFIG: FileVectorDBConfig = {
   format: 'json',
   autoSaveInterval: 30000, // 30秒
   compress: false,
+  compactionThreshold: 10000,
+  syncWrites: false,
+  fullScanThreshold: 1000,
 };
 
+const MANIFEST_FILE = 'manifest.json';
+const WAL_PATTERN = /^wal-(\d+)\.log$/;
+
 /**
  * 文件向量数据库实现
  *
- * 提供持久化的向量存储，适合中小型数据集
+ * 提供持久化、崩溃安全的向量存储，向量搜索基于 HNSW 索引
  */
 export class FileVectorDatabase extends VectorDatabase {
   private fileConfig: FileVectorDBConfig;
   private documents: Map<string, VectorDocument> = new Map();
   private cache: Map<string, SearchResult[]> = new Map();
+  private index: HNSWIndex;
   private autoSaveTimer?: NodeJS.Timeout;
-  private dirty = false;
+  /** 当前快照代数，活动日志为 wal-<generation>.log */
+  private generation = 0;
+  private wal?: fs.FileHandle;
+  /** 串行化日志追加与日志切换 */
+  private writeQueue: Promise<void> = Promise.resolve();
+  private walRecords = 0;
+  private compacting?: Promise<void>;
 
   constructor(config?: Partial<FileVectorDBConfig>) {
     const fullConfig = { ...DEFAULT_FILE_VECTOR_DB_CONFIG, ...config };
     super(fullConfig);
     this.fileConfig = fullConfig;
+    this.index = this.createHNSWIndex();
   }
 
   /**
-   * 初始化数据库
+   * 初始化数据库：加载快照并重放日志
    */
   async initialize(): Promise<void> {
     try {
@@ -80,8 +124,14 @@ export class FileVectorDatabase extends VectorDatabase {
 
       // 加载已有数据
       await this.loadFromDisk();
+      this.wal = await fs.open(this.getWalPath(this.generation), 'a');
+
+      // 旧版单文件数据迁移为快照
+      if (this.walRecords > 0 && !(await this.exists(path.join(this.fileConfig.dataDir, MANIFEST_FILE)))) {
+        await this.compact();
+      }
 
-      // 启动自动保存
+      // 启动后台压实
       if (this.fileConfig.autoSaveInterval > 0) {
         this.startAutoSave();
       }
@@ -96,19 +146,24 @@ export class FileVectorDatabase extends VectorDatabase {
    * 关闭数据库
    */
   async close(): Promise<void> {
-    // 停止自动保存
+    // 停止后台压实
     if (this.autoSaveTimer) {
       clearInterval(this.autoSaveTimer);
       this.autoSaveTimer = undefined;
     }
 
-    // 保存未保存的数据
-    if (this.dirty) {
-      await this.saveToDisk();
+    // 日志写入快照，缩短下次启动的重放时间
+    if (this.walRecords > 0) {
+      await this.compact();
     }
+    await this.compacting;
+    await this.writeQueue;
+    await this.wal?.close();
+    this.wal = undefined;
 
     this.documents.clear();
     this.cache.clear();
+    this.index.clear();
     this.initialized = false;
   }
 
@@ -116,44 +171,20 @@ export class FileVectorDatabase extends VectorDatabase {
    * 插入文档
    */
   async insert(document: VectorDocument): Promise<void> {
-    this.validateVector(document.vector);
-
-    const doc: VectorDocument = {
-      ...document,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    this.documents.set(document.id, doc);
-    this.invalidateCache();
-    this.dirty = true;
-
-    // 立即保存（如果配置了）
-    if (!this.fileConfig.autoSaveInterval) {
-      await this.saveToDisk();
-    }
+    await this.insertBatch([document]);
   }
 
   /**
    * 批量插入
    */
   async insertBatch(documents: VectorDocument[]): Promise<void> {
-    for (const doc of documents) {
-      this.validateVector(doc.vector);
+    documents.forEach(doc => this.validateVector(doc.vector));
 
-      this.documents.set(doc.id, {
-        ...doc,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      });
-    }
+    const now = new Date();
+    const docs = documents.map(doc => ({ ...doc, createdAt: now, updatedAt: now }));
+    docs.forEach(doc => this.applyPut(doc));
 
-    this.invalidateCache();
-    this.dirty = true;
-
-    if (!this.fileConfig.autoSaveInterval) {
-      await this.saveToDisk();
-    }
+    await this.append({ op: 'put', docs });
   }
 
   /**
@@ -192,42 +223,23 @@ export class FileVectorDatabase extends VectorDatabase {
       updatedAt: new Date(),
     };
 
-    this.documents.set(id, updated);
-    this.invalidateCache();
-    this.dirty = true;
-
-    if (!this.fileConfig.autoSaveInterval) {
-      await this.saveToDisk();
-    }
+    this.applyPut(updated, updates.vector !== undefined);
+    await this.append({ op: 'put', docs: [updated] });
   }
 
   /**
    * 删除文档
    */
   async delete(id: string): Promise<void> {
-    this.documents.delete(id);
-    this.invalidateCache();
-    this.dirty = true;
-
-    if (!this.fileConfig.autoSaveInterval) {
-      await this.saveToDisk();
-    }
+    await this.deleteBatch([id]);
   }
 
   /**
    * 批量删除
    */
   async deleteBatch(ids: string[]): Promise<void> {
-    for (const id of ids) {
-      this.documents.delete(id);
-    }
-
-    this.invalidateCache();
-    this.dirty = true;
-
-    if (!this.fileConfig.autoSaveInterval) {
-      await this.saveToDisk();
-    }
+    this.applyDelete(ids);
+    await this.append({ op: 'delete', ids });
   }
 
   /**
@@ -245,7 +257,7 @@ export class FileVectorDatabase extends VectorDatabase {
 
     const results: SearchResult[] = [];
 
-    for (const doc of this.documents.values()) {
+    for (const doc of this.searchCandidates(vector, limit, filter)) {
       // 应用元数据过滤
       if (!this.matchesFilter(doc, filter)) {
         continue;
@@ -392,9 +404,16 @@ export class FileVectorDatabase extends VectorDatabase {
    * 清空数据库
    */
   async clear(): Promise<void> {
+    await this.compacting;
+    await this.writeQueue;
+    await this.wal?.close();
+    this.wal = undefined;
+
     this.documents.clear();
     this.cache.clear();
-    this.dirty = true;
+    this.index.clear();
+    this.generation = 0;
+    this.walRecords = 0;
 
     // 删除数据文件
     try {
@@ -403,6 +422,10 @@ export class FileVectorDatabase extends VectorDatabase {
     } catch (error) {
       console.error('Failed to clear data directory:', error);
     }
+
+    if (this.initialized) {
+      this.wal = await fs.open(this.getWalPath(this.generation), 'a');
+    }
   }
 
   /**
@@ -431,130 +454,360 @@ export class FileVectorDatabase extends VectorDatabase {
   }
 
   /**
-   * 创建索引
+   * 创建索引：根据当前文档重建 HNSW 索引
    */
   async createIndex(): Promise<void> {
-    // 文件数据库不需要显式创建索引
-    return Promise.resolve();
+    this.index = this.createHNSWIndex();
+    for (const doc of this.documents.values()) {
+      this.index.add(doc.id, doc.vector);
+    }
+    this.invalidateCache();
   }
 
   /**
    * 删除索引
    */
   async deleteIndex(): Promise<void> {
-    // 文件数据库不需要显式删除索引
+    // 索引随快照持久化，不需要显式删除
     return Promise.resolve();
   }
 
   /**
-   * 保存到磁盘
+   * 保存到磁盘（立即压实）
    */
   async saveToDisk(): Promise<void> {
-    if (!this.dirty) return;
+    await this.compact();
+  }
 
-    try {
-      const dataPath = this.getDataFilePath();
+  /**
+   * 压实：把当前状态写成新快照，切换到新日志并删除旧日志
+   *
+   * 状态在切换日志的同一时刻同步捕获，压实期间的写入进入新日志，不会丢失。
+   */
+  async compact(): Promise<void> {
+    if (this.compacting) {
+      return this.compacting;
+    }
 
-      if (this.fileConfig.format === 'json') {
-        const data = {
-          documents: Array.from(this.documents.entries()),
-          timestamp: new Date().toISOString(),
-        };
+    const generation = this.generation + 1;
+    const documents = Array.from(this.documents.values());
+    const graph = this.index.serialize({ includeVectors: false });
 
-        const json = JSON.stringify(data, null, 2);
-        await fs.writeFile(dataPath, json, 'utf-8');
-      } else {
-        // Binary format
-        const buffer = this.serializeToBinary();
-        await fs.writeFile(dataPath, buffer);
+    this.generation = generation;
+    this.walRecords = 0;
+    const rotated = this.enqueue(async () => {
+      await this.wal?.close();
+      this.wal = await fs.open(this.getWalPath(generation), 'a');
+    });
+
+    this.compacting = rotated
+      .then(() => this.writeSnapshot(generation, documents, graph))
+      .catch(error => {
+        console.error('Compaction failed:', error);
+        throw error;
+      })
+      .finally(() => {
+        this.compacting = undefined;
+      });
+    return this.compacting;
+  }
+
+  /**
+   * 从磁盘加载：读取快照，按代数顺序重放日志
+   */
+  async loadFromDisk(): Promise<void> {
+    this.documents.clear();
+    this.index = this.createHNSWIndex();
+    this.generation = 0;
+    this.walRecords = 0;
+
+    const manifest = await this.readManifest();
+    if (manifest) {
+      await this.loadSnapshot(manifest);
+      this.generation = manifest.generation;
+    } else {
+      await this.loadLegacyFile();
+    }
+
+    const walFiles = (await fs.readdir(this.fileConfig.dataDir))
+      .map(file => ({ file, generation: Number(file.match(WAL_PATTERN)?.[1] ?? NaN) }))
+      .filter(entry => entry.generation >= this.generation)
+      .sort((a, b) => a.generation - b.generation);
+
+    for (const { file, generation } of walFiles) {
+      this.walRecords += await this.replayWal(path.join(this.fileConfig.dataDir, file));
+      this.generation = generation;
+    }
+
+    this.invalidateCache();
+  }
+
+  /**
+   * 启动后台压实
+   */
+  private startAutoSave(): void {
+    this.autoSaveTimer = setInterval(() => {
+      if (this.walRecords > 0 && !this.compacting) {
+        this.compact().catch(() => undefined);
       }
+    }, this.fileConfig.autoSaveInterval);
+    this.autoSaveTimer.unref?.();
+  }
 
-      this.dirty = false;
-    } catch (error) {
-      console.error('Failed to save to disk:', error);
-      throw error;
+  private createHNSWIndex(): HNSWIndex {
+    const { hnsw = {} } = this.fileConfig;
+    // 相似度按余弦计算（与全量扫描一致），索引使用同一度量
+    return new HNSWIndex({
+      dimension: this.fileConfig.dimension,
+      metric: 'cosine',
+      m: hnsw.m ?? 16,
+      efConstruction: hnsw.efConstruction ?? 100,
+      efSearch: hnsw.efSearch ?? 64,
+      seed: hnsw.seed,
+    });
+  }
+
+  /**
+   * 写入内存与索引（增量更新）
+   */
+  private applyPut(doc: VectorDocument, reindex = true): void {
+    this.documents.set(doc.id, doc);
+    if (reindex || !this.index.has(doc.id)) {
+      this.index.add(doc.id, doc.vector);
+    }
+    this.invalidateCache();
+  }
+
+  private applyDelete(ids: string[]): void {
+    for (const id of ids) {
+      this.documents.delete(id);
+      this.index.remove(id);
     }
+    this.invalidateCache();
   }
 
   /**
-   * 从磁盘加载
+   * 向量搜索的候选文档：小集合全量扫描，否则由 HNSW 召回并按需扩大召回量以满足过滤条件
    */
-  async loadFromDisk(): Promise<void> {
-    try {
-      const dataPath = this.getDataFilePath();
+  private searchCandidates(vector: number[], limit: number, filter: Record<string, unknown>): Iterable<VectorDocument> {
+    const total = this.documents.size;
+    if (total <= (this.fileConfig.fullScanThreshold ?? 0)) {
+      return this.documents.values();
+    }
+
+    const filtered = Object.keys(filter).length > 0;
+    let k = filtered ? limit * 4 : limit;
+
+    // 过滤条件选择性很高时，图搜索不如直接扫描
+    while (k <= total / 4) {
+      const candidates = this.index
+        .search(vector, k)
+        .map(hit => this.documents.get(hit.id))
+        .filter((doc): doc is VectorDocument => doc !== undefined);
+
+      const matched = filtered ? candidates.filter(doc => this.matchesFilter(doc, filter)).length : candidates.length;
+      if (matched >= limit || candidates.length < k) {
+        return candidates;
+      }
+      k *= 4;
+    }
+    return this.documents.values();
+  }
 
+  /**
+   * 追加一条日志记录，返回时记录已写入文件
+   */
+  private async append(record: WalRecord): Promise<void> {
+    const line = `${JSON.stringify(record)}\n`;
+    await this.enqueue(async () => {
+      if (!this.wal) {
+        throw new Error('FileVectorDatabase is not initialized');
+      }
+      await this.wal.appendFile(line, 'utf-8');
+      if (this.fileConfig.syncWrites) {
+        await this.wal.sync();
+      }
+    });
+
+    this.walRecords++;
+    const threshold = this.fileConfig.compactionThreshold ?? 0;
+    if (threshold > 0 && this.walRecords >= threshold && !this.compacting) {
+      this.compact().catch(() => undefined);
+    }
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * 重放日志文件，返回有效记录数
+   *
+   * 崩溃时最后一行可能只写了一半，解析失败的尾行直接丢弃。
+   */
+  private async replayWal(walPath: string): Promise<number> {
+    const lines = (await fs.readFile(walPath, 'utf-8')).split('\n');
+    let applied = 0;
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let record: WalRecord;
       try {
-        await fs.access(dataPath);
+        record = JSON.parse(line) as WalRecord;
       } catch {
-        // 文件不存在，这是正常的
+        if (index < lines.length - 1 && lines.slice(index + 1).some(rest => rest.trim())) {
+          console.error(`Skipping corrupt WAL record at ${walPath}:${index + 1}`);
+        }
         return;
       }
 
-      if (this.fileConfig.format === 'json') {
-        const json = await fs.readFile(dataPath, 'utf-8');
-        const data = JSON.parse(json);
+      if (record.op === 'put') {
+        record.docs.forEach(doc => this.applyPut(this.reviveDocument(doc)));
+      } else if (record.op === 'delete') {
+        this.applyDelete(record.ids);
+      }
+      applied++;
+    });
 
-        if (data.documents) {
-          this.documents = new Map(data.documents);
-        }
-      } else {
-        // Binary format
-        const buffer = await fs.readFile(dataPath);
-        this.deserializeFromBinary(buffer);
+    return applied;
+  }
+
+  private async writeSnapshot(generation: number, documents: VectorDocument[], graph: object): Promise<void> {
+    const { dataDir, dimension } = this.fileConfig;
+    const documentsFile = `snapshot-${generation}.json`;
+    const vectorsFile = `snapshot-${generation}.vec`;
+
+    const vectors = new Float32Array(documents.length * dimension);
+    documents.forEach((doc, row) => vectors.set(doc.vector, row * dimension));
+
+    await this.writeAtomic(
+      path.join(dataDir, documentsFile),
+      JSON.stringify({
+        documents: documents.map(({ vector: _vector, ...rest }) => rest),
+        index: graph,
+      })
+    );
+    await this.writeAtomic(path.join(dataDir, vectorsFile), Buffer.from(vectors.buffer));
+
+    const manifest: SnapshotManifest = {
+      version: 1,
+      generation,
+      documents: documentsFile,
+      vectors: vectorsFile,
+      count: documents.length,
+      dimension,
+      createdAt: new Date().toISOString(),
+    };
+    await this.writeAtomic(path.join(dataDir, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+
+    // 新快照生效后清理旧快照与已合并的日志
+    for (const file of await fs.readdir(dataDir)) {
+      const fileGeneration = Number(file.match(/^(?:snapshot|wal)-(\d+)\./)?.[1] ?? NaN);
+      if (fileGeneration < generation) {
+        await fs.rm(path.join(dataDir, file), { force: true });
       }
+    }
+  }
+
+  private async readManifest(): Promise<SnapshotManifest | null> {
+    const manifestPath = path.join(this.fileConfig.dataDir, MANIFEST_FILE);
+    if (!(await this.exists(manifestPath))) {
+      return null;
+    }
+    return JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as SnapshotManifest;
+  }
 
-      this.dirty = false;
+  private async loadSnapshot(manifest: SnapshotManifest): Promise<void> {
+    const { dataDir } = this.fileConfig;
+    if (manifest.dimension !== this.fileConfig.dimension) {
+      throw new Error(`Snapshot dimension ${manifest.dimension} does not match configured dimension ${this.fileConfig.dimension}`);
+    }
+
+    const snapshot = JSON.parse(await fs.readFile(path.join(dataDir, manifest.documents), 'utf-8')) as {
+      documents: Array<Omit<VectorDocument, 'vector'>>;
+      index: object;
+    };
+    const buffer = await fs.readFile(path.join(dataDir, manifest.vectors));
+    const bytes = buffer.byteOffset % 4 === 0 ? buffer : new Uint8Array(buffer);
+    const vectors = new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4);
+
+    const rows = new Map<string, Float32Array>();
+    snapshot.documents.forEach((doc, row) => {
+      const vector = vectors.subarray(row * manifest.dimension, (row + 1) * manifest.dimension);
+      rows.set(doc.id, vector);
+      this.documents.set(doc.id, this.reviveDocument({ ...doc, vector: Array.from(vector) }));
+    });
+
+    this.index = HNSWIndex.deserialize(snapshot.index, id => rows.get(id));
+  }
+
+  /**
+   * 读取旧版单文件数据（vectors.json / vectors.bin），并记为待压实
+   */
+  private async loadLegacyFile(): Promise<void> {
+    const dataPath = this.getDataFilePath();
+    if (!(await this.exists(dataPath))) {
+      return;
+    }
+
+    try {
+      const docs: VectorDocument[] = this.fileConfig.format === 'json'
+        ? (JSON.parse(await fs.readFile(dataPath, 'utf-8')).documents ?? []).map(([, doc]: [string, VectorDocument]) => doc)
+        : JSON.parse((await fs.readFile(dataPath)).toString('utf-8'));
+
+      docs.forEach(doc => this.applyPut(this.reviveDocument(doc)));
+      this.walRecords += docs.length;
     } catch (error) {
       console.error('Failed to load from disk:', error);
       // 不抛出错误，允许从空数据库开始
     }
   }
 
-  /**
-   * 启动自动保存
-   */
-  private startAutoSave(): void {
-    this.autoSaveTimer = setInterval(async () => {
-      if (this.dirty) {
-        try {
-          await this.saveToDisk();
-        } catch (error) {
-          console.error('Auto-save failed:', error);
-        }
-      }
-    }, this.fileConfig.autoSaveInterval);
+  private reviveDocument(doc: VectorDocument): VectorDocument {
+    return {
+      ...doc,
+      createdAt: doc.createdAt ? new Date(doc.createdAt) : undefined,
+      updatedAt: doc.updatedAt ? new Date(doc.updatedAt) : undefined,
+    };
   }
 
   /**
-   * 获取数据文件路径
+   * 先写临时文件再重命名，避免读到写了一半的文件
    */
-  private getDataFilePath(): string {
-    const extension = this.fileConfig.format === 'json' ? 'json' : 'bin';
-    return path.join(this.fileConfig.dataDir, `vectors.${extension}`);
+  private async writeAtomic(filePath: string, data: string | Buffer): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tempPath, filePath);
   }
 
-  /**
-   * 序列化为二进制
-   */
-  private serializeToBinary(): Buffer {
-    // 简化的二进制序列化
-    const docs = Array.from(this.documents.values());
-    const json = JSON.stringify(docs);
-    return Buffer.from(json, 'utf-8');
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getWalPath(generation: number): string {
+    return path.join(this.fileConfig.dataDir, `wal-${generation}.log`);
   }
 
   /**
-   * 从二进制反序列化
+   * 获取旧版数据文件路径
    */
-  private deserializeFromBinary(buffer: Buffer): void {
-    // 简化的二进制反序列化
-    const json = buffer.toString('utf-8');
-    const docs: VectorDocument[] = JSON.parse(json);
-
-    this.documents.clear();
-    for (const doc of docs) {
-      this.documents.set(doc.id, doc);
-    }
+  private getDataFilePath(): string {
+    const extension = this.fileConfig.format === 'json' ? 'json' : 'bin';
+    return path.join(this.fileConfig.dataDir, `vectors.${extension}`);
   }
 
   /**
@@ -569,6 +822,10 @@ export class FileVectorDatabase extends VectorDatabase {
       throw new Error('Vector cannot be empty');
     }
 
+    if (vector.length !== this.fileConfig.dimension) {
+      throw new Error(`Vector dimension mismatch: expected ${this.fileConfig.dimension}, got ${vector.length}`);
+    }
+
     if (!vector.every(v => typeof v === 'number' && !isNaN(v))) {
       throw new Error('Vector must contain only valid numbers');
     }
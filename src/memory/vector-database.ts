@@ -15,6 +15,12 @@
 import { EmbeddingProvider } from '../embeddings/embedding-provider.js';
 import { delay } from '../utils/environment.js';
 import type { FileVectorDBConfig } from './file-vector-database.js';
+import {
+  QuantizedVectorStore,
+  type QuantizationConfig,
+  type QuantizationStats,
+  type VectorMetric,
+} from '../algorithms/quantization.js';
 
 export interface VectorDBConfig {
   /** 数据库类型 */
@@ -48,6 +54,10 @@ export interface VectorDBConfig {
   cacheSize: number;
   /** 自定义元数据模式 */
   metadataSchema?: Record<string, 'string' | 'number' | 'boolean' | 'string[]'>;
+  /** 向量量化（int8 / PQ），仅进程内向量库支持，不支持 manhattan 度量 */
+  quantization?: QuantizationConfig;
+  /** 量化搜索时每 N 次查询做一次精确搜索以估算 recall@k，默认 0（关闭） */
+  recallSampleInterval?: number;
 }
 
 export interface VectorDocument {
@@ -126,6 +136,14 @@ export interface IndexStats {
   averageQueryTime: number;
   /** 缓存命中率 */
   cacheHitRate: number;
+  /** 最近查询的 P95 耗时(ms) */
+  p95QueryTime?: number;
+  /** 向量存储占用的内存(字节) */
+  memoryUsage?: number;
+  /** 量化配置与压缩率 */
+  quantization?: QuantizationStats;
+  /** 抽样估算的召回率（量化结果与精确搜索前 k 个的重合比例），按 k 分别统计 */
+  recallAtK?: Array<{ k: number; recall: number; samples: number }>;
 }
 
 /**
@@ -335,6 +353,28 @@ export abstract class VectorDatabase {
 export class InMemoryVectorDB extends VectorDatabase {
   private documents: Map<string, VectorDocument> = new Map();
   private cache: Map<string, SearchResult[]> = new Map();
+  /** 启用量化时向量存放于此，文档中的 vector 置空 */
+  private vectors?: QuantizedVectorStore;
+  private queryTimes: number[] = [];
+  private searchCount = 0;
+  /** k -> 累计召回率与样本数 */
+  private recall = new Map<number, { total: number; samples: number }>();
+
+  constructor(config: VectorDBConfig) {
+    super(config);
+
+    if (config.quantization && config.quantization.type !== 'none') {
+      if (config.metric === 'manhattan') {
+        throw new Error('Vector quantization does not support the manhattan metric');
+      }
+      const metrics: Record<string, VectorMetric> = { cosine: 'cosine', euclidean: 'euclidean', dotproduct: 'dot' };
+      this.vectors = new QuantizedVectorStore({
+        dimension: config.dimension,
+        metric: metrics[config.metric] ?? 'cosine',
+        quantization: config.quantization,
+      });
+    }
+  }
 
   async initialize(): Promise<void> {
     this.initialized = true;
@@ -350,7 +390,16 @@ export class InMemoryVectorDB extends VectorDatabase {
     this.validateVector(document.vector);
     document.createdAt = new Date();
     document.updatedAt = new Date();
-    this.documents.set(document.id, { ...document });
+    this.vectors?.set(document.id, document.vector);
+    this.documents.set(document.id, { ...document, vector: this.vectors ? [] : document.vector });
+    this.invalidateCache();
+  }
+
+  /**
+   * 训练量化码本（PQ）；未传入训练集时使用已插入的向量
+   */
+  train(vectors?: number[][]): void {
+    this.vectors?.train(vectors);
     this.invalidateCache();
   }
 
@@ -361,11 +410,15 @@ export class InMemoryVectorDB extends VectorDatabase {
   }
 
   async getById(id: string): Promise<VectorDocument | null> {
-    return this.documents.get(id) || null;
+    const doc = this.documents.get(id);
+    return doc ? this.withVector(doc) : null;
   }
 
   async getByIds(ids: string[]): Promise<VectorDocument[]> {
-    return ids.map(id => this.documents.get(id)).filter((doc): doc is VectorDocument => doc !== undefined);
+    return ids
+      .map(id => this.documents.get(id))
+      .filter((doc): doc is VectorDocument => doc !== undefined)
+      .map(doc => this.withVector(doc));
   }
 
   async update(id: string, updates: Partial<VectorDocument>): Promise<void> {
@@ -373,6 +426,10 @@ export class InMemoryVectorDB extends VectorDatabase {
     if (!existing) {
       throw new Error(`Document not found: ${id}`);
     }
+    if (updates.vector) {
+      this.validateVector(updates.vector);
+      this.vectors?.set(id, updates.vector);
+    }
     
     const updated = {
       ...existing,
@@ -380,6 +437,9 @@ export class InMemoryVectorDB extends VectorDatabase {
       id,
       updatedAt: new Date()
     };
+    if (this.vectors) {
+      updated.vector = [];
+    }
     
     this.documents.set(id, updated);
     this.invalidateCache();
@@ -387,12 +447,14 @@ export class InMemoryVectorDB extends VectorDatabase {
 
   async delete(id: string): Promise<void> {
     this.documents.delete(id);
+    this.vectors?.delete(id);
     this.invalidateCache();
   }
 
   async deleteBatch(ids: string[]): Promise<void> {
     for (const id of ids) {
       this.documents.delete(id);
+      this.vectors?.delete(id);
     }
     this.invalidateCache();
   }
@@ -405,8 +467,43 @@ export class InMemoryVectorDB extends VectorDatabase {
       return this.cache.get(cacheKey)!;
     }
 
+    const startTime = performance.now();
     const { limit = 10, threshold = 0, filter = {} } = options;
     
+    const results: SearchResult[] = this.vectors?.quantized
+      ? this.quantizedSearch(vector, limit, threshold, filter, options)
+      : this.exactSearch(vector, threshold, filter, options);
+    
+    // 排序并限制结果
+    results.sort((a, b) => b.score - a.score);
+    const limitedResults = results.slice(0, limit);
+    
+    // 设置排名
+    limitedResults.forEach((result, index) => {
+      result.rank = index + 1;
+    });
+
+    this.recordQuery(performance.now() - startTime);
+    if (this.shouldSampleRecall()) {
+      this.sampleRecall(vector, limitedResults, limit, threshold, filter);
+    }
+
+    if (this.config.cacheEnabled) {
+      this.cache.set(cacheKey, limitedResults);
+    }
+    
+    return limitedResults;
+  }
+
+  /**
+   * 逐条计算精确相似度
+   */
+  private exactSearch(
+    vector: number[],
+    threshold: number,
+    filter: Record<string, unknown>,
+    options: SearchOptions
+  ): SearchResult[] {
     const results: SearchResult[] = [];
     
     for (const doc of this.documents.values()) {
@@ -415,7 +512,7 @@ export class InMemoryVectorDB extends VectorDatabase {
         continue;
       }
       
-      const score = this.calculateSimilarity(vector, doc.vector);
+      const score = this.calculateSimilarity(vector, this.vectorOf(doc));
       
       if (score >= threshold) {
         results.push({
@@ -426,20 +523,77 @@ export class InMemoryVectorDB extends VectorDatabase {
       }
     }
     
-    // 排序并限制结果
-    results.sort((a, b) => b.score - a.score);
-    const limitedResults = results.slice(0, limit);
-    
-    // 设置排名
-    limitedResults.forEach((result, index) => {
-      result.rank = index + 1;
-    });
+    return results;
+  }
 
-    if (this.config.cacheEnabled) {
-      this.cache.set(cacheKey, limitedResults);
+  /**
+   * 先用量化编码的非对称距离 (ADC) 选出候选，再用原始向量精排并计算相似度
+   */
+  private quantizedSearch(
+    vector: number[],
+    limit: number,
+    threshold: number,
+    filter: Record<string, unknown>,
+    options: SearchOptions
+  ): SearchResult[] {
+    const store = this.vectors!;
+    const distanceTo = store.prepare(vector);
+    const candidates: Array<{ id: string; distance: number; doc: VectorDocument }> = [];
+
+    for (const doc of this.documents.values()) {
+      if (this.matchesFilter(doc, filter)) {
+        candidates.push({ id: doc.id, distance: distanceTo(doc.id), doc });
+      }
     }
-    
-    return limitedResults;
+
+    candidates.sort((a, b) => a.distance - b.distance);
+    const results: SearchResult[] = [];
+    for (const { doc } of store.rerank(vector, candidates.slice(0, store.candidateCount(limit)))) {
+      const score = this.calculateSimilarity(vector, this.vectorOf(doc));
+      if (score >= threshold) {
+        results.push({ document: this.filterDocument(doc, options), score, rank: 0 });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * 记录查询耗时（保留最近 1000 次）
+   */
+  private recordQuery(duration: number): void {
+    this.queryTimes.push(duration);
+    if (this.queryTimes.length > 1000) {
+      this.queryTimes.shift();
+    }
+  }
+
+  private shouldSampleRecall(): boolean {
+    const interval = this.config.recallSampleInterval ?? 0;
+    if (!this.vectors?.quantized || !this.vectors.stats().keepOriginals || interval <= 0) return false;
+    return this.searchCount++ % interval === 0;
+  }
+
+  /**
+   * 与精确搜索比较，累计 recall@k
+   */
+  private sampleRecall(
+    vector: number[],
+    results: SearchResult[],
+    limit: number,
+    threshold: number,
+    filter: Record<string, unknown>
+  ): void {
+    const exact = this.exactSearch(vector, threshold, filter, {})
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+    if (exact.length === 0) return;
+
+    const found = new Set(results.map(result => result.document.id));
+    const hits = exact.filter(result => found.has(result.document.id)).length;
+    const recall = this.recall.get(limit) ?? { total: 0, samples: 0 };
+    recall.total += hits / exact.length;
+    recall.samples++;
+    this.recall.set(limit, recall);
   }
 
   async textSearch(query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
@@ -534,19 +688,32 @@ export class InMemoryVectorDB extends VectorDatabase {
     for (const doc of this.documents.values()) {
       sizeInBytes += JSON.stringify(doc).length * 2; // 粗略估计
     }
-    
-    return {
+
+    const sorted = [...this.queryTimes].sort((a, b) => a - b);
+    const stats: IndexStats = {
       totalVectors: this.documents.size,
       dimension: this.config.dimension,
-      indexSize: sizeInBytes,
-      averageQueryTime: 0,
-      cacheHitRate: 0
+      indexSize: sizeInBytes + (this.vectors?.memoryUsage() ?? 0),
+      averageQueryTime: sorted.length > 0 ? sorted.reduce((sum, time) => sum + time, 0) / sorted.length : 0,
+      cacheHitRate: 0,
+      p95QueryTime: sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0,
     };
+
+    if (this.vectors) {
+      stats.memoryUsage = this.vectors.memoryUsage();
+      stats.quantization = this.vectors.stats();
+      if (this.recall.size > 0) {
+        stats.recallAtK = Array.from(this.recall, ([k, { total, samples }]) => ({ k, recall: total / samples, samples }))
+          .sort((a, b) => a.k - b.k);
+      }
+    }
+    return stats;
   }
 
   async clear(): Promise<void> {
     this.documents.clear();
     this.cache.clear();
+    this.vectors?.clear();
   }
 
   async createIndex(): Promise<void> {
@@ -714,7 +881,7 @@ export class InMemoryVectorDB extends VectorDatabase {
   private filterDocument(doc: VectorDocument, options: SearchOptions): VectorDocument {
     const filtered: VectorDocument = {
       id: doc.id,
-      vector: options.includeVector ? doc.vector : [],
+      vector: options.includeVector ? this.vectorOf(doc) : [],
       content: options.includeContent !== false ? doc.content : undefined,
       metadata: doc.metadata,
       createdAt: doc.createdAt,
@@ -724,6 +891,19 @@ export class InMemoryVectorDB extends VectorDatabase {
     return filtered;
   }
 
+  /**
+   * 文档的向量（量化时从向量存储中读取）
+   */
+  private vectorOf(doc: VectorDocument): number[] {
+    if (!this.vectors) return doc.vector;
+    const vector = this.vectors.get(doc.id);
+    return vector ? Array.from(vector) : [];
+  }
+
+  private withVector(doc: VectorDocument): VectorDocument {
+    return this.vectors ? { ...doc, vector: this.vectorOf(doc) } : doc;
+  }
+
   /**
    * 获取缓存键
    */
@@ -99,7 +99,7 @@ export class FrontmatterParser {
       }
 
       // 键值对解析
-      const keyValueMatch = line.match(/^(\w+):\s*(.*)$/);
+      const keyValueMatch = line.match(/^([\w-]+):\s*(.*)$/);
       if (keyValueMatch) {
         // 保存之前的键值
         if (currentKey && !inMultiline) {
@@ -196,9 +196,20 @@ export class FrontmatterParser {
       commandTool: data.commandTool ? String(data.commandTool) : undefined,
       commandArgMode: data.commandArgMode as 'raw' | undefined,
       metadata: data.metadata ? String(data.metadata) : undefined,
+      allowedTools: this.parseAllowedToolsValue(data['allowed-tools'] ?? data.allowedTools),
     };
   }
 
+  /**
+   * allowed-tools 可写为单行字符串或 YAML 列表（`- Read`）
+   */
+  private parseAllowedToolsValue(value: unknown): string | string[] | undefined {
+    if (value === undefined || value === null) return undefined;
+    if (Array.isArray(value)) return value.map(String);
+    const text = String(value).trim();
+    return text.startsWith('- ') ? text.split(/(?:^|\s)-\s+/).filter(Boolean) : text;
+  }
+
   /**
    * 解析 OpenClaw 元数据
    */
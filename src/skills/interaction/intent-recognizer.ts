@@ -28,6 +28,7 @@ interface SkillWithMetadata extends Skill {
   keywords?: string[];
 }
 import { CacheManager } from './cache-manager.js';
+import type { JsonSchema } from '../../utils/schema-validator.js';
 
 const logger = new Logger({}, 'IntentRecognizer');
 
@@ -35,6 +36,12 @@ const logger = new Logger({}, 'IntentRecognizer');
 export interface LLMService {
   complete(prompt: string, options?: { temperature?: number; maxTokens?: number }): Promise<string>;
   embed(text: string): Promise<number[]>;
+  /** 按 JSON Schema 返回已校验的结构化结果（可选，未实现时调用方回退到文本解析） */
+  completeStructured?(
+    prompt: string,
+    schema: JsonSchema,
+    options?: { temperature?: number; maxTokens?: number }
+  ): Promise<unknown>;
 }
 
 /** 意图识别缓存配置 */
@@ -17,6 +17,7 @@
 
 import * as z from 'zod';
 import type { LLMService } from './intent-recognizer.js';
+import type { JsonSchema } from '../../utils/schema-validator.js';
 
 /** Logger interface */
 interface Logger {
@@ -300,13 +301,7 @@ export class IntelligentParameterExtractor {
     const prompt = this.buildFewShotPrompt(userInput, definitions, context);
 
     try {
-      const response = await this.config.llm.complete(prompt, {
-        temperature: 0.2,
-        maxTokens: 1000,
-      });
-
-      // 解析LLM响应
-      const extracted = this.parseLLMResponse(response);
+      const extracted = await this.completeParams(prompt, definitions);
 
       // 验证提取的参数
       const validation = await this.validateWithSchema(extracted, schema);
@@ -665,6 +660,75 @@ export class IntelligentParameterExtractor {
     return lines.join('\n');
   }
 
+  /**
+   * 请求LLM提取参数
+   *
+   * LLM服务支持结构化输出时按参数定义的 JSON Schema 请求，否则解析文本响应
+   */
+  private async completeParams(
+    prompt: string,
+    definitions: ParameterDefinition[]
+  ): Promise<Record<string, unknown>> {
+    const options = { temperature: 0.2, maxTokens: 1000 };
+    const { llm } = this.config;
+
+    if (llm.completeStructured) {
+      const result = await llm.completeStructured(prompt, this.buildParamsSchema(definitions), options);
+      if (result && typeof result === 'object' && !Array.isArray(result)) {
+        return result as Record<string, unknown>;
+      }
+    }
+
+    return this.parseLLMResponse(await llm.complete(prompt, options));
+  }
+
+  /**
+   * 参数定义转换为 JSON Schema
+   *
+   * 不设置 required：缺失参数以 null 表示，由 identifyMissingParams 识别
+   */
+  private buildParamsSchema(definitions: ParameterDefinition[]): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    for (const def of definitions) {
+      properties[def.name] = this.toJsonSchema(def);
+    }
+    return { type: 'object', properties };
+  }
+
+  private toJsonSchema(def: ParameterDefinition): JsonSchema {
+    const schema: JsonSchema = { description: def.description };
+
+    switch (def.type) {
+      case 'number':
+      case 'integer':
+      case 'boolean':
+      case 'string':
+        schema.type = [def.type, 'null'];
+        break;
+      case 'array':
+        schema.type = ['array', 'null'];
+        if (def.items) schema.items = this.toJsonSchema(def.items);
+        break;
+      case 'object':
+        schema.type = ['object', 'null'];
+        if (def.properties) {
+          schema.properties = Object.fromEntries(
+            Object.entries(def.properties).map(([key, child]) => [key, this.toJsonSchema(child)])
+          );
+        }
+        break;
+      default:
+        // file / url / email / date 以字符串传递
+        schema.type = ['string', 'null'];
+    }
+
+    if (def.enum) schema.enum = [...def.enum, null];
+    if (def.minimum !== undefined) schema.minimum = def.minimum;
+    if (def.maximum !== undefined) schema.maximum = def.maximum;
+
+    return schema;
+  }
+
   /**
    * 解析LLM响应
    */
@@ -225,6 +225,7 @@ export class SkillLoader {
         inputSchema: z.object({}), // 默认空 schema
         metadata: {
           openclaw: parsed.metadata,
+          allowedTools: parsed.frontmatter.allowedTools,
         },
         execute: async () => ({
           success: false,
@@ -8,6 +8,7 @@
  */
 
 import type { SecurityRule, SecurityWarning, SecurityScanResult } from './types.js';
+import { parseAllowedTools, matchesToolName, formatAllowedToolRule } from '../tools/allowed-tools.js';
 
 // ============================================================================
 // Security Rules
@@ -66,6 +67,16 @@ const DEFAULT_SECURITY_RULES: SecurityRule[] = [
   },
 ];
 
+/**
+ * allowed-tools 中的危险工具：未加参数限制时按严重级别告警
+ */
+const DANGEROUS_TOOLS: Array<{ id: string; name: string; severity: SecurityWarning['severity']; message: string }> = [
+  { id: 'sys:exec', name: 'execute_command', severity: 'high', message: '申请了不受限的命令执行工具' },
+  { id: 'fs:write', name: 'file_write', severity: 'medium', message: '申请了不受限的文件写入工具' },
+  { id: 'fs:edit', name: 'edit_file', severity: 'medium', message: '申请了不受限的文件编辑工具' },
+  { id: 'net:http', name: 'http_request', severity: 'medium', message: '申请了不受限的网络请求工具' },
+];
+
 // ============================================================================
 // Security Scanner
 // ============================================================================
@@ -102,6 +113,11 @@ export class SkillSecurityScanner {
       }
     }
 
+    const allowedTools = this.findAllowedTools(lines);
+    if (allowedTools) {
+      warnings.push(...this.scanAllowedTools(allowedTools.spec).map(warning => ({ ...warning, line: allowedTools.line })));
+    }
+
     const criticalCount = warnings.filter(w => w.severity === 'critical').length;
     const highCount = warnings.filter(w => w.severity === 'high').length;
     const mediumCount = warnings.filter(w => w.severity === 'medium').length;
@@ -120,6 +136,31 @@ export class SkillSecurityScanner {
     };
   }
 
+  /**
+   * 检查 allowed-tools 申请的工具权限
+   *
+   * 通配全部工具为 critical；不限参数的命令执行为 high，文件写入 / 编辑 / 网络请求为 medium。
+   */
+  scanAllowedTools(spec: unknown): SecurityWarning[] {
+    const warnings: SecurityWarning[] = [];
+
+    for (const rule of parseAllowedTools(spec) ?? []) {
+      const label = formatAllowedToolRule(rule);
+      const matched = DANGEROUS_TOOLS.filter(tool => matchesToolName(rule.tool, tool));
+
+      if (matched.length === DANGEROUS_TOOLS.length && !rule.argument) {
+        warnings.push({ ruleId: 'allowed-tools-wildcard', severity: 'critical', message: `allowed-tools 通配了全部工具: ${label}` });
+        continue;
+      }
+      for (const tool of matched) {
+        if (rule.argument && rule.argument !== '*') continue;
+        warnings.push({ ruleId: 'allowed-tools-dangerous', severity: tool.severity, message: `${tool.message}: ${label}` });
+      }
+    }
+
+    return warnings;
+  }
+
   /**
    * 批量扫描多个文件
    */
@@ -186,6 +227,28 @@ export class SkillSecurityScanner {
 
     return { column: match.index || 0 };
   }
+
+  /**
+   * 在 frontmatter 中查找 allowed-tools（支持行内值与 YAML 列表）
+   */
+  private findAllowedTools(lines: string[]): { spec: string | string[]; line: number } | null {
+    if (lines[0]?.trim() !== '---') return null;
+
+    for (let i = 1; i < lines.length && lines[i].trim() !== '---'; i++) {
+      const match = lines[i].match(/^(allowed-tools|allowedTools):\s*(.*)$/);
+      if (!match) continue;
+
+      const inline = match[2].trim();
+      if (inline) return { spec: inline.replace(/^\[|\]$/g, '').replace(/['"]/g, ''), line: i + 1 };
+
+      const items: string[] = [];
+      for (let j = i + 1; j < lines.length && /^\s+-\s*/.test(lines[j]); j++) {
+        items.push(lines[j].replace(/^\s+-\s*/, '').replace(/['"]/g, '').trim());
+      }
+      return { spec: items, line: i + 1 };
+    }
+    return null;
+  }
 }
 
 // ============================================================================
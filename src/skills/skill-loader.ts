@@ -343,6 +343,17 @@ function parseSkillFrontmatter(content: string): SkillFrontmatter | null {
       continue;
     }
 
+    // 顶层数组项（如 allowed-tools 列表）
+    if (currentArray && trimmed.startsWith('- ')) {
+      currentArray.push(parseYamlValue(trimmed.slice(2).trim()));
+      continue;
+    }
+    if (currentArray && currentArrayKey) {
+      metadata[currentArrayKey] = currentArray;
+      currentArray = null;
+      currentArrayKey = '';
+    }
+
     // 解析顶层键值对
     const colonIndex = trimmed.indexOf(':');
     if (colonIndex === -1) continue;
@@ -385,6 +396,9 @@ function parseSkillFrontmatter(content: string): SkillFrontmatter | null {
       frontmatter.references = refsValue.split(/[\s,]+/).filter(t => t);
     }
   }
+  if (metadata['allowed-tools'] !== undefined && frontmatter['allowed-tools'] === undefined) {
+    frontmatter['allowed-tools'] = metadata['allowed-tools'];
+  }
   if ((frontmatter as any).references) {
     const refsValue = (frontmatter as any).references;
     if (Array.isArray(refsValue)) {
@@ -730,6 +744,7 @@ function convertToDomainSkill(frontmatter: SkillFrontmatter, skillPath: string,
       tags: frontmatter.tags || [],
       author: frontmatter.author || 'unknown',
       path: skillPath,
+      ...(frontmatter['allowed-tools'] !== undefined && { allowedTools: frontmatter['allowed-tools'] }),
     },
     content: fullContent,
   };
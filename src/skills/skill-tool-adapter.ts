@@ -10,6 +10,7 @@
  * @version 1.0.0
  */
 
+import { z } from 'zod';
 import type { Skill } from '../agent/domain/types.js';
 import type { JSONSchema } from '../core/domain/tool.js';
 import type { ToolDefinition } from '../llm/provider.js';
@@ -25,6 +26,25 @@ export interface SkillToolDefinition extends ToolDefinition {
   _skillRef?: Skill;
 }
 
+/**
+ * 将 zod Schema 转换为 Function Calling 参数定义 (JSON Schema)
+ *
+ * 使用输入视角 (io: 'input')，带默认值的字段不会被标记为必填。
+ * 无法表示为 JSON Schema 的类型（如 transform）返回 undefined。
+ */
+export function zodToToolParameters(schema: z.ZodType<unknown>): Record<string, unknown> | undefined {
+  try {
+    const jsonSchema = z.toJSONSchema(schema, { io: 'input' }) as Record<string, unknown>;
+    delete jsonSchema.$schema;
+    if (jsonSchema.type !== 'object') {
+      return undefined;
+    }
+    return jsonSchema;
+  } catch {
+    return undefined;
+  }
+}
+
 export class SkillToolAdapter {
   private config: Required<SkillToolAdapterConfig>;
 
@@ -38,7 +58,20 @@ export class SkillToolAdapter {
 
   skillToToolDefinition(skill: Skill): SkillToolDefinition {
     const functionName = `${this.config.prefix}${skill.name}`;
-    
+    const description = this.config.includeDescription
+      ? skill.description || `Execute the ${skill.name} skill`
+      : `Execute ${skill.name}`;
+
+    const jsonParameters = skill.inputSchema ? zodToToolParameters(skill.inputSchema) : undefined;
+    if (jsonParameters && Object.keys((jsonParameters.properties as object) || {}).length > 0) {
+      return {
+        type: 'function',
+        function: { name: functionName, description, parameters: jsonParameters },
+        _skillName: skill.name,
+        _skillRef: skill,
+      };
+    }
+
     const properties: Record<string, JSONSchema> = {};
     const required: string[] = [];
 
@@ -96,9 +129,7 @@ export class SkillToolAdapter {
       type: 'function',
       function: {
         name: functionName,
-        description: this.config.includeDescription 
-          ? skill.description || `Execute the ${skill.name} skill`
-          : `Execute ${skill.name}`,
+        description,
         parameters: {
           type: 'object',
           properties: properties as Record<string, unknown>,
@@ -150,6 +150,8 @@ export interface ParsedSkillFrontmatter {
   commandArgMode?: 'raw';
   /** 原始元数据字符串 */
   metadata?: string;
+  /** 允许调用的工具（allowed-tools） */
+  allowedTools?: string | string[];
 }
 
 // ============================================================================
@@ -206,6 +208,8 @@ export interface SkillMetadata {
   dependencies?: string[];
   /** OpenClaw 扩展元数据 */
   openclaw?: OpenClawSkillMetadata;
+  /** 允许调用的工具（allowed-tools），未声明则不限制 */
+  allowedTools?: string | string[];
 }
 
 // ============================================================================
@@ -0,0 +1,85 @@
+/**
+ * 内容编解码：gzip 压缩与 AES-256-GCM 加密
+ *
+ * 加密格式: iv(12) + authTag(16) + ciphertext，密钥由配置字符串 SHA-256 派生
+ *
+ * @module Storage
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { gunzipSync, gzipSync } from 'zlib';
+import type { ReadOptions, WriteOptions } from './storage-manager.js';
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export interface EncodedContent {
+  content: Buffer;
+  /** 原始内容大小 */
+  size: number;
+  /** 原始内容 SHA-256 */
+  hash: string;
+  compressed: boolean;
+  encrypted: boolean;
+}
+
+export class ContentCodec {
+  private key?: Buffer;
+
+  /**
+   * @param encryptionKey 加密密钥；未配置时加密写入会抛出异常
+   * @param owner 错误信息中的后端名称（如 MemoryBackend）
+   */
+  constructor(encryptionKey: unknown, private owner: string) {
+    if (typeof encryptionKey === 'string' && encryptionKey) {
+      this.key = createHash('sha256').update(encryptionKey).digest();
+    }
+  }
+
+  encode(content: Buffer, options: WriteOptions): EncodedContent {
+    let stored = content;
+    if (options.compress) {
+      stored = gzipSync(stored, { level: options.compressionLevel || 6 });
+    }
+    if (options.encrypt) {
+      const iv = randomBytes(IV_LENGTH);
+      const cipher = createCipheriv('aes-256-gcm', this.requireKey('Encryption requested'), iv);
+      const encrypted = Buffer.concat([cipher.update(stored), cipher.final()]);
+      stored = Buffer.concat([iv, cipher.getAuthTag(), encrypted]);
+    }
+
+    return {
+      content: stored,
+      size: content.length,
+      hash: createHash('sha256').update(content).digest('hex'),
+      compressed: !!options.compress,
+      encrypted: !!options.encrypt,
+    };
+  }
+
+  /**
+   * 按存储时的标记还原内容；options.decrypt/decompress 为 false 时保留对应层
+   */
+  decode(content: Buffer, flags: { compressed: boolean; encrypted: boolean }, options: ReadOptions = {}): Buffer {
+    let result = content;
+
+    if (flags.encrypted) {
+      if (options.decrypt === false) return result;
+      const decipher = createDecipheriv('aes-256-gcm', this.requireKey('Cannot decrypt content'), result.subarray(0, IV_LENGTH));
+      decipher.setAuthTag(result.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+      result = Buffer.concat([decipher.update(result.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+    }
+
+    if (flags.compressed && options.decompress !== false) {
+      result = gunzipSync(result);
+    }
+    return result;
+  }
+
+  private requireKey(action: string): Buffer {
+    if (!this.key) {
+      throw new Error(`${action} but no encryptionKey is configured for ${this.owner}`);
+    }
+    return this.key;
+  }
+}
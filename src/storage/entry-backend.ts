@@ -0,0 +1,497 @@
+/**
+ * 条目存储后端基类
+ *
+ * 将文件与目录建模为以规范化路径为键的条目（内容 + 元数据），
+ * 目录语义、压缩/加密、流与 watch 分发在此统一实现；
+ * 子类只需提供同步的条目读写原语与原子执行（内存快照或数据库事务）。
+ *
+ * @module Storage
+ */
+
+import * as path from 'path';
+import { Readable, Writable } from 'stream';
+import { EventEmitter } from 'events';
+import { Logger, createLogger } from '../utils/logger.js';
+import { ContentCodec } from './content-codec.js';
+import { getMimeType } from './mime.js';
+import type {
+  BackendConfig,
+  BackendStats,
+  FileMetadata,
+  IStorageBackend,
+  ListOptions,
+  Operation,
+  ReadOptions,
+  StorageBackend,
+  WatchOptions,
+  WriteOptions,
+} from './storage-manager.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type StorageChangeEvent = 'add' | 'change' | 'unlink' | 'addDir' | 'unlinkDir';
+
+/**
+ * 存储条目，path 为规范化路径（无前导 `/`，根目录为空字符串）
+ */
+export interface StoredEntry {
+  path: string;
+  isDirectory: boolean;
+  /** 存储的内容（可能已压缩/加密），目录为 null */
+  content: Buffer | null;
+  /** 原始内容大小 */
+  size: number;
+  /** 存储后大小 */
+  storedSize: number;
+  /** 原始内容 SHA-256 */
+  hash?: string;
+  compressed: boolean;
+  encrypted: boolean;
+  mimeType?: string;
+  mode: number;
+  createdAt: number;
+  modifiedAt: number;
+}
+
+const FILE_MODE = 0o100644;
+const DIRECTORY_MODE = 0o040755;
+
+// ============================================================================
+// Paths
+// ============================================================================
+
+/**
+ * 规范化存储路径：统一 `/` 分隔、去掉前导与结尾 `/`，`..` 不会越过根目录
+ */
+export function normalizeStoragePath(filePath: string): string {
+  const normalized = path.posix.normalize(`/${filePath.replace(/\\/g, '/')}`);
+  return normalized === '/' ? '' : normalized.replace(/\/$/, '').slice(1);
+}
+
+function parentOf(entryPath: string): string {
+  const index = entryPath.lastIndexOf('/');
+  return index === -1 ? '' : entryPath.slice(0, index);
+}
+
+function isWithin(dir: string, entryPath: string, recursive: boolean): boolean {
+  if (entryPath === dir) return false;
+  if (dir !== '' && !entryPath.startsWith(`${dir}/`)) return false;
+  return recursive || parentOf(entryPath) === dir;
+}
+
+/**
+ * 构造与 fs 模块一致的错误（带 code 与 path）
+ */
+export function storageError(code: string, message: string, entryPath: string): NodeJS.ErrnoException {
+  return Object.assign(new Error(`${code}: ${message}, '${entryPath}'`), { code, path: entryPath });
+}
+
+// ============================================================================
+// Entry Storage Backend
+// ============================================================================
+
+export abstract class EntryStorageBackend extends EventEmitter implements IStorageBackend {
+  abstract readonly name: StorageBackend;
+  abstract readonly isAvailable: boolean;
+
+  protected config: BackendConfig;
+  protected logger: Logger;
+  private codec: ContentCodec;
+  private watcherCount = 0;
+
+  constructor(config: BackendConfig, logger?: Logger) {
+    super();
+    this.config = config;
+    this.logger = logger || createLogger({ name: this.constructor.name });
+    this.codec = new ContentCodec(config.options.encryptionKey, this.constructor.name);
+  }
+
+  abstract initialize(): Promise<void>;
+  abstract close(): Promise<void>;
+
+  // ==========================================================================
+  // 子类原语（同步，便于在事务中组合）
+  // ==========================================================================
+
+  protected abstract getEntry(entryPath: string): StoredEntry | undefined;
+  /** 插入或覆盖条目 */
+  protected abstract putEntry(entry: StoredEntry): void;
+  protected abstract removeEntry(entryPath: string): void;
+  /** 列出目录下的条目（不含目录自身） */
+  protected abstract listEntries(dir: string, recursive: boolean): StoredEntry[];
+  /** 原子执行：fn 抛出异常时撤销其中的全部修改 */
+  protected abstract atomic<T>(fn: () => T): T;
+
+  /** 首个 watcher 注册时调用 */
+  protected startWatching(): void {}
+  /** 最后一个 watcher 取消时调用 */
+  protected stopWatching(): void {}
+
+  /**
+   * 分发变更事件给 watcher
+   */
+  protected notify(type: StorageChangeEvent, entryPath: string): void {
+    this.emit('watch:event', { type, path: entryPath });
+  }
+
+  // ==========================================================================
+  // IStorageBackend
+  // ==========================================================================
+
+  async readFile(filePath: string, options: ReadOptions = {}): Promise<Buffer | string> {
+    const entryPath = normalizeStoragePath(filePath);
+    const entry = this.getEntry(entryPath);
+    if (!entry) throw storageError('ENOENT', 'no such file or directory', filePath);
+    if (entry.isDirectory) throw storageError('EISDIR', 'illegal operation on a directory', filePath);
+
+    let content = this.decode(entry, options);
+    if (options.start !== undefined || options.end !== undefined) {
+      // 与 fs.createReadStream 一致，end 为闭区间
+      content = content.subarray(options.start ?? 0, options.end === undefined ? undefined : options.end + 1);
+    }
+    return options.encoding ? content.toString(options.encoding) : content;
+  }
+
+  async writeFile(filePath: string, content: Buffer | string, options: WriteOptions = {}): Promise<void> {
+    const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content, options.encoding || 'utf-8');
+    const size = this.atomic(() => this.writeEntry(normalizeStoragePath(filePath), buffer, options));
+    this.emit('file:written', { path: filePath, size });
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    this.deleteEntry(normalizeStoragePath(filePath));
+    this.emit('file:deleted', { path: filePath });
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    const entryPath = normalizeStoragePath(filePath);
+    return entryPath === '' || this.getEntry(entryPath) !== undefined;
+  }
+
+  async stat(filePath: string): Promise<FileMetadata | null> {
+    const entryPath = normalizeStoragePath(filePath);
+    if (entryPath === '') return this.toMetadata(this.rootEntry());
+    const entry = this.getEntry(entryPath);
+    return entry ? this.toMetadata(entry) : null;
+  }
+
+  async listDirectory(dirPath: string, options: ListOptions = {}): Promise<FileMetadata[]> {
+    const dir = normalizeStoragePath(dirPath);
+    this.requireDirectory(dir, dirPath);
+
+    const results: FileMetadata[] = [];
+    for (const entry of this.listEntries(dir, options.recursive ?? false)) {
+      const metadata = this.toMetadata(entry);
+      if (options.filter && !options.filter(path.posix.basename(entry.path), metadata)) continue;
+      results.push(metadata);
+    }
+
+    if (options.sortBy) {
+      results.sort((a, b) => {
+        let comparison = 0;
+        switch (options.sortBy) {
+          case 'name': comparison = a.path.localeCompare(b.path); break;
+          case 'size': comparison = a.size - b.size; break;
+          case 'modifiedAt': comparison = a.modifiedAt.getTime() - b.modifiedAt.getTime(); break;
+          case 'createdAt': comparison = a.createdAt.getTime() - b.createdAt.getTime(); break;
+        }
+        return options.sortOrder === 'desc' ? -comparison : comparison;
+      });
+    }
+
+    return results;
+  }
+
+  async createDirectory(dirPath: string, recursive = true): Promise<void> {
+    const dir = normalizeStoragePath(dirPath);
+    this.atomic(() => {
+      const existing = dir === '' ? this.rootEntry() : this.getEntry(dir);
+      if (existing) {
+        if (existing.isDirectory && recursive) return;
+        throw storageError('EEXIST', 'file already exists', dirPath);
+      }
+      if (recursive) {
+        this.ensureParents(dir, dirPath);
+      } else {
+        this.requireDirectory(parentOf(dir), dirPath);
+      }
+      this.putEntry(this.directoryEntry(dir));
+    });
+  }
+
+  async deleteDirectory(dirPath: string, recursive = true): Promise<void> {
+    const dir = normalizeStoragePath(dirPath);
+    this.atomic(() => {
+      if (dir !== '') {
+        const entry = this.getEntry(dir);
+        if (!entry) {
+          // 与 fs.rm({ force: true }) 一致
+          if (recursive) return;
+          throw storageError('ENOENT', 'no such file or directory', dirPath);
+        }
+        if (!entry.isDirectory) throw storageError('ENOTDIR', 'not a directory', dirPath);
+      }
+
+      const children = this.listEntries(dir, true);
+      if (!recursive && children.length > 0) {
+        throw storageError('ENOTEMPTY', 'directory not empty', dirPath);
+      }
+      for (const child of children) {
+        this.removeEntry(child.path);
+      }
+      if (dir !== '') this.removeEntry(dir);
+    });
+  }
+
+  async move(source: string, target: string): Promise<void> {
+    this.atomic(() => this.moveEntry(normalizeStoragePath(source), normalizeStoragePath(target)));
+  }
+
+  async copy(source: string, target: string): Promise<void> {
+    this.atomic(() => this.copyEntry(normalizeStoragePath(source), normalizeStoragePath(target)));
+  }
+
+  createReadStream(filePath: string, options: ReadOptions = {}): NodeJS.ReadableStream {
+    const read = () => this.readFile(filePath, { ...options, encoding: null });
+    return Readable.from(
+      (async function* () {
+        yield await read();
+      })(),
+      { objectMode: false }
+    );
+  }
+
+  createWriteStream(filePath: string, options: WriteOptions = {}): NodeJS.WritableStream {
+    const chunks: Buffer[] = [];
+    return new Writable({
+      write: (chunk: Buffer | string, encoding, callback) => {
+        chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding));
+        callback();
+      },
+      final: callback => {
+        this.writeFile(filePath, Buffer.concat(chunks), options).then(() => callback(), callback);
+      },
+    });
+  }
+
+  async watch(
+    dirPath: string,
+    options: WatchOptions,
+    callback: (event: string, filePath: string) => void
+  ): Promise<() => void> {
+    const dir = normalizeStoragePath(dirPath);
+    const listener = (event: { type: StorageChangeEvent; path: string }) => {
+      if (!isWithin(dir, event.path, options.recursive ?? false)) return;
+      if (options.events && !options.events.includes(event.type)) return;
+      callback(event.type, event.path);
+    };
+
+    this.on('watch:event', listener);
+    if (++this.watcherCount === 1) this.startWatching();
+    this.logger.info(`Started watching: ${dirPath}`);
+
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      this.off('watch:event', listener);
+      if (--this.watcherCount === 0) this.stopWatching();
+      this.logger.info(`Stopped watching: ${dirPath}`);
+    };
+  }
+
+  async getStats(): Promise<BackendStats> {
+    const files = this.listEntries('', true).filter(entry => !entry.isDirectory);
+    return {
+      size: files.reduce((total, entry) => total + entry.size, 0),
+      count: files.length,
+    };
+  }
+
+  /**
+   * 原子应用一组事务操作，任一失败则全部撤销
+   */
+  async applyTransaction(operations: Operation[]): Promise<void> {
+    this.atomic(() => {
+      for (const op of operations) {
+        const source = normalizeStoragePath(op.source);
+        switch (op.type) {
+          case 'write': {
+            const content = op.content ?? '';
+            this.writeEntry(source, Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf-8'), {});
+            break;
+          }
+          case 'delete':
+            this.deleteEntry(source, true);
+            break;
+          case 'move':
+          case 'copy': {
+            if (op.target === undefined) {
+              throw new Error(`Transaction ${op.type} operation requires a target: ${op.source}`);
+            }
+            const target = normalizeStoragePath(op.target);
+            if (op.type === 'move') {
+              this.moveEntry(source, target);
+            } else {
+              this.copyEntry(source, target);
+            }
+            break;
+          }
+        }
+      }
+    });
+  }
+
+  // ==========================================================================
+  // 同步操作
+  // ==========================================================================
+
+  private writeEntry(entryPath: string, buffer: Buffer, options: WriteOptions): number {
+    const existing = this.getEntry(entryPath);
+    if (entryPath === '' || existing?.isDirectory) {
+      throw storageError('EISDIR', 'illegal operation on a directory', entryPath);
+    }
+
+    const content = options.mode === 'append' && existing
+      ? Buffer.concat([this.decode(existing, {}), buffer])
+      : buffer;
+
+    this.ensureParents(entryPath, entryPath);
+    const now = Date.now();
+    this.putEntry({
+      ...this.encode(content, options),
+      path: entryPath,
+      isDirectory: false,
+      mimeType: getMimeType(entryPath),
+      mode: existing?.mode ?? FILE_MODE,
+      createdAt: existing?.createdAt ?? now,
+      modifiedAt: now,
+    });
+    return content.length;
+  }
+
+  private deleteEntry(entryPath: string, allowDirectory = false): void {
+    const entry = this.getEntry(entryPath);
+    if (!entry) throw storageError('ENOENT', 'no such file or directory', entryPath);
+
+    if (entry.isDirectory) {
+      if (!allowDirectory) throw storageError('EISDIR', 'illegal operation on a directory', entryPath);
+      this.atomic(() => {
+        for (const child of this.listEntries(entryPath, true)) {
+          this.removeEntry(child.path);
+        }
+        this.removeEntry(entryPath);
+      });
+      return;
+    }
+    this.removeEntry(entryPath);
+  }
+
+  private moveEntry(source: string, target: string): void {
+    const entry = this.getEntry(source);
+    if (!entry) throw storageError('ENOENT', 'no such file or directory', source);
+    if (source === target) return;
+    if (target === '' || target.startsWith(`${source}/`)) {
+      throw storageError('EINVAL', 'cannot move a directory into itself', target);
+    }
+
+    const existing = this.getEntry(target);
+    if (existing?.isDirectory) throw storageError('EISDIR', 'target is a directory', target);
+    if (existing && entry.isDirectory) throw storageError('ENOTDIR', 'target is not a directory', target);
+    this.ensureParents(target, target);
+
+    const now = Date.now();
+    const moved = entry.isDirectory ? [entry, ...this.listEntries(source, true)] : [entry];
+    for (const item of moved) {
+      this.removeEntry(item.path);
+      this.putEntry({ ...item, path: target + item.path.slice(source.length), modifiedAt: now });
+    }
+  }
+
+  private copyEntry(source: string, target: string): void {
+    const entry = this.getEntry(source);
+    if (!entry) throw storageError('ENOENT', 'no such file or directory', source);
+    if (entry.isDirectory) throw storageError('EISDIR', 'illegal operation on a directory', source);
+    if (this.getEntry(target)?.isDirectory) throw storageError('EISDIR', 'target is a directory', target);
+
+    this.ensureParents(target, target);
+    const now = Date.now();
+    this.putEntry({ ...entry, path: target, createdAt: now, modifiedAt: now });
+  }
+
+  /**
+   * 创建缺失的父目录；祖先是文件时抛出 ENOTDIR
+   */
+  private ensureParents(entryPath: string, displayPath: string): void {
+    const missing: string[] = [];
+    for (let dir = parentOf(entryPath); dir !== ''; dir = parentOf(dir)) {
+      const entry = this.getEntry(dir);
+      if (entry) {
+        if (!entry.isDirectory) throw storageError('ENOTDIR', 'not a directory', displayPath);
+        break;
+      }
+      missing.unshift(dir);
+    }
+    for (const dir of missing) {
+      this.putEntry(this.directoryEntry(dir));
+    }
+  }
+
+  private requireDirectory(dir: string, displayPath: string): void {
+    if (dir === '') return;
+    const entry = this.getEntry(dir);
+    if (!entry) throw storageError('ENOENT', 'no such file or directory', displayPath);
+    if (!entry.isDirectory) throw storageError('ENOTDIR', 'not a directory', displayPath);
+  }
+
+  private directoryEntry(dir: string): StoredEntry {
+    const now = Date.now();
+    return {
+      path: dir,
+      isDirectory: true,
+      content: null,
+      size: 0,
+      storedSize: 0,
+      compressed: false,
+      encrypted: false,
+      mode: DIRECTORY_MODE,
+      createdAt: now,
+      modifiedAt: now,
+    };
+  }
+
+  private rootEntry(): StoredEntry {
+    return { ...this.directoryEntry(''), createdAt: 0, modifiedAt: 0 };
+  }
+
+  private encode(content: Buffer, options: WriteOptions): Omit<StoredEntry, 'path' | 'isDirectory' | 'mode' | 'createdAt' | 'modifiedAt'> {
+    const encoded = this.codec.encode(content, options);
+    return { ...encoded, storedSize: encoded.content.length };
+  }
+
+  private decode(entry: StoredEntry, options: ReadOptions): Buffer {
+    return this.codec.decode(entry.content ?? Buffer.alloc(0), entry, options);
+  }
+
+  private toMetadata(entry: StoredEntry): FileMetadata {
+    return {
+      path: entry.path,
+      size: entry.size,
+      createdAt: new Date(entry.createdAt),
+      modifiedAt: new Date(entry.modifiedAt),
+      accessedAt: new Date(entry.modifiedAt),
+      isDirectory: entry.isDirectory,
+      isFile: !entry.isDirectory,
+      isSymbolicLink: false,
+      mode: entry.mode,
+      uid: process.getuid?.() ?? 0,
+      gid: process.getgid?.() ?? 0,
+      hash: entry.hash,
+      compressedSize: entry.compressed ? entry.storedSize : undefined,
+      encrypted: entry.encrypted,
+      mimeType: entry.mimeType,
+    };
+  }
+}
@@ -23,6 +23,22 @@ export {
   createStorageManager,
 } from './storage-manager.js';
 
+// 条目存储后端 (SQLite / 内存)
+export { EntryStorageBackend, normalizeStoragePath } from './entry-backend.js';
+export { MemoryBackend } from './memory-backend.js';
+export { SqliteBackend, isSqliteAvailable, openSqliteDatabase } from './sqlite-backend.js';
+
+// S3 兼容对象存储
+export { S3Backend, S3Error } from './s3-backend.js';
+export { signRequest, encodeRfc3986, sha256Hex } from './sigv4.js';
+export { ContentCodec } from './content-codec.js';
+
+export type { StoredEntry, StorageChangeEvent } from './entry-backend.js';
+export type { SqliteDatabase, SqliteStatement, SqliteValue } from './sqlite-backend.js';
+export type { S3BackendOptions } from './s3-backend.js';
+export type { AwsCredentials, SignableRequest, SignOptions } from './sigv4.js';
+export type { EncodedContent } from './content-codec.js';
+
 export type {
   StorageBackend,
   StorageManagerConfig,
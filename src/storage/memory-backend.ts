@@ -0,0 +1,92 @@
+/**
+ * 内存存储后端
+ *
+ * 纯内存实现，进程退出即丢失，适用于测试与临时数据。
+ * 事务通过快照实现，提交前的变更事件会缓冲到提交后再分发。
+ *
+ * @module Storage
+ */
+
+import type { Logger } from '../utils/logger.js';
+import { EntryStorageBackend, type StorageChangeEvent, type StoredEntry } from './entry-backend.js';
+import type { BackendConfig, StorageBackend } from './storage-manager.js';
+
+export class MemoryBackend extends EntryStorageBackend {
+  readonly name: StorageBackend = 'memory';
+  readonly isAvailable = true;
+
+  private entries = new Map<string, StoredEntry>();
+  /** 事务进行中时缓冲的事件 */
+  private pending: Array<{ type: StorageChangeEvent; path: string }> | null = null;
+
+  constructor(config: BackendConfig = { enabled: true, priority: 0, options: {} }, logger?: Logger) {
+    super(config, logger);
+  }
+
+  async initialize(): Promise<void> {
+    this.logger.info('Memory backend initialized');
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+    this.removeAllListeners('watch:event');
+  }
+
+  protected getEntry(entryPath: string): StoredEntry | undefined {
+    return this.entries.get(entryPath);
+  }
+
+  protected putEntry(entry: StoredEntry): void {
+    const existed = this.entries.has(entry.path);
+    this.entries.set(entry.path, entry);
+    this.notify(existed ? 'change' : entry.isDirectory ? 'addDir' : 'add', entry.path);
+  }
+
+  protected removeEntry(entryPath: string): void {
+    const entry = this.entries.get(entryPath);
+    if (!entry) return;
+    this.entries.delete(entryPath);
+    this.notify(entry.isDirectory ? 'unlinkDir' : 'unlink', entryPath);
+  }
+
+  protected listEntries(dir: string, recursive: boolean): StoredEntry[] {
+    const prefix = dir === '' ? '' : `${dir}/`;
+    const results: StoredEntry[] = [];
+    for (const [entryPath, entry] of this.entries) {
+      if (!entryPath.startsWith(prefix)) continue;
+      if (!recursive && entryPath.slice(prefix.length).includes('/')) continue;
+      results.push(entry);
+    }
+    // 与 SQLite 的 BINARY 排序一致
+    return results.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+  }
+
+  protected atomic<T>(fn: () => T): T {
+    if (this.pending) return fn();
+
+    // 条目对象不可变（总是整体替换），浅拷贝即可作为快照
+    const snapshot = new Map(this.entries);
+    this.pending = [];
+    try {
+      const result = fn();
+      const events = this.pending;
+      this.pending = null;
+      for (const event of events) {
+        super.notify(event.type, event.path);
+      }
+      return result;
+    } catch (error) {
+      this.entries = snapshot;
+      this.pending = null;
+      throw error;
+    }
+  }
+
+  protected notify(type: StorageChangeEvent, entryPath: string): void {
+    if (this.pending) {
+      this.pending.push({ type, path: entryPath });
+    } else {
+      super.notify(type, entryPath);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * MIME 类型推断（按扩展名）
+ *
+ * @module Storage
+ */
+
+import * as path from 'path';
+
+const MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.json': 'application/json',
+  '.md': 'text/markdown',
+  '.js': 'application/javascript',
+  '.ts': 'application/typescript',
+  '.html': 'text/html',
+  '.css': 'text/css',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.pdf': 'application/pdf',
+};
+
+export function getMimeType(filePath: string): string | undefined {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()];
+}
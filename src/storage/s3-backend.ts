@@ -0,0 +1,778 @@
+/**
+ * S3 兼容对象存储后端
+ *
+ * 直接调用 S3 REST API（SigV4 签名，无需 AWS SDK），兼容 MinIO 等服务：
+ * - 目录映射为键前缀，createDirectory 写入 `dir/` 目录标记对象
+ * - createWriteStream 超过分片大小时使用 multipart upload
+ * - copy/move 使用服务端复制
+ * - watch 通过定期列举前缀比较 ETag 实现
+ *
+ * @module Storage
+ */
+
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import { Readable, Writable } from 'stream';
+import { Logger, createLogger } from '../utils/logger.js';
+import { ContentCodec } from './content-codec.js';
+import { normalizeStoragePath, storageError } from './entry-backend.js';
+import { getMimeType } from './mime.js';
+import { encodeRfc3986, signRequest, type AwsCredentials } from './sigv4.js';
+import type {
+  BackendConfig,
+  BackendStats,
+  FileMetadata,
+  IStorageBackend,
+  ListOptions,
+  ReadOptions,
+  StorageBackend,
+  WatchOptions,
+  WriteOptions,
+} from './storage-manager.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * BackendConfig.options
+ */
+export interface S3BackendOptions {
+  bucket: string;
+  /** 服务地址，默认 `https://s3.<region>.amazonaws.com` */
+  endpoint?: string;
+  region?: string;
+  /** 默认读取 AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY / AWS_SESSION_TOKEN */
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  sessionToken?: string;
+  /** 路径风格寻址（`endpoint/bucket/key`），配置 endpoint 时默认启用 */
+  forcePathStyle?: boolean;
+  /** 所有对象键的公共前缀 */
+  prefix?: string;
+  /** multipart 分片大小（字节），默认 8MB；S3 要求除最后一片外不小于 5MB */
+  partSize?: number;
+  /** watch 轮询间隔（毫秒），默认 5000 */
+  pollInterval?: number;
+  /** 存储桶不存在时自动创建 */
+  createBucket?: boolean;
+  encryptionKey?: string;
+}
+
+interface S3Object {
+  key: string;
+  size: number;
+  lastModified: Date;
+  etag: string;
+}
+
+interface ListPage {
+  objects: S3Object[];
+  prefixes: string[];
+}
+
+/**
+ * S3 服务返回的错误
+ */
+export class S3Error extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: string
+  ) {
+    super(message);
+    this.name = 'S3Error';
+  }
+}
+
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+const DEFAULT_POLL_INTERVAL = 5000;
+const DELETE_BATCH_SIZE = 1000;
+const FILE_MODE = 0o100644;
+const DIRECTORY_MODE = 0o040755;
+const META_PREFIX = 'x-amz-meta-';
+
+// ============================================================================
+// XML
+// ============================================================================
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function encodeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const block = xmlBlocks(xml, tag)[0];
+  return block === undefined ? undefined : decodeXml(block);
+}
+
+// ============================================================================
+// S3 Backend
+// ============================================================================
+
+export class S3Backend extends EventEmitter implements IStorageBackend {
+  readonly name: StorageBackend = 's3';
+
+  private logger: Logger;
+  private options: S3BackendOptions;
+  private codec: ContentCodec;
+  private endpoint: URL;
+  private region: string;
+  private pathStyle: boolean;
+  private prefix: string;
+  private initialized = false;
+  private pollers = new Set<ReturnType<typeof setInterval>>();
+
+  constructor(config: BackendConfig, logger?: Logger) {
+    super();
+    this.options = config.options as unknown as S3BackendOptions;
+    this.logger = logger || createLogger({ name: 'S3Backend' });
+    this.codec = new ContentCodec(this.options.encryptionKey, 'S3Backend');
+    this.region = this.options.region ?? process.env.AWS_REGION ?? 'us-east-1';
+    this.endpoint = new URL(this.options.endpoint ?? `https://s3.${this.region}.amazonaws.com`);
+    this.pathStyle = this.options.forcePathStyle ?? this.options.endpoint !== undefined;
+    this.prefix = normalizeStoragePath(this.options.prefix ?? '');
+  }
+
+  get isAvailable(): boolean {
+    return this.initialized;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.options.bucket) {
+      throw new Error('S3 backend requires a bucket');
+    }
+    this.credentials();
+
+    const response = await this.send('HEAD', null);
+    if (response.status === 404 && this.options.createBucket) {
+      const body = this.region === 'us-east-1'
+        ? undefined
+        : Buffer.from(
+            `<CreateBucketConfiguration><LocationConstraint>${this.region}</LocationConstraint></CreateBucketConfiguration>`
+          );
+      await this.check(await this.send('PUT', null, { body }), this.options.bucket);
+    } else {
+      await this.check(response, this.options.bucket);
+    }
+
+    this.initialized = true;
+    this.logger.info(`S3 backend initialized: ${this.endpoint.origin}/${this.options.bucket}`);
+  }
+
+  async close(): Promise<void> {
+    for (const timer of this.pollers) {
+      clearInterval(timer);
+    }
+    this.pollers.clear();
+    this.initialized = false;
+  }
+
+  // ==========================================================================
+  // Files
+  // ==========================================================================
+
+  async readFile(filePath: string, options: ReadOptions = {}): Promise<Buffer | string> {
+    const key = this.objectKey(filePath);
+    const ranged = options.start !== undefined || options.end !== undefined;
+
+    let response = await this.send('GET', key, { headers: ranged ? { range: this.rangeHeader(options) } : {} });
+    await this.check(response, filePath);
+    const flags = this.encodingFlags(response.headers);
+    let content: Buffer;
+
+    if (ranged && (flags.compressed || flags.encrypted)) {
+      // 压缩或加密的对象无法按字节范围读取，取回完整对象后截取
+      await response.body?.cancel();
+      response = await this.send('GET', key);
+      await this.check(response, filePath);
+      content = this.codec.decode(Buffer.from(await response.arrayBuffer()), flags, options);
+      content = content.subarray(options.start ?? 0, options.end === undefined ? undefined : options.end + 1);
+    } else {
+      content = this.codec.decode(Buffer.from(await response.arrayBuffer()), flags, options);
+    }
+
+    return options.encoding ? content.toString(options.encoding) : content;
+  }
+
+  async writeFile(filePath: string, content: Buffer | string, options: WriteOptions = {}): Promise<void> {
+    let buffer = Buffer.isBuffer(content) ? content : Buffer.from(content, options.encoding || 'utf-8');
+
+    if (options.mode === 'append') {
+      const existing = await this.readFile(filePath).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      });
+      if (existing) buffer = Buffer.concat([existing as Buffer, buffer]);
+    }
+
+    const encoded = this.codec.encode(buffer, options);
+    const headers: Record<string, string> = {
+      'content-type': getMimeType(filePath) ?? 'application/octet-stream',
+      [`${META_PREFIX}size`]: String(encoded.size),
+      [`${META_PREFIX}sha256`]: encoded.hash,
+    };
+    if (encoded.compressed) headers[`${META_PREFIX}compressed`] = 'gzip';
+    if (encoded.encrypted) headers[`${META_PREFIX}encrypted`] = 'aes-256-gcm';
+
+    // S3 的单次 PUT 本身是原子的，无需 atomic 模式的临时对象
+    await this.check(await this.send('PUT', this.objectKey(filePath), { headers, body: encoded.content }), filePath);
+    this.emit('file:written', { path: filePath, size: buffer.length });
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    const key = this.objectKey(filePath);
+    // DELETE 对不存在的键也返回成功，先 HEAD 以保持 fs 的 ENOENT 语义
+    await this.check(await this.send('HEAD', key), filePath);
+    await this.check(await this.send('DELETE', key), filePath);
+    this.emit('file:deleted', { path: filePath });
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return (await this.stat(filePath)) !== null;
+  }
+
+  async stat(filePath: string): Promise<FileMetadata | null> {
+    const entryPath = normalizeStoragePath(filePath);
+    if (entryPath === '') return this.directoryMetadata('');
+
+    const response = await this.send('HEAD', this.objectKey(filePath));
+    if (response.ok) {
+      return this.fileMetadata(entryPath, response.headers);
+    }
+    if (response.status !== 404) {
+      await this.check(response, filePath);
+    }
+
+    const page = await this.listPage(this.directoryPrefix(entryPath), undefined, 1);
+    return page.objects.length > 0 ? this.directoryMetadata(entryPath) : null;
+  }
+
+  // ==========================================================================
+  // Directories
+  // ==========================================================================
+
+  async listDirectory(dirPath: string, options: ListOptions = {}): Promise<FileMetadata[]> {
+    const dir = normalizeStoragePath(dirPath);
+    const prefix = this.directoryPrefix(dir);
+    const entries = new Map<string, FileMetadata>();
+    let found = dir === '';
+
+    const addDirectory = (entryPath: string) => {
+      if (entryPath !== dir && !entries.has(entryPath)) {
+        entries.set(entryPath, this.directoryMetadata(entryPath));
+      }
+    };
+
+    for await (const page of this.listPages(prefix, options.recursive ? undefined : '/')) {
+      for (const commonPrefix of page.prefixes) {
+        found = true;
+        addDirectory(this.storagePath(commonPrefix.slice(0, -1)));
+      }
+      for (const object of page.objects) {
+        found = true;
+        const entryPath = this.storagePath(object.key.replace(/\/$/, ''));
+        if (object.key.endsWith('/')) {
+          addDirectory(entryPath);
+          continue;
+        }
+        entries.set(entryPath, this.listedMetadata(entryPath, object));
+        // 递归列举时补全没有目录标记的中间目录
+        for (let parent = entryPath.slice(0, entryPath.lastIndexOf('/')); parent.length > dir.length; ) {
+          addDirectory(parent);
+          parent = parent.slice(0, Math.max(parent.lastIndexOf('/'), 0));
+        }
+      }
+    }
+
+    if (!found) {
+      throw storageError('ENOENT', 'no such file or directory', dirPath);
+    }
+
+    const results = Array.from(entries.values())
+      .filter(metadata => !options.filter || options.filter(metadata.path.slice(metadata.path.lastIndexOf('/') + 1), metadata))
+      .sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+
+    if (options.sortBy) {
+      results.sort((a, b) => {
+        let comparison = 0;
+        switch (options.sortBy) {
+          case 'name': comparison = a.path.localeCompare(b.path); break;
+          case 'size': comparison = a.size - b.size; break;
+          case 'modifiedAt': comparison = a.modifiedAt.getTime() - b.modifiedAt.getTime(); break;
+          case 'createdAt': comparison = a.createdAt.getTime() - b.createdAt.getTime(); break;
+        }
+        return options.sortOrder === 'desc' ? -comparison : comparison;
+      });
+    }
+
+    return results;
+  }
+
+  async createDirectory(dirPath: string, _recursive = true): Promise<void> {
+    const dir = normalizeStoragePath(dirPath);
+    if (dir === '') return;
+    // 对象存储没有真正的目录，写入空的目录标记对象使空目录可见
+    const headers = { 'content-type': 'application/x-directory' };
+    await this.check(await this.send('PUT', this.directoryPrefix(dir), { headers, body: Buffer.alloc(0) }), dirPath);
+  }
+
+  async deleteDirectory(dirPath: string, recursive = true): Promise<void> {
+    const prefix = this.directoryPrefix(normalizeStoragePath(dirPath));
+    const keys: string[] = [];
+    for await (const page of this.listPages(prefix)) {
+      keys.push(...page.objects.map(object => object.key));
+    }
+
+    if (!recursive) {
+      if (keys.length === 0) throw storageError('ENOENT', 'no such file or directory', dirPath);
+      if (keys.some(key => key !== prefix)) throw storageError('ENOTEMPTY', 'directory not empty', dirPath);
+    }
+    await this.deleteObjects(keys);
+  }
+
+  async move(source: string, target: string): Promise<void> {
+    const sourceKey = this.objectKey(source);
+    const head = await this.send('HEAD', sourceKey);
+
+    if (head.ok) {
+      await this.copyObject(sourceKey, this.objectKey(target), source);
+      await this.check(await this.send('DELETE', sourceKey), source);
+      return;
+    }
+    if (head.status !== 404) {
+      await this.check(head, source);
+    }
+
+    // 目录：逐个服务端复制后批量删除
+    const sourcePrefix = this.directoryPrefix(normalizeStoragePath(source));
+    const targetPrefix = this.directoryPrefix(normalizeStoragePath(target));
+    if (targetPrefix.startsWith(sourcePrefix)) {
+      throw storageError('EINVAL', 'cannot move a directory into itself', target);
+    }
+
+    const keys: string[] = [];
+    for await (const page of this.listPages(sourcePrefix)) {
+      keys.push(...page.objects.map(object => object.key));
+    }
+    if (keys.length === 0) {
+      throw storageError('ENOENT', 'no such file or directory', source);
+    }
+
+    for (const key of keys) {
+      await this.copyObject(key, targetPrefix + key.slice(sourcePrefix.length), source);
+    }
+    await this.deleteObjects(keys);
+  }
+
+  async copy(source: string, target: string): Promise<void> {
+    await this.copyObject(this.objectKey(source), this.objectKey(target), source);
+  }
+
+  // ==========================================================================
+  // Streams
+  // ==========================================================================
+
+  createReadStream(filePath: string, options: ReadOptions = {}): NodeJS.ReadableStream {
+    const key = this.objectKey(filePath);
+    const ranged = options.start !== undefined || options.end !== undefined;
+
+    const chunks = async function* (this: S3Backend): AsyncGenerator<Buffer> {
+      const response = await this.send('GET', key, { headers: ranged ? { range: this.rangeHeader(options) } : {} });
+      await this.check(response, filePath);
+      const flags = this.encodingFlags(response.headers);
+
+      if ((flags.compressed || flags.encrypted) && options.decompress !== false) {
+        await response.body?.cancel();
+        yield (await this.readFile(filePath, { ...options, encoding: null })) as Buffer;
+        return;
+      }
+      if (response.body) {
+        for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+          yield Buffer.from(chunk);
+        }
+      }
+    };
+
+    return Readable.from(chunks.call(this), { objectMode: false });
+  }
+
+  /**
+   * 分片上传写入流；压缩、加密或追加写入时先缓冲再整体写入
+   */
+  createWriteStream(filePath: string, options: WriteOptions = {}): NodeJS.WritableStream {
+    if (options.compress || options.encrypt || options.mode === 'append') {
+      const chunks: Buffer[] = [];
+      return new Writable({
+        write: (chunk: Buffer, _encoding, callback) => {
+          chunks.push(Buffer.from(chunk));
+          callback();
+        },
+        final: callback => {
+          this.writeFile(filePath, Buffer.concat(chunks), options).then(() => callback(), callback);
+        },
+      });
+    }
+
+    const key = this.objectKey(filePath);
+    const partSize = this.options.partSize ?? DEFAULT_PART_SIZE;
+    const contentType = getMimeType(filePath) ?? 'application/octet-stream';
+    const hash = createHash('sha256');
+    const parts: Array<{ partNumber: number; etag: string }> = [];
+    let buffered: Buffer[] = [];
+    let bufferedBytes = 0;
+    let totalBytes = 0;
+    let uploadId: string | undefined;
+
+    const uploadPart = async (data: Buffer) => {
+      if (!uploadId) {
+        const response = await this.send('POST', key, { query: { uploads: '' }, headers: { 'content-type': contentType } });
+        await this.check(response, filePath);
+        uploadId = xmlValue(await response.text(), 'UploadId');
+        if (!uploadId) throw new S3Error('CreateMultipartUpload returned no UploadId', response.status);
+      }
+      const partNumber = parts.length + 1;
+      const response = await this.send('PUT', key, {
+        query: { partNumber: String(partNumber), uploadId },
+        body: data,
+      });
+      await this.check(response, filePath);
+      parts.push({ partNumber, etag: response.headers.get('etag') ?? '' });
+    };
+
+    const takeBuffered = (size: number): Buffer => {
+      const all = Buffer.concat(buffered);
+      buffered = size < all.length ? [all.subarray(size)] : [];
+      bufferedBytes = all.length - Math.min(size, all.length);
+      return all.subarray(0, size);
+    };
+
+    const abort = async () => {
+      if (!uploadId) return;
+      await this.send('DELETE', key, { query: { uploadId } }).catch(() => undefined);
+    };
+
+    return new Writable({
+      write: (chunk: Buffer, _encoding, callback) => {
+        const data = Buffer.from(chunk);
+        hash.update(data);
+        totalBytes += data.length;
+        buffered.push(data);
+        bufferedBytes += data.length;
+
+        (async () => {
+          while (bufferedBytes >= partSize) {
+            await uploadPart(takeBuffered(partSize));
+          }
+        })().then(() => callback(), error => abort().finally(() => callback(error)));
+      },
+      final: callback => {
+        (async () => {
+          if (!uploadId) {
+            // 不足一个分片，直接单次 PUT
+            const headers = {
+              'content-type': contentType,
+              [`${META_PREFIX}size`]: String(totalBytes),
+              [`${META_PREFIX}sha256`]: hash.digest('hex'),
+            };
+            await this.check(await this.send('PUT', key, { headers, body: takeBuffered(bufferedBytes) }), filePath);
+            return;
+          }
+
+          if (bufferedBytes > 0) {
+            await uploadPart(takeBuffered(bufferedBytes));
+          }
+          const body = `<CompleteMultipartUpload>${parts
+            .map(part => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${encodeXml(part.etag)}</ETag></Part>`)
+            .join('')}</CompleteMultipartUpload>`;
+          const response = await this.send('POST', key, { query: { uploadId }, body: Buffer.from(body) });
+          await this.check(response, filePath);
+          // CompleteMultipartUpload 可能以 200 返回错误
+          await this.checkBody(await response.text(), filePath);
+        })().then(
+          () => {
+            this.emit('file:written', { path: filePath, size: totalBytes });
+            callback();
+          },
+          error => abort().finally(() => callback(error))
+        );
+      },
+    });
+  }
+
+  // ==========================================================================
+  // Watch / Stats
+  // ==========================================================================
+
+  async watch(
+    dirPath: string,
+    options: WatchOptions,
+    callback: (event: string, filePath: string) => void
+  ): Promise<() => void> {
+    const prefix = this.directoryPrefix(normalizeStoragePath(dirPath));
+    const delimiter = options.recursive ? undefined : '/';
+    const snapshot = async () => {
+      const etags = new Map<string, string>();
+      for await (const page of this.listPages(prefix, delimiter)) {
+        for (const object of page.objects) {
+          if (object.key !== prefix) etags.set(object.key, object.etag);
+        }
+      }
+      return etags;
+    };
+
+    const dispatch = (type: string, key: string) => {
+      if (options.events && !options.events.includes(type as never)) return;
+      const entryPath = this.storagePath(key.replace(/\/$/, ''));
+      this.emit('watch:event', { type, path: entryPath });
+      callback(type, entryPath);
+    };
+
+    let known = await snapshot();
+    let polling = false;
+    const timer = setInterval(() => {
+      if (polling) return;
+      polling = true;
+      snapshot()
+        .then(current => {
+          for (const [key, etag] of current) {
+            const previous = known.get(key);
+            if (previous === undefined) dispatch(key.endsWith('/') ? 'addDir' : 'add', key);
+            else if (previous !== etag) dispatch('change', key);
+          }
+          for (const key of known.keys()) {
+            if (!current.has(key)) dispatch(key.endsWith('/') ? 'unlinkDir' : 'unlink', key);
+          }
+          known = current;
+        })
+        .catch(error => this.logger.warn(`Failed to poll ${dirPath}: ${(error as Error).message}`))
+        .finally(() => {
+          polling = false;
+        });
+    }, this.options.pollInterval ?? DEFAULT_POLL_INTERVAL);
+    timer.unref?.();
+
+    this.pollers.add(timer);
+    this.logger.info(`Started watching: ${dirPath}`);
+
+    return () => {
+      clearInterval(timer);
+      this.pollers.delete(timer);
+      this.logger.info(`Stopped watching: ${dirPath}`);
+    };
+  }
+
+  async getStats(): Promise<BackendStats> {
+    let size = 0;
+    let count = 0;
+    for await (const page of this.listPages(this.prefix ? `${this.prefix}/` : '')) {
+      for (const object of page.objects) {
+        if (object.key.endsWith('/')) continue;
+        size += object.size;
+        count++;
+      }
+    }
+    return { size, count };
+  }
+
+  // ==========================================================================
+  // S3 Requests
+  // ==========================================================================
+
+  private credentials(): AwsCredentials {
+    const accessKeyId = this.options.accessKeyId ?? process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = this.options.secretAccessKey ?? process.env.AWS_SECRET_ACCESS_KEY;
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error('S3 backend requires accessKeyId and secretAccessKey');
+    }
+    return { accessKeyId, secretAccessKey, sessionToken: this.options.sessionToken ?? process.env.AWS_SESSION_TOKEN };
+  }
+
+  private url(key: string | null, query: Record<string, string> = {}): string {
+    const encodedKey = key === null ? '' : `/${key.split('/').map(encodeRfc3986).join('/')}`;
+    const search = Object.entries(query)
+      .map(([name, value]) => (value === '' ? encodeRfc3986(name) : `${encodeRfc3986(name)}=${encodeRfc3986(value)}`))
+      .join('&');
+    const base = this.endpoint.pathname.replace(/\/$/, '');
+
+    const origin = this.pathStyle
+      ? this.endpoint.origin
+      : `${this.endpoint.protocol}//${this.options.bucket}.${this.endpoint.host}`;
+    const pathname = this.pathStyle ? `${base}/${this.options.bucket}${encodedKey}` : `${base}${encodedKey || '/'}`;
+    return `${origin}${pathname}${search ? `?${search}` : ''}`;
+  }
+
+  private async send(
+    method: string,
+    key: string | null,
+    init: { query?: Record<string, string>; headers?: Record<string, string>; body?: Buffer } = {}
+  ): Promise<Response> {
+    const url = this.url(key, init.query);
+    const headers = signRequest(
+      { method, url, headers: init.headers, body: init.body },
+      { credentials: this.credentials(), region: this.region, service: 's3' }
+    );
+    // fetch 自行设置 Host
+    delete headers.host;
+    return fetch(url, { method, headers, body: init.body });
+  }
+
+  private async check(response: Response, displayPath: string): Promise<void> {
+    if (response.ok) return;
+
+    const text = await response.text().catch(() => '');
+    const code = xmlValue(text, 'Code');
+    if (response.status === 404 && code !== 'NoSuchBucket') {
+      throw storageError('ENOENT', 'no such file or directory', displayPath);
+    }
+    const message = xmlValue(text, 'Message') ?? response.statusText;
+    throw new S3Error(`S3 ${response.status}${code ? ` ${code}` : ''}: ${message} (${displayPath})`, response.status, code);
+  }
+
+  private async checkBody(text: string, displayPath: string): Promise<void> {
+    if (!text.includes('<Error>')) return;
+    const code = xmlValue(text, 'Code');
+    throw new S3Error(`S3 ${code ?? 'Error'}: ${xmlValue(text, 'Message') ?? 'request failed'} (${displayPath})`, 200, code);
+  }
+
+  private async listPage(prefix: string, delimiter?: string, maxKeys?: number, token?: string) {
+    const query: Record<string, string> = { 'list-type': '2', prefix };
+    if (delimiter) query.delimiter = delimiter;
+    if (maxKeys) query['max-keys'] = String(maxKeys);
+    if (token) query['continuation-token'] = token;
+
+    const response = await this.send('GET', null, { query });
+    await this.check(response, prefix || '/');
+    const xml = await response.text();
+
+    const page: ListPage & { next?: string } = {
+      objects: xmlBlocks(xml, 'Contents').map(block => ({
+        key: xmlValue(block, 'Key') ?? '',
+        size: Number(xmlValue(block, 'Size') ?? 0),
+        lastModified: new Date(xmlValue(block, 'LastModified') ?? 0),
+        etag: xmlValue(block, 'ETag') ?? '',
+      })),
+      prefixes: xmlBlocks(xml, 'CommonPrefixes').map(block => xmlValue(block, 'Prefix') ?? ''),
+    };
+    if (xmlValue(xml, 'IsTruncated') === 'true') {
+      page.next = xmlValue(xml, 'NextContinuationToken');
+    }
+    return page;
+  }
+
+  private async *listPages(prefix: string, delimiter?: string): AsyncGenerator<ListPage> {
+    let token: string | undefined;
+    do {
+      const page = await this.listPage(prefix, delimiter, undefined, token);
+      yield page;
+      token = page.next;
+    } while (token);
+  }
+
+  private async copyObject(sourceKey: string, targetKey: string, displayPath: string): Promise<void> {
+    const source = `/${this.options.bucket}/${sourceKey.split('/').map(encodeRfc3986).join('/')}`;
+    const response = await this.send('PUT', targetKey, { headers: { 'x-amz-copy-source': source } });
+    await this.check(response, displayPath);
+    await this.checkBody(await response.text(), displayPath);
+  }
+
+  private async deleteObjects(keys: string[]): Promise<void> {
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      const batch = keys.slice(i, i + DELETE_BATCH_SIZE);
+      const body = Buffer.from(
+        `<Delete><Quiet>true</Quiet>${batch.map(key => `<Object><Key>${encodeXml(key)}</Key></Object>`).join('')}</Delete>`
+      );
+      const response = await this.send('POST', null, {
+        query: { delete: '' },
+        headers: { 'content-md5': createHash('md5').update(body).digest('base64') },
+        body,
+      });
+      await this.check(response, batch[0]);
+      await this.checkBody(await response.text(), batch[0]);
+    }
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private objectKey(filePath: string): string {
+    const entryPath = normalizeStoragePath(filePath);
+    return this.prefix && entryPath ? `${this.prefix}/${entryPath}` : this.prefix || entryPath;
+  }
+
+  private directoryPrefix(dir: string): string {
+    const key = this.objectKey(dir);
+    return key ? `${key}/` : '';
+  }
+
+  private storagePath(key: string): string {
+    return this.prefix ? key.slice(this.prefix.length + 1) : key;
+  }
+
+  private rangeHeader(options: ReadOptions): string {
+    return `bytes=${options.start ?? 0}-${options.end ?? ''}`;
+  }
+
+  private encodingFlags(headers: Headers): { compressed: boolean; encrypted: boolean } {
+    return {
+      compressed: headers.get(`${META_PREFIX}compressed`) === 'gzip',
+      encrypted: headers.get(`${META_PREFIX}encrypted`) === 'aes-256-gcm',
+    };
+  }
+
+  private fileMetadata(entryPath: string, headers: Headers): FileMetadata {
+    const storedSize = Number(headers.get('content-length') ?? 0);
+    const modifiedAt = new Date(headers.get('last-modified') ?? 0);
+    const flags = this.encodingFlags(headers);
+    return {
+      ...this.baseMetadata(entryPath, false, modifiedAt),
+      size: Number(headers.get(`${META_PREFIX}size`) ?? storedSize),
+      hash: headers.get(`${META_PREFIX}sha256`) ?? undefined,
+      compressedSize: flags.compressed ? storedSize : undefined,
+      encrypted: flags.encrypted,
+      mimeType: headers.get('content-type') ?? getMimeType(entryPath),
+    };
+  }
+
+  private listedMetadata(entryPath: string, object: S3Object): FileMetadata {
+    return { ...this.baseMetadata(entryPath, false, object.lastModified), size: object.size };
+  }
+
+  private directoryMetadata(entryPath: string): FileMetadata {
+    return this.baseMetadata(entryPath, true, new Date(0));
+  }
+
+  private baseMetadata(entryPath: string, isDirectory: boolean, modifiedAt: Date): FileMetadata {
+    return {
+      path: entryPath,
+      size: 0,
+      createdAt: modifiedAt,
+      modifiedAt,
+      accessedAt: modifiedAt,
+      isDirectory,
+      isFile: !isDirectory,
+      isSymbolicLink: false,
+      mode: isDirectory ? DIRECTORY_MODE : FILE_MODE,
+      uid: process.getuid?.() ?? 0,
+      gid: process.getgid?.() ?? 0,
+      encrypted: false,
+      mimeType: isDirectory ? undefined : getMimeType(entryPath),
+    };
+  }
+}
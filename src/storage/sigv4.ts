@@ -0,0 +1,103 @@
+/**
+ * AWS Signature Version 4 请求签名
+ *
+ * 仅依赖 node:crypto，适用于 S3 及兼容服务（MinIO、Ceph RGW 等）
+ *
+ * @module Storage
+ */
+
+import { createHash, createHmac } from 'crypto';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  /** 完整 URL，路径需已按 RFC 3986 编码 */
+  url: string;
+  headers?: Record<string, string>;
+  body?: Buffer | string;
+}
+
+export interface SignOptions {
+  credentials: AwsCredentials;
+  region: string;
+  service: string;
+  /** 签名时间，默认当前时间 */
+  date?: Date;
+  /** 预先计算的负载哈希，如 `UNSIGNED-PAYLOAD` */
+  payloadHash?: string;
+}
+
+export function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * RFC 3986 编码（encodeURIComponent 不编码 !'()*）
+ */
+export function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function canonicalQuery(url: URL): string {
+  return Array.from(url.searchParams.entries())
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av < bv ? -1 : 1) : a < b ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/**
+ * 计算签名并返回需要随请求发送的完整头部（含 Authorization）
+ */
+export function signRequest(request: SignableRequest, options: SignOptions): Record<string, string> {
+  const url = new URL(request.url);
+  const date = options.date ?? new Date();
+  const amzDate = date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = options.payloadHash ?? sha256Hex(request.body ?? '');
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request.headers ?? {})) {
+    headers[name.toLowerCase()] = value;
+  }
+  headers.host = url.host;
+  headers['x-amz-date'] = amzDate;
+  headers['x-amz-content-sha256'] = payloadHash;
+  if (options.credentials.sessionToken) {
+    headers['x-amz-security-token'] = options.credentials.sessionToken;
+  }
+
+  const names = Object.keys(headers).sort();
+  const signedHeaders = names.join(';');
+  const canonicalHeaders = names.map(name => `${name}:${headers[name].trim().replace(/\s+/g, ' ')}\n`).join('');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    url.pathname || '/',
+    canonicalQuery(url),
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${options.region}/${options.service}/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const dateKey = hmac(`AWS4${options.credentials.secretAccessKey}`, dateStamp);
+  const signingKey = hmac(hmac(hmac(dateKey, options.region), options.service), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  headers.authorization =
+    `AWS4-HMAC-SHA256 Credential=${options.credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
@@ -0,0 +1,381 @@
+/**
+ * SQLite 存储后端
+ *
+ * 单文件存储：文件内容以 BLOB 与元数据一起存放在 storage_files 表，
+ * 触发器把每次增删改记录到 storage_changes 表，watch 轮询该表
+ * （同一数据库文件被其他进程修改时同样可见）。事务映射为 SQLite 事务。
+ *
+ * 驱动：Node.js 22.5+ 内置 `node:sqlite`，或可选 peer 依赖 `better-sqlite3`（Node.js 18/20 需安装）
+ *
+ * @module Storage
+ */
+
+import * as path from 'path';
+import { mkdirSync } from 'fs';
+import type { Logger } from '../utils/logger.js';
+import { EntryStorageBackend, type StorageChangeEvent, type StoredEntry } from './entry-backend.js';
+import type { BackendConfig, BackendStats, StorageBackend } from './storage-manager.js';
+
+// ============================================================================
+// Driver
+// ============================================================================
+
+export type SqliteValue = null | number | bigint | string | Uint8Array;
+
+/**
+ * node:sqlite 与 better-sqlite3 共同的同步 API 子集
+ */
+export interface SqliteStatement {
+  run(...params: SqliteValue[]): unknown;
+  get(...params: SqliteValue[]): unknown;
+  all(...params: SqliteValue[]): unknown[];
+}
+
+export interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+  close(): void;
+}
+
+type SqliteDatabaseConstructor = new (filename: string) => SqliteDatabase;
+
+async function loadDriver(): Promise<SqliteDatabaseConstructor> {
+  try {
+    const moduleName = 'node:sqlite';
+    const mod = await import(moduleName) as { DatabaseSync: SqliteDatabaseConstructor };
+    return mod.DatabaseSync;
+  } catch {
+    // 回退到 better-sqlite3
+  }
+  try {
+    const moduleName = 'better-sqlite3';
+    const mod = await import(moduleName) as { default: SqliteDatabaseConstructor };
+    return mod.default;
+  } catch (error) {
+    throw new Error(
+      `SQLite backend requires Node.js 22.5+ (node:sqlite) or the optional peer dependency "better-sqlite3"; ` +
+        `install it with \`npm install better-sqlite3\` on Node.js ${process.versions.node}`,
+      { cause: error }
+    );
+  }
+}
+
+/**
+ * 当前环境是否可用 SQLite 驱动
+ */
+export async function isSqliteAvailable(): Promise<boolean> {
+  try {
+    await loadDriver();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 打开数据库文件（自动创建父目录，文件数据库启用 WAL）
+ */
+export async function openSqliteDatabase(filename = ':memory:'): Promise<SqliteDatabase> {
+  const Database = await loadDriver();
+  if (filename !== ':memory:') {
+    mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+  const db = new Database(filename);
+  if (filename !== ':memory:') {
+    db.exec('PRAGMA journal_mode = WAL');
+  }
+  db.exec('PRAGMA busy_timeout = 5000');
+  return db;
+}
+
+// ============================================================================
+// Schema
+// ============================================================================
+
+const NOW_MS = `CAST(strftime('%s', 'now') AS INTEGER) * 1000`;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS storage_files (
+  path TEXT PRIMARY KEY,
+  parent TEXT NOT NULL,
+  is_dir INTEGER NOT NULL DEFAULT 0,
+  content BLOB,
+  size INTEGER NOT NULL DEFAULT 0,
+  stored_size INTEGER NOT NULL DEFAULT 0,
+  hash TEXT,
+  compressed INTEGER NOT NULL DEFAULT 0,
+  encrypted INTEGER NOT NULL DEFAULT 0,
+  mime_type TEXT,
+  mode INTEGER NOT NULL,
+  created_at INTEGER NOT NULL,
+  modified_at INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS storage_files_parent ON storage_files (parent);
+
+CREATE TABLE IF NOT EXISTS storage_changes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  event TEXT NOT NULL,
+  path TEXT NOT NULL,
+  at INTEGER NOT NULL
+);
+
+CREATE TRIGGER IF NOT EXISTS storage_files_insert AFTER INSERT ON storage_files BEGIN
+  INSERT INTO storage_changes (event, path, at)
+  VALUES (CASE WHEN NEW.is_dir THEN 'addDir' ELSE 'add' END, NEW.path, ${NOW_MS});
+END;
+
+CREATE TRIGGER IF NOT EXISTS storage_files_update AFTER UPDATE ON storage_files BEGIN
+  INSERT INTO storage_changes (event, path, at) VALUES ('change', NEW.path, ${NOW_MS});
+END;
+
+CREATE TRIGGER IF NOT EXISTS storage_files_delete AFTER DELETE ON storage_files BEGIN
+  INSERT INTO storage_changes (event, path, at)
+  VALUES (CASE WHEN OLD.is_dir THEN 'unlinkDir' ELSE 'unlink' END, OLD.path, ${NOW_MS});
+END;
+`;
+
+interface FileRow {
+  path: string;
+  is_dir: number;
+  content: Uint8Array | null;
+  size: number;
+  stored_size: number;
+  hash: string | null;
+  compressed: number;
+  encrypted: number;
+  mime_type: string | null;
+  mode: number;
+  created_at: number;
+  modified_at: number;
+}
+
+interface ChangeRow {
+  id: number;
+  event: StorageChangeEvent;
+  path: string;
+}
+
+const DEFAULT_POLL_INTERVAL = 250;
+/** 变更记录保留时长 */
+const CHANGE_RETENTION_MS = 60_000;
+
+function toEntry(row: FileRow): StoredEntry {
+  return {
+    path: row.path,
+    isDirectory: !!row.is_dir,
+    content: row.content ? Buffer.from(row.content) : null,
+    size: Number(row.size),
+    storedSize: Number(row.stored_size),
+    hash: row.hash ?? undefined,
+    compressed: !!row.compressed,
+    encrypted: !!row.encrypted,
+    mimeType: row.mime_type ?? undefined,
+    mode: Number(row.mode),
+    createdAt: Number(row.created_at),
+    modifiedAt: Number(row.modified_at),
+  };
+}
+
+// ============================================================================
+// SQLite Backend
+// ============================================================================
+
+/**
+ * BackendConfig.options:
+ * - filename: 数据库文件路径（默认 `:memory:`）
+ * - database: 已打开的 SqliteDatabase 连接（优先于 filename，close 时不关闭）
+ * - pollInterval: watch 轮询间隔（毫秒，默认 250）
+ * - encryptionKey: 加密写入使用的密钥
+ */
+export class SqliteBackend extends EntryStorageBackend {
+  readonly name: StorageBackend = 'sqlite';
+
+  private db: SqliteDatabase | null = null;
+  private ownsDatabase = true;
+  private statements = new Map<string, SqliteStatement>();
+  private transactionDepth = 0;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private changeCursor = 0;
+
+  constructor(config: BackendConfig = { enabled: true, priority: 2, options: {} }, logger?: Logger) {
+    super(config, logger);
+  }
+
+  get isAvailable(): boolean {
+    return this.db !== null;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.db) return;
+
+    const { database, filename = ':memory:' } = this.config.options as { database?: SqliteDatabase; filename?: string };
+    if (database) {
+      this.db = database;
+      this.ownsDatabase = false;
+    } else {
+      this.db = await openSqliteDatabase(filename);
+      this.ownsDatabase = true;
+    }
+
+    this.db.exec(SCHEMA);
+    this.pruneChanges();
+    this.logger.info(`SQLite backend initialized: ${database ? '(external connection)' : filename}`);
+  }
+
+  async close(): Promise<void> {
+    this.stopWatching();
+    this.removeAllListeners('watch:event');
+    this.statements.clear();
+    if (this.db && this.ownsDatabase) {
+      this.db.close();
+    }
+    this.db = null;
+  }
+
+  async getStats(): Promise<BackendStats> {
+    const row = this.statement(
+      'SELECT COUNT(*) AS count, COALESCE(SUM(size), 0) AS size FROM storage_files WHERE is_dir = 0'
+    ).get() as { count: number; size: number };
+    return { size: Number(row.size), count: Number(row.count) };
+  }
+
+  // ==========================================================================
+  // 条目原语
+  // ==========================================================================
+
+  protected getEntry(entryPath: string): StoredEntry | undefined {
+    const row = this.statement('SELECT * FROM storage_files WHERE path = ?').get(entryPath) as FileRow | undefined;
+    return row ? toEntry(row) : undefined;
+  }
+
+  protected putEntry(entry: StoredEntry): void {
+    const parent = entry.path.includes('/') ? entry.path.slice(0, entry.path.lastIndexOf('/')) : '';
+    this.statement(`
+      INSERT INTO storage_files
+        (path, parent, is_dir, content, size, stored_size, hash, compressed, encrypted, mime_type, mode, created_at, modified_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (path) DO UPDATE SET
+        is_dir = excluded.is_dir,
+        content = excluded.content,
+        size = excluded.size,
+        stored_size = excluded.stored_size,
+        hash = excluded.hash,
+        compressed = excluded.compressed,
+        encrypted = excluded.encrypted,
+        mime_type = excluded.mime_type,
+        mode = excluded.mode,
+        created_at = excluded.created_at,
+        modified_at = excluded.modified_at
+    `).run(
+      entry.path,
+      parent,
+      entry.isDirectory ? 1 : 0,
+      entry.content,
+      entry.size,
+      entry.storedSize,
+      entry.hash ?? null,
+      entry.compressed ? 1 : 0,
+      entry.encrypted ? 1 : 0,
+      entry.mimeType ?? null,
+      entry.mode,
+      entry.createdAt,
+      entry.modifiedAt
+    );
+  }
+
+  protected removeEntry(entryPath: string): void {
+    this.statement('DELETE FROM storage_files WHERE path = ?').run(entryPath);
+  }
+
+  protected listEntries(dir: string, recursive: boolean): StoredEntry[] {
+    let rows: FileRow[];
+    if (!recursive) {
+      rows = this.statement('SELECT * FROM storage_files WHERE parent = ? ORDER BY path').all(dir) as FileRow[];
+    } else if (dir === '') {
+      rows = this.statement('SELECT * FROM storage_files ORDER BY path').all() as FileRow[];
+    } else {
+      // 'dir/' <= path < 'dir0'（'0' 紧随 '/'），可走主键索引且区分大小写
+      rows = this.statement('SELECT * FROM storage_files WHERE path >= ? AND path < ? ORDER BY path')
+        .all(`${dir}/`, `${dir}0`) as FileRow[];
+    }
+    return rows.map(toEntry);
+  }
+
+  protected atomic<T>(fn: () => T): T {
+    const db = this.database();
+    // 嵌套调用使用 SAVEPOINT，只回滚内层
+    const savepoint = this.transactionDepth > 0 ? `sp_${this.transactionDepth}` : null;
+    db.exec(savepoint ? `SAVEPOINT ${savepoint}` : 'BEGIN IMMEDIATE');
+    this.transactionDepth++;
+
+    try {
+      const result = fn();
+      db.exec(savepoint ? `RELEASE ${savepoint}` : 'COMMIT');
+      return result;
+    } catch (error) {
+      db.exec(savepoint ? `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}` : 'ROLLBACK');
+      throw error;
+    } finally {
+      this.transactionDepth--;
+    }
+  }
+
+  // ==========================================================================
+  // Watch
+  // ==========================================================================
+
+  protected startWatching(): void {
+    const row = this.statement('SELECT COALESCE(MAX(id), 0) AS id FROM storage_changes').get() as { id: number };
+    this.changeCursor = Number(row.id);
+
+    const interval = Number(this.config.options.pollInterval ?? DEFAULT_POLL_INTERVAL);
+    this.pollTimer = setInterval(() => this.pollChanges(), interval);
+    this.pollTimer.unref?.();
+  }
+
+  protected stopWatching(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private pollChanges(): void {
+    if (!this.db) return;
+    try {
+      const changes = this.statement('SELECT id, event, path FROM storage_changes WHERE id > ? ORDER BY id')
+        .all(this.changeCursor) as ChangeRow[];
+      for (const change of changes) {
+        this.changeCursor = Number(change.id);
+        this.notify(change.event, change.path);
+      }
+      this.pruneChanges();
+    } catch (error) {
+      this.logger.warn(`Failed to poll storage changes: ${(error as Error).message}`);
+    }
+  }
+
+  private pruneChanges(): void {
+    this.statement('DELETE FROM storage_changes WHERE at < ?').run(Date.now() - CHANGE_RETENTION_MS);
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private database(): SqliteDatabase {
+    if (!this.db) {
+      throw new Error('SQLite backend is not initialized');
+    }
+    return this.db;
+  }
+
+  private statement(sql: string): SqliteStatement {
+    let statement = this.statements.get(sql);
+    if (!statement) {
+      statement = this.database().prepare(sql);
+      this.statements.set(sql, statement);
+    }
+    return statement;
+  }
+}
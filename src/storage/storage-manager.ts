@@ -22,6 +22,10 @@ import { createGzip, createGunzip } from 'zlib';
 import { pipeline } from 'stream/promises';
 import { EventEmitter } from 'events';
 import { Logger, createLogger } from '../utils/logger.js';
+import { getMimeType } from './mime.js';
+import { MemoryBackend } from './memory-backend.js';
+import { SqliteBackend } from './sqlite-backend.js';
+import { S3Backend } from './s3-backend.js';
 
 // ============================================================================
 // 核心类型定义
@@ -184,6 +188,9 @@ export interface IStorageBackend {
   watch(dirPath: string, options: WatchOptions, callback: (event: string, filePath: string) => void): Promise<() => void>;
   
   getStats(): Promise<BackendStats>;
+
+  /** 原子应用事务操作（不支持时由 StorageManager 逐条执行） */
+  applyTransaction?(operations: Operation[]): Promise<void>;
 }
 
 // ============================================================================
@@ -468,7 +475,7 @@ export class FileSystemBackend extends EventEmitter implements IStorageBackend {
       uid: stats.uid,
       gid: stats.gid,
       encrypted: this.isEncrypted(filePath),
-      mimeType: this.getMimeType(filePath),
+      mimeType: getMimeType(filePath),
     };
   }
 
@@ -480,24 +487,6 @@ export class FileSystemBackend extends EventEmitter implements IStorageBackend {
     return filePath.endsWith('.gz');
   }
 
-  private getMimeType(filePath: string): string | undefined {
-    const ext = path.extname(filePath).toLowerCase();
-    const mimeTypes: Record<string, string> = {
-      '.txt': 'text/plain',
-      '.json': 'application/json',
-      '.md': 'text/markdown',
-      '.js': 'application/javascript',
-      '.ts': 'application/typescript',
-      '.html': 'text/html',
-      '.css': 'text/css',
-      '.png': 'image/png',
-      '.jpg': 'image/jpeg',
-      '.gif': 'image/gif',
-      '.pdf': 'application/pdf',
-    };
-    return mimeTypes[ext];
-  }
-
   private async compress(buffer: Buffer, level?: number): Promise<Buffer> {
     return new Promise((resolve, reject) => {
       const gzip = createGzip({ level: level || 6 });
@@ -588,6 +577,18 @@ export class StorageManager extends EventEmitter {
         case 'filesystem':
           backend = new FileSystemBackend(backendConfig, this.logger);
           break;
+        case 'memory':
+          backend = new MemoryBackend(this.withSharedOptions(backendConfig), this.logger);
+          break;
+        case 'sqlite':
+          backend = new SqliteBackend(
+            this.withSharedOptions(backendConfig, { filename: path.join(this.config.workspaceDir, 'storage.sqlite') }),
+            this.logger
+          );
+          break;
+        case 's3':
+          backend = new S3Backend(this.withSharedOptions(backendConfig), this.logger);
+          break;
         // TODO: 实现其他后端
         default:
           this.logger.warn(`Backend ${name} not implemented yet`);
@@ -600,6 +601,16 @@ export class StorageManager extends EventEmitter {
     }
   }
 
+  /**
+   * 合并后端默认选项与全局加密密钥，显式配置优先
+   */
+  private withSharedOptions(config: BackendConfig, defaults: Record<string, unknown> = {}): BackendConfig {
+    return {
+      ...config,
+      options: { ...defaults, encryptionKey: this.config.encryptionKey, ...config.options },
+    };
+  }
+
   async close(): Promise<void> {
     for (const [name, backend] of this.backends) {
       await backend.close();
@@ -672,43 +683,54 @@ export class StorageManager extends EventEmitter {
   }
 
   // 事务支持
-  async beginTransaction(): Promise<Transaction> {
+  async beginTransaction(backend?: StorageBackend): Promise<Transaction> {
     const id = `txn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     const transaction: Transaction = {
       id,
       operations: [],
-      commit: async () => this.commitTransaction(id),
+      commit: async () => this.commitTransaction(id, backend),
       rollback: async () => this.rollbackTransaction(id),
     };
     this.activeTransactions.set(id, transaction);
     return transaction;
   }
 
-  private async commitTransaction(id: string): Promise<void> {
+  private async commitTransaction(id: string, backendName?: StorageBackend): Promise<void> {
     const transaction = this.activeTransactions.get(id);
     if (!transaction) throw new Error(`Transaction not found: ${id}`);
+    this.activeTransactions.delete(id);
+
+    const backend = this.getBackend(backendName);
+    if (backend.applyTransaction) {
+      // 数据库类后端映射为真实事务，失败时整体回滚
+      await backend.applyTransaction(transaction.operations);
+      return;
+    }
 
-    // 执行所有操作
     for (const op of transaction.operations) {
-      // 实际实现需要处理回滚逻辑
       this.logger.debug(`Committing operation: ${op.type} ${op.source}`);
+      switch (op.type) {
+        case 'write':
+          await backend.writeFile(op.source, op.content ?? '');
+          break;
+        case 'delete':
+          await backend.deleteFile(op.source);
+          break;
+        case 'move':
+          await backend.move(op.source, op.target!);
+          break;
+        case 'copy':
+          await backend.copy(op.source, op.target!);
+          break;
+      }
     }
-
-    this.activeTransactions.delete(id);
   }
 
   private async rollbackTransaction(id: string): Promise<void> {
     const transaction = this.activeTransactions.get(id);
     if (!transaction) throw new Error(`Transaction not found: ${id}`);
 
-    // 回滚操作
-    for (const op of transaction.operations) {
-      if (op.backup) {
-        // 恢复备份
-        this.logger.debug(`Rolling back: ${op.source}`);
-      }
-    }
-
+    // 操作在 commit 前只是排队，丢弃即可
     this.activeTransactions.delete(id);
   }
 
@@ -0,0 +1,282 @@
+/**
+ * Allowed Tools - Skill 工具权限范围
+ *
+ * 解析 SKILL.md 的 `allowed-tools` 字段（如 `Read Bash(git:*) file_*`），
+ * 为 Skill 构建只包含授权工具的 ToolRegistry 视图，范围外的调用被拒绝并记录。
+ *
+ * - 工具名支持 `*` 通配符，大小写不敏感；Read / Write / Edit / Bash 等名称映射到内置工具
+ * - 括号内为参数限制：`git:*` 表示命令以 git 开头，其余按 glob 匹配路径 / URL 等主参数
+ *
+ * @module AllowedTools
+ * @version 1.0.0
+ */
+
+import { posix } from 'path';
+import type {
+  Tool,
+  ToolId,
+  ToolName,
+  ToolCategory,
+  ToolResult,
+  ExecutionContext,
+  ToolExecutionOptions,
+  IToolRegistry,
+} from './core/types.js';
+import { globToRegExp } from './filesystem.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AllowedToolRule {
+  /** 工具名模式 */
+  tool: string;
+  /** 参数限制 */
+  argument?: string;
+}
+
+export type ToolPermission = { allowed: true } | { allowed: false; reason: string };
+
+export interface ToolViolation {
+  scope: string;
+  toolName: string;
+  input: unknown;
+  reason: string;
+}
+
+export interface ScopedToolRegistryOptions {
+  /** 权限范围名称（通常为 Skill 名），用于日志与错误信息 */
+  scope: string;
+  /** 拒绝调用时回调 */
+  onViolation?: (violation: ToolViolation) => void;
+}
+
+/**
+ * Claude Code 风格的工具名 -> 内置工具名
+ */
+export const TOOL_NAME_ALIASES: Record<string, string[]> = {
+  read: ['file_read'],
+  write: ['file_write'],
+  edit: ['edit_file'],
+  multiedit: ['edit_file'],
+  ls: ['file_list'],
+  glob: ['glob'],
+  grep: ['grep'],
+  bash: ['execute_command'],
+  webfetch: ['http_request'],
+};
+
+/** 参数限制作用的主参数字段，按优先级 */
+const PRIMARY_ARGUMENT_KEYS = ['path', 'file_path', 'url', 'pattern', 'query'];
+
+/** 受参数限制的命令中拒绝 shell 控制符，防止 `git status; rm -rf /` 绕过 */
+const SHELL_CONTROL = /[;&|`<>\n]|\$\(/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * 解析 allowed-tools 字段；字段缺失时返回 undefined（不限制）
+ *
+ * 支持空格 / 逗号分隔的字符串与 YAML 列表，括号内允许空格，如 `Bash(git commit:*)`。
+ */
+export function parseAllowedTools(spec: unknown): AllowedToolRule[] | undefined {
+  if (spec === undefined || spec === null) return undefined;
+
+  const items = Array.isArray(spec) ? spec.map(String) : [String(spec)];
+  const rules: AllowedToolRule[] = [];
+  for (const item of items) {
+    for (const [, tool, argument] of item.matchAll(/([^\s,()]+)(?:\(([^)]*)\))?/g)) {
+      rules.push(argument?.trim() ? { tool, argument: argument.trim() } : { tool });
+    }
+  }
+  return rules;
+}
+
+export function formatAllowedToolRule(rule: AllowedToolRule): string {
+  return rule.argument ? `${rule.tool}(${rule.argument})` : rule.tool;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function matchWildcard(pattern: string, value: string): boolean {
+  if (!pattern.includes('*')) return pattern === value;
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 's').test(value);
+}
+
+/**
+ * 规则的工具名是否覆盖该工具（匹配名称或 ID，含别名）
+ */
+export function matchesToolName(pattern: string, tool: Pick<Tool, 'id' | 'name'>): boolean {
+  const lowered = pattern.toLowerCase();
+  const patterns = [lowered, ...(TOOL_NAME_ALIASES[lowered] ?? [])];
+  const candidates = [tool.name.toLowerCase(), tool.id.toLowerCase()];
+  return patterns.some(p => candidates.some(candidate => matchWildcard(p, candidate)));
+}
+
+function primaryArgument(input: unknown): { value: string; kind: 'command' | 'path' | 'value' } | undefined {
+  if (typeof input === 'string') return { value: input, kind: 'value' };
+  if (input === null || typeof input !== 'object') return undefined;
+
+  const record = input as Record<string, unknown>;
+  if (typeof record.command === 'string') {
+    const args = Array.isArray(record.args) ? record.args.map(String) : [];
+    return { value: [record.command, ...args].join(' ').trim(), kind: 'command' };
+  }
+  for (const key of PRIMARY_ARGUMENT_KEYS) {
+    if (typeof record[key] !== 'string') continue;
+    const value = record[key] as string;
+    // 规范化路径，避免 `output/../secret` 通过 `output/**`
+    return key === 'path' || key === 'file_path'
+      ? { value: posix.normalize(value.replace(/\\/g, '/')).replace(/^\.\//, ''), kind: 'path' }
+      : { value, kind: 'value' };
+  }
+  return undefined;
+}
+
+function matchesArgument(pattern: string, input: unknown): boolean {
+  const argument = primaryArgument(input);
+  if (!argument) return false;
+  if (argument.kind === 'command' && SHELL_CONTROL.test(argument.value)) return false;
+
+  // `git:*` 为命令前缀规则
+  const prefix = pattern.match(/^(.*):\*$/)?.[1];
+  if (prefix !== undefined) {
+    return argument.value === prefix || argument.value.startsWith(`${prefix} `);
+  }
+  return pattern === '*' || globToRegExp(pattern).test(argument.value);
+}
+
+/**
+ * 检查一次工具调用是否在授权范围内；rules 为 undefined 时不限制
+ */
+export function checkToolPermission(
+  rules: AllowedToolRule[] | undefined,
+  tool: Pick<Tool, 'id' | 'name'>,
+  input: unknown
+): ToolPermission {
+  if (!rules) return { allowed: true };
+
+  const matching = rules.filter(rule => matchesToolName(rule.tool, tool));
+  if (matching.length === 0) {
+    const allowed = rules.map(formatAllowedToolRule).join(' ') || '(none)';
+    return { allowed: false, reason: `Tool '${tool.name}' is not in allowed-tools: ${allowed}` };
+  }
+  if (matching.some(rule => !rule.argument || matchesArgument(rule.argument, input))) {
+    return { allowed: true };
+  }
+  return {
+    allowed: false,
+    reason: `Arguments for '${tool.name}' are outside allowed-tools: ${matching.map(formatAllowedToolRule).join(' ')}`,
+  };
+}
+
+// ============================================================================
+// Scoped Registry
+// ============================================================================
+
+/**
+ * 只读的工具注册表视图，仅暴露并执行授权范围内的工具
+ */
+export class ScopedToolRegistry implements IToolRegistry {
+  constructor(
+    private readonly base: IToolRegistry,
+    readonly rules: AllowedToolRule[],
+    private readonly options: ScopedToolRegistryOptions
+  ) {}
+
+  register(_tool: Tool): void {
+    throw new Error(`Cannot register tools through the scoped registry of '${this.options.scope}'`);
+  }
+
+  unregister(_toolId: ToolId): boolean {
+    throw new Error(`Cannot unregister tools through the scoped registry of '${this.options.scope}'`);
+  }
+
+  clear(): void {
+    throw new Error(`Cannot clear the scoped registry of '${this.options.scope}'`);
+  }
+
+  get(toolId: ToolId): Tool | undefined {
+    return this.visible(this.base.get(toolId));
+  }
+
+  getByName(name: ToolName): Tool | undefined {
+    return this.visible(this.base.getByName(name));
+  }
+
+  has(toolId: ToolId): boolean {
+    return this.get(toolId) !== undefined;
+  }
+
+  list(): Tool[] {
+    return this.base.list().filter(tool => this.isVisible(tool));
+  }
+
+  listByCategory(category: ToolCategory): Tool[] {
+    return this.base.listByCategory(category).filter(tool => this.isVisible(tool));
+  }
+
+  search(query: string): Tool[] {
+    return this.base.search(query).filter(tool => this.isVisible(tool));
+  }
+
+  async execute(
+    toolId: ToolId,
+    input: unknown,
+    context: ExecutionContext,
+    options?: ToolExecutionOptions
+  ): Promise<ToolResult> {
+    const tool = this.base.get(toolId) ?? this.base.getByName(toolId);
+    const permission = checkToolPermission(this.rules, tool ?? { id: toolId, name: toolId }, input);
+
+    if (!permission.allowed) {
+      const violation = { scope: this.options.scope, toolName: tool?.name ?? toolId, input, reason: permission.reason };
+      context.logger.warn(`[AllowedTools] Blocked tool call from '${this.options.scope}'`, { ...violation });
+      this.options.onViolation?.(violation);
+      return {
+        success: false,
+        error: {
+          code: 'TOOL_NOT_ALLOWED',
+          message: permission.reason,
+          recoverable: false,
+          details: { scope: this.options.scope, allowedTools: this.rules.map(formatAllowedToolRule) },
+        },
+      };
+    }
+
+    return this.base.execute(toolId, input, context, options);
+  }
+
+  async executeParallel(
+    calls: Array<{ toolId: ToolId; input: unknown }>,
+    context: ExecutionContext,
+    options?: ToolExecutionOptions
+  ): Promise<ToolResult[]> {
+    return Promise.all(calls.map(({ toolId, input }) => this.execute(toolId, input, context, options)));
+  }
+
+  private isVisible(tool: Tool): boolean {
+    return this.rules.some(rule => matchesToolName(rule.tool, tool));
+  }
+
+  private visible(tool: Tool | undefined): Tool | undefined {
+    return tool && this.isVisible(tool) ? tool : undefined;
+  }
+}
+
+/**
+ * 按 allowed-tools 构建工具视图；未声明该字段时返回原注册表
+ */
+export function scopeToolRegistry(
+  registry: IToolRegistry,
+  allowedTools: unknown,
+  options: ScopedToolRegistryOptions
+): IToolRegistry {
+  const rules = parseAllowedTools(allowedTools);
+  return rules ? new ScopedToolRegistry(registry, rules, options) : registry;
+}
@@ -0,0 +1,405 @@
+/**
+ * Tool Approval - 工具执行审批策略
+ *
+ * Human-in-the-loop 审批：按工具与参数模式匹配规则，决策为
+ * allow / deny / ask / allow-session。ask 交由审批回调（TUI 交互或嵌入方异步回调），
+ * 所有决策通过事件总线发布，便于审计。
+ *
+ * @module ToolApproval
+ * @version 1.0.0
+ */
+
+import { existsSync, readFileSync, statSync } from 'fs';
+import { resolve } from 'path';
+import type { EventBus } from '../agent/domain/events.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ApprovalDecision = 'allow' | 'deny' | 'ask' | 'allow-session';
+
+/** 审批回调可返回的决策 */
+export type ApprovalResponseDecision = Exclude<ApprovalDecision, 'ask'>;
+
+/**
+ * 匹配模式：字符串支持 * 通配符（匹配任意字符），RegExp 按正则匹配
+ */
+export type ApprovalPattern = string | RegExp;
+
+export interface ApprovalRule {
+  /** 工具名或 ID 模式，如 'execute_command'、'fs:*' */
+  tool: ApprovalPattern;
+  /** 参数模式，全部匹配时规则才生效；嵌套字段使用点号路径 */
+  args?: Record<string, ApprovalPattern>;
+  decision: ApprovalDecision;
+  reason?: string;
+}
+
+export interface ApprovalTarget {
+  id: string;
+  name: string;
+  description?: string;
+  /** 未命中规则时是否需要确认 */
+  requiresConfirmation?: boolean;
+}
+
+export interface ApprovalRequest {
+  tool: ApprovalTarget;
+  input: unknown;
+  agentId?: string;
+  sessionId?: string;
+  executionId?: string;
+  signal?: AbortSignal;
+  /** 供展示的预览（命令、文件 diff 等） */
+  preview?: string;
+}
+
+export type ApprovalHandler = (
+  request: ApprovalRequest
+) => Promise<ApprovalResponseDecision | { decision: ApprovalResponseDecision; reason?: string }>;
+
+export interface ApprovalResult {
+  approved: boolean;
+  decision: ApprovalResponseDecision;
+  /** 决策来源 */
+  source: 'rule' | 'session' | 'user' | 'default';
+  reason?: string;
+}
+
+/** tool:approval:* 事件载荷 */
+export interface ToolApprovalPayload {
+  toolId: string;
+  toolName: string;
+  input: unknown;
+  result?: ApprovalResult;
+}
+
+export interface ApprovalPolicyConfig {
+  /** 规则按顺序匹配，首个命中的规则生效 */
+  rules?: ApprovalRule[];
+  /** 未命中规则且工具要求确认时的决策（默认 ask） */
+  defaultDecision?: ApprovalDecision;
+  /** ask 时调用；未配置时拒绝执行 */
+  handler?: ApprovalHandler;
+  /** 审计事件总线 */
+  eventBus?: EventBus;
+  /** 自定义预览生成（默认 createApprovalPreview） */
+  preview?: (tool: ApprovalTarget, input: unknown) => string | undefined;
+  /** 预览中相对路径的解析根目录，应与文件系统工具的 root 一致，默认 process.cwd() */
+  workspaceRoot?: string;
+}
+
+export interface ApprovalPreviewOptions {
+  /** 相对路径的解析根目录，默认 process.cwd() */
+  root?: string;
+}
+
+// ============================================================================
+// Approval Policy
+// ============================================================================
+
+export class ApprovalPolicy {
+  private rules: ApprovalRule[];
+  private defaultDecision: ApprovalDecision;
+  private handler?: ApprovalHandler;
+  private eventBus?: EventBus;
+  private preview: (tool: ApprovalTarget, input: unknown) => string | undefined;
+  /** sessionId -> 本会话已允许的授权键（工具名 + 命中的 ask 规则） */
+  private sessionGrants = new Map<string, Set<string>>();
+
+  constructor(config: ApprovalPolicyConfig = {}) {
+    this.rules = [...(config.rules ?? [])];
+    this.defaultDecision = config.defaultDecision ?? 'ask';
+    this.handler = config.handler;
+    this.eventBus = config.eventBus;
+    this.preview = config.preview ?? ((tool, input) => createApprovalPreview(tool, input, { root: config.workspaceRoot }));
+  }
+
+  addRule(rule: ApprovalRule): void {
+    this.rules.push(rule);
+  }
+
+  getRules(): ApprovalRule[] {
+    return [...this.rules];
+  }
+
+  setHandler(handler: ApprovalHandler | undefined): void {
+    this.handler = handler;
+  }
+
+  setEventBus(eventBus: EventBus | undefined): void {
+    this.eventBus = eventBus;
+  }
+
+  getEventBus(): EventBus | undefined {
+    return this.eventBus;
+  }
+
+  /**
+   * 清除会话内的 allow-session 授权（不传则清除全部）
+   */
+  clearSession(sessionId?: string): void {
+    if (sessionId === undefined) {
+      this.sessionGrants.clear();
+    } else {
+      this.sessionGrants.delete(sessionId);
+    }
+  }
+
+  /**
+   * 评估一次工具调用
+   */
+  async check(request: ApprovalRequest): Promise<ApprovalResult> {
+    const result = await this.evaluate(request);
+    this.publish('tool:approval:decided', request, result);
+    return result;
+  }
+
+  private async evaluate(request: ApprovalRequest): Promise<ApprovalResult> {
+    const { tool, input } = request;
+    const ruleIndex = this.rules.findIndex(r => matchesRule(r, tool, input));
+    const rule = ruleIndex === -1 ? undefined : this.rules[ruleIndex];
+
+    if (rule && rule.decision !== 'ask') {
+      if (rule.decision === 'allow-session') {
+        this.grant(request, grantKey(tool));
+      }
+      return { approved: rule.decision !== 'deny', decision: rule.decision, source: 'rule', reason: rule.reason };
+    }
+
+    const decision = rule ? 'ask' : tool.requiresConfirmation ? this.defaultDecision : 'allow';
+    if (decision !== 'ask') {
+      return { approved: decision !== 'deny', decision, source: 'default' };
+    }
+
+    // 授权按命中的 ask 规则区分：普通调用的会话授权不覆盖更严格的参数规则（如 rm -rf）
+    const key = grantKey(tool, rule && ruleIndex);
+    if (this.sessionGrants.get(sessionKey(request))?.has(key)) {
+      return { approved: true, decision: 'allow-session', source: 'session' };
+    }
+
+    return this.ask({ ...request, preview: request.preview ?? this.preview(tool, input) }, key, rule?.reason);
+  }
+
+  private async ask(request: ApprovalRequest, key: string, ruleReason?: string): Promise<ApprovalResult> {
+    if (!this.handler) {
+      return {
+        approved: false,
+        decision: 'deny',
+        source: 'default',
+        reason: ruleReason ?? 'Approval required but no approval handler is configured',
+      };
+    }
+
+    this.publish('tool:approval:requested', request);
+
+    let response: Awaited<ReturnType<ApprovalHandler>>;
+    try {
+      response = await raceAbort(this.handler(request), request.signal);
+    } catch (error) {
+      return { approved: false, decision: 'deny', source: 'user', reason: (error as Error).message };
+    }
+
+    const { decision, reason } = typeof response === 'string' ? { decision: response, reason: undefined } : response;
+    if (decision === 'allow-session') {
+      this.grant(request, key);
+    }
+    return { approved: decision !== 'deny', decision, source: 'user', reason };
+  }
+
+  private grant(request: ApprovalRequest, key: string): void {
+    const session = sessionKey(request);
+    if (!this.sessionGrants.has(session)) {
+      this.sessionGrants.set(session, new Set());
+    }
+    this.sessionGrants.get(session)!.add(key);
+  }
+
+  private publish(
+    type: 'tool:approval:requested' | 'tool:approval:decided',
+    request: ApprovalRequest,
+    result?: ApprovalResult
+  ): void {
+    this.eventBus?.publish<ToolApprovalPayload>(
+      type,
+      { toolId: request.tool.id, toolName: request.tool.name, input: request.input, result },
+      { agentId: request.agentId ?? 'unknown', sessionId: request.sessionId, executionId: request.executionId }
+    );
+  }
+}
+
+export function createApprovalPolicy(config?: ApprovalPolicyConfig): ApprovalPolicy {
+  return new ApprovalPolicy(config);
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+function sessionKey(request: ApprovalRequest): string {
+  return request.sessionId ?? 'default';
+}
+
+function grantKey(tool: ApprovalTarget, ruleIndex?: number): string {
+  return ruleIndex === undefined ? tool.name : `${tool.name}#rule${ruleIndex}`;
+}
+
+function matchPattern(pattern: ApprovalPattern, value: string): boolean {
+  if (pattern instanceof RegExp) {
+    return pattern.test(value);
+  }
+  if (!pattern.includes('*')) {
+    return pattern === value;
+  }
+  const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 's').test(value);
+}
+
+function readPath(input: unknown, path: string): unknown {
+  let current = input;
+  for (const key of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function matchesRule(rule: ApprovalRule, tool: ApprovalTarget, input: unknown): boolean {
+  if (!matchPattern(rule.tool, tool.name) && !matchPattern(rule.tool, tool.id)) {
+    return false;
+  }
+  return Object.entries(rule.args ?? {}).every(([path, pattern]) => {
+    const value = readPath(input, path);
+    if (value === undefined) return false;
+    return matchPattern(pattern, typeof value === 'string' ? value : JSON.stringify(value));
+  });
+}
+
+function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new Error('Approval aborted'));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new Error('Approval aborted'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// ============================================================================
+// Preview
+// ============================================================================
+
+const PREVIEW_MAX_LINES = 40;
+const DIFF_MAX_CELLS = 1_000_000;
+const DIFF_CONTEXT = 2;
+
+/**
+ * 生成审批预览：命令行、文件写入/编辑 diff，其余展示 JSON 参数
+ */
+export function createApprovalPreview(
+  _tool: ApprovalTarget,
+  input: unknown,
+  options: ApprovalPreviewOptions = {}
+): string | undefined {
+  if (!input || typeof input !== 'object') {
+    return input === undefined ? undefined : String(input);
+  }
+
+  const args = input as Record<string, unknown>;
+  if (typeof args.command === 'string') {
+    const extra = Array.isArray(args.args) ? ` ${args.args.join(' ')}` : '';
+    const cwd = typeof args.cwd === 'string' ? ` (cwd: ${args.cwd})` : '';
+    return `$ ${args.command}${extra}${cwd}`;
+  }
+
+  if (typeof args.path === 'string' && typeof args.content === 'string') {
+    const previous = readExisting(resolve(options.root ?? process.cwd(), args.path));
+    const header = previous === undefined ? `+++ ${args.path} (new file)` : `--- ${args.path}\n+++ ${args.path}`;
+    return `${header}\n${truncateLines(diffLines(previous ?? '', args.content))}`;
+  }
+
+  // edit_file：patch 原样展示，search/replace 逐条展示 diff
+  if (typeof args.path === 'string' && typeof args.patch === 'string') {
+    return truncateLines(args.patch);
+  }
+  if (typeof args.path === 'string' && Array.isArray(args.edits)) {
+    const hunks = (args.edits as Array<{ oldText?: unknown; newText?: unknown }>).map(edit =>
+      diffLines(String(edit.oldText ?? ''), String(edit.newText ?? ''))
+    );
+    return `--- ${args.path}\n+++ ${args.path}\n${truncateLines(hunks.join('\n@@\n'))}`;
+  }
+
+  return truncateLines(JSON.stringify(input, null, 2));
+}
+
+function readExisting(path: string): string | undefined {
+  try {
+    if (!existsSync(path) || statSync(path).size > 1024 * 1024) return undefined;
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
+
+function truncateLines(text: string): string {
+  const lines = text.split('\n');
+  if (lines.length <= PREVIEW_MAX_LINES) return text;
+  return [...lines.slice(0, PREVIEW_MAX_LINES), `… (${lines.length - PREVIEW_MAX_LINES} more lines)`].join('\n');
+}
+
+/**
+ * 基于 LCS 的行级 diff，未改动的长段落折叠为上下文行
+ */
+export function diffLines(before: string, after: string): string {
+  const a = before === '' ? [] : before.split('\n');
+  const b = after === '' ? [] : after.split('\n');
+
+  if (a.length * b.length > DIFF_MAX_CELLS) {
+    return [...a.map(line => `-${line}`), ...b.map(line => `+${line}`)].join('\n');
+  }
+
+  // lcs[i][j] = a[i..] 与 b[j..] 的最长公共子序列长度
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push(` ${a[i]}`);
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      lines.push(`-${a[i++]}`);
+    } else {
+      lines.push(`+${b[j++]}`);
+    }
+  }
+
+  // 折叠距离改动超过 DIFF_CONTEXT 行的未改动内容
+  const changed = lines.map(line => line[0] !== ' ');
+  const output: string[] = [];
+  let skipped = 0;
+  lines.forEach((line, index) => {
+    const near = changed
+      .slice(Math.max(0, index - DIFF_CONTEXT), index + DIFF_CONTEXT + 1)
+      .some(Boolean);
+    if (near) {
+      if (skipped > 0) output.push(`@@ ${skipped} unchanged lines @@`);
+      skipped = 0;
+      output.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) output.push(`@@ ${skipped} unchanged lines @@`);
+
+  return output.join('\n');
+}
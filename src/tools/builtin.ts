@@ -1,7 +1,7 @@
 /**
  * Built-in Tools - 内置工具集
  *
- * 提供文件系统、HTTP 请求、命令执行等基础工具
+ * 提供工作区文件系统、HTTP 请求、命令执行等基础工具
  *
  * @module BuiltinTools
  * @version 2.0.0
@@ -9,140 +9,24 @@
 
 import { z } from 'zod';
 import type { Tool, ToolResult, ToolPlugin } from './core/types.js';
+import { createFilesystemTools } from './filesystem.js';
 
 // ============================================================================
 // File System Tools
 // ============================================================================
 
-export const fileReadTool: Tool = {
-  id: 'fs:read',
-  name: 'file_read',
-  description: 'Read content from a file',
-  category: 'filesystem',
-  parameters: z.object({
-    path: z.string().describe('Path to the file'),
-    encoding: z.string().default('utf-8').describe('File encoding'),
-  }),
-  execute: async (input, context): Promise<ToolResult> => {
-    try {
-      const fs = await import('fs/promises');
-      const { path, encoding = 'utf-8' } = input as { path: string; encoding?: string };
-      const content = await fs.readFile(path, { encoding: encoding as BufferEncoding });
-      
-      return {
-        success: true,
-        data: content,
-        output: {
-          content: [{ type: 'text', text: content }],
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: {
-          code: 'FILE_READ_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to read file',
-          recoverable: false,
-        },
-      };
-    }
-  },
-  metadata: {
-    version: '2.0.0',
-    tags: ['file', 'read', 'filesystem'],
-  },
-};
-
-export const fileWriteTool: Tool = {
-  id: 'fs:write',
-  name: 'file_write',
-  description: 'Write content to a file',
-  category: 'filesystem',
-  parameters: z.object({
-    path: z.string().describe('Path to the file'),
-    content: z.string().describe('Content to write'),
-    encoding: z.string().default('utf-8').describe('File encoding'),
-  }),
-  execute: async (input, context): Promise<ToolResult> => {
-    try {
-      const fs = await import('fs/promises');
-      const { path, content, encoding = 'utf-8' } = input as { 
-        path: string; 
-        content: string; 
-        encoding?: string 
-      };
-      
-      await fs.writeFile(path, content, { encoding: encoding as BufferEncoding });
-      
-      return {
-        success: true,
-        data: { path, bytesWritten: content.length },
-        output: {
-          content: [{ type: 'text', text: `Successfully wrote to ${path}` }],
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: {
-          code: 'FILE_WRITE_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to write file',
-          recoverable: false,
-        },
-      };
-    }
-  },
-  metadata: {
-    version: '2.0.0',
-    tags: ['file', 'write', 'filesystem'],
-    requiresConfirmation: true,
-  },
-};
+/**
+ * 默认以进程启动时的工作目录为工作区根目录；
+ * 其他根目录使用 createFilesystemTools({ root }) 创建
+ */
+const workspaceTools = createFilesystemTools();
 
-export const fileListTool: Tool = {
-  id: 'fs:list',
-  name: 'file_list',
-  description: 'List files in a directory',
-  category: 'filesystem',
-  parameters: z.object({
-    path: z.string().describe('Directory path'),
-    recursive: z.boolean().default(false).describe('List recursively'),
-  }),
-  execute: async (input, context): Promise<ToolResult> => {
-    try {
-      const fs = await import('fs/promises');
-      const { path, recursive = false } = input as { path: string; recursive?: boolean };
-      
-      const entries = await fs.readdir(path, { withFileTypes: true, recursive });
-      const files = entries.map(entry => ({
-        name: entry.name,
-        isDirectory: entry.isDirectory(),
-        isFile: entry.isFile(),
-      }));
-      
-      return {
-        success: true,
-        data: files,
-        output: {
-          content: [{ type: 'json', text: JSON.stringify(files, null, 2) }],
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: {
-          code: 'FILE_LIST_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to list directory',
-          recoverable: false,
-        },
-      };
-    }
-  },
-  metadata: {
-    version: '2.0.0',
-    tags: ['file', 'list', 'directory'],
-  },
-};
+export const fileReadTool: Tool = workspaceTools.fileRead;
+export const fileWriteTool: Tool = workspaceTools.fileWrite;
+export const fileListTool: Tool = workspaceTools.fileList;
+export const globTool: Tool = workspaceTools.glob;
+export const grepTool: Tool = workspaceTools.grep;
+export const editFileTool: Tool = workspaceTools.editFile;
 
 // ============================================================================
 // Network Tools
@@ -365,6 +249,9 @@ export const builtinTools: Tool[] = [
   fileReadTool,
   fileWriteTool,
   fileListTool,
+  globTool,
+  grepTool,
+  editFileTool,
   httpRequestTool,
   executeCommandTool,
   jsonParseTool,
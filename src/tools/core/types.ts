@@ -106,8 +106,10 @@ export interface Tool {
   description: string;
   /** 分类 */
   category: ToolCategory;
-  /** 参数 Schema (zod) */
+  /** 参数 Schema (zod)，执行前校验并应用默认值 */
   parameters: z.ZodType<unknown>;
+  /** 输出 Schema (zod)，可选，校验成功结果的 data */
+  outputSchema?: z.ZodType<unknown>;
   /** 执行函数 */
   execute: (input: unknown, context: ExecutionContext) => Promise<ToolResult>;
   /** 元数据 */
@@ -0,0 +1,839 @@
+/**
+ * Filesystem Tools - 工作区文件系统工具
+ *
+ * 所有路径都限制在配置的工作区根目录内：先解析符号链接再校验，
+ * 防止通过 `..` 或指向外部的符号链接逃逸。提供按行读取、glob/grep 搜索，
+ * 以及 search/replace 与 unified diff 两种编辑方式（全部成功才原子写入）。
+ *
+ * @module FilesystemTools
+ * @version 1.0.0
+ */
+
+import { randomBytes } from 'crypto';
+import { lstat, mkdir, readdir, readFile, realpath, rename, stat, unlink, writeFile } from 'fs/promises';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { z } from 'zod';
+import { diffLines } from './approval.js';
+import type { Tool, ToolResult } from './core/types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface FilesystemToolsOptions {
+  /** 工作区根目录，默认 process.cwd() */
+  root?: string;
+  /** 遍历时跳过的目录名 */
+  ignore?: string[];
+  /** grep 跳过超过该大小的文件（字节），默认 1MB */
+  maxFileSize?: number;
+}
+
+export interface TextEdit {
+  oldText: string;
+  newText: string;
+  /** 替换全部匹配；否则要求 oldText 唯一 */
+  replaceAll?: boolean;
+}
+
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: Array<{ type: ' ' | '-' | '+'; text: string }>;
+}
+
+const DEFAULT_IGNORE = ['.git', 'node_modules'];
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+
+/**
+ * 文件工具错误，code 对应 ToolError.code
+ */
+export class FileToolError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'FileToolError';
+  }
+}
+
+// ============================================================================
+// Workspace
+// ============================================================================
+
+function isInside(root: string, target: string): boolean {
+  const rel = relative(root, target);
+  return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+function errorCode(error: unknown): string | undefined {
+  return (error as NodeJS.ErrnoException | undefined)?.code;
+}
+
+/**
+ * 工作区根目录与路径解析
+ */
+export class Workspace {
+  readonly root: string;
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  /**
+   * 根目录的真实路径
+   */
+  realRoot(): Promise<string> {
+    return realpath(this.root);
+  }
+
+  /**
+   * 将相对（或工作区内的绝对）路径解析为真实绝对路径；
+   * 目标不存在时解析其最近的已存在祖先，保证后续创建也落在工作区内
+   */
+  async resolve(path: string): Promise<string> {
+    const root = await this.realRoot();
+    const target = resolve(root, path);
+    const rest: string[] = [];
+    let current = target;
+
+    for (;;) {
+      try {
+        const real = join(await realpath(current), ...rest);
+        if (!isInside(root, real)) break;
+        return real;
+      } catch (error) {
+        if (errorCode(error) !== 'ENOENT') throw error;
+        // 悬空符号链接：写入会跟随链接到未知位置
+        if ((await lstat(current).catch(() => undefined))?.isSymbolicLink()) break;
+        if (current === dirname(current)) break;
+        rest.unshift(basename(current));
+        current = dirname(current);
+      }
+    }
+
+    throw new FileToolError(`Path is outside the workspace: ${path}`, 'PATH_OUTSIDE_WORKSPACE', { path });
+  }
+
+  /**
+   * 工作区相对路径（使用 / 分隔），根目录为 `.`
+   */
+  async relative(absolute: string): Promise<string> {
+    return toPosix(relative(await this.realRoot(), absolute)) || '.';
+  }
+}
+
+function toPosix(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
+
+interface WalkEntry {
+  /** 相对遍历起点的路径（/ 分隔） */
+  path: string;
+  absolute: string;
+  isDirectory: boolean;
+}
+
+/**
+ * 深度优先遍历目录，按名称排序；不跟随符号链接，跳过 ignore 中的目录
+ */
+async function* walk(dir: string, ignore: Set<string>, prefix = ''): AsyncGenerator<WalkEntry> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (entry.isSymbolicLink()) continue;
+    const path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    const absolute = join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      if (ignore.has(entry.name)) continue;
+      yield { path, absolute, isDirectory: true };
+      yield* walk(absolute, ignore, path);
+    } else if (entry.isFile()) {
+      yield { path, absolute, isDirectory: false };
+    }
+  }
+}
+
+// ============================================================================
+// Glob
+// ============================================================================
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function globSource(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` 匹配零或多级目录，单独的 `**` 匹配任意路径
+        if (pattern[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{' && pattern.indexOf('}', i) > i) {
+      const end = pattern.indexOf('}', i);
+      source += `(?:${pattern.slice(i + 1, end).split(',').map(globSource).join('|')})`;
+      i = end;
+    } else if (char === '[' && pattern.indexOf(']', i + 2) > i) {
+      const end = pattern.indexOf(']', i + 2);
+      const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * 将 glob 模式转换为正则：支持 `*`、`**`、`?`、`[...]`、`{a,b}`
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${globSource(pattern.replace(/^\.\//, ''))}$`);
+}
+
+// ============================================================================
+// Editing
+// ============================================================================
+
+function countOccurrences(content: string, search: string): number {
+  let count = 0;
+  for (let index = content.indexOf(search); index !== -1; index = content.indexOf(search, index + search.length)) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 依次应用 search/replace 编辑；任一编辑无法唯一定位时抛出 EDIT_CONFLICT
+ */
+export function applyTextEdits(content: string, edits: TextEdit[]): { content: string; replacements: number } {
+  let result = content;
+  let replacements = 0;
+
+  edits.forEach((edit, index) => {
+    // 空字符串匹配任意位置，无法定位
+    if (!edit.oldText) {
+      throw new FileToolError(`edits[${index}]: oldText must not be empty`, 'EDIT_CONFLICT', { edit: index });
+    }
+    const count = countOccurrences(result, edit.oldText);
+    if (count === 0) {
+      throw new FileToolError(`edits[${index}]: oldText not found in file`, 'EDIT_CONFLICT', { edit: index });
+    }
+    if (count > 1 && !edit.replaceAll) {
+      throw new FileToolError(
+        `edits[${index}]: oldText matches ${count} locations; include more context or set replaceAll`,
+        'EDIT_CONFLICT',
+        { edit: index, matches: count }
+      );
+    }
+
+    if (edit.replaceAll) {
+      result = result.split(edit.oldText).join(edit.newText);
+    } else {
+      const at = result.indexOf(edit.oldText);
+      result = result.slice(0, at) + edit.newText + result.slice(at + edit.oldText.length);
+    }
+    replacements += count;
+  });
+
+  return { content: result, replacements };
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * 解析单文件 unified diff，忽略 `diff`/`---`/`+++` 等文件头
+ */
+export function parseUnifiedDiff(patch: string): { hunks: PatchHunk[]; noNewlineAtEnd: boolean } {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const hunks: PatchHunk[] = [];
+  let noNewlineAtEnd = false;
+  let i = 0;
+
+  while (i < lines.length) {
+    const header = HUNK_HEADER.exec(lines[i]);
+    if (!header) {
+      if (lines[i].startsWith('+++ ') && hunks.length > 0) {
+        throw new FileToolError('Patch must target a single file', 'PATCH_INVALID');
+      }
+      i++;
+      continue;
+    }
+
+    const hunk: PatchHunk = {
+      oldStart: Number(header[1]),
+      oldLines: header[2] === undefined ? 1 : Number(header[2]),
+      newStart: Number(header[3]),
+      newLines: header[4] === undefined ? 1 : Number(header[4]),
+      lines: [],
+    };
+    let oldSeen = 0;
+    let newSeen = 0;
+    i++;
+
+    while (oldSeen < hunk.oldLines || newSeen < hunk.newLines) {
+      if (i >= lines.length) {
+        throw new FileToolError(`Hunk ${hunks.length + 1} is truncated`, 'PATCH_INVALID', { hunk: hunks.length + 1 });
+      }
+      const line = lines[i++];
+      // 部分编辑器会去掉空上下文行的前导空格
+      const type = line === '' ? ' ' : line[0];
+      if (type === '\\') continue;
+      if (type !== ' ' && type !== '-' && type !== '+') {
+        throw new FileToolError(`Hunk ${hunks.length + 1} has an invalid line: ${line}`, 'PATCH_INVALID', {
+          hunk: hunks.length + 1,
+        });
+      }
+      hunk.lines.push({ type, text: line.slice(1) });
+      if (type !== '+') oldSeen++;
+      if (type !== '-') newSeen++;
+    }
+
+    if (lines[i]?.startsWith('\\')) {
+      noNewlineAtEnd = hunk.lines[hunk.lines.length - 1]?.type !== '-';
+      i++;
+    }
+    hunks.push(hunk);
+  }
+
+  if (hunks.length === 0) {
+    throw new FileToolError('Patch contains no hunks', 'PATCH_INVALID');
+  }
+  return { hunks, noNewlineAtEnd };
+}
+
+function matchesAt(lines: string[], block: string[], index: number): boolean {
+  if (index < 0 || index + block.length > lines.length) return false;
+  return block.every((line, offset) => lines[index + offset] === line);
+}
+
+/**
+ * 在 minIndex 之后定位代码块，优先期望位置，其次最近的匹配
+ */
+function locate(lines: string[], block: string[], expected: number, minIndex: number): number {
+  const start = Math.max(expected, minIndex);
+  if (block.length === 0) return Math.min(start, lines.length);
+  if (matchesAt(lines, block, start)) return start;
+
+  let best = -1;
+  for (let index = minIndex; index + block.length <= lines.length; index++) {
+    if (matchesAt(lines, block, index) && (best === -1 || Math.abs(index - start) < Math.abs(best - start))) {
+      best = index;
+    }
+  }
+  return best;
+}
+
+/**
+ * 应用 unified diff；上下文与删除行在文件中找不到时抛出 EDIT_CONFLICT。
+ * 行号偏移时按上下文就近定位（与 patch 的 offset 行为一致）
+ */
+export function applyUnifiedPatch(content: string, patch: string): { content: string; hunks: number } {
+  const { hunks, noNewlineAtEnd } = parseUnifiedDiff(patch);
+  const trailingNewline = content === '' || content.endsWith('\n');
+  const lines = content === '' ? [] : content.split('\n');
+  if (content.endsWith('\n')) lines.pop();
+
+  let offset = 0;
+  let minIndex = 0;
+
+  hunks.forEach((hunk, index) => {
+    const oldBlock = hunk.lines.filter(line => line.type !== '+').map(line => line.text);
+    const newBlock = hunk.lines.filter(line => line.type !== '-').map(line => line.text);
+    // 纯新增的 hunk 中 oldStart 指向插入点之前的行
+    const original = hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1;
+    const at = locate(lines, oldBlock, original + offset, minIndex);
+
+    if (at === -1) {
+      throw new FileToolError(
+        `Hunk ${index + 1} (@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@) does not apply: context not found`,
+        'EDIT_CONFLICT',
+        { hunk: index + 1 }
+      );
+    }
+
+    lines.splice(at, oldBlock.length, ...newBlock);
+    offset = at - original + newBlock.length - oldBlock.length;
+    minIndex = at + newBlock.length;
+  });
+
+  const result = lines.join('\n');
+  return {
+    content: result && trailingNewline && !noNewlineAtEnd ? `${result}\n` : result,
+    hunks: hunks.length,
+  };
+}
+
+/**
+ * 先写临时文件再 rename，保证读者不会看到半写入的内容；保留原文件权限
+ */
+async function writeAtomic(path: string, content: string, encoding: BufferEncoding): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const mode = (await stat(path).catch(() => undefined))?.mode;
+  const temp = join(dirname(path), `.${basename(path)}.${randomBytes(6).toString('hex')}.tmp`);
+
+  try {
+    await writeFile(temp, content, { encoding, mode });
+    await rename(temp, path);
+  } catch (error) {
+    await unlink(temp).catch(() => undefined);
+    throw error;
+  }
+}
+
+// ============================================================================
+// Tool Results
+// ============================================================================
+
+const RECOVERABLE_ERRNO = new Set(['ENOENT', 'ENOTDIR', 'EISDIR']);
+
+function toFailure(error: unknown, code: string, fallback: string): ToolResult {
+  if (error instanceof FileToolError) {
+    return {
+      success: false,
+      error: { code: error.code, message: error.message, recoverable: true, details: error.details },
+    };
+  }
+  return {
+    success: false,
+    error: {
+      code,
+      message: error instanceof Error ? error.message : fallback,
+      // 路径错误可由模型换一个路径重试
+      recoverable: RECOVERABLE_ERRNO.has(errorCode(error) ?? ''),
+    },
+  };
+}
+
+function normalizeNewlines(text: string): string {
+  return text.replace(/\r\n/g, '\n');
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+export interface FilesystemTools {
+  workspace: Workspace;
+  fileRead: Tool;
+  fileWrite: Tool;
+  fileList: Tool;
+  glob: Tool;
+  grep: Tool;
+  editFile: Tool;
+  /** 以上全部工具 */
+  tools: Tool[];
+}
+
+/**
+ * 创建限定在工作区内的文件系统工具
+ */
+export function createFilesystemTools(options: FilesystemToolsOptions = {}): FilesystemTools {
+  const workspace = new Workspace(options.root ?? process.cwd());
+  const ignore = new Set(options.ignore ?? DEFAULT_IGNORE);
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+
+  const fileRead: Tool = {
+    id: 'fs:read',
+    name: 'file_read',
+    description: 'Read a file in the workspace, optionally a range of lines (offset is 1-based)',
+    category: 'filesystem',
+    parameters: z.object({
+      path: z.string().describe('Path relative to the workspace root'),
+      offset: z.number().int().min(1).optional().describe('First line to read (1-based)'),
+      limit: z.number().int().min(1).optional().describe('Maximum number of lines to read'),
+      encoding: z.string().default('utf-8').describe('File encoding'),
+    }),
+    execute: async (input): Promise<ToolResult> => {
+      try {
+        const { path, offset, limit, encoding = 'utf-8' } = input as {
+          path: string;
+          offset?: number;
+          limit?: number;
+          encoding?: string;
+        };
+        const content = await readFile(await workspace.resolve(path), { encoding: encoding as BufferEncoding });
+
+        if (offset === undefined && limit === undefined) {
+          return { success: true, data: content, output: { content: [{ type: 'text', text: content }] } };
+        }
+
+        const lines = content.split('\n');
+        if (content.endsWith('\n')) lines.pop();
+        const start = (offset ?? 1) - 1;
+        if (start >= lines.length && lines.length > 0) {
+          throw new FileToolError(`offset ${offset} exceeds file length (${lines.length} lines)`, 'FILE_READ_ERROR', {
+            totalLines: lines.length,
+          });
+        }
+
+        const end = limit === undefined ? lines.length : Math.min(lines.length, start + limit);
+        const text = lines.slice(start, end).join('\n');
+        const more = end < lines.length ? `\n\n[lines ${start + 1}-${end} of ${lines.length}; continue with offset=${end + 1}]` : '';
+
+        return {
+          success: true,
+          data: text,
+          output: {
+            content: [{ type: 'text', text: text + more }],
+            metadata: { startLine: start + 1, endLine: end, totalLines: lines.length },
+          },
+        };
+      } catch (error) {
+        return toFailure(error, 'FILE_READ_ERROR', 'Failed to read file');
+      }
+    },
+    metadata: {
+      version: '2.1.0',
+      tags: ['file', 'read', 'filesystem'],
+    },
+  };
+
+  const fileWrite: Tool = {
+    id: 'fs:write',
+    name: 'file_write',
+    description: 'Create or overwrite a file in the workspace',
+    category: 'filesystem',
+    parameters: z.object({
+      path: z.string().describe('Path relative to the workspace root'),
+      content: z.string().describe('Content to write'),
+      encoding: z.string().default('utf-8').describe('File encoding'),
+    }),
+    execute: async (input): Promise<ToolResult> => {
+      try {
+        const { path, content, encoding = 'utf-8' } = input as { path: string; content: string; encoding?: string };
+        const absolute = await workspace.resolve(path);
+        await writeAtomic(absolute, content, encoding as BufferEncoding);
+        const relativePath = await workspace.relative(absolute);
+
+        return {
+          success: true,
+          data: { path: relativePath, bytesWritten: Buffer.byteLength(content, encoding as BufferEncoding) },
+          output: { content: [{ type: 'text', text: `Successfully wrote to ${relativePath}` }] },
+        };
+      } catch (error) {
+        return toFailure(error, 'FILE_WRITE_ERROR', 'Failed to write file');
+      }
+    },
+    metadata: {
+      version: '2.1.0',
+      tags: ['file', 'write', 'filesystem'],
+      requiresConfirmation: true,
+    },
+  };
+
+  const fileList: Tool = {
+    id: 'fs:list',
+    name: 'file_list',
+    description: 'List files in a workspace directory',
+    category: 'filesystem',
+    parameters: z.object({
+      path: z.string().default('.').describe('Directory path relative to the workspace root'),
+      recursive: z.boolean().default(false).describe('List recursively (skips ignored directories)'),
+      limit: z.number().int().min(1).default(1000).describe('Maximum number of entries'),
+    }),
+    execute: async (input): Promise<ToolResult> => {
+      try {
+        const { path = '.', recursive = false, limit = 1000 } = input as {
+          path?: string;
+          recursive?: boolean;
+          limit?: number;
+        };
+        const dir = await workspace.resolve(path);
+        const files: Array<{ name: string; path: string; isDirectory: boolean; isFile: boolean }> = [];
+        let truncated = false;
+
+        if (recursive) {
+          for await (const entry of walk(dir, ignore)) {
+            if (files.length >= limit) {
+              truncated = true;
+              break;
+            }
+            files.push({ name: basename(entry.path), path: entry.path, isDirectory: entry.isDirectory, isFile: !entry.isDirectory });
+          }
+        } else {
+          const entries = await readdir(dir, { withFileTypes: true });
+          entries.sort((a, b) => a.name.localeCompare(b.name));
+          truncated = entries.length > limit;
+          files.push(
+            ...entries.slice(0, limit).map(entry => ({
+              name: entry.name,
+              path: entry.name,
+              isDirectory: entry.isDirectory(),
+              isFile: entry.isFile(),
+            }))
+          );
+        }
+
+        return {
+          success: true,
+          data: files,
+          output: {
+            content: [{ type: 'json', text: JSON.stringify(files, null, 2) }],
+            metadata: { truncated },
+          },
+        };
+      } catch (error) {
+        return toFailure(error, 'FILE_LIST_ERROR', 'Failed to list directory');
+      }
+    },
+    metadata: {
+      version: '2.1.0',
+      tags: ['file', 'list', 'directory'],
+    },
+  };
+
+  const glob: Tool = {
+    id: 'fs:glob',
+    name: 'glob',
+    description: 'Find files in the workspace matching a glob pattern such as "src/**/*.ts"',
+    category: 'filesystem',
+    parameters: z.object({
+      pattern: z.string().min(1).describe('Glob pattern relative to path (supports *, **, ?, [..], {a,b})'),
+      path: z.string().default('.').describe('Directory to search from, relative to the workspace root'),
+      limit: z.number().int().min(1).default(200).describe('Maximum number of results'),
+    }),
+    execute: async (input): Promise<ToolResult> => {
+      try {
+        const { pattern, path = '.', limit = 200 } = input as { pattern: string; path?: string; limit?: number };
+        const dir = await workspace.resolve(path);
+        const base = await workspace.relative(dir);
+        const matcher = globToRegExp(pattern);
+        const files: string[] = [];
+        let truncated = false;
+
+        for await (const entry of walk(dir, ignore)) {
+          if (entry.isDirectory || !matcher.test(entry.path)) continue;
+          if (files.length >= limit) {
+            truncated = true;
+            break;
+          }
+          files.push(base === '.' ? entry.path : `${base}/${entry.path}`);
+        }
+
+        const text = files.length > 0 ? files.join('\n') : `No files match ${pattern}`;
+        return {
+          success: true,
+          data: { files, truncated },
+          output: { content: [{ type: 'text', text: truncated ? `${text}\n… (limit ${limit} reached)` : text }] },
+        };
+      } catch (error) {
+        return toFailure(error, 'GLOB_ERROR', 'Failed to search files');
+      }
+    },
+    metadata: {
+      version: '1.0.0',
+      tags: ['file', 'glob', 'search', 'filesystem'],
+    },
+  };
+
+  const grep: Tool = {
+    id: 'fs:grep',
+    name: 'grep',
+    description: 'Search file contents in the workspace with a regular expression',
+    category: 'filesystem',
+    parameters: z.object({
+      pattern: z.string().min(1).describe('Regular expression (JavaScript syntax)'),
+      path: z.string().default('.').describe('File or directory to search, relative to the workspace root'),
+      include: z.string().optional().describe('Only search files matching this glob; patterns without "/" match file names'),
+      ignoreCase: z.boolean().default(false).describe('Case-insensitive search'),
+      context: z.number().int().min(0).max(10).default(0).describe('Lines of context around each match'),
+      limit: z.number().int().min(1).default(100).describe('Maximum number of matching lines'),
+    }),
+    execute: async (input): Promise<ToolResult> => {
+      try {
+        const { pattern, path = '.', include, ignoreCase = false, context = 0, limit = 100 } = input as {
+          pattern: string;
+          path?: string;
+          include?: string;
+          ignoreCase?: boolean;
+          context?: number;
+          limit?: number;
+        };
+
+        let regex: RegExp;
+        try {
+          regex = new RegExp(pattern, ignoreCase ? 'i' : '');
+        } catch (error) {
+          throw new FileToolError(`Invalid regular expression: ${(error as Error).message}`, 'GREP_INVALID_PATTERN');
+        }
+
+        const target = await workspace.resolve(path);
+        const includeMatcher = include ? globToRegExp(include) : undefined;
+        const matchesInclude = (file: string) =>
+          !includeMatcher || includeMatcher.test(include!.includes('/') ? file : basename(file));
+
+        const candidates: Array<{ path: string; absolute: string }> = [];
+        if ((await stat(target)).isDirectory()) {
+          const base = await workspace.relative(target);
+          for await (const entry of walk(target, ignore)) {
+            if (!entry.isDirectory && matchesInclude(entry.path)) {
+              candidates.push({ path: base === '.' ? entry.path : `${base}/${entry.path}`, absolute: entry.absolute });
+            }
+          }
+        } else {
+          candidates.push({ path: await workspace.relative(target), absolute: target });
+        }
+
+        const matches: Array<{ path: string; line: number; text: string }> = [];
+        const output: string[] = [];
+        let truncated = false;
+
+        for (const file of candidates) {
+          if (truncated) break;
+          if ((await stat(file.absolute)).size > maxFileSize) continue;
+          const content = await readFile(file.absolute, 'utf-8');
+          // 跳过二进制文件
+          if (content.includes('\u0000')) continue;
+
+          const lines = normalizeNewlines(content).split('\n');
+          let printedUntil = -1;
+          for (let i = 0; i < lines.length; i++) {
+            if (!regex.test(lines[i])) continue;
+            if (matches.length >= limit) {
+              truncated = true;
+              break;
+            }
+            matches.push({ path: file.path, line: i + 1, text: lines[i] });
+
+            const from = Math.max(i - context, printedUntil + 1);
+            const to = Math.min(i + context, lines.length - 1);
+            if (context > 0 && printedUntil >= 0 && from > printedUntil + 1) output.push('--');
+            for (let j = from; j <= to; j++) {
+              output.push(`${file.path}${j === i ? ':' : '-'}${j + 1}${j === i ? ':' : '-'} ${lines[j]}`);
+            }
+            printedUntil = to;
+          }
+        }
+
+        const text = matches.length > 0 ? output.join('\n') : `No matches for /${pattern}/`;
+        return {
+          success: true,
+          data: { matches, truncated },
+          output: { content: [{ type: 'text', text: truncated ? `${text}\n… (limit ${limit} reached)` : text }] },
+        };
+      } catch (error) {
+        return toFailure(error, 'GREP_ERROR', 'Failed to search file contents');
+      }
+    },
+    metadata: {
+      version: '1.0.0',
+      tags: ['file', 'grep', 'search', 'filesystem'],
+    },
+  };
+
+  const editFile: Tool = {
+    id: 'fs:edit',
+    name: 'edit_file',
+    description:
+      'Edit a workspace file with search/replace edits or a unified diff patch. All changes apply atomically or none do',
+    category: 'filesystem',
+    parameters: z
+      .object({
+        path: z.string().describe('Path relative to the workspace root'),
+        edits: z
+          .array(
+            z.object({
+              oldText: z.string().min(1).describe('Exact text to replace'),
+              newText: z.string().describe('Replacement text'),
+              replaceAll: z.boolean().default(false).describe('Replace every occurrence instead of requiring a unique match'),
+            })
+          )
+          .min(1)
+          .optional()
+          .describe('Search/replace edits applied in order'),
+        patch: z.string().optional().describe('Unified diff hunks for this file'),
+      })
+      .refine(value => (value.edits === undefined) !== (value.patch === undefined), {
+        message: 'Provide either edits or patch',
+      }),
+    execute: async (input): Promise<ToolResult> => {
+      try {
+        const { path, edits, patch } = input as { path: string; edits?: TextEdit[]; patch?: string };
+        const absolute = await workspace.resolve(path);
+
+        let original: string;
+        try {
+          original = await readFile(absolute, 'utf-8');
+        } catch (error) {
+          // 新文件只能通过 patch 创建
+          if (errorCode(error) !== 'ENOENT' || patch === undefined) throw error;
+          original = '';
+        }
+
+        // 统一按 LF 匹配，写回时恢复原有换行风格
+        const crlf = original.includes('\r\n');
+        const before = normalizeNewlines(original);
+        let after: string;
+        let summary: string;
+        if (edits) {
+          const result = applyTextEdits(
+            before,
+            edits.map(edit => ({ ...edit, oldText: normalizeNewlines(edit.oldText), newText: normalizeNewlines(edit.newText) }))
+          );
+          after = result.content;
+          summary = `${result.replacements} replacement(s)`;
+        } else {
+          const result = applyUnifiedPatch(before, patch!);
+          after = result.content;
+          summary = `${result.hunks} hunk(s)`;
+        }
+
+        const current = await readFile(absolute, 'utf-8').catch(() => '');
+        if (current !== original) {
+          throw new FileToolError(`${path} changed on disk while editing; read it again and retry`, 'EDIT_CONFLICT');
+        }
+
+        await writeAtomic(absolute, crlf ? after.replace(/\n/g, '\r\n') : after, 'utf-8');
+        const relativePath = await workspace.relative(absolute);
+        const diff = diffLines(before, after);
+
+        return {
+          success: true,
+          data: { path: relativePath, diff },
+          output: { content: [{ type: 'text', text: `Edited ${relativePath} (${summary})\n${diff}` }] },
+        };
+      } catch (error) {
+        return toFailure(error, 'FILE_EDIT_ERROR', 'Failed to edit file');
+      }
+    },
+    metadata: {
+      version: '1.0.0',
+      tags: ['file', 'edit', 'patch', 'filesystem'],
+      requiresConfirmation: true,
+    },
+  };
+
+  return {
+    workspace,
+    fileRead,
+    fileWrite,
+    fileList,
+    glob,
+    grep,
+    editFile,
+    tools: [fileRead, fileWrite, fileList, glob, grep, editFile],
+  };
+}
@@ -65,6 +65,78 @@ export {
   getGlobalToolRegistry,
   resetGlobalToolRegistry,
 } from './registry.js';
+export type { ToolRegistryOptions } from './registry.js';
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+export {
+  validateToolInput,
+  validateToolOutput,
+  formatToolError,
+  formatIssuePath,
+} from './validation.js';
+export type { ToolValidationIssue, ToolValidationResult } from './validation.js';
+
+// ============================================================================
+// Approval
+// ============================================================================
+
+export {
+  ApprovalPolicy,
+  createApprovalPolicy,
+  createApprovalPreview,
+  diffLines,
+} from './approval.js';
+export type {
+  ApprovalDecision,
+  ApprovalResponseDecision,
+  ApprovalPattern,
+  ApprovalRule,
+  ApprovalTarget,
+  ApprovalRequest,
+  ApprovalHandler,
+  ApprovalResult,
+  ApprovalPolicyConfig,
+  ApprovalPreviewOptions,
+  ToolApprovalPayload,
+} from './approval.js';
+
+// ============================================================================
+// Allowed Tools
+// ============================================================================
+
+export {
+  ScopedToolRegistry,
+  scopeToolRegistry,
+  parseAllowedTools,
+  formatAllowedToolRule,
+  matchesToolName,
+  checkToolPermission,
+  TOOL_NAME_ALIASES,
+} from './allowed-tools.js';
+export type {
+  AllowedToolRule,
+  ToolPermission,
+  ToolViolation,
+  ScopedToolRegistryOptions,
+} from './allowed-tools.js';
+
+// ============================================================================
+// Filesystem Tools
+// ============================================================================
+
+export {
+  Workspace,
+  FileToolError,
+  createFilesystemTools,
+  globToRegExp,
+  applyTextEdits,
+  applyUnifiedPatch,
+  parseUnifiedDiff,
+} from './filesystem.js';
+export type { FilesystemTools, FilesystemToolsOptions, TextEdit, PatchHunk } from './filesystem.js';
 
 // ============================================================================
 // Built-in Tools
@@ -74,6 +146,9 @@ export {
   fileReadTool,
   fileWriteTool,
   fileListTool,
+  globTool,
+  grepTool,
+  editFileTool,
   httpRequestTool,
   executeCommandTool,
   jsonParseTool,
@@ -1,7 +1,7 @@
 /**
  * Tool Registry - 工具注册表
  *
- * 插件化架构，支持并行执行、重试策略
+ * 插件化架构，支持并行执行、重试策略、执行审批、输入/输出校验
  *
  * @module ToolRegistry
  * @version 2.0.0
@@ -18,12 +18,39 @@ import type {
   IToolRegistry,
   ToolPlugin,
 } from './core/types.js';
+import { ApprovalPolicy } from './approval.js';
+import { validateToolInput, validateToolOutput } from './validation.js';
+
+export interface ToolRegistryOptions {
+  /** 执行前的审批策略；未配置时 requiresConfirmation 的工具一律拒绝执行 */
+  approval?: ApprovalPolicy;
+}
+
+/** 未配置审批策略时使用：无规则、无回调，需要确认的工具均被拒绝 */
+const FAIL_CLOSED_APPROVAL = new ApprovalPolicy();
 
 export class ToolRegistry implements IToolRegistry {
   private tools = new Map<ToolId, Tool>();
   private nameToId = new Map<ToolName, ToolId>();
   private categories = new Map<ToolCategory, Set<ToolId>>();
   private plugins = new Map<string, ToolPlugin>();
+  private approval?: ApprovalPolicy;
+
+  constructor(options: ToolRegistryOptions = {}) {
+    this.approval = options.approval;
+  }
+
+  // ============================================================================
+  // Approval
+  // ============================================================================
+
+  setApprovalPolicy(policy: ApprovalPolicy | undefined): void {
+    this.approval = policy;
+  }
+
+  getApprovalPolicy(): ApprovalPolicy | undefined {
+    return this.approval;
+  }
 
   // ============================================================================
   // Tool Management
@@ -159,7 +186,8 @@ export class ToolRegistry implements IToolRegistry {
     context: ExecutionContext,
     options: ToolExecutionOptions = {}
   ): Promise<ToolResult> {
-    const tool = this.tools.get(toolId);
+    // 兼容按名称调用（ReAct 循环使用工具名）
+    const tool = this.tools.get(toolId) ?? this.getByName(toolId);
     if (!tool) {
       return {
         success: false,
@@ -171,19 +199,61 @@ export class ToolRegistry implements IToolRegistry {
       };
     }
 
+    // 校验并规范化输入
+    const validation = validateToolInput(tool, input);
+    if (!validation.success) {
+      return { success: false, error: validation.error };
+    }
+    const parsedInput = validation.data;
+
+    // 审批（requiresConfirmation 的工具默认需要确认；无策略或无审批回调时拒绝）
+    const policy = this.approval ?? (tool.metadata?.requiresConfirmation ? FAIL_CLOSED_APPROVAL : undefined);
+    if (policy) {
+      const approval = await policy.check({
+        tool: {
+          id: tool.id,
+          name: tool.name,
+          description: tool.description,
+          requiresConfirmation: tool.metadata?.requiresConfirmation,
+        },
+        input: parsedInput,
+        agentId: context.agentId,
+        sessionId: context.sessionId,
+        executionId: context.executionId,
+        signal: context.signal,
+      });
+
+      if (!approval.approved) {
+        return {
+          success: false,
+          error: {
+            code: 'TOOL_APPROVAL_DENIED',
+            message: `Tool execution denied: ${tool.name}${approval.reason ? ` (${approval.reason})` : ''}`,
+            recoverable: false,
+            details: { decision: approval.decision, source: approval.source },
+          },
+        };
+      }
+    }
+
     // 合并选项（工具元数据 + 传入选项）
     const timeout = options.timeout ?? tool.metadata?.timeout ?? 30000;
     const retries = options.retries ?? tool.metadata?.retries ?? 0;
     const retryDelay = options.retryDelay ?? 1000;
 
     let lastError: Error | undefined;
+    const signal = context.signal;
 
     for (let attempt = 0; attempt <= retries; attempt++) {
+      if (signal?.aborted) {
+        return this.abortedResult(tool.name, attempt);
+      }
+
       try {
         const startTime = Date.now();
 
         // 创建带超时的执行
-        const executePromise = tool.execute(input, context);
+        const executePromise = tool.execute(parsedInput, context);
         
         // 创建带清理的超时 Promise
         let timeoutId: ReturnType<typeof setTimeout>;
@@ -191,9 +261,25 @@ export class ToolRegistry implements IToolRegistry {
           timeoutId = setTimeout(() => reject(new Error(`Tool execution timeout after ${timeout}ms`)), timeout);
         });
 
+        // 调用方取消时立即返回，不等待工具自行响应 signal
+        let onAbort: (() => void) | undefined;
+        const abortPromise = new Promise<never>((_, reject) => {
+          onAbort = () => reject(new Error(`Tool execution aborted: ${tool.name}`));
+          if (signal?.aborted) onAbort();
+          signal?.addEventListener('abort', onAbort, { once: true });
+        });
+
         try {
-          const result = await Promise.race([executePromise, timeoutPromise]);
-          clearTimeout(timeoutId!);
+          let result = await Promise.race([executePromise, timeoutPromise, abortPromise]);
+
+          if (result.success && tool.outputSchema) {
+            const output = validateToolOutput(tool, result.data);
+            if (!output.success) {
+              return { success: false, error: output.error, metadata: { duration: Date.now() - startTime, attempts: attempt + 1 } };
+            }
+            result = { ...result, data: output.data };
+          }
+
           return {
             ...result,
             metadata: {
@@ -202,13 +288,17 @@ export class ToolRegistry implements IToolRegistry {
               attempts: attempt + 1,
             },
           };
-        } catch (raceError) {
+        } finally {
           clearTimeout(timeoutId!);
-          throw raceError;
+          signal?.removeEventListener('abort', onAbort!);
         }
       } catch (error) {
         lastError = error as Error;
 
+        if (signal?.aborted) {
+          return this.abortedResult(tool.name, attempt + 1);
+        }
+
         if (attempt < retries) {
           context.logger.warn(
             `[Tool:${tool.name}] Execution failed, retrying (${attempt + 1}/${retries})`,
@@ -270,6 +360,20 @@ export class ToolRegistry implements IToolRegistry {
   // Private
   // ============================================================================
 
+  private abortedResult(toolName: ToolName, attempts: number): ToolResult {
+    return {
+      success: false,
+      error: {
+        code: 'TOOL_ABORTED',
+        message: `Tool execution aborted: ${toolName}`,
+        recoverable: false,
+      },
+      metadata: {
+        attempts,
+      },
+    };
+  }
+
   private delay(ms: number): Promise<void> {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
@@ -279,8 +383,8 @@ export class ToolRegistry implements IToolRegistry {
 // Factory
 // ============================================================================
 
-export function createToolRegistry(): ToolRegistry {
-  return new ToolRegistry();
+export function createToolRegistry(options?: ToolRegistryOptions): ToolRegistry {
+  return new ToolRegistry(options);
 }
 
 // 全局注册表实例
@@ -0,0 +1,113 @@
+/**
+ * Tool Validation - 工具输入/输出校验
+ *
+ * 使用工具声明的 zod schema 校验并规范化输入（应用默认值），
+ * 失败时返回带字段路径的结构化 ToolError，便于 ReAct 循环反馈给模型自我修正
+ *
+ * @module ToolValidation
+ * @version 1.0.0
+ */
+
+import type { z } from 'zod';
+import type { ToolError } from './core/types.js';
+
+export interface ToolValidationIssue {
+  /** 字段路径，如 `items[0].name`，根节点为空字符串 */
+  path: string;
+  message: string;
+  code: string;
+}
+
+export type ToolValidationResult =
+  | { success: true; data: unknown }
+  | { success: false; error: ToolError };
+
+type ZodIssueLike = { path: PropertyKey[]; message: string; code: string };
+
+/**
+ * 将 zod issue 路径格式化为 `a.b[0].c`
+ */
+export function formatIssuePath(path: PropertyKey[]): string {
+  return path.reduce<string>((acc, key) => {
+    if (typeof key === 'number') return `${acc}[${key}]`;
+    const name = String(key);
+    return acc ? `${acc}.${name}` : name;
+  }, '');
+}
+
+function toIssues(issues: ZodIssueLike[]): ToolValidationIssue[] {
+  return issues.map(issue => ({
+    path: formatIssuePath(issue.path),
+    message: issue.message,
+    code: issue.code,
+  }));
+}
+
+function describeIssues(issues: ToolValidationIssue[]): string {
+  return issues.map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message)).join('; ');
+}
+
+function validate(
+  schema: z.ZodType<unknown> | undefined,
+  value: unknown,
+  toolName: string,
+  kind: 'input' | 'output'
+): ToolValidationResult {
+  if (!schema || typeof schema.safeParse !== 'function') {
+    return { success: true, data: value };
+  }
+
+  const parsed = schema.safeParse(value);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+
+  const issues = toIssues(parsed.error.issues as ZodIssueLike[]);
+  return {
+    success: false,
+    error: {
+      code: kind === 'input' ? 'TOOL_INPUT_INVALID' : 'TOOL_OUTPUT_INVALID',
+      message: `Invalid ${kind} for tool ${toolName}: ${describeIssues(issues)}`,
+      // 输入错误可由模型修正参数后重试；输出错误属于工具实现问题
+      recoverable: kind === 'input',
+      details: { issues },
+    },
+  };
+}
+
+/**
+ * 校验并规范化工具输入（应用 zod 默认值与转换）
+ */
+export function validateToolInput(
+  tool: { name: string; parameters?: z.ZodType<unknown> },
+  input: unknown
+): ToolValidationResult {
+  return validate(tool.parameters, input ?? {}, tool.name, 'input');
+}
+
+/**
+ * 校验工具输出（仅在工具声明 outputSchema 时）
+ */
+export function validateToolOutput(
+  tool: { name: string; outputSchema?: z.ZodType<unknown> },
+  output: unknown
+): ToolValidationResult {
+  return validate(tool.outputSchema, output, tool.name, 'output');
+}
+
+/**
+ * 将 ToolError 格式化为可反馈给模型的观察文本
+ */
+export function formatToolError(error: ToolError): string {
+  const issues = (error.details?.issues as ToolValidationIssue[] | undefined) ?? [];
+  const lines = [`Error [${error.code}]: ${error.message}`];
+
+  if (issues.length > 0) {
+    lines.push(...issues.map(issue => `- ${issue.path || '(root)'}: ${issue.message}`));
+  }
+  if (error.recoverable) {
+    lines.push('Correct the parameters and call the tool again.');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,52 @@
+/**
+ * Tool Approval - 工具执行审批
+ *
+ * 将 ApprovalPolicy 的 ask 决策渲染为终端交互：展示命令或文件 diff 预览，
+ * 由用户选择允许、本会话允许或拒绝
+ *
+ * @module TUI
+ * @version 1.0.0
+ */
+
+import type { ApprovalHandler, ApprovalResponseDecision } from '../tools/approval.js';
+import { ANSI, COLORS, bold } from './ansi-codes.js';
+import { select } from './selector.js';
+
+/**
+ * 创建终端审批处理器，按 Ctrl+C 视为拒绝
+ */
+export function createApprovalHandler(): ApprovalHandler {
+  return async (request) => {
+    console.log(`\n${COLORS.warning}⚠ 工具 ${request.tool.name} 请求执行${ANSI.reset}`);
+    if (request.tool.description) {
+      console.log(`${COLORS.muted}${request.tool.description}${ANSI.reset}`);
+    }
+    if (request.preview) {
+      console.log(renderPreview(request.preview));
+    }
+
+    const decision = await select<ApprovalResponseDecision>('是否允许执行？', [
+      { value: 'allow', label: '允许', description: '仅本次执行' },
+      { value: 'allow-session', label: '本会话内始终允许', description: `本会话内不再询问 ${request.tool.name}` },
+      { value: 'deny', label: '拒绝' },
+    ]);
+
+    return decision === null ? { decision: 'deny', reason: 'Cancelled by user' } : decision;
+  };
+}
+
+/**
+ * diff 行着色：新增绿色、删除红色、折叠提示灰色
+ */
+function renderPreview(preview: string): string {
+  return preview
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return bold(line);
+      if (line.startsWith('+')) return `${COLORS.success}${line}${ANSI.reset}`;
+      if (line.startsWith('-')) return `${COLORS.error}${line}${ANSI.reset}`;
+      if (line.startsWith('@@')) return `${COLORS.muted}${line}${ANSI.reset}`;
+      return line;
+    })
+    .join('\n');
+}
@@ -1,6 +1,7 @@
 import { existsSync, readFileSync, writeFileSync, mkdirSync } from 'fs';
 import { join, dirname } from 'path';
 import { homedir } from 'os';
+import { PREDEFINED_PROVIDERS, type ModelProvider } from '../config/model-config.js';
 
 export interface CLIConfig {
   name: string;
@@ -21,6 +22,51 @@ export interface CLIConfig {
 const CONFIG_DIR = join(homedir(), '.sdkwork');
 const CONFIG_FILE = join(CONFIG_DIR, 'config.json');
 
+/**
+ * 各提供商 API Key 的环境变量
+ */
+export function getProviderApiKeyFromEnv(provider: string, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const envApiKeys: Record<string, string | undefined> = {
+    openai: env.OPENAI_API_KEY,
+    anthropic: env.ANTHROPIC_API_KEY,
+    google: env.GOOGLE_API_KEY || env.GEMINI_API_KEY,
+    moonshot: env.MOONSHOT_API_KEY,
+    minimax: env.MINIMAX_API_KEY,
+    zhipu: env.ZHIPU_API_KEY,
+    qwen: env.QWEN_API_KEY || env.DASHSCOPE_API_KEY,
+    deepseek: env.DEEPSEEK_API_KEY,
+    doubao: env.DOUBAO_API_KEY,
+  };
+  return envApiKeys[provider];
+}
+
+/**
+ * 本地模型无需 API Key
+ */
+export function providerRequiresApiKey(provider: string): boolean {
+  return PREDEFINED_PROVIDERS[provider as ModelProvider]?.requiresApiKey ?? true;
+}
+
+export function getDefaultModel(provider: string): string {
+  const providerConfig = PREDEFINED_PROVIDERS[provider as ModelProvider];
+  if (providerConfig?.defaultModel) {
+    return providerConfig.defaultModel;
+  }
+  // 默认模型
+  const defaults: Record<string, string> = {
+    openai: 'gpt-4o',
+    anthropic: 'claude-sonnet-4-20250514',
+    google: 'gemini-2.0-flash-exp',
+    moonshot: 'moonshot-v1-8k',
+    minimax: 'abab6.5s-chat',
+    zhipu: 'glm-4',
+    qwen: 'qwen-turbo',
+    deepseek: 'deepseek-chat',
+    doubao: 'doubao-seed-2-0-pro-260215',
+  };
+  return defaults[provider] || 'gpt-4o';
+}
+
 class ConfigManager {
   private config: CLIConfig | null = null;
   private listeners: Set<(config: CLIConfig) => void> = new Set();
@@ -23,6 +23,12 @@ import { platform, homedir } from 'os';
 import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { AgentImpl } from '../core/application/agent-impl.js';
+import { createElicitationHandler } from './elicitation.js';
+import { runPluginCommand } from './plugin-command.js';
+import { runRunCommand } from './run-command.js';
+import { getDefaultModel, getProviderApiKeyFromEnv, providerRequiresApiKey } from './cli-config.js';
+import { createApprovalHandler } from './approval.js';
+import { ApprovalPolicy } from '../tools/approval.js';
 import { createLogger } from '../utils/logger.js';
 import type { AgentConfig, AgentEvent, AgentEventType } from '../core/domain/agent.js';
 import type { Skill } from '../core/domain/skill.js';
@@ -33,6 +39,7 @@ import { TUIRenderer, createRenderer, THEMES } from './renderer.js';
 import { ANSI, COLORS, colorize, bold, dim } from './ansi-codes.js';
 import { select, confirm, prompt } from './selector.js';
 import { PREDEFINED_PROVIDERS, type ModelProvider } from '../config/model-config.js';
+import { UsageLedger, type TokenUsage, type UsageTotals } from '../llm/usage-ledger.js';
 import type { LLMConfig } from './types.js';
 import {
   getProviderIcon,
@@ -216,6 +223,7 @@ const COMMANDS: Command[] = [
   { name: 'session', description: '会话管理', usage: 'session <list|save|load|delete|auto>', examples: ['session list', 'session save', 'session load', 'session delete'], category: 'session' },
   { name: 'status', description: '显示当前状态', category: 'info' },
   { name: 'stats', description: '显示使用统计', category: 'info' },
+  { name: 'cost', description: '显示 Token 用量与成本', usage: 'cost [reset]', examples: ['cost', 'cost reset'], category: 'info' },
   { name: 'events', description: '显示事件日志', usage: 'events [clear|summary]', examples: ['events', 'events clear', 'events summary'], category: 'info' },
   { name: 'history', description: '显示命令历史', alias: ['hist'], category: 'info' },
   { name: 'export', description: '导出对话', usage: 'export [format]', examples: ['export', 'export markdown', 'export json', 'export txt'], category: 'session' },
@@ -509,19 +517,6 @@ async function loadConfig(renderer: TUIRenderer): Promise<SDKWorkConfig | null>
   
   console.log('[DEBUG] loadConfig - Loaded config:', JSON.stringify(cliConfig.llm));
   
-  // 支持多个提供商的 API Key 环境变量
-  const envApiKeys: Record<string, string | undefined> = {
-    openai: process.env.OPENAI_API_KEY,
-    anthropic: process.env.ANTHROPIC_API_KEY,
-    google: process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY,
-    moonshot: process.env.MOONSHOT_API_KEY,
-    minimax: process.env.MINIMAX_API_KEY,
-    zhipu: process.env.ZHIPU_API_KEY,
-    qwen: process.env.QWEN_API_KEY || process.env.DASHSCOPE_API_KEY,
-    deepseek: process.env.DEEPSEEK_API_KEY,
-    doubao: process.env.DOUBAO_API_KEY,
-  };
-  
   // 获取当前 provider
   const provider = cliConfig.provider || 'openai';
   
@@ -532,11 +527,13 @@ async function loadConfig(renderer: TUIRenderer): Promise<SDKWorkConfig | null>
   
   console.log('[DEBUG] loadConfig - configApiKey:', configApiKey ? `${configApiKey.substring(0, 8)}...` : 'undefined');
   
-  const apiKey = configApiKey || envApiKeys[provider] || envApiKeys.openai;
+  // 本地模型无需 API Key，也不回退到 OpenAI 的 Key
+  const requiresApiKey = providerRequiresApiKey(provider);
+  const apiKey = configApiKey || getProviderApiKeyFromEnv(provider) || (requiresApiKey ? getProviderApiKeyFromEnv('openai') : undefined);
 
   console.log('[DEBUG] loadConfig - Final apiKey:', apiKey ? `${apiKey.substring(0, 8)}...` : 'undefined');
 
-  if (!apiKey) {
+  if (!apiKey && requiresApiKey) {
     return await showConfigWizard(renderer);
   }
 
@@ -550,7 +547,7 @@ async function loadConfig(renderer: TUIRenderer): Promise<SDKWorkConfig | null>
     theme: cliConfig.theme || 'default',
     llm: {
       provider,
-      apiKey,
+      apiKey: apiKey || '',
       model,
       baseUrl: (cliConfig.llm as LLMConfig | undefined)?.baseUrl,
     },
@@ -560,26 +557,6 @@ async function loadConfig(renderer: TUIRenderer): Promise<SDKWorkConfig | null>
   };
 }
 
-function getDefaultModel(provider: string): string {
-  const providerConfig = PREDEFINED_PROVIDERS[provider as ModelProvider];
-  if (providerConfig?.defaultModel) {
-    return providerConfig.defaultModel;
-  }
-  // 默认模型
-  const defaults: Record<string, string> = {
-    openai: 'gpt-4o',
-    anthropic: 'claude-sonnet-4-20250514',
-    google: 'gemini-2.0-flash-exp',
-    moonshot: 'moonshot-v1-8k',
-    minimax: 'abab6.5s-chat',
-    zhipu: 'glm-4',
-    qwen: 'qwen-turbo',
-    deepseek: 'deepseek-chat',
-    doubao: 'doubao-seed-2-0-pro-260215',
-  };
-  return defaults[provider] || 'gpt-4o';
-}
-
 async function loadCapabilities(): Promise<{ skills: Skill[]; tools: Tool[] }> {
   try {
     const { skills } = await loadAllSkills();
@@ -1079,7 +1056,17 @@ function getCompletions(input: string, skills: Skill[], commands: Command[], con
 // 主函数
 // ============================================
 
-export async function main(): Promise<void> {
+export async function main(argv: string[] = process.argv.slice(2)): Promise<void> {
+  // 子命令
+  if (argv[0] === 'plugin') {
+    process.exitCode = await runPluginCommand(argv.slice(1));
+    return;
+  }
+  if (argv[0] === 'run') {
+    process.exitCode = await runRunCommand(argv.slice(1));
+    return;
+  }
+
   const renderer = createRenderer();
 
   try {
@@ -1100,6 +1087,11 @@ export async function main(): Promise<void> {
       llm: config.llm,
       skills,
       tools,
+      mcpClient: {
+        roots: [process.cwd()],
+        elicitation: createElicitationHandler(),
+      },
+      toolApproval: new ApprovalPolicy({ handler: createApprovalHandler(), workspaceRoot: process.cwd() }),
     });
 
     await agent.initialize();
@@ -1136,6 +1128,7 @@ export async function main(): Promise<void> {
       'chat:started', 'chat:message', 'chat:stream', 'chat:completed', 'chat:aborted', 'chat:error',
       'execution:started', 'execution:step', 'execution:progress', 'execution:completed', 'execution:failed',
       'tool:invoking', 'tool:invoked', 'tool:completed', 'tool:failed',
+      'tool:approval:requested', 'tool:approval:decided',
       'skill:invoking', 'skill:invoked', 'skill:completed', 'skill:failed',
       'skill:progress',
       'memory:stored', 'memory:retrieved', 'memory:searched',
@@ -1195,6 +1188,17 @@ export async function main(): Promise<void> {
       stats.sessionsCount++;
     }
 
+    // 本次运行的模型用量（按模型目录价格换算成本，供 /cost 查看）
+    const usageLedger = new UsageLedger();
+    const recordUsage = (usage: TokenUsage | undefined) => {
+      if (!usage) return;
+      usageLedger.record({
+        model: `${config.provider || 'openai'}/${config.model || 'unknown'}`,
+        usage,
+        scope: { sessionId: currentSession?.name || 'Main Session' },
+      });
+    };
+
     // 显示欢迎信息
     renderer.welcome({
       name: config.name,
@@ -2808,6 +2812,46 @@ export async function main(): Promise<void> {
           renderer.box(statusLines, '📊 Current Status');
           break;
 
+        case 'cost': {
+          if (args.trim().toLowerCase() === 'reset') {
+            usageLedger.clear();
+            renderer.systemMessage('用量统计已重置', 'success');
+            break;
+          }
+
+          const formatCost = (cost: number) => `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+          const formatTotals = (totals: UsageTotals) =>
+            `${totals.totalTokens.toLocaleString()} tokens · ${formatCost(totals.cost)}${totals.calls === 1 ? '' : renderer.dim(` (${totals.calls} 次调用)`)}`;
+          const total = usageLedger.totals();
+
+          const costLines: string[] = [
+            '',
+            `${renderer.primary('调用次数:')} ${total.calls}`,
+            `${renderer.primary('输入 Token:')} ${total.promptTokens.toLocaleString()}`,
+            `${renderer.primary('输出 Token:')} ${total.completionTokens.toLocaleString()}`,
+            `${renderer.primary('总成本:')} ${renderer.success(formatCost(total.cost))}`,
+          ];
+          if (total.unpricedCalls > 0) {
+            costLines.push(renderer.warning(`  ${total.unpricedCalls} 次调用的模型不在价格目录中，未计入成本`));
+          }
+
+          const byModel = usageLedger.breakdown('model');
+          if (byModel.length > 0) {
+            costLines.push('', renderer.bold('按模型:'));
+            byModel.forEach(({ key, totals }) => costLines.push(`  ${renderer.primary('•')} ${key}: ${formatTotals(totals)}`));
+          }
+
+          const bySession = usageLedger.breakdown('session');
+          if (bySession.length > 1) {
+            costLines.push('', renderer.bold('按会话:'));
+            bySession.forEach(({ key, totals }) => costLines.push(`  ${renderer.primary('•')} ${key}: ${formatTotals(totals)}`));
+          }
+
+          costLines.push('', renderer.dim(`  价格来自模型目录 (美元 / 1M tokens)，输入 /cost reset 重置`), '');
+          renderer.box(costLines, '💰 用量与成本');
+          break;
+        }
+
         case 'stats':
           const uptime = Math.floor((Date.now() - stats.startTime) / 1000);
           const hours = Math.floor(uptime / 3600);
@@ -3009,6 +3053,7 @@ export async function main(): Promise<void> {
                   stats.totalMessages += 2;
                   if (response.usage) {
                     stats.totalTokens += response.usage.totalTokens;
+                    recordUsage(response.usage);
                   }
                   saveStats(stats);
                 }
@@ -3139,6 +3184,8 @@ export async function main(): Promise<void> {
     };
 
     // 处理输入
+    let activeRequest: AbortController | null = null;
+
     rl.on('line', async (input) => {
       const trimmed = input.trim();
       if (!trimmed) { ensureReadlineReady(); return; }
@@ -3372,6 +3419,10 @@ export async function main(): Promise<void> {
       messages.push({ role: 'user', content: trimmed, timestamp: Date.now() });
       renderer.userMessage(trimmed);
 
+      // Ctrl+C 取消本次请求（中断进行中的 LLM 调用，停止计费）
+      const requestController = new AbortController();
+      activeRequest = requestController;
+
       try {
         conversationManager.addUserMessage(trimmed);
         const assistantMsgId = conversationManager.startAssistantMessage();
@@ -3436,6 +3487,7 @@ export async function main(): Promise<void> {
               id: crypto.randomUUID(),
               timestamp: m.timestamp,
             })),
+            signal: requestController.signal,
           });
 
           for await (const chunk of stream) {
@@ -3461,6 +3513,7 @@ export async function main(): Promise<void> {
             messages.push({ role: 'assistant', content: fullContent, timestamp: Date.now() });
             stats.totalMessages += 2;
             stats.totalTokens += promptTokens + completionTokens;
+            recordUsage({ promptTokens, completionTokens, totalTokens: promptTokens + completionTokens });
             
             if (assistantMsgId) {
               conversationManager.completeAssistantMessage(assistantMsgId, fullContent, {
@@ -3513,6 +3566,7 @@ export async function main(): Promise<void> {
               id: crypto.randomUUID(),
               timestamp: m.timestamp,
             })),
+            signal: requestController.signal,
           });
 
           renderer.succeedLoading('完成');
@@ -3525,6 +3579,7 @@ export async function main(): Promise<void> {
             stats.totalMessages += 2;
             if (response.usage) {
               stats.totalTokens += response.usage.totalTokens;
+              recordUsage(response.usage);
               if (config.showTokens) {
                 renderer.tokenUsage(response.usage.promptTokens, response.usage.completionTokens);
               }
@@ -3542,6 +3597,16 @@ export async function main(): Promise<void> {
           process.stdout.write('\n\n');
         }
 
+        if (requestController.signal.aborted) {
+          renderer.systemMessage('已取消', 'warning');
+          if (messages.length > 0 && messages[messages.length - 1].role === 'user') {
+            messages.pop();
+          }
+          activeRequest = null;
+          setTimeout(ensureReadlineReady, 10);
+          return;
+        }
+
         // 根据错误类型提供不同的提示
         const errorMessage = error instanceof Error ? error.message : String(error);
         let hint = '请检查 API Key 和网络连接';
@@ -3567,6 +3632,7 @@ export async function main(): Promise<void> {
           messages.pop();
         }
       }
+      activeRequest = null;
 
       // 确保 readline 提示符正确显示
       setTimeout(ensureReadlineReady, 10);
@@ -3575,6 +3641,12 @@ export async function main(): Promise<void> {
     // 处理 Ctrl+C
     let sigintCount = 0;
     rl.on('SIGINT', () => {
+      // 有进行中的请求时先取消请求，而不是退出
+      if (activeRequest && !activeRequest.signal.aborted) {
+        activeRequest.abort();
+        return;
+      }
+
       sigintCount++;
       
       if (sigintCount === 1) {
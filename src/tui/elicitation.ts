@@ -0,0 +1,81 @@
+/**
+ * MCP Elicitation - MCP 服务请求用户输入
+ *
+ * 将 elicitation/create 请求渲染为终端问答，按 requestedSchema 逐项收集
+ *
+ * @module TUI
+ * @version 1.0.0
+ */
+
+import type { MCPElicitationHandler, MCPElicitResult } from '../core/domain/mcp.js';
+import type { JSONSchema } from '../types.js';
+import { ANSI, COLORS } from './ansi-codes.js';
+import { select, confirm, promptWithValidation } from './selector.js';
+
+type ElicitValue = string | number | boolean;
+
+/**
+ * 创建终端 elicitation 处理器
+ *
+ * 用户拒绝时返回 decline，输入过程中按 Ctrl+C 返回 cancel
+ */
+export function createElicitationHandler(): MCPElicitationHandler {
+  return async (params, context): Promise<MCPElicitResult> => {
+    console.log(`\n${COLORS.primary}MCP 服务 ${context.clientId} 请求输入:${ANSI.reset} ${params.message}`);
+
+    if (!await confirm('是否提供该信息？', true)) {
+      return { action: 'decline' };
+    }
+
+    const required = new Set(params.requestedSchema.required || []);
+    const content: Record<string, ElicitValue> = {};
+
+    for (const [name, schema] of Object.entries(params.requestedSchema.properties)) {
+      const value = await askField(name, schema, required.has(name));
+      if (value === null) {
+        return { action: 'cancel' };
+      }
+      if (value !== undefined) {
+        content[name] = value;
+      }
+    }
+
+    return { action: 'accept', content };
+  };
+}
+
+/**
+ * 询问单个字段，null 表示取消，undefined 表示跳过可选字段
+ */
+async function askField(name: string, schema: JSONSchema, required: boolean): Promise<ElicitValue | null | undefined> {
+  const label = `${schema.title || name}${schema.description ? ` - ${schema.description}` : ''}${required ? '' : ' (可选)'}`;
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+  if (type === 'boolean') {
+    return confirm(label, schema.default === true);
+  }
+
+  if (schema.enum) {
+    const options = schema.enum.map(value => ({ value: value as ElicitValue, label: String(value) }));
+    return select(label, options);
+  }
+
+  const isNumber = type === 'number' || type === 'integer';
+  const answer = await promptWithValidation(label, {
+    defaultValue: schema.default !== undefined ? String(schema.default) : undefined,
+    validate: (value) => {
+      if (!value) return required ? '该字段为必填项' : true;
+      if (isNumber && Number.isNaN(Number(value))) return '请输入数字';
+      if (type === 'integer' && !Number.isInteger(Number(value))) return '请输入整数';
+      return true;
+    },
+  });
+
+  if (answer === null) {
+    return required ? null : undefined;
+  }
+  if (!answer) {
+    return undefined;
+  }
+  return isNumber ? Number(answer) : answer;
+}
@@ -166,6 +166,10 @@ export {
 
 export { cliConfig, type CLIConfig } from './cli-config.js';
 export { storage, type SessionMessage } from './storage.js';
+export { createElicitationHandler } from './elicitation.js';
+export { runPluginCommand } from './plugin-command.js';
+export { runRunCommand, RUN_EXIT_CODES, type RunCommandOptions, type RunResult, type RunOutputFormat } from './run-command.js';
+export { createApprovalHandler } from './approval.js';
 export {
   TUIError,
   ConfigError,
@@ -0,0 +1,116 @@
+/**
+ * Plugin Command - 插件签名子命令
+ *
+ * sdkwork plugin sign <dir> --key <private.pem> [--key-id <id>]
+ * sdkwork plugin verify <dir> (--keyring <keyring.json> | --public-key <public.pem>)
+ *
+ * 插件目录需包含 plugin.json，签名写回其 signature 字段
+ *
+ * @module TUI
+ * @version 1.0.0
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { parseArgs } from 'util';
+import type { PluginManifest } from '../core/plugin-system/index.js';
+import { PluginKeyring, signPlugin, verifyPluginSignature } from '../core/plugin-system/signing.js';
+import { COLORS, colorize } from './ansi-codes.js';
+
+const USAGE = `用法:
+  sdkwork plugin sign <dir> --key <private.pem> [--key-id <id>]
+  sdkwork plugin verify <dir> (--keyring <keyring.json> | --public-key <public.pem>)
+
+生成密钥:
+  openssl genpkey -algorithm ed25519 -out private.pem
+  openssl pkey -in private.pem -pubout -out public.pem`;
+
+interface PluginFiles {
+  manifestPath: string;
+  manifest: PluginManifest;
+  code: string;
+}
+
+function readPlugin(dir: string): PluginFiles {
+  const manifestPath = join(resolve(dir), 'plugin.json');
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf-8')) as PluginManifest;
+  if (!manifest.entry) {
+    throw new Error(`${manifestPath} 缺少 entry 字段`);
+  }
+  const code = readFileSync(join(resolve(dir), manifest.entry), 'utf-8');
+  return { manifestPath, manifest, code };
+}
+
+function parseCommandArgs(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      key: { type: 'string' },
+      'key-id': { type: 'string' },
+      keyring: { type: 'string' },
+      'public-key': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+/**
+ * 执行 plugin 子命令，返回进程退出码
+ */
+export async function runPluginCommand(args: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandArgs>;
+  try {
+    parsed = parseCommandArgs(args);
+  } catch (error) {
+    console.error(colorize((error as Error).message, COLORS.error));
+    console.log(USAGE);
+    return 1;
+  }
+
+  const { values, positionals } = parsed;
+  const [action, dir] = positionals;
+  if (values.help || !dir || (action !== 'sign' && action !== 'verify')) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  try {
+    const { manifestPath, manifest, code } = readPlugin(dir);
+
+    if (action === 'sign') {
+      if (!values.key) {
+        console.error(colorize('缺少 --key 私钥参数', COLORS.error));
+        return 1;
+      }
+      const signature = signPlugin(manifest, code, readFileSync(values.key), values['key-id']);
+      writeFileSync(manifestPath, JSON.stringify({ ...manifest, signature }, null, 2) + '\n');
+      console.log(colorize(`✓ 已签名 ${manifest.id}@${manifest.version}`, COLORS.success));
+      console.log(colorize(`  ${signature.split(':').slice(0, 2).join(':')}`, COLORS.muted));
+      return 0;
+    }
+
+    let keyring: PluginKeyring;
+    if (values.keyring) {
+      keyring = PluginKeyring.fromJSON(readFileSync(values.keyring, 'utf-8'));
+    } else if (values['public-key']) {
+      keyring = new PluginKeyring();
+      keyring.trust(readFileSync(values['public-key']));
+    } else {
+      console.error(colorize('需要 --keyring 或 --public-key 参数', COLORS.error));
+      return 1;
+    }
+
+    const result = verifyPluginSignature(manifest, code, keyring);
+    if (!result.valid) {
+      console.error(colorize(`✗ 签名无效: ${result.reason}`, COLORS.error));
+      return 1;
+    }
+    const publisher = result.publisher ? `${result.publisher} (${result.keyId})` : result.keyId;
+    console.log(colorize(`✓ 签名有效 ${manifest.id}@${manifest.version}，发布者 ${publisher}`, COLORS.success));
+    return 0;
+  } catch (error) {
+    console.error(colorize(error instanceof Error ? error.message : String(error), COLORS.error));
+    return 1;
+  }
+}
@@ -52,6 +52,11 @@ const PROVIDER_DISPLAY_MAP: Record<string, ProviderDisplayInfo> = {
     description: 'MiniMax海螺AI',
     recommended: false,
   },
+  local: {
+    icon: '💻',
+    description: '本地模型 (Ollama / llama.cpp)',
+    recommended: false,
+  },
 };
 
 export function getProviderIcon(provider: string | undefined): string {
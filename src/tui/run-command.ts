@@ -0,0 +1,395 @@
+/**
+ * Run Command - 非交互模式
+ *
+ * sdkwork run "prompt"
+ * sdkwork run -f prompt.md --provider deepseek --model deepseek-chat
+ * cat error.log | sdkwork run "解释这个错误" --output json
+ *
+ * 标准输出只包含结果（text / json / jsonl），日志与诊断信息写入标准错误，
+ * 便于在 shell 管道和 CI 中调用。
+ *
+ * 退出码：0 成功，1 执行失败，2 参数或配置错误，130 被中断
+ *
+ * @module TUI
+ * @version 1.0.0
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { parseArgs, format } from 'util';
+import { randomUUID } from 'crypto';
+import { AgentImpl } from '../core/application/agent-impl.js';
+import type { AgentEvent, LLMConfig } from '../core/domain/agent.js';
+import { loadAllSkills } from '../skills/skill-loader.js';
+import { calculateCost, findModelPricing, type TokenUsage } from '../llm/usage-ledger.js';
+import { getDefaultModel, getProviderApiKeyFromEnv, providerRequiresApiKey } from './cli-config.js';
+
+const USAGE = `用法:
+  sdkwork run [prompt] [options]
+
+选项:
+  -f, --file <path>        从文件读取 prompt（- 表示标准输入）
+  -p, --provider <name>    模型提供商（覆盖配置）
+  -m, --model <id>         模型（覆盖配置）
+  -s, --skill <name>       以 prompt 作为输入执行技能
+      --session <name>     加载并保存到指定会话（与 /session 共享）
+  -o, --output <format>    text（默认）| json | jsonl
+  -h, --help               显示帮助
+
+标准输入不是终端时会被读取：与 prompt 同时提供时追加在 prompt 之后。
+
+示例:
+  sdkwork run "总结 README" < README.md
+  git diff | sdkwork run "写一条提交信息" -o json
+  sdkwork run -f task.md --session nightly -o jsonl`;
+
+export const RUN_EXIT_CODES = {
+  success: 0,
+  failure: 1,
+  usage: 2,
+  interrupted: 130,
+} as const;
+
+export type RunOutputFormat = 'text' | 'json' | 'jsonl';
+
+/**
+ * run 子命令依赖的 Agent 能力
+ */
+export type RunAgent = Pick<AgentImpl, 'chat' | 'chatStream' | 'executeSkill' | 'on' | 'off' | 'destroy'>;
+
+export interface RunCommandOptions {
+  /** 配置目录，默认 ~/.sdkwork */
+  configDir?: string;
+  stdin?: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout?: NodeJS.WritableStream;
+  stderr?: NodeJS.WritableStream;
+  env?: NodeJS.ProcessEnv;
+  /** 创建并初始化 Agent，默认使用 AgentImpl */
+  createAgent?: (config: RunAgentConfig) => Promise<RunAgent>;
+}
+
+export interface RunAgentConfig {
+  name: string;
+  llm: LLMConfig;
+  skill?: string;
+}
+
+export interface RunResult {
+  success: boolean;
+  content: string;
+  provider: string;
+  model: string;
+  skill?: string;
+  session?: string;
+  usage?: TokenUsage & { cost?: number };
+  durationMs: number;
+  error?: string;
+}
+
+interface StoredConfig {
+  name?: string;
+  provider?: string;
+  model?: string;
+  llm?: { apiKey?: string; baseUrl?: string };
+}
+
+interface StoredSession {
+  id: string;
+  name: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string; timestamp: number }>;
+  createdAt: number;
+  updatedAt: number;
+  model: string;
+}
+
+class RunUsageError extends Error {}
+
+function parseCommandArgs(args: string[]) {
+  return parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      file: { type: 'string', short: 'f' },
+      provider: { type: 'string', short: 'p' },
+      model: { type: 'string', short: 'm' },
+      skill: { type: 'string', short: 's' },
+      session: { type: 'string' },
+      output: { type: 'string', short: 'o', default: 'text' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+async function readPrompt(
+  positionals: string[],
+  file: string | undefined,
+  stdin: NonNullable<RunCommandOptions['stdin']>
+): Promise<string> {
+  const parts: string[] = [];
+  if (positionals.length > 0) parts.push(positionals.join(' '));
+
+  if (file === '-') {
+    parts.push(await readStream(stdin));
+  } else {
+    if (file) {
+      if (!existsSync(file)) throw new RunUsageError(`文件不存在: ${file}`);
+      parts.push(readFileSync(file, 'utf-8'));
+    }
+    if (!stdin.isTTY) parts.push(await readStream(stdin));
+  }
+
+  const prompt = parts.map(part => part.trim()).filter(Boolean).join('\n\n');
+  if (!prompt) throw new RunUsageError('缺少 prompt：传入参数、使用 -f 或通过标准输入提供');
+  return prompt;
+}
+
+function loadStoredConfig(configDir: string): StoredConfig {
+  const file = join(configDir, 'config.json');
+  if (!existsSync(file)) return {};
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8')) as StoredConfig;
+  } catch (error) {
+    throw new RunUsageError(`无法解析配置文件 ${file}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * 合并配置文件、环境变量与命令行参数
+ *
+ * 通过 --provider 切换提供商时不沿用配置文件中其他提供商的 API Key / Base URL。
+ */
+function resolveLLMConfig(
+  stored: StoredConfig,
+  flags: { provider?: string; model?: string },
+  env: NodeJS.ProcessEnv
+): LLMConfig {
+  const provider = flags.provider || stored.provider || 'openai';
+  const sameProvider = provider === (stored.provider || 'openai');
+  const requiresApiKey = providerRequiresApiKey(provider);
+
+  const apiKey = (sameProvider ? stored.llm?.apiKey : undefined)
+    || getProviderApiKeyFromEnv(provider, env)
+    || (requiresApiKey && sameProvider ? getProviderApiKeyFromEnv('openai', env) : undefined);
+  if (!apiKey && requiresApiKey) {
+    throw new RunUsageError(`未配置 ${provider} 的 API Key：设置对应环境变量或先运行 sdkwork 完成配置`);
+  }
+
+  return {
+    provider: provider as LLMConfig['provider'],
+    apiKey: apiKey || '',
+    model: flags.model || (sameProvider && stored.model) || getDefaultModel(provider),
+    baseUrl: sameProvider ? stored.llm?.baseUrl : undefined,
+  };
+}
+
+async function createDefaultAgent(config: RunAgentConfig): Promise<RunAgent> {
+  // 仅执行技能时才加载技能目录，纯对话保持快速启动
+  const skills = config.skill ? (await loadAllSkills()).skills : [];
+  const agent = new AgentImpl({
+    name: config.name,
+    llm: config.llm,
+    skills,
+    tools: [],
+    mcpClient: { roots: [process.cwd()] },
+  });
+  await agent.initialize();
+  return agent;
+}
+
+function findSession(sessionsDir: string, name: string): StoredSession | null {
+  for (const id of [name, `session-${name}`]) {
+    const file = join(sessionsDir, `${id}.json`);
+    if (!existsSync(file)) continue;
+    try {
+      return JSON.parse(readFileSync(file, 'utf-8')) as StoredSession;
+    } catch (error) {
+      throw new RunUsageError(`无法解析会话文件 ${file}: ${(error as Error).message}`);
+    }
+  }
+  return null;
+}
+
+function saveSession(sessionsDir: string, session: StoredSession): void {
+  mkdirSync(sessionsDir, { recursive: true });
+  writeFileSync(join(sessionsDir, `${session.id}.json`), JSON.stringify(session, null, 2));
+}
+
+function withCost(usage: TokenUsage, provider: string, model: string): RunResult['usage'] {
+  const pricing = findModelPricing(`${provider}/${model}`);
+  return pricing ? { ...usage, cost: calculateCost(usage, pricing) } : usage;
+}
+
+function formatSkillOutput(data: unknown): string {
+  if (data === undefined || data === null) return '';
+  return typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+}
+
+/**
+ * Agent 内部的 console 输出改写到标准错误，保证标准输出只包含结果
+ */
+function redirectConsole(stderr: NodeJS.WritableStream): () => void {
+  const saved = { log: console.log, info: console.info, debug: console.debug, warn: console.warn };
+  const write = (...args: unknown[]) => {
+    stderr.write(format(...args) + '\n');
+  };
+  console.log = console.info = console.debug = console.warn = write;
+  return () => Object.assign(console, saved);
+}
+
+/**
+ * 执行 run 子命令，返回进程退出码
+ */
+export async function runRunCommand(args: string[], options: RunCommandOptions = {}): Promise<number> {
+  const stdin = options.stdin ?? process.stdin;
+  const stdout = options.stdout ?? process.stdout;
+  const stderr = options.stderr ?? process.stderr;
+  const env = options.env ?? process.env;
+  const configDir = options.configDir ?? join(homedir(), '.sdkwork');
+
+  let parsed: ReturnType<typeof parseCommandArgs>;
+  try {
+    parsed = parseCommandArgs(args);
+  } catch (error) {
+    stderr.write(`${(error as Error).message}\n${USAGE}\n`);
+    return RUN_EXIT_CODES.usage;
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) {
+    stdout.write(`${USAGE}\n`);
+    return RUN_EXIT_CODES.success;
+  }
+
+  const output = values.output as RunOutputFormat;
+  if (!['text', 'json', 'jsonl'].includes(output)) {
+    stderr.write(`不支持的输出格式: ${output}（可选 text、json、jsonl）\n`);
+    return RUN_EXIT_CODES.usage;
+  }
+
+  const emit = (event: Record<string, unknown>) => {
+    if (output === 'jsonl') stdout.write(JSON.stringify({ ...event, timestamp: Date.now() }) + '\n');
+  };
+
+  const sessionsDir = join(configDir, 'sessions');
+  let prompt: string;
+  let llm: LLMConfig;
+  let name: string;
+  let session: StoredSession | null;
+  try {
+    prompt = await readPrompt(positionals, values.file, stdin);
+    const stored = loadStoredConfig(configDir);
+    llm = resolveLLMConfig(stored, values, env);
+    name = stored.name || 'SDKWork Agent';
+    session = values.session ? findSession(sessionsDir, values.session) : null;
+  } catch (error) {
+    if (!(error instanceof RunUsageError)) throw error;
+    stderr.write(`${error.message}\n`);
+    return RUN_EXIT_CODES.usage;
+  }
+
+  const startTime = Date.now();
+  const model = llm.model!;
+  const result: RunResult = {
+    success: false,
+    content: '',
+    provider: llm.provider,
+    model,
+    skill: values.skill,
+    session: values.session,
+    durationMs: 0,
+  };
+
+  const controller = new AbortController();
+  const onSigint = () => controller.abort();
+  process.once('SIGINT', onSigint);
+  const restoreConsole = redirectConsole(stderr);
+  let agent: RunAgent | undefined;
+
+  try {
+    emit({ type: 'start', provider: llm.provider, model, skill: values.skill, session: values.session });
+    agent = await (options.createAgent ?? createDefaultAgent)({ name, llm, skill: values.skill });
+    agent.on('*', (event: AgentEvent) => emit({ type: 'event', event: event.type, payload: event.payload }));
+
+    if (values.skill) {
+      const skillResult = await agent.executeSkill(values.skill, prompt, {
+        sessionId: values.session,
+        signal: controller.signal,
+      });
+      result.success = skillResult.success;
+      result.content = formatSkillOutput(skillResult.data);
+      result.error = skillResult.error?.message;
+      if (output === 'text' && result.content) stdout.write(result.content + '\n');
+    } else {
+      const history = session?.messages ?? [];
+      const messages = [...history, { role: 'user' as const, content: prompt, timestamp: Date.now() }]
+        .map(message => ({ ...message, id: randomUUID() }));
+      const request = { model, messages, sessionId: values.session, signal: controller.signal };
+
+      if (output === 'json') {
+        const response = await agent.chat(request);
+        const content = response.choices[0]?.message?.content;
+        result.content = typeof content === 'string' ? content : '';
+        result.usage = response.usage;
+      } else {
+        for await (const chunk of agent.chatStream(request)) {
+          const delta = chunk.choices[0]?.delta?.content;
+          if (delta) {
+            result.content += delta;
+            if (output === 'text') stdout.write(delta);
+            emit({ type: 'delta', content: delta });
+          }
+          if (chunk.usage) result.usage = chunk.usage;
+        }
+        if (output === 'text' && result.content && !result.content.endsWith('\n')) stdout.write('\n');
+      }
+      result.success = true;
+    }
+
+    if (result.usage) result.usage = withCost(result.usage, llm.provider, model);
+
+    if (result.success && values.session) {
+      const now = Date.now();
+      saveSession(sessionsDir, {
+        id: session?.id ?? `session-${values.session}`,
+        name: session?.name ?? values.session,
+        messages: [
+          ...(session?.messages ?? []),
+          { role: 'user', content: prompt, timestamp: startTime },
+          { role: 'assistant', content: result.content, timestamp: now },
+        ],
+        createdAt: session?.createdAt ?? startTime,
+        updatedAt: now,
+        model,
+      });
+    }
+  } catch (error) {
+    result.success = false;
+    result.error = controller.signal.aborted ? '已中断' : error instanceof Error ? error.message : String(error);
+  } finally {
+    process.off('SIGINT', onSigint);
+    await agent?.destroy().catch(() => undefined);
+    restoreConsole();
+  }
+
+  result.durationMs = Date.now() - startTime;
+  if (output === 'json') {
+    stdout.write(JSON.stringify(result, null, 2) + '\n');
+  } else if (output === 'jsonl') {
+    emit({ type: 'result', ...result });
+  }
+  if (!result.success && output === 'text') {
+    stderr.write(`✗ ${result.error ?? '执行失败'}\n`);
+  }
+
+  if (controller.signal.aborted) return RUN_EXIT_CODES.interrupted;
+  return result.success ? RUN_EXIT_CODES.success : RUN_EXIT_CODES.failure;
+}
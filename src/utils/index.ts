@@ -223,6 +223,8 @@ export {
   object,
   type Schema,
   type SchemaField,
+  type JsonSchema,
+  type JsonSchemaType,
   type ValidationRule,
   type ValidationResult,
 } from './schema-validator.js';
@@ -25,6 +25,34 @@ export interface SchemaField {
 
 export type Schema = Record<string, SchemaField>;
 
+/**
+ * JSON Schema subset used for LLM structured output
+ * (type, properties, required, items, enum, const, anyOf/oneOf/allOf, bounds, pattern)
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
 export class SchemaValidator {
   validate(data: Record<string, unknown>, schema: Schema): ValidationResult {
     const errors: string[] = [];
@@ -41,6 +69,125 @@ export class SchemaValidator {
     };
   }
 
+  /**
+   * Validate a value against a JSON Schema, reporting errors with their path
+   */
+  validateJsonSchema(data: unknown, schema: JsonSchema): ValidationResult {
+    const errors: string[] = [];
+    this.validateJsonNode('value', data, schema, errors);
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  private validateJsonNode(path: string, value: unknown, schema: JsonSchema, errors: string[]): void {
+    if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+      errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+      return;
+    }
+
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+      errors.push(`${path} must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+      return;
+    }
+
+    if (schema.allOf) {
+      for (const sub of schema.allOf) this.validateJsonNode(path, value, sub, errors);
+    }
+
+    const alternatives = schema.anyOf || schema.oneOf;
+    if (alternatives) {
+      const matches = alternatives.filter(sub => this.validateJsonSchemaAt(path, value, sub).length === 0);
+      if (matches.length === 0 || (schema.oneOf && matches.length > 1)) {
+        errors.push(`${path} does not match ${schema.oneOf ? 'exactly one' : 'any'} of the allowed schemas`);
+        return;
+      }
+    }
+
+    if (schema.type) {
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.matchesJsonType(value, type))) {
+        errors.push(`${path} must be of type ${types.join(' | ')}`);
+        return;
+      }
+    }
+
+    if (typeof value === 'string') {
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${path} must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push(`${path} must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        errors.push(`${path} does not match required pattern`);
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${path} must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${path} must be at most ${schema.maximum}`);
+      }
+    }
+
+    if (Array.isArray(value)) {
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${path} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${path} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => this.validateJsonNode(`${path}[${index}]`, item, schema.items!, errors));
+      }
+    } else if (value !== null && typeof value === 'object') {
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties || {};
+
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) {
+          errors.push(`${path}.${key} is required`);
+        }
+      }
+
+      for (const [key, item] of Object.entries(record)) {
+        if (properties[key]) {
+          this.validateJsonNode(`${path}.${key}`, item, properties[key], errors);
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${path}.${key} is not allowed`);
+        } else if (typeof schema.additionalProperties === 'object') {
+          this.validateJsonNode(`${path}.${key}`, item, schema.additionalProperties, errors);
+        }
+      }
+    }
+  }
+
+  private validateJsonSchemaAt(path: string, value: unknown, schema: JsonSchema): string[] {
+    const errors: string[] = [];
+    this.validateJsonNode(path, value, schema, errors);
+    return errors;
+  }
+
+  private matchesJsonType(value: unknown, type: JsonSchemaType): boolean {
+    switch (type) {
+      case 'null':
+        return value === null;
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      default:
+        return typeof value === type;
+    }
+  }
+
   private validateField(key: string, value: unknown, field: SchemaField): string | null {
     if (value === undefined || value === null) {
       if (field.required) {
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+import { createAgent } from '../src/agent/agent.js';
+import { ToolRegistry } from '../src/tools/registry.js';
+import { FileSessionStore } from '../src/agent/sessions/file-session-store.js';
+import { SqliteSessionStore } from '../src/agent/sessions/sqlite-session-store.js';
+import { createSessionRecord, type SessionStore } from '../src/agent/sessions/session-store.js';
+import { isSqliteAvailable } from '../src/storage/sqlite-backend.js';
+import type { ChatMessage, ChatRequest, ChatResponse, LLMService } from '../src/agent/domain/types.js';
+
+const sqliteAvailable = await isSqliteAvailable();
+
+const createLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+const createMemory = () => ({
+  store: vi.fn().mockResolvedValue(undefined),
+  retrieve: vi.fn(),
+  search: vi.fn().mockResolvedValue([]),
+  semanticSearch: vi.fn().mockResolvedValue([]),
+  getRecent: vi.fn().mockResolvedValue([]),
+  clear: vi.fn(),
+});
+
+const createResponse = (content: string, toolCall?: { id: string; name: string; arguments: string }): ChatResponse => ({
+  id: 'resp',
+  object: 'chat.completion',
+  created: 0,
+  model: 'mock',
+  choices: [
+    {
+      index: 0,
+      message: {
+        id: 'msg',
+        role: 'assistant',
+        content,
+        timestamp: 0,
+        toolCalls: toolCall && [{ id: toolCall.id, type: 'function', function: { name: toolCall.name, arguments: toolCall.arguments } }],
+      },
+      finishReason: toolCall ? 'tool_calls' : 'stop',
+    },
+  ],
+  usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+});
+
+function createMockLLM(responses: ChatResponse[]) {
+  const requests: ChatRequest[] = [];
+  const llm: LLMService = {
+    complete: vi.fn(async (request: ChatRequest) => {
+      requests.push({ ...request, messages: [...request.messages] });
+      return responses.shift()!;
+    }),
+    completeStream: vi.fn(),
+  };
+  return { llm, requests };
+}
+
+function createSupportAgent(llm: LLMService, sessionStore: SessionStore) {
+  const toolRegistry = new ToolRegistry();
+  toolRegistry.register({
+    id: 'order_status',
+    name: 'order_status',
+    description: 'Look up an order',
+    category: 'data',
+    parameters: z.object({ orderId: z.string() }),
+    execute: async () => ({ success: true, data: { status: 'shipped' } }),
+  });
+
+  return createAgent({
+    name: 'Support',
+    llm,
+    memory: createMemory(),
+    logger: createLogger(),
+    toolRegistry,
+    toolCallingMode: 'native',
+    enableDynamicSkillSelection: false,
+    enableReflection: false,
+    sessionStore,
+  });
+}
+
+const userMessage = (content: string): ChatMessage => ({ role: 'user', content }) as ChatMessage;
+
+describe('Agent session persistence', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should resume a session from the file store after a restart', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sdkwork-sessions-'));
+
+    const first = createMockLLM([
+      createResponse('Checking', { id: 'call_1', name: 'order_status', arguments: '{"orderId":"42"}' }),
+      createResponse('Order 42 has shipped.'),
+    ]);
+    const before = createSupportAgent(first.llm, new FileSessionStore({ directory: dir }));
+    await before.chat({ sessionId: 'support-1', messages: [userMessage('Where is order 42?')] });
+    await before.destroy();
+
+    const second = createMockLLM([createResponse('It left the warehouse yesterday.')]);
+    const after = createSupportAgent(second.llm, new FileSessionStore({ directory: dir }));
+    await after.chat({ sessionId: 'support-1', messages: [userMessage('When did it ship?')] });
+
+    expect(second.requests[0].messages.map(message => `${message.role}: ${message.content}`)).toEqual([
+      expect.stringMatching(/^system: /),
+      'user: Where is order 42?',
+      'assistant: Order 42 has shipped.',
+      'user: When did it ship?',
+    ]);
+
+    const session = await after.getSession('support-1');
+    expect(session?.messages.map(message => message.role)).toEqual(['user', 'assistant', 'user', 'assistant']);
+    expect(session?.turns[0].toolResults).toEqual([
+      expect.objectContaining({ type: 'tool', name: 'order_status', parameters: { orderId: '42' } }),
+    ]);
+    expect(session?.usage.totalTokens).toBe(session!.turns[0].usage.totalTokens + session!.turns[1].usage.totalTokens);
+    expect(await after.listSessions()).toEqual([expect.objectContaining({ id: 'support-1', messageCount: 4 })]);
+  });
+
+  it('should not duplicate history when callers resend the full conversation', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sdkwork-sessions-'));
+    const { llm } = createMockLLM([createResponse('Hello!'), createResponse('Bye!')]);
+    const agent = createSupportAgent(llm, new FileSessionStore({ directory: dir }));
+
+    await agent.chat({ sessionId: 's', messages: [userMessage('Hi')] });
+    await agent.chat({
+      sessionId: 's',
+      messages: [userMessage('Hi'), { role: 'assistant', content: 'Hello!' } as ChatMessage, userMessage('Hi')],
+    });
+
+    expect((await agent.getSessionHistory('s')).map(message => message.content)).toEqual(['Hi', 'Hello!', 'Hi', 'Bye!']);
+    await agent.clearSession('s');
+    expect(await agent.getSessionHistory('s')).toEqual([]);
+  });
+
+  it('should reject session ids that are not safe file names', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sdkwork-sessions-'));
+    const store = new FileSessionStore({ directory: dir });
+    await expect(store.save(createSessionRecord('../escape'))).rejects.toThrow(/Invalid session id/);
+  });
+});
+
+describe.skipIf(!sqliteAvailable)('SqliteSessionStore', () => {
+  it('should round-trip sessions and list them by recency', async () => {
+    const store = new SqliteSessionStore();
+    const older = { ...createSessionRecord('a', 'agent'), updatedAt: 1 };
+    const newer = { ...createSessionRecord('b'), messages: [{ ...userMessage('hi'), id: 'm1', timestamp: 1 }] };
+    await store.save(older);
+    await store.save(newer);
+
+    expect(await store.load('b')).toEqual(newer);
+    expect((await store.list()).map(summary => [summary.id, summary.messageCount])).toEqual([['b', 1], ['a', 0]]);
+    await store.delete('b');
+    expect(await store.load('b')).toBeNull();
+    await store.close();
+  });
+});
@@ -0,0 +1,133 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, appendFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileVectorDatabase, type FileVectorDBConfig } from '../src/memory/file-vector-database.js';
+import { HNSWIndex } from '../src/algorithms/hnsw.js';
+import { createRandom, randomVector } from './helpers/random.js';
+
+describe('FileVectorDatabase', () => {
+  let dataDir: string;
+  const open: FileVectorDatabase[] = [];
+
+  const createDB = async (config: Partial<FileVectorDBConfig> = {}) => {
+    const db = new FileVectorDatabase({ dataDir, dimension: 4, autoSaveInterval: 0, cacheEnabled: false, ...config });
+    await db.initialize();
+    open.push(db);
+    return db;
+  };
+
+  afterEach(async () => {
+    await Promise.all(open.splice(0).map(db => db.close().catch(() => undefined)));
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should replay the write-ahead log after a crash and drop a torn final record', async () => {
+    dataDir = mkdtempSync(join(tmpdir(), 'sdkwork-vectors-'));
+    const db = await createDB();
+
+    await db.insertBatch([
+      { id: 'a', vector: [1, 0, 0, 0], content: 'alpha', metadata: { topic: 'x' } },
+      { id: 'b', vector: [0, 1, 0, 0], content: 'beta', metadata: { topic: 'y' } },
+      { id: 'c', vector: [0, 0, 1, 0], content: 'gamma', metadata: { topic: 'x' } },
+    ]);
+    await db.update('b', { vector: [0.9, 0.1, 0, 0], content: 'beta v2' });
+    await db.delete('c');
+
+    // 进程在写日志时崩溃：不调用 close，日志末尾留下半条记录
+    appendFileSync(join(dataDir, 'wal-0.log'), '{"op":"put","docs":[{"id":"d","vec');
+
+    const restarted = await createDB();
+    expect(await restarted.getById('c')).toBeNull();
+    expect(await restarted.getById('d')).toBeNull();
+    expect(await restarted.getById('b')).toMatchObject({ content: 'beta v2', updatedAt: expect.any(Date) });
+
+    const results = await restarted.search([1, 0, 0, 0], { limit: 2 });
+    expect(results.map(result => result.document.id)).toEqual(['a', 'b']);
+  });
+
+  it('should compact into a snapshot with the HNSW graph and keep writes made during compaction', async () => {
+    dataDir = mkdtempSync(join(tmpdir(), 'sdkwork-vectors-'));
+    const random = createRandom(7);
+    const db = await createDB({ dimension: 8, compactionThreshold: 0, fullScanThreshold: 0, hnsw: { seed: 1 } });
+
+    for (let i = 0; i < 50; i++) {
+      await db.insert({ id: `doc-${i}`, vector: randomVector(random, 8), metadata: { shard: i % 2 } });
+    }
+
+    const compaction = db.compact();
+    await db.insert({ id: 'late', vector: randomVector(random, 8), metadata: { shard: 0 } });
+    await compaction;
+
+    expect(readdirSync(dataDir).sort()).toEqual(['manifest.json', 'snapshot-1.json', 'snapshot-1.vec', 'wal-1.log']);
+
+    const query = randomVector(random, 8);
+    const before = await db.search(query, { limit: 5 });
+
+    const restarted = await createDB({ dimension: 8, compactionThreshold: 0, fullScanThreshold: 0, hnsw: { seed: 1 } });
+    expect((await restarted.getStats()).totalVectors).toBe(51);
+    expect(await restarted.getById('late')).not.toBeNull();
+    const after = await restarted.search(query, { limit: 5 });
+    expect(after.map(result => result.document.id)).toEqual(before.map(result => result.document.id));
+  });
+
+  it('should answer queries through the index with high recall and honour filters', async () => {
+    dataDir = mkdtempSync(join(tmpdir(), 'sdkwork-vectors-'));
+    const random = createRandom(42);
+    const dimension = 16;
+    const db = await createDB({ dimension, fullScanThreshold: 0, hnsw: { seed: 3 } });
+
+    const docs = Array.from({ length: 1500 }, (_, i) => ({
+      id: `v${i}`,
+      vector: randomVector(random, dimension),
+      metadata: { group: i % 10 === 0 ? 'rare' : 'common' },
+    }));
+    await db.insertBatch(docs);
+
+    const cosine = (a: number[], b: number[]) => {
+      let dot = 0, na = 0, nb = 0;
+      a.forEach((value, i) => { dot += value * b[i]; na += value * value; nb += b[i] * b[i]; });
+      return dot / Math.sqrt(na * nb);
+    };
+
+    let hits = 0;
+    for (let q = 0; q < 10; q++) {
+      const query = randomVector(random, dimension);
+      const exact = docs
+        .map(doc => ({ id: doc.id, score: cosine(query, doc.vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10)
+        .map(doc => doc.id);
+      const found = (await db.search(query, { limit: 10 })).map(result => result.document.id);
+      hits += found.filter(id => exact.includes(id)).length;
+    }
+    expect(hits / 100).toBeGreaterThan(0.9);
+
+    const filtered = await db.search(randomVector(random, dimension), { limit: 10, filter: { group: 'rare' } });
+    expect(filtered).toHaveLength(10);
+    expect(filtered.every(result => result.document.metadata.group === 'rare')).toBe(true);
+
+    await expect(db.insert({ id: 'bad', vector: [1, 2, 3], metadata: {} })).rejects.toThrow('dimension mismatch');
+  });
+});
+
+describe('HNSWIndex', () => {
+  it('should keep the graph searchable across updates, removals and serialization', () => {
+    const random = createRandom(11);
+    const index = new HNSWIndex({ dimension: 6, seed: 5 });
+    for (let i = 0; i < 300; i++) {
+      index.add(`n${i}`, randomVector(random, 6));
+    }
+
+    index.add('n0', [1, 1, 1, 1, 1, 1]);
+    for (let i = 1; i < 100; i++) {
+      index.remove(`n${i}`);
+    }
+
+    const restored = HNSWIndex.deserialize(index.serialize());
+    expect(restored.size).toBe(201);
+    expect(restored.search([1, 1, 1, 1, 1, 1], 1)[0].id).toBe('n0');
+    expect(restored.search(randomVector(random, 6), 20)).toHaveLength(20);
+  });
+});
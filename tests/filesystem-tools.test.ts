@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, symlinkSync, writeFileSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createFilesystemTools,
+  globToRegExp,
+  applyUnifiedPatch,
+  type ExecutionContext,
+  type FilesystemTools,
+} from '../src/tools/index.js';
+
+const context: ExecutionContext = {
+  agentId: 'agent-1',
+  executionId: 'exec-1',
+  toolId: 'test',
+  toolName: 'test',
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+};
+
+describe('Workspace filesystem tools', () => {
+  let base: string;
+  let root: string;
+  let fsTools: FilesystemTools;
+
+  beforeEach(() => {
+    base = mkdtempSync(join(tmpdir(), 'sdkwork-fs-'));
+    root = join(base, 'workspace');
+    mkdirSync(join(root, 'src', 'lib'), { recursive: true });
+    mkdirSync(join(root, 'node_modules', 'dep'), { recursive: true });
+    writeFileSync(join(root, 'src', 'index.ts'), 'export const a = 1;\nexport const b = 2;\n');
+    writeFileSync(join(root, 'src', 'lib', 'util.ts'), 'export function util() {\n  return 42;\n}\n');
+    writeFileSync(join(root, 'README.md'), '# Title\nline 2\nline 3\nline 4\n');
+    writeFileSync(join(root, 'node_modules', 'dep', 'index.ts'), 'export const a = 1;\n');
+    writeFileSync(join(base, 'secret.txt'), 'secret');
+    fsTools = createFilesystemTools({ root });
+  });
+
+  afterEach(() => {
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  it('should reject paths and symlinks that escape the workspace', async () => {
+    symlinkSync(join(base, 'secret.txt'), join(root, 'link.txt'));
+    symlinkSync(base, join(root, 'outside'));
+
+    for (const path of ['../secret.txt', join(base, 'secret.txt'), 'link.txt', 'outside/secret.txt']) {
+      const result = await fsTools.fileRead.execute({ path }, context);
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PATH_OUTSIDE_WORKSPACE');
+    }
+
+    const write = await fsTools.fileWrite.execute({ path: 'outside/new.txt', content: 'x' }, context);
+    expect(write.error?.code).toBe('PATH_OUTSIDE_WORKSPACE');
+    expect(readdirSync(base).sort()).toEqual(['secret.txt', 'workspace']);
+  });
+
+  it('should read line ranges and write files atomically', async () => {
+    const read = await fsTools.fileRead.execute({ path: 'README.md', offset: 2, limit: 2 }, context);
+    expect(read.data).toBe('line 2\nline 3');
+    expect(read.output?.metadata).toEqual({ startLine: 2, endLine: 3, totalLines: 4 });
+    expect(read.output?.content[0].text).toContain('continue with offset=4');
+
+    const write = await fsTools.fileWrite.execute({ path: 'docs/new.md', content: 'hello' }, context);
+    expect(write.data).toEqual({ path: 'docs/new.md', bytesWritten: 5 });
+    expect(readFileSync(join(root, 'docs', 'new.md'), 'utf-8')).toBe('hello');
+    expect(readdirSync(join(root, 'docs'))).toEqual(['new.md']);
+  });
+
+  it('should glob and grep while skipping ignored directories', async () => {
+    const glob = await fsTools.glob.execute({ pattern: '**/*.ts' }, context);
+    expect(glob.data).toEqual({ files: ['src/index.ts', 'src/lib/util.ts'], truncated: false });
+
+    const grep = await fsTools.grep.execute({ pattern: 'export (const|function)', include: '*.ts', context: 1 }, context);
+    const { matches } = grep.data as { matches: Array<{ path: string; line: number }> };
+    expect(matches.map(m => `${m.path}:${m.line}`)).toEqual(['src/index.ts:1', 'src/index.ts:2', 'src/lib/util.ts:1']);
+    expect(grep.output?.content[0].text).toContain('src/lib/util.ts-2-   return 42;');
+
+    const invalid = await fsTools.grep.execute({ pattern: '(' }, context);
+    expect(invalid.error).toMatchObject({ code: 'GREP_INVALID_PATTERN', recoverable: true });
+  });
+
+  it('should apply search/replace edits atomically and report conflicts', async () => {
+    const file = join(root, 'src', 'index.ts');
+    const ok = await fsTools.editFile.execute(
+      { path: 'src/index.ts', edits: [{ oldText: 'a = 1', newText: 'a = 10' }, { oldText: 'b = 2', newText: 'b = 20' }] },
+      context
+    );
+    expect(ok.success).toBe(true);
+    expect(readFileSync(file, 'utf-8')).toBe('export const a = 10;\nexport const b = 20;\n');
+
+    const ambiguous = await fsTools.editFile.execute(
+      { path: 'src/index.ts', edits: [{ oldText: 'b = 20', newText: 'b = 3' }, { oldText: 'export', newText: 'declare' }] },
+      context
+    );
+    expect(ambiguous.error).toMatchObject({ code: 'EDIT_CONFLICT', recoverable: true, details: { edit: 1, matches: 2 } });
+
+    const empty = await fsTools.editFile.execute({ path: 'src/index.ts', edits: [{ oldText: '', newText: 'x' }] }, context);
+    expect(empty.error).toMatchObject({ code: 'EDIT_CONFLICT', details: { edit: 0 } });
+    // 任一编辑失败时文件保持不变
+    expect(readFileSync(file, 'utf-8')).toBe('export const a = 10;\nexport const b = 20;\n');
+  });
+
+  it('should apply unified diff hunks with line offsets and detect stale context', async () => {
+    const patch = [
+      '--- a/src/lib/util.ts',
+      '+++ b/src/lib/util.ts',
+      '@@ -5,3 +5,3 @@',
+      ' export function util() {',
+      '-  return 42;',
+      '+  return 43;',
+      ' }',
+    ].join('\n');
+
+    const ok = await fsTools.editFile.execute({ path: 'src/lib/util.ts', patch }, context);
+    expect(ok.success).toBe(true);
+    expect(readFileSync(join(root, 'src', 'lib', 'util.ts'), 'utf-8')).toBe('export function util() {\n  return 43;\n}\n');
+
+    const stale = await fsTools.editFile.execute({ path: 'src/lib/util.ts', patch }, context);
+    expect(stale.error?.code).toBe('EDIT_CONFLICT');
+    expect(stale.error?.message).toContain('Hunk 1');
+  });
+});
+
+describe('Filesystem helpers', () => {
+  it('should convert glob patterns to regular expressions', () => {
+    expect(globToRegExp('**/*.ts').test('index.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.{ts,tsx}').test('src/a/b/c.tsx')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('src/a/b.ts')).toBe(false);
+    expect(globToRegExp('file-[!0-9].md').test('file-a.md')).toBe(true);
+  });
+
+  it('should create new files from patches and preserve missing trailing newlines', () => {
+    expect(applyUnifiedPatch('', '@@ -0,0 +1,2 @@\n+one\n+two').content).toBe('one\ntwo\n');
+    expect(applyUnifiedPatch('a\nb', '@@ -2 +2 @@\n-b\n+c\n\\ No newline at end of file').content).toBe('a\nc');
+  });
+});
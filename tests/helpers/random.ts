@@ -0,0 +1,11 @@
+/**
+ * Deterministic random vectors for vector index tests
+ */
+export function createRandom(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296 - 0.5;
+  };
+}
+
+export const randomVector = (random: () => number, dimension: number) => Array.from({ length: dimension }, random);
@@ -1,8 +1,41 @@
-import { describe, it, expect } from 'vitest';
-import { LLMManager, LLMProviderRegistry, globalProviderRegistry } from '../src/llm';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  LLMManager,
+  LLMProviderRegistry,
+  globalProviderRegistry,
+  fromChatContent,
+  toOpenAIContent,
+  completeStructured,
+  type LLMMessage,
+  type LLMProvider,
+  type LLMResponse,
+  type ResponseSchema,
+} from '../src/llm';
 import { OpenAIProvider } from '../src/llm/providers/openai';
 import { AnthropicProvider } from '../src/llm/providers/anthropic';
 import { GeminiProvider } from '../src/llm/providers/gemini';
+import { DeepSeekProvider } from '../src/llm/providers/deepseek';
+import { LocalProvider } from '../src/llm/providers/local';
+
+function stubFetch(payload: unknown) {
+  const fetchMock = vi.fn().mockResolvedValue(
+    new Response(JSON.stringify(payload), { status: 200, headers: { 'Content-Type': 'application/json' } })
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+function sentBody(fetchMock: ReturnType<typeof vi.fn>): Record<string, any> {
+  return JSON.parse(fetchMock.mock.calls[0][1].body as string);
+}
+
+const screenshotMessage: LLMMessage = {
+  role: 'user',
+  content: [
+    { type: 'text', text: 'What is wrong here?' },
+    { type: 'image', source: { type: 'base64', mediaType: 'image/png', data: 'iVBORw0KGgo=' } },
+  ],
+};
 
 describe('LLM Providers', () => {
   describe('Provider Registry', () => {
@@ -84,6 +117,220 @@ describe('LLM Providers', () => {
       });
       expect(provider.supportedModels).toContain('claude-3-5-sonnet-20241022');
     });
+
+    it('should send tool calls and tool results as tool_use / tool_result blocks', async () => {
+      const fetchMock = stubFetch({ id: 'msg_1', model: 'claude-sonnet-4-5', content: [], stop_reason: 'end_turn' });
+      const provider = new AnthropicProvider({ apiKey: 'test' });
+
+      await provider.complete({
+        messages: [
+          { role: 'system', content: 'Be brief.', cache_control: { type: 'ephemeral' } },
+          { role: 'user', content: 'Weather in Paris and Rome?' },
+          {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } },
+              { id: 'toolu_2', type: 'function', function: { name: 'weather', arguments: '{"city":"Rome"}' } },
+            ],
+          },
+          { role: 'tool', tool_call_id: 'toolu_1', content: 'sunny' },
+          { role: 'tool', tool_call_id: 'toolu_2', content: 'rainy' },
+        ],
+        tool_choice: { type: 'function', function: { name: 'weather' } },
+      });
+
+      const body = sentBody(fetchMock);
+      expect(body.system).toEqual([{ type: 'text', text: 'Be brief.', cache_control: { type: 'ephemeral' } }]);
+      expect(body.tool_choice).toEqual({ type: 'tool', name: 'weather' });
+      expect(body.messages).toHaveLength(3);
+      expect(body.messages[1].content).toEqual([
+        { type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Paris' } },
+        { type: 'tool_use', id: 'toolu_2', name: 'weather', input: { city: 'Rome' } },
+      ]);
+      expect(body.messages[2]).toEqual({
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_1', content: 'sunny' },
+          { type: 'tool_result', tool_use_id: 'toolu_2', content: 'rainy' },
+        ],
+      });
+    });
+
+    it('should parse tool_use, thinking and stop_reason from responses', async () => {
+      stubFetch({
+        id: 'msg_1',
+        model: 'claude-sonnet-4-5',
+        content: [
+          { type: 'thinking', thinking: 'Need the weather tool', signature: 'sig' },
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Paris' } },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 8 },
+      });
+      const provider = new AnthropicProvider({ apiKey: 'test' });
+
+      const response = await provider.complete({ messages: [{ role: 'user', content: 'Weather?' }] });
+
+      expect(response.finish_reason).toBe('tool_calls');
+      expect(response.content).toBe('Checking.');
+      expect(response.tool_calls).toEqual([
+        { id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } },
+      ]);
+      expect(response.thinking).toEqual([{ type: 'thinking', thinking: 'Need the weather tool', signature: 'sig' }]);
+      expect(response.usage).toMatchObject({ prompt_tokens: 10, completion_tokens: 5, cache_read_tokens: 8 });
+    });
+
+    it('should cancel the HTTP request when the caller aborts', async () => {
+      const fetchMock = vi.fn((_url: string, init: RequestInit) => {
+        return new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        });
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new AnthropicProvider({ apiKey: 'test' });
+      const controller = new AbortController();
+
+      const pending = provider.complete({
+        messages: [{ role: 'user', content: 'Hello' }],
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(pending).rejects.toThrow();
+      expect(fetchMock.mock.calls[0][1].signal?.aborted).toBe(true);
+    });
+
+    it('should assemble streamed tool input and report finish reason with usage', async () => {
+      const events = [
+        { type: 'message_start', message: { id: 'msg_1', model: 'claude-sonnet-4-5', usage: { input_tokens: 12, output_tokens: 1 } } },
+        { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Checking.' } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'weather', input: {} } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Paris"}' } },
+        { type: 'content_block_stop', index: 1 },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 20 } },
+        { type: 'message_stop' },
+      ];
+      const sse = events.map(e => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`).join('');
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(sse, { status: 200 })));
+      const provider = new AnthropicProvider({ apiKey: 'test' });
+
+      const chunks = [];
+      for await (const chunk of provider.stream({ messages: [{ role: 'user', content: 'Weather?' }] })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map(c => c.delta.content).join('')).toBe('Checking.');
+      expect(chunks.flatMap(c => c.delta.tool_calls || [])).toEqual([
+        { id: 'toolu_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } },
+      ]);
+      const last = chunks[chunks.length - 1];
+      expect(last.finish_reason).toBe('tool_calls');
+      expect(last.usage).toMatchObject({ prompt_tokens: 12, completion_tokens: 20, total_tokens: 32 });
+    });
+  });
+
+  describe('Local Provider', () => {
+    it('should discover installed Ollama models and default to the first one', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(Response.json({ models: [{ name: 'qwen3:8b' }, { name: 'llama3.2:latest' }] }))
+        .mockResolvedValueOnce(
+          Response.json({
+            model: 'qwen3:8b',
+            message: {
+              role: 'assistant',
+              content: '',
+              tool_calls: [{ function: { name: 'weather', arguments: { city: 'Paris' } } }],
+            },
+            done: true,
+            done_reason: 'stop',
+            prompt_eval_count: 12,
+            eval_count: 4,
+          })
+        );
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new LocalProvider({});
+
+      const response = await provider.complete({
+        messages: [{ role: 'user', content: 'Weather in Paris?' }],
+        tools: [{ type: 'function', function: { name: 'weather', description: 'Weather', parameters: {} } }],
+      });
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/tags');
+      expect(provider.supportedModels).toEqual(['qwen3:8b', 'llama3.2:latest']);
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body).model).toBe('qwen3:8b');
+      expect(response.finish_reason).toBe('tool_calls');
+      expect(response.tool_calls?.[0].function).toEqual({ name: 'weather', arguments: '{"city":"Paris"}' });
+      expect(response.usage).toEqual({ prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 });
+    });
+
+    it('should stream Ollama NDJSON chunks', async () => {
+      const lines = [
+        { model: 'llama3.2', message: { role: 'assistant', content: 'Hel' }, done: false },
+        { model: 'llama3.2', message: { role: 'assistant', content: 'lo' }, done: false },
+        { model: 'llama3.2', message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop', eval_count: 2 },
+      ];
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue(new Response(lines.map(l => JSON.stringify(l)).join('\n') + '\n'))
+      );
+      const provider = new LocalProvider({ model: 'llama3.2' });
+
+      const chunks = [];
+      for await (const chunk of provider.stream({ messages: [{ role: 'user', content: 'Hi' }] })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks.map(c => c.delta.content || '').join('')).toBe('Hello');
+      expect(chunks[chunks.length - 1].finish_reason).toBe('stop');
+    });
+
+    it('should report tool_calls as the finish reason of streamed Ollama tool calls', async () => {
+      const lines = [
+        { model: 'llama3.2', message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'weather', arguments: { city: 'Paris' } } }] }, done: false },
+        { model: 'llama3.2', message: { role: 'assistant', content: '' }, done: true, done_reason: 'stop' },
+      ];
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(lines.map(l => JSON.stringify(l)).join('\n') + '\n')));
+      const provider = new LocalProvider({ model: 'llama3.2' });
+
+      const chunks = [];
+      for await (const chunk of provider.stream({ messages: [{ role: 'user', content: 'Weather?' }] })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks[0].delta.tool_calls?.[0].function).toEqual({ name: 'weather', arguments: '{"city":"Paris"}' });
+      expect(chunks[chunks.length - 1].finish_reason).toBe('tool_calls');
+    });
+
+    it('should assemble streamed tool calls from OpenAI-compatible servers', async () => {
+      const events = [
+        { id: 'c1', model: 'm', choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'weather', arguments: '{"ci' } }] } }] },
+        { id: 'c1', model: 'm', choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ty":"Rome"}' } }] } }] },
+        { id: 'c1', model: 'm', choices: [{ delta: {}, finish_reason: 'tool_calls' }] },
+      ];
+      const sse = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n';
+      const fetchMock = vi.fn().mockResolvedValue(new Response(sse));
+      vi.stubGlobal('fetch', fetchMock);
+      const provider = new LocalProvider({ baseUrl: 'http://localhost:8080/v1', model: 'm' });
+
+      const chunks = [];
+      for await (const chunk of provider.stream({ messages: [{ role: 'user', content: 'Weather?' }] })) {
+        chunks.push(chunk);
+      }
+
+      expect(provider.api).toBe('openai');
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/v1/chat/completions');
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].finish_reason).toBe('tool_calls');
+      expect(chunks[0].delta.tool_calls).toEqual([
+        { id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Rome"}' } },
+      ]);
+    });
   });
 
   describe('Gemini Provider', () => {
@@ -109,6 +356,168 @@ describe('LLM Providers', () => {
       expect(globalProviderRegistry.isRegistered('openai')).toBe(true);
       expect(globalProviderRegistry.isRegistered('anthropic')).toBe(true);
       expect(globalProviderRegistry.isRegistered('gemini')).toBe(true);
+      expect(globalProviderRegistry.isRegistered('local')).toBe(true);
+    });
+  });
+
+  describe('Multimodal Content', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should convert chat content parts to LLM content parts', () => {
+      const parts = fromChatContent([
+        { type: 'text', text: 'hi' },
+        { type: 'image_url', imageUrl: { url: 'data:image/png;base64,AAAA', detail: 'high' } },
+        { type: 'image_url', imageUrl: { url: 'https://example.com/a.jpg' } },
+        { type: 'file', file: { name: 'notes.md', content: '# Notes', mimeType: 'text/markdown' } },
+      ]);
+
+      expect(parts).toEqual([
+        { type: 'text', text: 'hi' },
+        { type: 'image', source: { type: 'base64', mediaType: 'image/png', data: 'AAAA' }, detail: 'high' },
+        { type: 'image', source: { type: 'url', url: 'https://example.com/a.jpg' }, detail: undefined },
+        { type: 'document', name: 'notes.md', source: { type: 'text', mediaType: 'text/markdown', data: '# Notes' } },
+      ]);
+    });
+
+    it('should format images as OpenAI image_url parts', () => {
+      expect(toOpenAIContent(screenshotMessage.content)).toEqual([
+        { type: 'text', text: 'What is wrong here?' },
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' } },
+      ]);
+    });
+
+    it('should send image blocks to Anthropic', async () => {
+      const fetchMock = stubFetch({
+        id: 'msg_1',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'text', text: 'ok' }],
+        usage: { input_tokens: 1, output_tokens: 1 },
+      });
+      const provider = new AnthropicProvider({ apiKey: 'test' });
+
+      await provider.complete({ messages: [screenshotMessage] });
+
+      expect(sentBody(fetchMock).messages[0].content[1]).toEqual({
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' },
+      });
+    });
+
+    it('should send inline data parts to Gemini', async () => {
+      const fetchMock = stubFetch({ candidates: [{ content: { parts: [{ text: 'ok' }] }, finishReason: 'STOP' }] });
+      const provider = new GeminiProvider({ apiKey: 'test' });
+
+      await provider.complete({ messages: [screenshotMessage] });
+
+      expect(sentBody(fetchMock).contents[0].parts).toEqual([
+        { text: 'What is wrong here?' },
+        { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+      ]);
+    });
+
+    it('should reject images for text-only providers instead of dropping them', async () => {
+      stubFetch({});
+      const provider = new DeepSeekProvider({ apiKey: 'test' });
+
+      await expect(provider.complete({ messages: [screenshotMessage] })).rejects.toThrow(
+        'DeepSeek does not support image content'
+      );
+    });
+  });
+
+  describe('Structured Output', () => {
+    const weatherSchema: ResponseSchema = {
+      name: 'weather',
+      schema: {
+        type: 'object',
+        properties: { city: { type: 'string' }, celsius: { type: 'number' } },
+        required: ['city', 'celsius'],
+      },
+    };
+
+    const reply = (content: string): LLMResponse => ({
+      id: 'r',
+      model: 'mock',
+      content,
+      role: 'assistant',
+      finish_reason: 'stop',
+    });
+
+    it('should send json_schema response_format to OpenAI and return parsed output', async () => {
+      const fetchMock = stubFetch({
+        id: 'chatcmpl-1',
+        model: 'gpt-4o',
+        choices: [{ message: { role: 'assistant', content: '{"city":"Paris","celsius":21}' }, finish_reason: 'stop' }],
+      });
+      const manager = new LLMManager();
+      manager.addProvider('openai', { apiKey: 'test' });
+      manager.setDefaultProvider('openai');
+
+      const response = await manager.complete({
+        messages: [{ role: 'user', content: 'Weather in Paris?' }],
+        responseSchema: weatherSchema,
+      });
+
+      expect(response.parsed).toEqual({ city: 'Paris', celsius: 21 });
+      expect(sentBody(fetchMock).response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'weather', schema: weatherSchema.schema },
+      });
+    });
+
+    it('should force an Anthropic tool and read its input as the structured result', async () => {
+      const fetchMock = stubFetch({
+        id: 'msg_1',
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'weather', input: { city: 'Paris', celsius: 21 } }],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 5 },
+      });
+      const provider = new AnthropicProvider({ apiKey: 'test' });
+
+      const response = await completeStructured(provider, {
+        messages: [{ role: 'user', content: 'Weather in Paris?' }],
+        responseSchema: weatherSchema,
+      });
+
+      expect(response.parsed).toEqual({ city: 'Paris', celsius: 21 });
+      expect(response.finish_reason).toBe('stop');
+      expect(sentBody(fetchMock).tool_choice).toEqual({ type: 'tool', name: 'weather' });
+    });
+
+    it('should describe the schema in the prompt and repair invalid replies', async () => {
+      const complete = vi.fn()
+        .mockResolvedValueOnce(reply('{"city":"Paris"}'))
+        .mockResolvedValueOnce(reply('```json\n{"city":"Paris","celsius":21}\n```'));
+      const provider = { name: 'mock', supportedModels: [], complete } as unknown as LLMProvider;
+
+      const response = await completeStructured(provider, {
+        messages: [{ role: 'user', content: 'Weather in Paris?' }],
+        responseSchema: weatherSchema,
+      });
+
+      expect(response.parsed).toEqual({ city: 'Paris', celsius: 21 });
+      const first = complete.mock.calls[0][0];
+      expect(first.messages[0].role).toBe('system');
+      expect(first.messages[0].content).toContain('JSON Schema');
+      const repair = complete.mock.calls[1][0].messages;
+      expect(repair[repair.length - 1].content).toContain('value.celsius is required');
+    });
+
+    it('should throw a ValidationError when repairs are exhausted', async () => {
+      const complete = vi.fn().mockResolvedValue(reply('not json'));
+      const provider = { name: 'mock', supportedModels: [], complete } as unknown as LLMProvider;
+
+      await expect(
+        completeStructured(
+          provider,
+          { messages: [{ role: 'user', content: 'Weather?' }], responseSchema: weatherSchema },
+          { maxRepairAttempts: 1 }
+        )
+      ).rejects.toThrow("Structured output for 'weather' did not match the schema");
+      expect(complete).toHaveBeenCalledTimes(2);
     });
   });
 });
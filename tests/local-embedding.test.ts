@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  LocalEmbeddingProvider,
+  EmbeddingProviderFactory,
+  type OnnxRuntime,
+  type OnnxTensor,
+} from '../src/embeddings/embedding-provider.js';
+import { WordPieceTokenizer } from '../src/embeddings/wordpiece-tokenizer.js';
+
+const VOCAB = ['[PAD]', '[UNK]', '[CLS]', '[SEP]', 'hello', ',', 'world', '!', 'un', '##aff', '##able', '世', '界', 'cafe'];
+
+const tokenizerJson = {
+  truncation: null,
+  normalizer: { type: 'BertNormalizer', clean_text: true, handle_chinese_chars: true, strip_accents: null, lowercase: true },
+  model: {
+    type: 'WordPiece',
+    unk_token: '[UNK]',
+    continuing_subword_prefix: '##',
+    max_input_chars_per_word: 100,
+    vocab: Object.fromEntries(VOCAB.map((token, id) => [token, id])),
+  },
+};
+
+/**
+ * Token embedding = [id, 1, 0] for real tokens; padding positions return a large
+ * value so that pooling across the mask would be visible
+ */
+function createRuntime() {
+  const runs: Array<{ dims: readonly number[]; feeds: string[] }> = [];
+  const created: Array<{ path: string; options?: Record<string, unknown> }> = [];
+
+  class Tensor implements OnnxTensor {
+    constructor(readonly type: string, readonly data: BigInt64Array | Float32Array, readonly dims: number[]) {}
+  }
+
+  const runtime: OnnxRuntime = {
+    Tensor: Tensor as unknown as OnnxRuntime['Tensor'],
+    InferenceSession: {
+      async create(path, options) {
+        created.push({ path, options });
+        return {
+          inputNames: ['input_ids', 'attention_mask', 'token_type_ids'],
+          outputNames: ['last_hidden_state'],
+          async run(feeds) {
+            const ids = feeds.input_ids;
+            const mask = feeds.attention_mask.data;
+            runs.push({ dims: ids.dims, feeds: Object.keys(feeds) });
+            const [batch, seq] = ids.dims;
+            const hidden = new Float32Array(batch * seq * 3);
+            for (let i = 0; i < batch * seq; i++) {
+              const real = mask[i] === BigInt(1);
+              hidden.set(real ? [Number(ids.data[i]), 1, 0] : [0, 0, 1000], i * 3);
+            }
+            return { last_hidden_state: new Tensor('float32', hidden, [batch, seq, 3]) };
+          },
+        };
+      },
+    },
+  };
+  return { runtime, runs, created };
+}
+
+describe('WordPieceTokenizer', () => {
+  it('should normalize, split punctuation and CJK, and apply greedy WordPiece', () => {
+    const tokenizer = WordPieceTokenizer.fromTokenizerJson(tokenizerJson);
+    expect(tokenizer.tokenize('Hello,  UNAFFABLE world!\t世界 Café xyz')).toEqual([
+      'hello', ',', 'un', '##aff', '##able', 'world', '!', '世', '界', 'cafe', '[UNK]',
+    ]);
+    expect(tokenizer.encode('hello world', 3).inputIds).toEqual([2, 4, 3]);
+
+    const fromVocab = WordPieceTokenizer.fromVocab(VOCAB.join('\n'));
+    expect(fromVocab.encode('Hello world').inputIds).toEqual([2, 4, 6, 3]);
+    expect(() => WordPieceTokenizer.fromTokenizerJson({ model: { type: 'BPE', vocab: {} } })).toThrow('only WordPiece');
+  });
+});
+
+describe('LocalEmbeddingProvider', () => {
+  let modelDir: string;
+
+  afterEach(() => {
+    rmSync(modelDir, { recursive: true, force: true });
+  });
+
+  const createModelDir = () => {
+    modelDir = mkdtempSync(join(tmpdir(), 'sdkwork-onnx-'));
+    mkdirSync(join(modelDir, 'onnx'));
+    writeFileSync(join(modelDir, 'onnx', 'model.onnx'), '');
+    writeFileSync(join(modelDir, 'tokenizer.json'), JSON.stringify(tokenizerJson));
+  };
+
+  it('should batch, mean-pool over the attention mask, normalize and cache', async () => {
+    createModelDir();
+    const { runtime, runs, created } = createRuntime();
+    const provider = new LocalEmbeddingProvider(
+      { modelPath: modelDir, runtime: 'onnx', onnxRuntime: runtime, threads: 2 },
+      { batchSize: 2, normalize: false }
+    );
+
+    const result = await provider.embedBatch(['hello', 'hello world!', 'unaffable']);
+    expect(created).toEqual([{ path: join(modelDir, 'onnx', 'model.onnx'), options: expect.objectContaining({ intraOpNumThreads: 2 }) }]);
+    expect(runs.map(run => run.dims)).toEqual([[2, 5], [1, 5]]);
+    expect(runs[0].feeds).toEqual(['input_ids', 'attention_mask', 'token_type_ids']);
+
+    // [CLS]=2 hello=4 [SEP]=3 -> mean id 3; padding must not leak into the third component
+    expect(result.embeddings[0]).toEqual([3, 1, 0]);
+    expect(result.embeddings[1]).toEqual([(2 + 4 + 6 + 7 + 3) / 5, 1, 0]);
+    expect(result.dimensions).toBe(3);
+    expect(result.usage).toEqual({ promptTokens: 13, totalTokens: 13 });
+
+    const single = await provider.embed('hello');
+    expect(single.embedding).toEqual(result.embeddings[0]);
+
+    runs.length = 0;
+    const again = await provider.embedBatch(['unaffable', 'world']);
+    expect(runs.map(run => run.dims)).toEqual([[1, 3]]);
+    expect(again.embeddings[0]).toEqual(result.embeddings[2]);
+    expect(provider.getCacheStats().size).toBe(4);
+  });
+
+  it('should normalize embeddings and fail clearly without a model', async () => {
+    createModelDir();
+    const { runtime } = createRuntime();
+    const provider = new LocalEmbeddingProvider({ modelPath: join(modelDir, 'onnx', 'model.onnx'), runtime: 'onnx', onnxRuntime: runtime });
+    const { embedding } = await provider.embedWithCache('hello world');
+    expect(Math.hypot(...embedding)).toBeCloseTo(1);
+
+    const missing = new LocalEmbeddingProvider({ modelPath: join(modelDir, 'missing'), runtime: 'onnx', onnxRuntime: runtime });
+    expect(missing.isAvailable()).toBe(true);
+    await expect(missing.embed('hello')).rejects.toThrow('model not found');
+    expect(missing.isAvailable()).toBe(false);
+
+    // onnxruntime-node is an optional peer dependency and is not installed for tests
+    const noRuntime = new LocalEmbeddingProvider({ modelPath: modelDir, runtime: 'onnx' });
+    expect(noRuntime.isAvailable()).toBe(true);
+    expect(await noRuntime.checkAvailability()).toBe(false);
+    await expect(noRuntime.embed('hello')).rejects.toThrow('"onnxruntime-node"');
+
+    // load() reads the embedding size from the model
+    const loaded = new LocalEmbeddingProvider({ modelPath: modelDir, runtime: 'onnx', onnxRuntime: runtime });
+    expect(loaded.getDimensions()).toBe(384);
+    await loaded.load();
+    expect(loaded.getDimensions()).toBe(3);
+    expect(await loaded.checkAvailability()).toBe(true);
+
+    expect(() => EmbeddingProviderFactory.create({ provider: 'local' })).toThrow('model path');
+    expect(EmbeddingProviderFactory.create({ provider: 'local', modelPath: modelDir })).toBeInstanceOf(LocalEmbeddingProvider);
+  });
+});
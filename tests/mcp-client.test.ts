@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { z } from 'zod';
+import { pathToFileURL } from 'url';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { MCPClientImpl, createLLMSamplingHandler } from '../src/core/application/mcp-client.js';
+import type { MCPNotification, MCPClientOptions, MCPServerConfig } from '../src/core/domain/mcp.js';
+import { MCPServer, MCPServerRuntime, listenStreamableHTTP } from '../src/mcp/index.js';
+
+// stdio 测试服务：初始化后向客户端发起请求，并把客户端的回复作为 test/reply 通知回显
+const SERVER_SCRIPT = `
+const rl = require('readline').createInterface({ input: process.stdin });
+const send = (m) => process.stdout.write(JSON.stringify(m) + '\\n');
+rl.on('line', (line) => {
+  const msg = JSON.parse(line);
+  if (msg.method === 'initialize') {
+    send({ jsonrpc: '2.0', method: 'test/capabilities', params: msg.params.capabilities });
+    send({ jsonrpc: '2.0', id: msg.id, result: { protocolVersion: '2024-11-05', capabilities: {}, serverInfo: { name: 'test', version: '1' } } });
+  } else if (msg.method === 'notifications/initialized') {
+    send({ jsonrpc: '2.0', id: 's1', method: 'sampling/createMessage', params: { messages: [{ role: 'user', content: { type: 'text', text: 'Hi' } }], systemPrompt: 'Be brief', maxTokens: 50 } });
+    send({ jsonrpc: '2.0', id: 'r1', method: 'roots/list' });
+    send({ jsonrpc: '2.0', id: 'e1', method: 'elicitation/create', params: { message: 'Name?', requestedSchema: { type: 'object', properties: { name: { type: 'string' } } } } });
+    send({ jsonrpc: '2.0', id: 'u1', method: 'unknown/method' });
+  } else if (!msg.method) {
+    send({ jsonrpc: '2.0', method: 'test/reply', params: msg });
+  }
+});
+`;
+
+function createClient(options: MCPClientOptions) {
+  return new MCPClientImpl(
+    {
+      id: 'test-server',
+      name: 'Test Server',
+      transport: { type: 'stdio', command: process.execPath, args: ['-e', SERVER_SCRIPT] },
+      timeout: 5000,
+    },
+    options
+  );
+}
+
+function collectNotifications(client: MCPClientImpl, method: string, count: number): Promise<unknown[]> {
+  return new Promise((resolve) => {
+    const received: unknown[] = [];
+    client.on('mcp:notification', ({ notification }: { notification: MCPNotification }) => {
+      if (notification.method !== method) return;
+      received.push(notification.params);
+      if (received.length === count) resolve(received);
+    });
+  });
+}
+
+describe('MCPClientImpl', () => {
+  let client: MCPClientImpl | undefined;
+
+  afterEach(async () => {
+    await client?.disconnect();
+    client = undefined;
+  });
+
+  it('should advertise client capabilities and answer server requests', async () => {
+    const complete = vi.fn().mockResolvedValue({
+      id: 'r',
+      model: 'mock-model',
+      content: 'Hello!',
+      role: 'assistant',
+      finish_reason: 'stop',
+    });
+    const elicitation = vi.fn().mockResolvedValue({ action: 'accept', content: { name: 'Ada' } });
+
+    client = createClient({
+      sampling: createLLMSamplingHandler({ complete }),
+      roots: ['/tmp/workspace'],
+      elicitation,
+    });
+    const capabilities = collectNotifications(client, 'test/capabilities', 1);
+    const replies = collectNotifications(client, 'test/reply', 4);
+
+    await client.connect();
+
+    expect((await capabilities)[0]).toMatchObject({
+      roots: { listChanged: true },
+      sampling: {},
+      elicitation: {},
+    });
+
+    const byId = Object.fromEntries(
+      ((await replies) as Array<{ id: string }>).map(reply => [reply.id, reply])
+    );
+
+    expect(byId.s1).toMatchObject({
+      result: { role: 'assistant', content: { type: 'text', text: 'Hello!' }, model: 'mock-model', stopReason: 'endTurn' },
+    });
+    expect(complete.mock.calls[0][0]).toMatchObject({
+      messages: [
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hi' },
+      ],
+      max_tokens: 50,
+    });
+
+    expect(byId.r1).toMatchObject({
+      result: { roots: [{ uri: pathToFileURL('/tmp/workspace').href, name: 'workspace' }] },
+    });
+    expect(byId.e1).toMatchObject({ result: { action: 'accept', content: { name: 'Ada' } } });
+    expect(elicitation.mock.calls[0][1]).toMatchObject({ clientId: 'test-server' });
+    expect(byId.u1).toMatchObject({ error: { code: -32601 } });
+  });
+
+  it('should reject capabilities that were not configured', async () => {
+    client = createClient({});
+    const capabilities = collectNotifications(client, 'test/capabilities', 1);
+    const replies = collectNotifications(client, 'test/reply', 4);
+
+    await client.connect();
+
+    const advertised = (await capabilities)[0] as Record<string, unknown>;
+    expect(advertised.sampling).toBeUndefined();
+    expect(advertised.roots).toBeUndefined();
+
+    const errors = ((await replies) as Array<{ error?: { code: number } }>).map(reply => reply.error?.code);
+    expect(errors).toEqual([-32601, -32601, -32601, -32601]);
+  });
+});
+
+// 收到 tools/call 后退出的 stdio 服务，用于验证重连
+const CRASHING_SERVER_SCRIPT = `
+const rl = require('readline').createInterface({ input: process.stdin });
+const send = (m) => process.stdout.write(JSON.stringify(m) + '\\n');
+rl.on('line', (line) => {
+  const msg = JSON.parse(line);
+  if (msg.method === 'initialize') {
+    send({ jsonrpc: '2.0', id: msg.id, result: { protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'crashy', version: '1' } } });
+  } else if (msg.method === 'tools/list') {
+    send({ jsonrpc: '2.0', id: msg.id, result: { tools: [{ name: 'crash', description: 'Exit the process', inputSchema: { type: 'object' } }] } });
+  } else if (msg.method === 'tools/call') {
+    process.exit(1);
+  }
+});
+`;
+
+function waitForEvent<T>(client: MCPClientImpl, event: string): Promise<T> {
+  return new Promise(resolve => client.once(event, resolve));
+}
+
+describe('MCPClientImpl transports', () => {
+  let client: MCPClientImpl | undefined;
+  let httpServer: Server | undefined;
+
+  afterEach(async () => {
+    await client?.disconnect();
+    client = undefined;
+    await new Promise<void>(resolve => (httpServer ? httpServer.close(() => resolve()) : resolve()));
+    httpServer = undefined;
+    vi.unstubAllGlobals();
+  });
+
+  it('should use Streamable HTTP sessions and receive server notifications', async () => {
+    const server = new MCPServer({ name: 'http-test', version: '1.0.0' });
+    server.registerTool({
+      name: 'upper',
+      description: 'Uppercase text',
+      inputSchema: z.object({ text: z.string() }),
+      execute: async (args) => ({ success: true, data: String(args.text).toUpperCase() }),
+    });
+    const runtime = new MCPServerRuntime({ name: 'http-test', version: '1.0.0', server });
+    httpServer = await listenStreamableHTTP(runtime, { port: 0 });
+    const { port } = httpServer.address() as AddressInfo;
+
+    client = new MCPClientImpl({
+      id: 'http-server',
+      name: 'HTTP Server',
+      transport: { type: 'http', endpoint: `http://127.0.0.1:${port}/mcp` },
+      timeout: 5000,
+    });
+    await client.connect();
+
+    expect(client.tools.map(tool => tool.name)).toEqual(['upper']);
+    const result = await client.callTool('upper', { text: 'abc' });
+    expect(result.content).toEqual([{ type: 'text', text: 'ABC' }]);
+
+    // 服务端通过 GET 流推送 list_changed，客户端重新拉取工具列表
+    server.registerTool({
+      name: 'lower',
+      description: 'Lowercase text',
+      execute: async (args) => ({ success: true, data: String(args.text).toLowerCase() }),
+    });
+    // GET 流异步建立，重复通知直到客户端响应
+    const changed = waitForEvent<{ tools: Array<{ name: string }> }>(client, 'mcp:tools:changed');
+    const timer = setInterval(() => runtime.notifyToolsChanged(), 50);
+    const { tools } = await changed.finally(() => clearInterval(timer));
+    expect(tools.map(tool => tool.name)).toEqual(['upper', 'lower']);
+  });
+
+  it('should exchange messages over WebSocket', async () => {
+    const sockets: FakeWebSocket[] = [];
+    class FakeWebSocket {
+      readyState = 0;
+      sent: Array<{ id?: number; method?: string }> = [];
+      onopen: (() => void) | null = null;
+      onerror: (() => void) | null = null;
+      onclose: (() => void) | null = null;
+      onmessage: ((event: { data: string }) => void) | null = null;
+
+      constructor(public url: string, public protocol: string) {
+        sockets.push(this);
+        setTimeout(() => {
+          this.readyState = 1;
+          this.onopen?.();
+        });
+      }
+
+      send(data: string) {
+        const message = JSON.parse(data);
+        this.sent.push(message);
+        const reply = (result: unknown) =>
+          setTimeout(() => this.onmessage?.({ data: JSON.stringify({ jsonrpc: '2.0', id: message.id, result }) }));
+        if (message.method === 'initialize') {
+          reply({ protocolVersion: '2024-11-05', capabilities: { tools: {} }, serverInfo: { name: 'ws', version: '1' } });
+        } else if (message.method === 'tools/list') {
+          reply({ tools: [{ name: 'remote', description: 'Remote tool', inputSchema: { type: 'object' } }] });
+        }
+      }
+
+      close() {
+        this.readyState = 3;
+      }
+    }
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+
+    client = new MCPClientImpl({
+      id: 'ws-server',
+      name: 'WS Server',
+      transport: { type: 'websocket', endpoint: 'ws://localhost:9000/mcp' },
+      timeout: 5000,
+    });
+    await client.connect();
+
+    expect(sockets[0]).toMatchObject({ url: 'ws://localhost:9000/mcp', protocol: 'mcp' });
+    expect(sockets[0].sent.map(message => message.method)).toEqual(['initialize', 'notifications/initialized', 'tools/list']);
+    expect(client.tools.map(tool => tool.name)).toEqual(['remote']);
+  });
+
+  it('should fail to connect when the WebSocket closes before opening', async () => {
+    vi.stubGlobal('WebSocket', class {
+      onclose: (() => void) | null = null;
+      constructor() {
+        setTimeout(() => this.onclose?.());
+      }
+      close() {}
+    });
+
+    client = new MCPClientImpl({
+      id: 'ws-rejected',
+      name: 'WS Rejected',
+      transport: { type: 'websocket', endpoint: 'ws://localhost:9000/mcp' },
+      timeout: 5000,
+    });
+    await expect(client.connect()).rejects.toThrow('WebSocket closed before opening');
+    expect(client.isConnected).toBe(false);
+  });
+
+  it('should reconnect with backoff and re-initialize after the transport closes', async () => {
+    const config: MCPServerConfig = {
+      id: 'crashy',
+      name: 'Crashy',
+      transport: { type: 'stdio', command: process.execPath, args: ['-e', CRASHING_SERVER_SCRIPT] },
+      timeout: 5000,
+      retry: { maxAttempts: 2, delay: 10 },
+    };
+    client = new MCPClientImpl(config);
+    client.on('mcp:error', () => {});
+    await client.connect();
+
+    const reconnecting = waitForEvent<{ attempt: number; delay: number }>(client, 'mcp:reconnecting');
+    const reconnected = waitForEvent(client, 'mcp:connected');
+
+    await expect(client.callTool('crash', {})).rejects.toThrow('Connection closed');
+    expect(await reconnecting).toEqual({ clientId: 'crashy', attempt: 1, delay: 10 });
+
+    await reconnected;
+    expect(client.isConnected).toBe(true);
+    expect(client.tools.map(tool => tool.name)).toEqual(['crash']);
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { z } from 'zod';
+import { PassThrough } from 'stream';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { MCPServer, MCPServerRuntime, serveStdio, listenStreamableHTTP } from '../src/mcp/index.js';
+import { ToolRegistry } from '../src/tools/registry.js';
+import { SkillRegistryImpl } from '../src/agent/skills/registry.js';
+import type { Skill, SkillId } from '../src/agent/domain/types.js';
+
+const echoSkill: Skill = {
+  id: 'echo' as SkillId,
+  name: 'echo',
+  description: 'Echo the input text',
+  version: '1.0.0',
+  inputSchema: z.object({ text: z.string() }),
+  execute: async (input) => ({ success: true, data: { echoed: (input as { text: string }).text } }),
+};
+
+function createRuntime() {
+  const toolRegistry = new ToolRegistry();
+  toolRegistry.register({
+    id: 'add',
+    name: 'add',
+    description: 'Add two numbers',
+    category: 'system',
+    parameters: z.object({ a: z.number(), b: z.number() }),
+    execute: async (input) => {
+      const { a, b } = input as { a: number; b: number };
+      return { success: true, data: a + b };
+    },
+  });
+
+  const skillRegistry = new SkillRegistryImpl();
+  skillRegistry.register(echoSkill);
+
+  const server = new MCPServer({
+    name: 'test',
+    version: '1.0.0',
+    resources: [{ uri: 'memo://readme', name: 'README', read: async () => ({ uri: 'memo://readme', text: 'hello' }) }],
+    prompts: [{
+      name: 'greet',
+      arguments: [{ name: 'who', required: true }],
+      get: async (args) => [{ role: 'user', content: { type: 'text', text: `Hello ${args.who}` } }],
+    }],
+  });
+
+  return new MCPServerRuntime({
+    name: 'test',
+    version: '1.0.0',
+    server,
+    agent: {
+      llm: { complete: vi.fn(), completeStream: vi.fn() },
+      memory: {} as never,
+      toolRegistry,
+      skillRegistry,
+    },
+  });
+}
+
+const request = (id: number, method: string, params?: unknown) => ({ jsonrpc: '2.0' as const, id, method, params });
+
+describe('MCPServerRuntime', () => {
+  it('should require initialize and negotiate the protocol version', async () => {
+    const runtime = createRuntime();
+    const session = runtime.openSession(vi.fn());
+
+    const early = await runtime.handle(session.id, request(1, 'tools/list'));
+    expect(early?.error?.message).toBe('Server not initialized');
+
+    const init = await runtime.handle(session.id, request(2, 'initialize', {
+      protocolVersion: '2024-11-05',
+      capabilities: {},
+      clientInfo: { name: 'client', version: '1' },
+    }));
+    expect(init?.result).toMatchObject({
+      protocolVersion: '2024-11-05',
+      serverInfo: { name: 'test', version: '1.0.0' },
+      capabilities: { tools: { listChanged: true } },
+    });
+  });
+
+  it('should publish registry tools and skills and call them', async () => {
+    const runtime = createRuntime();
+    const session = runtime.openSession(vi.fn());
+    await runtime.handle(session.id, request(1, 'initialize', { protocolVersion: '2025-06-18' }));
+
+    const list = await runtime.handle(session.id, request(2, 'tools/list'));
+    const tools = (list?.result as { tools: Array<{ name: string; inputSchema: unknown }> }).tools;
+    expect(tools.map(t => t.name)).toEqual(['add', 'skill_echo']);
+    expect(tools[0].inputSchema).toMatchObject({ type: 'object', required: ['a', 'b'] });
+
+    const sum = await runtime.handle(session.id, request(3, 'tools/call', { name: 'add', arguments: { a: 2, b: 3 } }));
+    expect(sum?.result).toEqual({ content: [{ type: 'text', text: '5' }] });
+
+    const echoed = await runtime.handle(session.id, request(4, 'tools/call', { name: 'skill_echo', arguments: { text: 'hi' } }));
+    expect(echoed?.result).toMatchObject({ structuredContent: { echoed: 'hi' } });
+
+    const invalid = await runtime.handle(session.id, request(5, 'tools/call', { name: 'add', arguments: { a: 'x' } }));
+    expect(invalid?.result).toMatchObject({ isError: true });
+
+    const unknown = await runtime.handle(session.id, request(6, 'tools/call', { name: 'nope' }));
+    expect(unknown?.error?.code).toBe(-32602);
+  });
+
+  it('should serve resources and prompts', async () => {
+    const runtime = createRuntime();
+    const session = runtime.openSession(vi.fn());
+    await runtime.handle(session.id, request(1, 'initialize', {}));
+
+    const read = await runtime.handle(session.id, request(2, 'resources/read', { uri: 'memo://readme' }));
+    expect(read?.result).toEqual({ contents: [{ uri: 'memo://readme', text: 'hello' }] });
+
+    const missing = await runtime.handle(session.id, request(3, 'resources/read', { uri: 'memo://none' }));
+    expect(missing?.error?.code).toBe(-32002);
+
+    const prompt = await runtime.handle(session.id, request(4, 'prompts/get', { name: 'greet', arguments: { who: 'Ada' } }));
+    expect(prompt?.result).toMatchObject({ messages: [{ role: 'user', content: { type: 'text', text: 'Hello Ada' } }] });
+  });
+
+  it('should push list_changed notifications to initialized sessions', async () => {
+    const runtime = createRuntime();
+    const send = vi.fn();
+    const session = runtime.openSession(send);
+    await runtime.handle(session.id, request(1, 'initialize', {}));
+
+    runtime.notifyToolsChanged();
+    expect(send).not.toHaveBeenCalled();
+
+    await runtime.handle(session.id, { jsonrpc: '2.0', method: 'notifications/initialized' });
+    runtime.notifyToolsChanged();
+    expect(send).toHaveBeenCalledWith({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+  });
+});
+
+describe('MCP server transports', () => {
+  let httpServer: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => (httpServer ? httpServer.close(() => resolve()) : resolve()));
+    httpServer = undefined;
+  });
+
+  it('should serve newline-delimited JSON over stdio', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const handle = serveStdio(createRuntime(), { input, output });
+
+    const lines: unknown[] = [];
+    output.on('data', (chunk: Buffer) => {
+      lines.push(...chunk.toString().split('\n').filter(Boolean).map(line => JSON.parse(line)));
+    });
+
+    input.write(JSON.stringify(request(1, 'initialize', {})) + '\n');
+    input.write('{not json\n');
+    input.write(JSON.stringify(request(2, 'ping')) + '\n');
+    await vi.waitFor(() => expect(lines).toHaveLength(3));
+
+    expect(lines).toContainEqual(expect.objectContaining({ id: 1, result: expect.objectContaining({ serverInfo: expect.anything() }) }));
+    expect(lines).toContainEqual(expect.objectContaining({ error: expect.objectContaining({ code: -32700 }) }));
+    expect(lines).toContainEqual({ jsonrpc: '2.0', id: 2, result: {} });
+
+    input.end();
+    await handle.closed;
+  });
+
+  it('should issue a session id over Streamable HTTP', async () => {
+    httpServer = await listenStreamableHTTP(createRuntime(), { port: 0 });
+    const { port } = httpServer.address() as AddressInfo;
+    const url = `http://127.0.0.1:${port}/mcp`;
+    const post = (body: unknown, headers: Record<string, string> = {}) => fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+      body: JSON.stringify(body),
+    });
+
+    const init = await post(request(1, 'initialize', { protocolVersion: '2025-06-18' }));
+    const sessionId = init.headers.get('mcp-session-id');
+    expect(init.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+
+    const noSession = await post(request(2, 'tools/list'));
+    expect(noSession.status).toBe(400);
+
+    const initialized = await post({ jsonrpc: '2.0', method: 'notifications/initialized' }, { 'Mcp-Session-Id': sessionId! });
+    expect(initialized.status).toBe(202);
+
+    const list = await post(request(3, 'tools/list'), { 'Mcp-Session-Id': sessionId! });
+    expect(((await list.json()) as { result: { tools: unknown[] } }).result.tools).toHaveLength(2);
+
+    const closed = await fetch(url, { method: 'DELETE', headers: { 'Mcp-Session-Id': sessionId! } });
+    expect(closed.status).toBe(200);
+
+    const afterClose = await post(request(4, 'ping'), { 'Mcp-Session-Id': sessionId! });
+    expect(afterClose.status).toBe(404);
+  });
+
+  it('should reject foreign origins over Streamable HTTP by default', async () => {
+    const post = (origin: string) => fetch(`http://127.0.0.1:${(httpServer!.address() as AddressInfo).port}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', Origin: origin },
+      body: JSON.stringify(request(1, 'initialize', { protocolVersion: '2025-06-18' })),
+    });
+
+    httpServer = await listenStreamableHTTP(createRuntime(), { port: 0 });
+    expect((await post('http://evil.example')).status).toBe(403);
+    expect((await post('https://app.example.com')).status).toBe(403);
+    expect((await post('http://localhost:5173')).status).toBe(200);
+    expect((await post('http://127.0.0.1:5173')).status).toBe(200);
+
+    // allowedOrigins 在本机来源之外追加
+    await new Promise(resolve => httpServer!.close(resolve));
+    httpServer = await listenStreamableHTTP(createRuntime(), { port: 0, allowedOrigins: ['https://app.example.com'] });
+    expect((await post('https://app.example.com')).status).toBe(200);
+    expect((await post('http://[::1]:3000')).status).toBe(200);
+    expect((await post('http://evil.example')).status).toBe(403);
+  });
+});
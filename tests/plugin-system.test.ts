@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PluginSystem, PluginKeyring, signPlugin, getKeyId, type PluginManifest } from '../src/core/plugin-system/index.js';
+import { runPluginCommand } from '../src/tui/plugin-command.js';
+
+function manifest(id: string, overrides: Partial<PluginManifest> = {}): PluginManifest {
+  return {
+    id,
+    name: id,
+    version: '1.0.0',
+    description: 'test plugin',
+    author: 'test',
+    license: 'MIT',
+    entry: 'index.js',
+    dependencies: {},
+    permissions: [{ type: 'api', resource: 'math.double', actions: ['execute'] }],
+    resources: { maxMemoryMB: 64, maxCPU: 50, maxStorageMB: 10, maxNetworkRequestsPerMinute: 100 },
+    ...overrides,
+  };
+}
+
+// 在 Worker 中运行：每次初始化记录启动次数，收到 ping 后调用宿主 API 并回复 pong
+const BRIDGE_PLUGIN = `
+async function initialize(context) {
+  const starts = ((await context.storage.get('starts')) || 0) + 1;
+  await context.storage.set('starts', starts);
+  context.api.subscribe('ping', async (value) => {
+    const doubled = await context.api.call('math.double', value);
+    context.api.publish('pong', { doubled, starts });
+  });
+  return {
+    handleEvent(event) {
+      if (event.type === 'crash') process.exit(1);
+      if (event.type === 'allocate') {
+        const hog = [];
+        while (true) hog.push(new Array(100000).fill(Math.random()));
+      }
+    },
+  };
+}
+`;
+
+const event = (type: string) => ({ type, source: 'test', data: null, timestamp: Date.now() });
+
+describe('PluginSystem worker isolation', () => {
+  let system: PluginSystem | undefined;
+
+  afterEach(async () => {
+    for (const plugin of system?.getAllPlugins() ?? []) {
+      await system!.unregister(plugin.manifest.id);
+    }
+    system = undefined;
+  });
+
+  it('should bridge api, events and storage over MessagePort', async () => {
+    system = new PluginSystem({ isolation: 'worker' });
+    system.registerMethod('math.double', (value) => (value as number) * 2);
+    await system.register(manifest('bridge'), BRIDGE_PLUGIN);
+
+    const pong = new Promise(resolve => system!.subscribe('pong', resolve));
+    // 订阅消息异步到达宿主，重复发布直到插件回复
+    const timer = setInterval(() => system!.publish('ping', 21), 20);
+    expect(await pong.finally(() => clearInterval(timer))).toEqual({ doubled: 42, starts: 1 });
+
+    const plugin = system.getPlugin('bridge')!;
+    expect(plugin.status).toBe('running');
+    expect(await plugin.context.storage.get('starts')).toBe(1);
+  });
+
+  it('should reject api calls without permission', async () => {
+    system = new PluginSystem({ isolation: 'worker' });
+    system.registerMethod('math.double', (value) => (value as number) * 2);
+
+    const code = `async function initialize(context) { await context.api.call('math.double', 1); }`;
+    await expect(system.register(manifest('denied', { permissions: [] }), code))
+      .rejects.toThrow('not permitted to call math.double');
+  });
+
+  it('should restart a crashed plugin without affecting the host', async () => {
+    system = new PluginSystem({ isolation: 'worker', maxRestarts: 1 });
+    await system.register(manifest('crashy'), BRIDGE_PLUGIN);
+    const plugin = system.getPlugin('crashy')!;
+
+    await expect(system.sendEvent('crashy', event('crash'))).rejects.toThrow('worker crashed');
+    await vi.waitFor(async () => {
+      expect(plugin.status).toBe('running');
+      expect(await plugin.context.storage.get('starts')).toBe(2);
+    });
+
+    // 超过重启次数后进入 error 状态
+    await expect(system.sendEvent('crashy', event('crash'))).rejects.toThrow('worker crashed');
+    await vi.waitFor(() => expect(plugin.status).toBe('error'));
+  });
+
+  it('should enforce maxMemoryMB through worker resource limits', async () => {
+    system = new PluginSystem({ isolation: 'worker', maxRestarts: 0 });
+    const quota = { maxMemoryMB: 16, maxCPU: 50, maxStorageMB: 10, maxNetworkRequestsPerMinute: 100 };
+    await system.register(manifest('hungry', { resources: quota }), BRIDGE_PLUGIN);
+
+    await expect(system.sendEvent('hungry', event('allocate'))).rejects.toThrow(/memory/i);
+    await vi.waitFor(() => expect(system!.getPlugin('hungry')!.status).toBe('error'));
+  }, 20000);
+});
+
+const SIMPLE_PLUGIN = 'async function initialize(context) {}';
+
+describe('PluginSystem signature verification', () => {
+  const ed25519 = generateKeyPairSync('ed25519');
+  const ecdsa = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  it('should accept Ed25519 and ECDSA signatures from trusted publishers', async () => {
+    const keyring = new PluginKeyring();
+    keyring.trust(ed25519.publicKey, { name: 'Acme' });
+    keyring.trust(ecdsa.publicKey);
+    const system = new PluginSystem({ enableSignatureVerification: true, keyring });
+
+    const ed = manifest('signed-ed25519');
+    await system.register({ ...ed, signature: signPlugin(ed, SIMPLE_PLUGIN, ed25519.privateKey) }, SIMPLE_PLUGIN);
+
+    const ec = manifest('signed-ecdsa');
+    const signature = signPlugin(ec, SIMPLE_PLUGIN, ecdsa.privateKey);
+    expect(signature.startsWith(`ecdsa-p256:${getKeyId(ecdsa.publicKey)}:`)).toBe(true);
+    await system.register({ ...ec, signature }, SIMPLE_PLUGIN);
+
+    expect(system.getAllPlugins().map(p => p.status)).toEqual(['running', 'running']);
+  });
+
+  it('should reject tampered, untrusted, revoked and unsigned plugins', async () => {
+    const keyring = new PluginKeyring({
+      publishers: [{ keyId: 'acme', publicKey: ed25519.publicKey.export({ type: 'spki', format: 'pem' }).toString() }],
+    });
+    const system = new PluginSystem({ enableSignatureVerification: true, keyring });
+    const base = manifest('target');
+    const signed = { ...base, signature: signPlugin(base, SIMPLE_PLUGIN, ed25519.privateKey, 'acme') };
+
+    await expect(system.register(signed, SIMPLE_PLUGIN + ' /* injected */'))
+      .rejects.toThrow('Signature does not match plugin contents');
+    await expect(system.register({ ...signed, version: '2.0.0' }, SIMPLE_PLUGIN))
+      .rejects.toThrow('Signature does not match plugin contents');
+    await expect(system.register({ ...base, signature: signPlugin(base, SIMPLE_PLUGIN, ecdsa.privateKey) }, SIMPLE_PLUGIN))
+      .rejects.toThrow('is not trusted');
+    await expect(system.register(base, SIMPLE_PLUGIN)).rejects.toThrow('Plugin is not signed');
+
+    keyring.revoke('acme');
+    await expect(system.register(signed, SIMPLE_PLUGIN)).rejects.toThrow('Key acme has been revoked');
+  });
+
+  it('should sign and verify plugin directories from the CLI', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sdkwork-plugin-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const errors = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    try {
+      writeFileSync(join(dir, 'plugin.json'), JSON.stringify(manifest('cli-plugin')));
+      writeFileSync(join(dir, 'index.js'), SIMPLE_PLUGIN);
+      writeFileSync(join(dir, 'private.pem'), ed25519.privateKey.export({ type: 'pkcs8', format: 'pem' }));
+      writeFileSync(join(dir, 'public.pem'), ed25519.publicKey.export({ type: 'spki', format: 'pem' }));
+
+      expect(await runPluginCommand(['sign', dir, '--key', join(dir, 'private.pem'), '--key-id', 'acme'])).toBe(0);
+      const signed = JSON.parse(readFileSync(join(dir, 'plugin.json'), 'utf-8')) as PluginManifest;
+      expect(signed.signature).toMatch(/^ed25519:acme:/);
+
+      const keyring = new PluginKeyring();
+      keyring.trust(ed25519.publicKey, { keyId: 'acme' });
+      writeFileSync(join(dir, 'keyring.json'), JSON.stringify(keyring.toJSON()));
+      expect(await runPluginCommand(['verify', dir, '--keyring', join(dir, 'keyring.json')])).toBe(0);
+
+      writeFileSync(join(dir, 'index.js'), SIMPLE_PLUGIN + ' /* changed */');
+      expect(await runPluginCommand(['verify', dir, '--keyring', join(dir, 'keyring.json')])).toBe(1);
+      expect(String(errors.mock.calls.at(-1)?.[0])).toContain('Signature does not match plugin contents');
+    } finally {
+      vi.restoreAllMocks();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
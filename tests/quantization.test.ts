@@ -0,0 +1,154 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { QuantizedVectorStore, type QuantizationConfig } from '../src/algorithms/quantization.js';
+import { HNSWIndex } from '../src/algorithms/hnsw.js';
+import { ScannIndex } from '../src/algorithms/scann-index.js';
+import { InMemoryVectorDB, type VectorDBConfig } from '../src/memory/vector-database.js';
+import { createRandom, randomVector } from './helpers/random.js';
+
+function exactTopK(vectors: number[][], query: number[], k: number): number[] {
+  const cosine = (a: number[], b: number[]) => {
+    let dot = 0, na = 0, nb = 0;
+    a.forEach((value, i) => { dot += value * b[i]; na += value * value; nb += b[i] * b[i]; });
+    return dot / Math.sqrt(na * nb);
+  };
+  return vectors
+    .map((vector, i) => ({ i, score: cosine(query, vector) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(item => item.i);
+}
+
+describe('QuantizedVectorStore', () => {
+  const dimension = 32;
+  const random = createRandom(17);
+  const vectors = Array.from({ length: 800 }, () => randomVector(random, dimension));
+  const queries = Array.from({ length: 10 }, () => randomVector(random, dimension));
+
+  const recallAt10 = (quantization: QuantizationConfig) => {
+    const store = new QuantizedVectorStore({ dimension, metric: 'cosine', quantization });
+    vectors.forEach((vector, i) => store.set(String(i), vector));
+
+    let hits = 0;
+    for (const query of queries) {
+      const distanceTo = store.prepare(query);
+      const candidates = vectors
+        .map((_, i) => ({ id: String(i), distance: distanceTo(String(i)) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, store.candidateCount(10));
+      const found = store.rerank(query, candidates).slice(0, 10).map(candidate => Number(candidate.id));
+      hits += found.filter(i => exactTopK(vectors, query, 10).includes(i)).length;
+    }
+    return { store, recall: hits / (queries.length * 10) };
+  };
+
+  it('should keep recall high with int8 and product quantization plus re-ranking', () => {
+    const int8 = recallAt10({ type: 'int8' });
+    expect(int8.store.quantized).toBe(true);
+    expect(int8.recall).toBeGreaterThan(0.95);
+
+    const pq = recallAt10({ type: 'pq', subspaces: 8, centroids: 64, trainingSize: 500, seed: 1 });
+    expect(pq.store.quantized).toBe(true);
+    expect(pq.recall).toBeGreaterThan(0.9);
+  });
+
+  it('should shrink memory when originals are dropped and still answer from the codes', () => {
+    const compact = new QuantizedVectorStore({
+      dimension,
+      quantization: { type: 'pq', subspaces: 8, centroids: 32, trainingSize: 0, keepOriginals: false, seed: 2 },
+    });
+    vectors.forEach((vector, i) => compact.set(String(i), vector));
+    const floatBytes = compact.memoryUsage();
+    compact.train();
+
+    expect(compact.stats()).toMatchObject({ type: 'pq', trained: true, bytesPerVector: 8, keepOriginals: false });
+    expect(compact.memoryUsage()).toBeLessThan(floatBytes / 4);
+    expect(compact.canRerank).toBe(false);
+    expect(compact.get('0')).toHaveLength(dimension);
+    expect(() => compact.train()).toThrow('discarded');
+
+    const distanceTo = compact.prepare(vectors[5]);
+    const nearest = vectors.map((_, i) => String(i)).sort((a, b) => distanceTo(a) - distanceTo(b));
+    expect(nearest.slice(0, 5)).toContain('5');
+  });
+});
+
+describe('quantized indexes', () => {
+  it('should search HNSW and ScaNN indexes through quantized codes and survive serialization', () => {
+    const random = createRandom(5);
+    const vectors = Array.from({ length: 600 }, () => randomVector(random, 16));
+
+    const hnsw = new HNSWIndex({ dimension: 16, seed: 3, quantization: { type: 'pq', subspaces: 4, centroids: 32, trainingSize: 300, seed: 4 } });
+    const scann = new ScannIndex({ dimension: 16, numSubspaces: 4, kMeansCentersPerSubspace: 32, numInvertedLists: 8, numCandidates: 4, metric: 'cosine' });
+    vectors.forEach((vector, i) => {
+      hnsw.add(`v${i}`, vector);
+      scann.add(`v${i}`, vector);
+    });
+    scann.train(vectors.slice(0, 300));
+
+    expect(hnsw.getStats().quantization).toMatchObject({ type: 'pq', trained: true, bytesPerVector: 4 });
+    expect(scann.getStats().compressionRatio).toBeCloseTo(4 / 64);
+
+    const restored = HNSWIndex.deserialize(hnsw.serialize());
+    for (const index of [hnsw, restored]) {
+      expect(index.search(vectors[42], 5).map(result => result.id)).toContain('v42');
+    }
+    expect(scann.search(vectors[42], 5)[0].id).toBe('v42');
+  });
+
+  it('should report memory, recall@k and latency for a quantized InMemoryVectorDB', async () => {
+    const config: VectorDBConfig = {
+      provider: 'memory',
+      connection: {},
+      collection: 'quantized',
+      dimension: 24,
+      metric: 'cosine',
+      batchSize: 100,
+      maxRetries: 1,
+      retryDelay: 0,
+      timeout: 1000,
+      cacheEnabled: false,
+      cacheSize: 0,
+      quantization: { type: 'int8' },
+      recallSampleInterval: 1,
+    };
+    expect(() => new InMemoryVectorDB({ ...config, metric: 'manhattan' })).toThrow('manhattan');
+
+    const db = new InMemoryVectorDB(config);
+    await db.initialize();
+    const random = createRandom(9);
+    await db.insertBatch(Array.from({ length: 300 }, (_, i) => ({
+      id: `d${i}`,
+      vector: randomVector(random, 24),
+      metadata: { even: i % 2 === 0 },
+    })));
+
+    const stored = await db.getById('d7');
+    expect(stored?.vector).toHaveLength(24);
+
+    for (let q = 0; q < 5; q++) {
+      const results = await db.search(randomVector(random, 24), { limit: 10, filter: { even: true } });
+      expect(results).toHaveLength(10);
+      expect(results.every(result => result.document.metadata.even === true)).toBe(true);
+    }
+    expect((await db.search(stored!.vector, { limit: 1 }))[0].document.id).toBe('d7');
+
+    const stats = await db.getStats();
+    expect(stats.quantization).toMatchObject({ type: 'int8', bytesPerVector: 28 });
+    expect(stats.memoryUsage).toBeGreaterThan(0);
+    expect(stats.recallAtK).toEqual([
+      { k: 1, recall: expect.any(Number), samples: 1 },
+      { k: 10, recall: expect.any(Number), samples: 5 },
+    ]);
+    expect(stats.recallAtK!.every(({ recall }) => recall > 0.9)).toBe(true);
+
+    // 抽样默认关闭
+    const unsampled = new InMemoryVectorDB({ ...config, recallSampleInterval: undefined });
+    await unsampled.initialize();
+    await unsampled.insert({ id: 'd0', vector: randomVector(random, 24), metadata: {} });
+    await unsampled.search(randomVector(random, 24), { limit: 1 });
+    expect((await unsampled.getStats()).recallAtK).toBeUndefined();
+    expect(stats.averageQueryTime).toBeGreaterThan(0);
+    expect(stats.p95QueryTime).toBeGreaterThan(0);
+  });
+});
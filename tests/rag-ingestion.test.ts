@@ -0,0 +1,200 @@
+// @vitest-environment node
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deflateSync } from 'zlib';
+import {
+  RAGSystem,
+  InMemoryVectorStore,
+  FileIngestionManifestStore,
+  RecursiveCharacterTextSplitter,
+  type EmbeddingProvider,
+  type LLMProvider,
+} from '../src/core/application/algorithms/rag.js';
+import { StructureAwareChunker } from '../src/core/application/algorithms/rag-chunkers.js';
+import {
+  HtmlLoader,
+  JsonLoader,
+  CsvLoader,
+  MarkdownLoader,
+  extractPdfText,
+} from '../src/core/application/algorithms/rag-loaders.js';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+function createPdf(streams: Array<{ content: string; compress?: boolean }>): Uint8Array {
+  const parts = streams.map(({ content, compress }, i) => {
+    const body = compress ? deflateSync(Buffer.from(content, 'latin1')) : Buffer.from(content, 'latin1');
+    const filter = compress ? ' /Filter /FlateDecode' : '';
+    return Buffer.concat([
+      Buffer.from(`${i + 4} 0 obj\n<< /Length ${body.length}${filter} >>\nstream\n`, 'latin1'),
+      body,
+      Buffer.from('\nendstream\nendobj\n', 'latin1'),
+    ]);
+  });
+  return Buffer.concat([Buffer.from('%PDF-1.4\n1 0 obj\n<< /Title (Guide) >>\nendobj\n', 'latin1'), ...parts, Buffer.from('%%EOF\n')]);
+}
+
+function createProviders() {
+  const embedded: string[] = [];
+  const embeddingProvider: EmbeddingProvider = {
+    async embed(text) {
+      return [text.length, 1];
+    },
+    async embedBatch(texts) {
+      embedded.push(...texts);
+      return texts.map(text => [text.length, 1]);
+    },
+    getDimension: () => 2,
+  };
+  const llmProvider: LLMProvider = {
+    complete: async () => 'answer',
+    async *completeStream() {
+      yield 'answer';
+    },
+  };
+  return { embeddingProvider, llmProvider, embedded };
+}
+
+describe('document loaders', () => {
+  it('should extract text from Markdown, HTML, JSON, CSV and PDF files', async () => {
+    const [markdown] = new MarkdownLoader().load(encode('---\ntitle: Setup\ntags: [a, b]\n---\n# Install\nRun it.'), 'docs/setup.md');
+    expect(markdown.metadata).toMatchObject({ title: 'Setup', tags: ['a', 'b'], contentType: 'markdown', source: 'docs/setup.md' });
+    expect(markdown.content).toBe('# Install\nRun it.');
+
+    const [html] = new HtmlLoader().load(
+      encode('<html><head><title>Home &amp; more</title><style>p{}</style></head><body><h2>Intro</h2><p>A&lt;B</p><script>x()</script><ul><li>one</li></ul></body></html>'),
+      'site/index.html'
+    );
+    expect(html.metadata.title).toBe('Home & more');
+    expect(html.content).toBe('## Intro\n\nA<B\n\n- one');
+
+    const [json] = new JsonLoader().load(encode('{"name":"sdk","deps":[{"id":1}]}'), 'a.json');
+    expect(json.content).toBe('name: sdk\ndeps[0].id: 1');
+    const [csv] = new CsvLoader().load(encode('name,note\nada,"says ""hi"", twice"\n'), 'a.csv');
+    expect(csv.content).toBe('name: ada; note: says "hi", twice');
+
+    const pdf = createPdf([
+      { content: 'BT /F1 12 Tf 72 720 Td (Hello \\(PDF\\)) Tj 0 -14 Td [(Wor) 20 (ld) -300 (again)] TJ ET' },
+      { content: 'BT (Compressed page) Tj ET', compress: true },
+    ]);
+    expect(extractPdfText(pdf)).toBe('Hello (PDF)\nWorld again\n\nCompressed page');
+  });
+});
+
+describe('structure-aware chunking', () => {
+  const fallback = new RecursiveCharacterTextSplitter(80, 10);
+
+  it('should split Markdown at headings and code at top-level symbols', () => {
+    const chunker = new StructureAwareChunker({ chunkSize: 80, fallback });
+    const markdown = chunker.chunk({
+      id: 'a.md',
+      content: '# Guide\nIntro\n## Install\n```sh\n# not a heading\n```\n## Usage\nCall it.',
+      metadata: { contentType: 'markdown' },
+    });
+    expect(markdown.map(draft => draft.metadata?.section)).toEqual(['Guide', 'Guide > Install', 'Guide > Usage']);
+    expect(markdown[1].content).toContain('# not a heading');
+
+    const body = '  return 1;\n'.repeat(3);
+    const code = chunker.chunk({
+      id: 'a.ts',
+      content: `import x from 'x';\n\n/** Adds */\nexport function add() {\n${body}}\n\nexport class Box {\n${body}}\n`,
+      metadata: { contentType: 'code', language: 'typescript' },
+    });
+    expect(code.map(draft => draft.metadata?.symbols)).toEqual([[], ['add'], ['Box']]);
+    expect(code[1].content.startsWith('/** Adds */')).toBe(true);
+    expect(code[2].metadata).toMatchObject({ language: 'typescript', startLine: 10 });
+  });
+
+  it('should terminate when the overlap reaches back past the previous break', () => {
+    const chunks = new RecursiveCharacterTextSplitter(20, 15).split('ab cd ef gh ij kl mn op qr st uv wx yz '.repeat(3));
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(chunks.every(chunk => chunk.length <= 20)).toBe(true);
+  });
+});
+
+describe('RAGSystem.ingestDirectory', () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should only re-embed changed chunks and delete stale documents', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sdkwork-rag-'));
+    mkdirSync(join(dir, 'guide'));
+    mkdirSync(join(dir, 'node_modules'));
+    writeFileSync(join(dir, 'guide', 'intro.md'), '# Intro\nWelcome.\n## Setup\nInstall it.\n## Usage\nRun it.');
+    writeFileSync(join(dir, 'notes.txt'), 'Some notes.');
+    writeFileSync(join(dir, 'node_modules', 'dep.md'), '# Ignored');
+    writeFileSync(join(dir, 'image.png'), 'binary');
+
+    const { embeddingProvider, llmProvider, embedded } = createProviders();
+    const rag = new RAGSystem({ chunkSize: 200 }, new InMemoryVectorStore(), embeddingProvider, llmProvider);
+
+    const first = await rag.ingestDirectory(dir, { exclude: ['**/*.txt'] });
+    const intro = `${dir}/guide/intro.md`.replace(/\\/g, '/');
+    expect(first).toMatchObject({ added: [intro], embeddedChunks: 3, reusedChunks: 0 });
+    expect(rag.getDocument(intro)?.metadata.title).toBe('Intro');
+
+    const second = await rag.ingestDirectory(dir);
+    expect(second).toMatchObject({ unchanged: [intro], embeddedChunks: 1 });
+
+    writeFileSync(join(dir, 'guide', 'intro.md'), '# Intro\nWelcome.\n## Setup\nInstall it with npm.\n## Usage\nRun it.');
+    rmSync(join(dir, 'notes.txt'));
+    embedded.length = 0;
+    const third = await rag.ingestDirectory(dir);
+    expect(third).toMatchObject({ updated: [intro], deleted: [`${dir}/notes.txt`.replace(/\\/g, '/')], embeddedChunks: 1, reusedChunks: 2 });
+    expect(embedded).toEqual(['## Setup\nInstall it with npm.']);
+    expect(rag.getDocumentChunks(intro).map(chunk => chunk.metadata?.section)).toEqual(['Intro', 'Intro > Setup', 'Intro > Usage']);
+    expect(rag.getStats().documentCount).toBe(1);
+    expect(await rag.getStats().vectorCount).toBe(3);
+  });
+
+  it('should skip unchanged files and delete stale ones after a restart', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sdkwork-rag-'));
+    writeFileSync(join(dir, 'intro.md'), '# Intro\nWelcome.\n## Setup\nInstall it.');
+    writeFileSync(join(dir, 'notes.txt'), 'Some notes.');
+
+    const { embeddingProvider, llmProvider, embedded } = createProviders();
+    const store = new InMemoryVectorStore();
+    const ingestionManifest = new FileIngestionManifestStore(join(dir, '.rag', 'manifest.json'));
+    const first = await new RAGSystem({ chunkSize: 200, ingestionManifest }, store, embeddingProvider, llmProvider).ingestDirectory(dir);
+    expect(first.added).toHaveLength(2);
+    expect(await store.count()).toBe(3);
+
+    // A restarted process reads the hashes back from the manifest
+    rmSync(join(dir, 'notes.txt'));
+    embedded.length = 0;
+    const restarted = new RAGSystem({ chunkSize: 200, ingestionManifest }, store, embeddingProvider, llmProvider);
+    const second = await restarted.ingestDirectory(dir);
+    expect(second).toMatchObject({ unchanged: [`${dir}/intro.md`.replace(/\\/g, '/')], deleted: [`${dir}/notes.txt`.replace(/\\/g, '/')], embeddedChunks: 0 });
+    expect(embedded).toEqual([]);
+    expect(await store.count()).toBe(2);
+
+    // Without a manifest, chunks left in the store are still replaced rather than duplicated
+    const forgetful = new RAGSystem({ chunkSize: 200 }, store, embeddingProvider, llmProvider);
+    expect((await forgetful.ingestDirectory(dir)).added).toHaveLength(1);
+    expect(await store.count()).toBe(2);
+  });
+
+  it('should only delete documents ingested from the same directory', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sdkwork-rag-'));
+    writeFileSync(join(dir, 'a.md'), '# A');
+    const cwd = process.cwd();
+    process.chdir(dir);
+    try {
+      const { embeddingProvider, llmProvider } = createProviders();
+      const rag = new RAGSystem({ chunkSize: 200 }, new InMemoryVectorStore(), embeddingProvider, llmProvider);
+      await rag.addDocuments([{ id: 'manual', content: 'Added by hand', metadata: {} }]);
+
+      expect((await rag.ingestDirectory('.')).added).toEqual(['a.md']);
+      rmSync('a.md');
+      expect((await rag.ingestDirectory('.')).deleted).toEqual(['a.md']);
+      expect(rag.getAllDocuments().map(doc => doc.id)).toEqual(['manual']);
+    } finally {
+      process.chdir(cwd);
+    }
+  });
+});
@@ -0,0 +1,165 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  RAGSystem,
+  InMemoryVectorStore,
+  type Document,
+  type EmbeddingProvider,
+  type LLMProvider,
+  type RetrievalResult,
+} from '../src/core/application/algorithms/rag.js';
+import { CitationTracker, type Citation } from '../src/core/application/algorithms/rag-citations.js';
+import { CrossEncoderReranker, LLMReranker } from '../src/core/application/algorithms/rag-rerankers.js';
+
+/**
+ * Embeds text by topic words only, so identifiers like ERR_4711 are invisible
+ * to dense search and can only be found through BM25
+ */
+const TOPICS = ['network', 'timeout', 'install', 'config'];
+const embeddingProvider: EmbeddingProvider = {
+  async embed(text) {
+    const vector = TOPICS.map(topic => (text.toLowerCase().includes(topic) ? 1 : 0));
+    return [...vector, vector.includes(1) ? 0 : 1];
+  },
+  async embedBatch(texts) {
+    return Promise.all(texts.map(text => this.embed(text)));
+  },
+  getDimension: () => TOPICS.length + 1,
+};
+
+function createLLM(answer: string[]) {
+  const prompts: string[] = [];
+  const llm: LLMProvider = {
+    async complete(prompt) {
+      prompts.push(prompt);
+      return answer.join('');
+    },
+    async *completeStream(prompt) {
+      prompts.push(prompt);
+      yield* answer;
+    },
+  };
+  return { llm, prompts };
+}
+
+const documents: Document[] = [
+  { id: 'net', content: 'Intro.\n\nNetwork timeout errors happen when the network is slow.', metadata: { source: 'docs/net.md' } },
+  { id: 'codes', content: 'Error ERR_4711 means the license expired.', metadata: { source: 'docs/codes.md' } },
+  { id: 'setup', content: 'Install the package and edit the config file.', metadata: { source: 'docs/setup.md' } },
+];
+
+describe('RAGSystem hybrid retrieval', () => {
+  it('should fuse dense and BM25 rankings so keyword-only matches are retrieved', async () => {
+    const { llm } = createLLM(['ok']);
+    const rag = new RAGSystem({ topK: 2, minScore: 0.5 }, new InMemoryVectorStore(), embeddingProvider, llm);
+    await rag.addDocuments(documents);
+
+    const dense = await rag.retrieve({ text: 'network timeout ERR_4711', mode: 'dense' });
+    expect(dense.map(r => r.chunk.documentId)).toEqual(['net']);
+
+    const hybrid = await rag.retrieve({ text: 'network timeout ERR_4711' });
+    expect(hybrid.map(r => r.chunk.documentId).sort()).toEqual(['codes', 'net']);
+    const net = hybrid.find(r => r.chunk.documentId === 'net')!;
+    expect(net.retrieval).toMatchObject({ dense: expect.any(Number), sparse: expect.any(Number) });
+    expect(hybrid.find(r => r.chunk.documentId === 'codes')!.retrieval?.dense).toBeUndefined();
+    expect(hybrid[0].score).toBeLessThanOrEqual(1);
+
+    const sparse = await rag.retrieve({ text: 'ERR_4711', mode: 'sparse' });
+    expect(sparse.map(r => r.chunk.documentId)).toEqual(['codes']);
+
+    await rag.deleteDocument('codes');
+    expect(await rag.retrieve({ text: 'ERR_4711', mode: 'sparse' })).toEqual([]);
+  });
+
+  it('should rebuild the keyword index from a populated store', async () => {
+    const { llm } = createLLM(['ok']);
+    const store = new InMemoryVectorStore();
+    await new RAGSystem({ topK: 2, minScore: 0.5 }, store, embeddingProvider, llm).addDocuments(documents);
+
+    const reopened = new RAGSystem({ topK: 2, minScore: 0.5 }, store, embeddingProvider, llm);
+    const sparse = await reopened.retrieve({ text: 'ERR_4711', mode: 'sparse' });
+    expect(sparse.map(r => r.chunk.documentId)).toEqual(['codes']);
+
+    // Stores that cannot list their chunks fall back to dense search
+    const unlisted = {
+      add: store.add.bind(store),
+      search: store.search.bind(store),
+      delete: store.delete.bind(store),
+      clear: store.clear.bind(store),
+      count: store.count.bind(store),
+    };
+    const dense = await new RAGSystem({ topK: 2, minScore: 0.5 }, unlisted, embeddingProvider, llm)
+      .retrieve({ text: 'network timeout', mode: 'sparse' });
+    expect(dense.map(r => r.chunk.documentId)).toEqual(['net']);
+  });
+
+  it('should rerank candidates with LLM and cross-encoder rerankers', async () => {
+    const grades: Record<string, string> = { net: '3', codes: 'Score: 9', setup: 'n/a' };
+    const grader: LLMProvider = {
+      async complete(prompt) {
+        return Object.entries(grades).find(([id]) => prompt.includes(documents.find(d => d.id === id)!.content))![1];
+      },
+      async *completeStream() {},
+    };
+    const results: RetrievalResult[] = documents.map(doc => ({
+      chunk: { id: doc.id, documentId: doc.id, content: doc.content, index: 0 },
+      score: 0.5,
+      relevance: 0,
+    }));
+
+    const byLLM = await new LLMReranker(grader).rerank('query', results, 2);
+    expect(byLLM.map(r => [r.chunk.id, r.relevance])).toEqual([['codes', 0.9], ['net', 0.3]]);
+
+    const byModel = await new CrossEncoderReranker({ score: async (_, passages) => passages.map(p => p.length / 10 - 4) }).rerank('q', results, 3);
+    expect(byModel.map(r => r.chunk.id)).toEqual(['net', 'setup', 'codes']);
+    expect(byModel[0].relevance).toBeGreaterThan(0.5);
+    expect(byModel[0].relevance).toBeLessThan(1);
+
+    const broken = new CrossEncoderReranker({ score: async () => [1] });
+    await expect(broken.rerank('q', results, 2)).rejects.toThrow('1 scores for 3 passages');
+  });
+});
+
+describe('RAG citations', () => {
+  it('should resolve citations with offsets in query and queryStream', async () => {
+    const answer = ['Timeouts come from slow networks [1', '] and ERR_4711 means expiry [2, 7].'];
+    const { llm, prompts } = createLLM(answer);
+    const rag = new RAGSystem({ topK: 2, minScore: 0.5 }, new InMemoryVectorStore(), embeddingProvider, llm);
+    await rag.addDocuments(documents);
+    const query = { text: 'network timeout ERR_4711', mode: 'sparse' as const };
+
+    const response = await rag.query(query);
+    expect(prompts[0]).toContain('Cite the context passages');
+    expect(response.sources.map(s => s.chunk.documentId)).toEqual(['net', 'codes']);
+    expect(response.citations).toMatchObject([
+      { number: 1, documentId: 'net', source: 'docs/net.md', sourceStart: 0, sourceEnd: documents[0].content.length },
+      { number: 2, documentId: 'codes', sourceStart: 0 },
+    ]);
+    const [first, second] = response.citations;
+    expect(response.answer.slice(first.start, first.end)).toBe('[1]');
+    expect(response.answer.slice(second.start, second.end)).toBe('[2, 7]');
+
+    const streamed: Citation[] = [];
+    rag.on('query:citation', (citation: Citation) => streamed.push(citation));
+    const stream = rag.queryStream(query);
+    const deltas: string[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      deltas.push(next.value);
+      next = await stream.next();
+    }
+    expect(deltas).toEqual(answer);
+    expect(streamed).toEqual(response.citations);
+    expect(next.value).toMatchObject({ answer: answer.join(''), citations: response.citations });
+  });
+
+  it('should hold back split markers and record chunk offsets within documents', () => {
+    const sources = [{ chunk: { id: 'c', documentId: 'd', content: 'x', index: 0, startOffset: 10, endOffset: 11 }, score: 1, relevance: 0 }];
+    const tracker = new CitationTracker(sources);
+    expect(tracker.push('See [')).toEqual([]);
+    expect(tracker.push('1')).toEqual([]);
+    expect(tracker.push('] and [x] [3]')).toEqual([{ number: 1, start: 4, end: 7, chunkId: 'c', documentId: 'd', sourceStart: 10, sourceEnd: 11 }]);
+    expect(tracker.push(' [1]')).toHaveLength(1);
+    expect(tracker.citations).toHaveLength(2);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { createReActEngine } from '../src/agent/thinking/react-engine.js';
+import { ToolRegistry } from '../src/tools/registry.js';
+import { SkillRegistryImpl } from '../src/agent/skills/registry.js';
+import type { ChatRequest, ChatResponse, LLMService } from '../src/agent/domain/types.js';
+
+const createLogger = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+});
+
+const createMemory = () => ({
+  store: vi.fn().mockResolvedValue(undefined),
+  retrieve: vi.fn(),
+  search: vi.fn().mockResolvedValue([]),
+  semanticSearch: vi.fn().mockResolvedValue([]),
+  getRecent: vi.fn().mockResolvedValue([]),
+  clear: vi.fn(),
+});
+
+const createResponse = (
+  content: string,
+  toolCalls?: Array<{ id: string; name: string; arguments: string }>
+): ChatResponse => ({
+  id: 'resp',
+  object: 'chat.completion',
+  created: 0,
+  model: 'mock',
+  choices: [
+    {
+      index: 0,
+      message: {
+        id: 'msg',
+        role: 'assistant',
+        content,
+        timestamp: 0,
+        toolCalls: toolCalls?.map(c => ({
+          id: c.id,
+          type: 'function' as const,
+          function: { name: c.name, arguments: c.arguments },
+        })),
+      },
+      finishReason: toolCalls ? 'tool_calls' : 'stop',
+    },
+  ],
+  usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+});
+
+describe('ReActEngine', () => {
+  describe('Native Tool Calling', () => {
+    it('should execute tool_calls and feed results back as tool messages', async () => {
+      const requests: ChatRequest[] = [];
+      const responses = [
+        createResponse('Looking up the weather', [
+          { id: 'call_1', name: 'weather', arguments: '{"city":"Paris"}' },
+        ]),
+        createResponse('It is sunny in Paris.'),
+      ];
+      const llm: LLMService = {
+        complete: vi.fn(async (request: ChatRequest) => {
+          requests.push({ ...request, messages: [...request.messages] });
+          return responses.shift()!;
+        }),
+        completeStream: vi.fn(),
+      };
+
+      const tools = new ToolRegistry();
+      const execute = vi.fn().mockResolvedValue({ success: true, data: { forecast: 'sunny' } });
+      tools.register({
+        id: 'weather',
+        name: 'weather',
+        description: 'Get the weather for a city',
+        category: 'network',
+        parameters: z.object({ city: z.string() }),
+        execute,
+      });
+
+      const engine = createReActEngine({
+        llm,
+        tools,
+        skills: new SkillRegistryImpl() as never,
+        memory: createMemory(),
+        logger: createLogger(),
+        config: { toolCallingMode: 'native', enableReflection: false, enableDynamicSkillSelection: false },
+      });
+
+      const result = await engine.think('Weather in Paris?', { agentId: 'agent', executionId: 'exec-1' });
+
+      expect(result.success).toBe(true);
+      expect(result.answer).toBe('It is sunny in Paris.');
+      expect(llm.complete).toHaveBeenCalledTimes(2);
+      expect(execute).toHaveBeenCalledWith({ city: 'Paris' }, expect.anything());
+
+      expect(requests[0].tools?.[0].function).toMatchObject({
+        name: 'weather',
+        parameters: { type: 'object', properties: { city: { type: 'string' } } },
+      });
+
+      const followUp = requests[1].messages;
+      expect(followUp[followUp.length - 2]).toMatchObject({ role: 'assistant', toolCalls: [{ id: 'call_1' }] });
+      expect(followUp[followUp.length - 1]).toMatchObject({
+        role: 'tool',
+        toolCallId: 'call_1',
+        content: JSON.stringify({ forecast: 'sunny' }),
+      });
+    });
+
+    it('should report invalid tool arguments back to the model', async () => {
+      const requests: ChatRequest[] = [];
+      const responses = [
+        createResponse('', [{ id: 'call_1', name: 'weather', arguments: '{city:' }]),
+        createResponse('Done.'),
+      ];
+      const llm: LLMService = {
+        complete: vi.fn(async (request: ChatRequest) => {
+          requests.push({ ...request, messages: [...request.messages] });
+          return responses.shift()!;
+        }),
+        completeStream: vi.fn(),
+      };
+
+      const engine = createReActEngine({
+        llm,
+        tools: new ToolRegistry(),
+        skills: new SkillRegistryImpl() as never,
+        memory: createMemory(),
+        logger: createLogger(),
+        config: { toolCallingMode: 'native', enableReflection: false, enableDynamicSkillSelection: false },
+      });
+
+      const result = await engine.think('Weather?', { agentId: 'agent', executionId: 'exec-2' });
+
+      expect(result.answer).toBe('Done.');
+      const lastMessage = requests[1].messages[requests[1].messages.length - 1];
+      expect(lastMessage.role).toBe('tool');
+      expect(lastMessage.content).toContain('Invalid JSON arguments');
+    });
+
+    it('should feed schema validation errors with field paths back to the model', async () => {
+      const requests: ChatRequest[] = [];
+      const responses = [
+        createResponse('', [{ id: 'call_1', name: 'weather', arguments: '{"city":42}' }]),
+        createResponse('', [{ id: 'call_2', name: 'weather', arguments: '{"city":"Paris"}' }]),
+        createResponse('Sunny.'),
+      ];
+      const llm: LLMService = {
+        complete: vi.fn(async (request: ChatRequest) => {
+          requests.push({ ...request, messages: [...request.messages] });
+          return responses.shift()!;
+        }),
+        completeStream: vi.fn(),
+      };
+
+      const tools = new ToolRegistry();
+      const execute = vi.fn().mockResolvedValue({ success: true, data: { forecast: 'sunny' } });
+      tools.register({
+        id: 'weather-tool',
+        name: 'weather',
+        description: 'Get the weather for a city',
+        category: 'network',
+        parameters: z.object({ city: z.string() }),
+        execute,
+      });
+
+      const engine = createReActEngine({
+        llm,
+        tools,
+        skills: new SkillRegistryImpl() as never,
+        memory: createMemory(),
+        logger: createLogger(),
+        config: { toolCallingMode: 'native', enableReflection: false, enableDynamicSkillSelection: false },
+      });
+
+      const result = await engine.think('Weather?', { agentId: 'agent', executionId: 'exec-3' });
+
+      expect(result.answer).toBe('Sunny.');
+      const feedback = requests[1].messages[requests[1].messages.length - 1];
+      expect(feedback.role).toBe('tool');
+      expect(feedback.content).toContain('Error [TOOL_INPUT_INVALID]');
+      expect(feedback.content).toContain('- city:');
+      expect(execute).toHaveBeenCalledTimes(1);
+      expect(execute).toHaveBeenCalledWith({ city: 'Paris' }, expect.anything());
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should pass the caller signal to tools and stop when aborted', async () => {
+      const controller = new AbortController();
+      const llm: LLMService = {
+        complete: vi.fn(async () =>
+          createResponse('', [{ id: 'call_1', name: 'slow', arguments: '{}' }])
+        ),
+        completeStream: vi.fn(),
+      };
+
+      const tools = new ToolRegistry();
+      const execute = vi.fn((_input: unknown, _context: { signal?: AbortSignal }) => {
+        controller.abort();
+        return new Promise<never>(() => {});
+      });
+      tools.register({
+        id: 'slow',
+        name: 'slow',
+        description: 'Never finishes on its own',
+        category: 'system',
+        parameters: z.object({}),
+        execute,
+      });
+
+      const engine = createReActEngine({
+        llm,
+        tools,
+        skills: new SkillRegistryImpl() as never,
+        memory: createMemory(),
+        logger: createLogger(),
+        config: { toolCallingMode: 'native', enableReflection: false, enableDynamicSkillSelection: false },
+      });
+
+      const result = await engine.think('Go', {
+        agentId: 'agent',
+        executionId: 'exec-3',
+        signal: controller.signal,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('aborted');
+      expect(llm.complete).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(llm.complete).mock.calls[0][0].signal?.aborted).toBe(true);
+      expect(execute.mock.calls[0][1].signal?.aborted).toBe(true);
+    });
+  });
+});
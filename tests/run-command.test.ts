@@ -0,0 +1,128 @@
+// @vitest-environment node
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PassThrough, Readable } from 'stream';
+import { EventEmitter } from 'events';
+import { runRunCommand, type RunAgent, type RunAgentConfig } from '../src/tui/run-command.js';
+import type { ChatRequest } from '../src/core/domain/agent.js';
+
+function createIO(input?: string) {
+  const stdin = input === undefined ? Object.assign(new PassThrough(), { isTTY: true }) : Readable.from([input]);
+  const stdout = new PassThrough();
+  const stderr = new PassThrough();
+  const read = (stream: PassThrough): string => (stream.read() as Buffer | null)?.toString() ?? '';
+  return { stdin, stdout, stderr, out: () => read(stdout), err: () => read(stderr) };
+}
+
+function createFakeAgent(reply: string | Error) {
+  const requests: ChatRequest[] = [];
+  const configs: RunAgentConfig[] = [];
+  const emitter = new EventEmitter();
+  const agent = {
+    on: emitter.on.bind(emitter),
+    off: emitter.off.bind(emitter),
+    destroy: vi.fn(async () => undefined),
+    executeSkill: vi.fn(async (_skill: string, input: string) => ({ success: true, data: { words: input.split(' ').length } })),
+    chat: vi.fn(async (request: ChatRequest) => {
+      requests.push(request);
+      if (reply instanceof Error) throw reply;
+      return {
+        choices: [{ index: 0, message: { role: 'assistant', content: reply }, finishReason: 'stop' }],
+        usage: { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 },
+      };
+    }),
+    chatStream: async function* (request: ChatRequest) {
+      requests.push(request);
+      emitter.emit('*', { type: 'chat:started', timestamp: 0, payload: { messageCount: request.messages.length }, metadata: { agentId: 'a' } });
+      for (const word of (reply as string).split(' ')) {
+        yield { choices: [{ index: 0, delta: { content: `${word} ` }, finishReason: null }] };
+      }
+      yield { choices: [{ index: 0, delta: {}, finishReason: 'stop' }], usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } };
+    },
+  };
+  const createAgent = async (config: RunAgentConfig) => {
+    configs.push(config);
+    return agent as unknown as RunAgent;
+  };
+  return { agent, requests, configs, createAgent };
+}
+
+describe('sdkwork run', () => {
+  let configDir: string | undefined;
+
+  afterEach(() => {
+    if (configDir) rmSync(configDir, { recursive: true, force: true });
+    configDir = undefined;
+  });
+
+  it('should combine the prompt with stdin, stream jsonl events and continue a saved session', async () => {
+    configDir = mkdtempSync(join(tmpdir(), 'sdkwork-run-'));
+    const env = { DEEPSEEK_API_KEY: 'sk-test' };
+
+    const first = createFakeAgent('Fix the null check');
+    const io = createIO('TypeError: x is undefined\n');
+    const code = await runRunCommand(['Explain this error', '-p', 'deepseek', '--session', 'ci', '-o', 'jsonl'], {
+      ...io, env, configDir, createAgent: first.createAgent,
+    });
+
+    expect(code).toBe(0);
+    expect(first.configs[0].llm).toMatchObject({ provider: 'deepseek', apiKey: 'sk-test', model: 'deepseek-chat' });
+    expect(first.requests[0].messages.map(message => message.content)).toEqual(['Explain this error\n\nTypeError: x is undefined']);
+
+    const events = io.out().trim().split('\n').map(line => JSON.parse(line) as Record<string, unknown>);
+    expect(events.map(event => event.type)).toEqual(['start', 'event', 'delta', 'delta', 'delta', 'delta', 'result']);
+    expect(events.at(-1)).toMatchObject({ success: true, content: 'Fix the null check ', usage: { totalTokens: 15 } });
+    expect(first.agent.destroy).toHaveBeenCalled();
+
+    const second = createFakeAgent('Done');
+    const next = createIO();
+    expect(await runRunCommand(['And now?', '-p', 'deepseek', '--session', 'ci'], { ...next, env, configDir, createAgent: second.createAgent })).toBe(0);
+    expect(next.out()).toBe('Done \n');
+    expect(second.requests[0].messages.map(message => message.role)).toEqual(['user', 'assistant', 'user']);
+
+    const saved = JSON.parse(readFileSync(join(configDir, 'sessions', 'session-ci.json'), 'utf-8'));
+    expect(saved).toMatchObject({ id: 'session-ci', name: 'ci', model: 'deepseek-chat' });
+    expect(saved.messages).toHaveLength(4);
+  });
+
+  it('should print a single json result with cost and run skills with the prompt as input', async () => {
+    configDir = mkdtempSync(join(tmpdir(), 'sdkwork-run-'));
+    const env = { OPENAI_API_KEY: 'sk-test' };
+
+    const chat = createFakeAgent('42');
+    const io = createIO();
+    expect(await runRunCommand(['-m', 'gpt-5', '-o', 'json', 'What is the answer?'], { ...io, env, configDir, createAgent: chat.createAgent })).toBe(0);
+    expect(JSON.parse(io.out())).toMatchObject({ success: true, content: '42', model: 'gpt-5', usage: { totalTokens: 1_000_000, cost: 2.5 } });
+
+    const skill = createFakeAgent('unused');
+    const skillIO = createIO();
+    expect(await runRunCommand(['count these words', '--skill', 'word-count'], { ...skillIO, env, configDir, createAgent: skill.createAgent })).toBe(0);
+    expect(skill.configs[0].skill).toBe('word-count');
+    expect(skill.agent.executeSkill).toHaveBeenCalledWith('word-count', 'count these words', { sessionId: undefined, signal: expect.any(AbortSignal) });
+    expect(JSON.parse(skillIO.out())).toEqual({ words: 3 });
+  });
+
+  it('should exit non-zero for usage errors and failed runs', async () => {
+    configDir = mkdtempSync(join(tmpdir(), 'sdkwork-run-'));
+
+    const missingKey = createIO();
+    expect(await runRunCommand(['hi'], { ...missingKey, env: {}, configDir })).toBe(2);
+    expect(missingKey.err()).toContain('API Key');
+
+    const noPrompt = createIO();
+    expect(await runRunCommand(['-o', 'json'], { ...noPrompt, env: { OPENAI_API_KEY: 'sk' }, configDir })).toBe(2);
+
+    mkdirSync(join(configDir, 'sessions'));
+    writeFileSync(join(configDir, 'sessions', 'session-broken.json'), '{"id":');
+    const corrupt = createIO();
+    expect(await runRunCommand(['hi', '--session', 'broken'], { ...corrupt, env: { OPENAI_API_KEY: 'sk' }, configDir })).toBe(2);
+    expect(corrupt.err()).toContain('session-broken.json');
+
+    const failing = createFakeAgent(new Error('rate limited'));
+    const io = createIO();
+    expect(await runRunCommand(['hi', '-o', 'json'], { ...io, env: { OPENAI_API_KEY: 'sk' }, configDir, createAgent: failing.createAgent })).toBe(1);
+    expect(JSON.parse(io.out())).toMatchObject({ success: false, error: 'rate limited' });
+  });
+});
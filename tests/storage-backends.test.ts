@@ -0,0 +1,172 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  MemoryBackend,
+  SqliteBackend,
+  createStorageManager,
+  isSqliteAvailable,
+  type BackendConfig,
+  type IStorageBackend,
+} from '../src/storage/index.js';
+
+const sqliteAvailable = await isSqliteAvailable();
+
+function config(options: Record<string, unknown> = {}): BackendConfig {
+  return { enabled: true, priority: 0, options: { pollInterval: 10, ...options } };
+}
+
+function waitFor(predicate: () => boolean, timeout = 2000): Promise<void> {
+  const started = Date.now();
+  return new Promise((resolve, reject) => {
+    const check = () => {
+      if (predicate()) return resolve();
+      if (Date.now() - started > timeout) return reject(new Error('Timed out waiting for condition'));
+      setTimeout(check, 10);
+    };
+    check();
+  });
+}
+
+function describeBackend(name: string, create: () => IStorageBackend, enabled = true) {
+  describe.skipIf(!enabled)(`${name} backend`, () => {
+    let backend: IStorageBackend;
+
+    afterEach(async () => {
+      await backend?.close();
+    });
+
+    async function open() {
+      backend = create();
+      await backend.initialize();
+      return backend;
+    }
+
+    it('should store files with metadata and implicit parent directories', async () => {
+      const storage = await open();
+      await storage.writeFile('docs/guide/intro.md', '# Intro');
+
+      expect(await storage.readFile('docs/guide/intro.md', { encoding: 'utf-8' })).toBe('# Intro');
+      expect(await storage.readFile('/docs/guide/intro.md', { encoding: 'utf-8', start: 2, end: 4 })).toBe('Int');
+      expect(await storage.exists('docs/guide')).toBe(true);
+
+      const stat = await storage.stat('docs/guide/intro.md');
+      expect(stat).toMatchObject({ path: 'docs/guide/intro.md', size: 7, isFile: true, mimeType: 'text/markdown' });
+      expect(stat?.hash).toHaveLength(64);
+
+      const listing = await storage.listDirectory('docs', { recursive: true });
+      expect(listing.map(entry => entry.path)).toEqual(['docs/guide', 'docs/guide/intro.md']);
+      await expect(storage.readFile('missing.txt')).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+
+    it('should move, copy and delete directories', async () => {
+      const storage = await open();
+      await storage.writeFile('a/one.txt', '1');
+      await storage.writeFile('a/b/two.txt', '2');
+
+      await storage.move('a', 'c');
+      await storage.copy('c/one.txt', 'c/one-copy.txt');
+      expect(await storage.exists('a/one.txt')).toBe(false);
+      expect(await storage.readFile('c/b/two.txt', { encoding: 'utf-8' })).toBe('2');
+      expect((await storage.listDirectory('c')).map(entry => entry.path)).toEqual(['c/b', 'c/one-copy.txt', 'c/one.txt']);
+
+      await expect(storage.deleteDirectory('c', false)).rejects.toMatchObject({ code: 'ENOTEMPTY' });
+      await storage.deleteDirectory('c');
+      expect(await storage.getStats()).toEqual({ size: 0, count: 0 });
+    });
+
+    it('should compress and encrypt content transparently', async () => {
+      const storage = await open();
+      const text = 'compressible '.repeat(100);
+      await storage.writeFile('data.txt', text, { compress: true, encrypt: true });
+
+      expect(await storage.readFile('data.txt', { encoding: 'utf-8' })).toBe(text);
+      const stat = await storage.stat('data.txt');
+      expect(stat).toMatchObject({ size: text.length, encrypted: true });
+      expect(stat!.compressedSize!).toBeLessThan(text.length);
+    });
+
+    it('should roll back failed transactions atomically', async () => {
+      const storage = await open();
+      await storage.writeFile('keep.txt', 'original');
+
+      await expect(
+        storage.applyTransaction!([
+          { type: 'write', source: 'keep.txt', content: 'changed' },
+          { type: 'write', source: 'new.txt', content: 'new' },
+          { type: 'delete', source: 'missing.txt' },
+        ])
+      ).rejects.toMatchObject({ code: 'ENOENT' });
+
+      expect(await storage.readFile('keep.txt', { encoding: 'utf-8' })).toBe('original');
+      expect(await storage.exists('new.txt')).toBe(false);
+    });
+
+    it('should notify watchers of changes under a directory', async () => {
+      const storage = await open();
+      await storage.createDirectory('watched');
+      const events: string[] = [];
+      const stop = await storage.watch('watched', { recursive: true }, (event, path) => events.push(`${event} ${path}`));
+
+      await storage.writeFile('watched/a.txt', 'a');
+      await storage.writeFile('watched/a.txt', 'b');
+      await storage.writeFile('other.txt', 'ignored');
+      await storage.deleteFile('watched/a.txt');
+
+      await waitFor(() => events.length >= 3);
+      stop();
+      expect(events).toEqual(['add watched/a.txt', 'change watched/a.txt', 'unlink watched/a.txt']);
+    });
+  });
+}
+
+describeBackend('memory', () => new MemoryBackend(config({ encryptionKey: 'secret' })));
+describeBackend('sqlite', () => new SqliteBackend(config({ encryptionKey: 'secret' })), sqliteAvailable);
+
+describe.skipIf(!sqliteAvailable)('SQLite persistence', () => {
+  it('should persist files in a single database file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'sdkwork-sqlite-'));
+    try {
+      const filename = join(dir, 'store.db');
+      const first = new SqliteBackend(config({ filename }));
+      await first.initialize();
+      await first.writeFile('notes/today.md', 'persisted');
+      await first.close();
+
+      const second = new SqliteBackend(config({ filename }));
+      await second.initialize();
+      expect(await second.readFile('notes/today.md', { encoding: 'utf-8' })).toBe('persisted');
+      await second.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('StorageManager backends', () => {
+  it('should initialize the memory backend and commit queued transactions', async () => {
+    const manager = createStorageManager('/tmp', {
+      defaultBackend: 'memory',
+      backends: {
+        filesystem: { enabled: false, priority: 1, options: {} },
+        sqlite: { enabled: false, priority: 2, options: {} },
+        redis: { enabled: false, priority: 3, options: {} },
+        s3: { enabled: false, priority: 4, options: {} },
+        memory: { enabled: true, priority: 0, options: {} },
+      },
+    });
+    await manager.initialize();
+
+    const transaction = await manager.beginTransaction();
+    transaction.operations.push(
+      { type: 'write', source: 'a.txt', content: 'A' },
+      { type: 'move', source: 'a.txt', target: 'b.txt' }
+    );
+    await transaction.commit();
+
+    expect(await manager.readFile('b.txt', { encoding: 'utf-8' })).toBe('A');
+    expect(await manager.exists('a.txt')).toBe(false);
+    await manager.close();
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ToolRegistry, ApprovalPolicy, createApprovalPreview, type Tool, type ExecutionContext } from '../src/tools/index.js';
+import { ToolExecutorImpl } from '../src/core/application/tool-executor.js';
+import { AgentImpl } from '../src/core/application/agent-impl.js';
+import { createEventBus, type UnifiedEvent } from '../src/agent/domain/events.js';
+import type { ToolApprovalPayload } from '../src/tools/approval.js';
+
+const shellTool: Tool = {
+  id: 'system:execute',
+  name: 'execute_command',
+  description: 'Run a shell command',
+  category: 'system',
+  parameters: z.object({ command: z.string() }),
+  execute: async (input) => ({ success: true, data: `ran ${(input as { command: string }).command}` }),
+  metadata: { requiresConfirmation: true },
+};
+
+const echoTool: Tool = {
+  id: 'data:echo',
+  name: 'echo',
+  description: 'Echo input',
+  category: 'data',
+  parameters: z.object({ text: z.string() }),
+  execute: async (input) => ({ success: true, data: input }),
+};
+
+function createContext(sessionId = 'session-1'): ExecutionContext {
+  return {
+    agentId: 'agent-1',
+    sessionId,
+    executionId: `exec-${Math.random()}`,
+    toolId: 'system:execute',
+    toolName: 'execute_command',
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  };
+}
+
+function createRegistry(policy: ApprovalPolicy): ToolRegistry {
+  const registry = new ToolRegistry({ approval: policy });
+  registry.register(shellTool);
+  registry.register(echoTool);
+  return registry;
+}
+
+describe('Tool approval', () => {
+  it('should deny tools requiring confirmation when no handler is configured', async () => {
+    const registry = createRegistry(new ApprovalPolicy());
+
+    const denied = await registry.execute('system:execute', { command: 'ls' }, createContext());
+    expect(denied.success).toBe(false);
+    expect(denied.error).toMatchObject({ code: 'TOOL_APPROVAL_DENIED', details: { decision: 'deny', source: 'default' } });
+
+    const allowed = await registry.execute('data:echo', { text: 'hi' }, createContext());
+    expect(allowed.success).toBe(true);
+
+    // 未配置审批策略的注册表同样拒绝
+    const unconfigured = new ToolRegistry();
+    unconfigured.register(shellTool);
+    unconfigured.register(echoTool);
+    const unattended = await unconfigured.execute('system:execute', { command: 'rm -rf /' }, createContext());
+    expect(unattended.error).toMatchObject({ code: 'TOOL_APPROVAL_DENIED', details: { decision: 'deny', source: 'default' } });
+    expect((await unconfigured.execute('data:echo', { text: 'hi' }, createContext())).success).toBe(true);
+  });
+
+  it('should apply per-tool and per-argument rules in order', async () => {
+    const handler = vi.fn();
+    const registry = createRegistry(new ApprovalPolicy({
+      handler,
+      rules: [
+        { tool: 'execute_command', args: { command: 'rm *' }, decision: 'deny', reason: 'Destructive command' },
+        { tool: 'execute_command', args: { command: /^(ls|pwd)\b/ }, decision: 'allow' },
+        { tool: 'data:*', decision: 'deny' },
+      ],
+    }));
+
+    const rm = await registry.execute('system:execute', { command: 'rm -rf /tmp/x' }, createContext());
+    expect(rm.error?.message).toBe('Tool execution denied: execute_command (Destructive command)');
+
+    const ls = await registry.execute('system:execute', { command: 'ls -la' }, createContext());
+    expect(ls.data).toBe('ran ls -la');
+
+    const echo = await registry.execute('data:echo', { text: 'hi' }, createContext());
+    expect(echo.error?.code).toBe('TOOL_APPROVAL_DENIED');
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should ask the handler, remember allow-session and publish audit events', async () => {
+    const eventBus = createEventBus();
+    const events: Array<UnifiedEvent<ToolApprovalPayload>> = [];
+    eventBus.subscribe<ToolApprovalPayload>(['tool:approval:requested', 'tool:approval:decided'], event => {
+      events.push(event);
+    });
+
+    const handler = vi.fn().mockResolvedValue('allow-session');
+    const registry = createRegistry(new ApprovalPolicy({ handler, eventBus }));
+
+    await registry.execute('system:execute', { command: 'npm test' }, createContext());
+    const second = await registry.execute('system:execute', { command: 'npm run build' }, createContext());
+    expect(second.success).toBe(true);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({ tool: { name: 'execute_command' }, preview: '$ npm test' });
+
+    // 新会话需要重新审批
+    handler.mockResolvedValueOnce({ decision: 'deny', reason: 'Not now' });
+    const other = await registry.execute('system:execute', { command: 'npm test' }, createContext('session-2'));
+    expect(other.error?.message).toContain('Not now');
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    expect(events.map(event => [event.type, event.payload.result?.source])).toEqual([
+      ['tool:approval:requested', undefined],
+      ['tool:approval:decided', 'user'],
+      ['tool:approval:decided', 'session'],
+      ['tool:approval:requested', undefined],
+      ['tool:approval:decided', 'user'],
+    ]);
+    expect(events[1].metadata).toMatchObject({ agentId: 'agent-1', sessionId: 'session-1' });
+  });
+
+  it('should not let a session grant bypass stricter argument rules', async () => {
+    const handler = vi.fn().mockResolvedValue('allow-session');
+    const registry = createRegistry(new ApprovalPolicy({
+      handler,
+      rules: [{ tool: 'execute_command', args: { command: 'rm *' }, decision: 'ask', reason: 'Destructive command' }],
+    }));
+
+    await registry.execute('system:execute', { command: 'npm test' }, createContext());
+    await registry.execute('system:execute', { command: 'rm -rf /tmp/x' }, createContext());
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    // 规则命中的授权只覆盖同一规则
+    await registry.execute('system:execute', { command: 'rm -rf /tmp/y' }, createContext());
+    await registry.execute('system:execute', { command: 'npm run build' }, createContext());
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it('should publish approval events on the agent event bus', async () => {
+    const policy = new ApprovalPolicy({ handler: vi.fn().mockResolvedValue('allow') });
+    const agent = new AgentImpl({ name: 'approver', llm: { provider: 'openai', apiKey: 'test' }, toolApproval: policy });
+    expect(policy.getEventBus()).toBe(agent.eventBus);
+
+    const decided = vi.fn();
+    agent.on('tool:approval:decided', decided);
+    await policy.check({ tool: { id: 'system:execute', name: 'execute_command', requiresConfirmation: true }, input: {} });
+    expect(decided).toHaveBeenCalledTimes(1);
+  });
+
+  it('should preview file writes as a diff', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'approval-'));
+    try {
+      const path = join(dir, 'notes.txt');
+      writeFileSync(path, 'one\ntwo\nthree\nfour\nfive\nsix\nseven');
+
+      const preview = createApprovalPreview(
+        { id: 'fs:write', name: 'file_write' },
+        { path, content: 'one\ntwo\nthree\nfour\nfive\nsix\nSEVEN' }
+      );
+      expect(preview).toBe([
+        `--- ${path}`,
+        `+++ ${path}`,
+        '@@ 4 unchanged lines @@',
+        ' five',
+        ' six',
+        '-seven',
+        '+SEVEN',
+      ].join('\n'));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should resolve preview paths against the workspace root', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'approval-'));
+    try {
+      writeFileSync(join(dir, 'notes.txt'), 'one\ntwo');
+      const write = { path: 'notes.txt', content: 'one\nTWO' };
+
+      expect(createApprovalPreview({ id: 'fs:write', name: 'file_write' }, write, { root: dir })).toBe(
+        ['--- notes.txt', '+++ notes.txt', ' one', '-two', '+TWO'].join('\n')
+      );
+
+      const handler = vi.fn().mockResolvedValue('deny');
+      const policy = new ApprovalPolicy({ handler, workspaceRoot: dir });
+      await policy.check({ tool: { id: 'fs:write', name: 'file_write', requiresConfirmation: true }, input: write });
+      expect(handler.mock.calls[0][0].preview).toContain('-two');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should gate the core tool executor', async () => {
+    const executor = new ToolExecutorImpl({
+      approval: new ApprovalPolicy({ rules: [{ tool: 'delete_file', decision: 'deny', reason: 'Blocked' }] }),
+    });
+    const execute = vi.fn();
+    const result = await executor.execute(
+      { id: 'delete', name: 'delete_file', description: 'Delete a file', category: 'file', confirm: 'destructive', execute },
+      {},
+      { executionId: 'e1', agentId: 'a1', toolId: 'delete', toolName: 'delete_file', logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } }
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toBe('Tool execution denied: Blocked');
+    expect(execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { ToolRegistry, fileReadTool, type ExecutionContext } from '../src/tools/index.js';
+
+const context: ExecutionContext = {
+  agentId: 'agent-1',
+  executionId: 'exec-1',
+  toolId: 'test',
+  toolName: 'test',
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+};
+
+describe('ToolRegistry validation', () => {
+  it('should apply schema defaults and resolve tools by name', async () => {
+    const registry = new ToolRegistry();
+    const execute = vi.fn().mockResolvedValue({ success: true, data: 'ok' });
+    registry.register({ ...fileReadTool, execute });
+
+    const result = await registry.execute('file_read', { path: '/tmp/a.txt' }, context);
+
+    expect(result.success).toBe(true);
+    expect(execute).toHaveBeenCalledWith({ path: '/tmp/a.txt', encoding: 'utf-8' }, context);
+  });
+
+  it('should return structured errors with field paths for invalid input', async () => {
+    const registry = new ToolRegistry();
+    const execute = vi.fn();
+    registry.register({
+      id: 'data:order',
+      name: 'create_order',
+      description: 'Create an order',
+      category: 'data',
+      parameters: z.object({
+        customer: z.string(),
+        items: z.array(z.object({ sku: z.string(), quantity: z.number().int().positive() })),
+      }),
+      execute,
+    });
+
+    const result = await registry.execute('data:order', { items: [{ sku: 'A1', quantity: 0 }] }, context);
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    expect(result.error).toMatchObject({ code: 'TOOL_INPUT_INVALID', recoverable: true });
+    const issues = result.error?.details?.issues as Array<{ path: string }>;
+    expect(issues.map(issue => issue.path)).toEqual(['customer', 'items[0].quantity']);
+    expect(result.error?.message).toMatch(/^Invalid input for tool create_order: customer: .+; items\[0\]\.quantity: /);
+  });
+
+  it('should validate declared output schemas', async () => {
+    const registry = new ToolRegistry();
+    const tool = {
+      id: 'data:stats',
+      name: 'stats',
+      description: 'Compute stats',
+      category: 'data' as const,
+      parameters: z.object({}),
+      outputSchema: z.object({ mean: z.number() }),
+      execute: vi.fn().mockResolvedValue({ success: true, data: { mean: 'high' } }),
+    };
+    registry.register(tool);
+
+    const invalid = await registry.execute('data:stats', {}, context);
+    expect(invalid.error).toMatchObject({ code: 'TOOL_OUTPUT_INVALID', recoverable: false });
+
+    tool.execute.mockResolvedValue({ success: true, data: { mean: 2.5 } });
+    const valid = await registry.execute('data:stats', {}, context);
+    expect(valid).toMatchObject({ success: true, data: { mean: 2.5 } });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { createAgent, ReasonSkill } from '../src/agent/agent.js';
+import { ToolRegistry } from '../src/tools/registry.js';
+import { SkillRegistryImpl } from '../src/agent/skills/registry.js';
+import { UsageLedger, findModelPricing } from '../src/llm/usage-ledger.js';
+import type { ChatMessage, ChatResponse, LLMService } from '../src/agent/domain/types.js';
+
+const createLogger = () => ({ debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() });
+
+const createMemory = () => ({
+  store: vi.fn().mockResolvedValue(undefined),
+  retrieve: vi.fn(),
+  search: vi.fn().mockResolvedValue([]),
+  semanticSearch: vi.fn().mockResolvedValue([]),
+  getRecent: vi.fn().mockResolvedValue([]),
+  clear: vi.fn(),
+});
+
+const toolCallResponse = (id: string, promptTokens: number, completionTokens: number): ChatResponse => ({
+  id: 'resp',
+  object: 'chat.completion',
+  created: 0,
+  model: 'gpt-5',
+  choices: [
+    {
+      index: 0,
+      message: {
+        id: 'msg',
+        role: 'assistant',
+        content: `Searching (${id})`,
+        timestamp: 0,
+        toolCalls: [{ id, type: 'function', function: { name: 'search', arguments: '{"query":"refund policy"}' } }],
+      },
+      finishReason: 'tool_calls',
+    },
+  ],
+  usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+});
+
+describe('UsageLedger', () => {
+  it('should price calls from the model catalogue and aggregate by scope', () => {
+    const ledger = new UsageLedger();
+    ledger.record({ model: 'gpt-5', usage: { promptTokens: 1_000_000, completionTokens: 100_000 }, scope: { sessionId: 'a', step: 1 } });
+    ledger.record({ model: 'openai/gpt-5', usage: { promptTokens: 0, completionTokens: 0 }, estimate: () => ({ promptTokens: 40, completionTokens: 10 }), scope: { sessionId: 'b', step: 1 } });
+    ledger.record({ model: 'in-house-model', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }, scope: { sessionId: 'a', step: 2 } });
+
+    expect(findModelPricing('gpt-5')).toEqual({ inputPrice: 2.5, outputPrice: 10 });
+    expect(ledger.totals({ sessionId: 'a' })).toMatchObject({ calls: 2, totalTokens: 1_100_015, cost: 3.5, unpricedCalls: 1 });
+    expect(ledger.records({ sessionId: 'b' })[0]).toMatchObject({ estimated: true, totalTokens: 50 });
+    expect(ledger.breakdown('step', { sessionId: 'a' }).map(entry => entry.key)).toEqual(['1', '2']);
+    expect(ledger.breakdown('model').map(entry => entry.key)).toEqual(['gpt-5', 'openai/gpt-5', 'in-house-model']);
+  });
+
+  it('should carry persisted session usage into session budgets', () => {
+    const ledger = new UsageLedger({ budgets: { session: { maxCost: 1 } } });
+
+    expect(ledger.restoreSession('s', { totalTokens: 1000, cost: 0.99 })).toBe(true);
+    expect(ledger.checkBudgets({ sessionId: 's' })).toBeNull();
+
+    ledger.record({ model: 'gpt-5', usage: { promptTokens: 4000, completionTokens: 0 }, scope: { sessionId: 's' } });
+    expect(ledger.restoreSession('s', { cost: 0 })).toBe(false);
+    expect(ledger.checkBudgets({ sessionId: 's' })).toMatchObject({ scope: 'session', metric: 'cost', limit: 1 });
+  });
+});
+
+describe('Agent usage budgets', () => {
+  it('should report provider usage and stop a run gracefully when the token budget is spent', async () => {
+    const responses = [toolCallResponse('call_1', 500, 100), toolCallResponse('call_2', 700, 100), toolCallResponse('call_3', 900, 100)];
+    const llm: LLMService = { complete: vi.fn(async () => responses.shift()!), completeStream: vi.fn() };
+
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.register({
+      id: 'search',
+      name: 'search',
+      description: 'Search the help center',
+      category: 'data',
+      parameters: z.object({ query: z.string() }),
+      execute: async () => ({ success: true, data: 'Refunds within 30 days' }),
+    });
+
+    const usageLedger = new UsageLedger({ budgets: { run: { maxTokens: 1000 } } });
+    const agent = createAgent({
+      name: 'Support',
+      llm,
+      memory: createMemory(),
+      logger: createLogger(),
+      toolRegistry,
+      toolCallingMode: 'native',
+      enableDynamicSkillSelection: false,
+      enableReflection: false,
+      usageLedger,
+    });
+    const exceeded = vi.fn();
+    agent.on('thinking:budget:exceeded', exceeded);
+
+    const response = await agent.chat({
+      sessionId: 'budget',
+      messages: [{ id: 'u1', role: 'user', content: 'What is the refund policy?', timestamp: 0 } as ChatMessage],
+    });
+
+    expect(llm.complete).toHaveBeenCalledTimes(2);
+    expect(response.choices[0].finishReason).toBe('length');
+    expect(response.usage).toEqual({ promptTokens: 1200, completionTokens: 200, totalTokens: 1400 });
+    expect(exceeded).toHaveBeenCalledWith(expect.objectContaining({ payload: expect.objectContaining({ scope: 'run', metric: 'tokens' }) }));
+
+    const usage = agent.getUsage({ sessionId: 'budget' });
+    expect(usage).toMatchObject({ calls: 2, totalTokens: 1400 });
+    expect(usage.cost).toBeCloseTo((1200 * 2.5 + 200 * 10) / 1e6);
+    expect(usageLedger.breakdown('step').map(entry => [entry.key, entry.totals.totalTokens])).toEqual([['2', 800], ['1', 600]]);
+    expect((await agent.getSession('budget'))?.usage).toMatchObject({ totalTokens: 1400 });
+  });
+
+  it('should meter skill model calls and stop them once the budget is spent', async () => {
+    const answer = { ...toolCallResponse('unused', 400, 200), choices: [{ index: 0, message: { id: 'm', role: 'assistant', content: 'Because.', timestamp: 0 }, finishReason: 'stop' }] } as ChatResponse;
+    const llm: LLMService = { complete: vi.fn(async () => answer), completeStream: vi.fn() };
+    const usageLedger = new UsageLedger({ budgets: { agent: { maxTokens: 500 } } });
+    const skillRegistry = new SkillRegistryImpl();
+    skillRegistry.register(ReasonSkill);
+    const agent = createAgent({ name: 'Thinker', llm, memory: createMemory(), logger: createLogger(), skillRegistry, usageLedger });
+
+    expect(await agent.executeSkill(ReasonSkill.id, { prompt: 'Why?' })).toMatchObject({ success: true, data: 'Because.' });
+    expect(agent.getUsage()).toMatchObject({ calls: 1, totalTokens: 600 });
+    expect(usageLedger.records()[0]).toMatchObject({ purpose: 'skill:reason', agentId: agent.id });
+
+    await expect(agent.executeSkill(ReasonSkill.id, { prompt: 'Why not?' })).resolves.toMatchObject({ success: false });
+    expect(llm.complete).toHaveBeenCalledTimes(1);
+  });
+});